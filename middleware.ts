@@ -59,7 +59,7 @@ export async function middleware(request: NextRequest) {
   }
 
   // Protected routes - check all dashboard paths
-  const protectedPaths = ['/dashboard', '/journal', '/goals', '/insights']
+  const protectedPaths = ['/dashboard', '/journal', '/goals', '/insights', '/settings']
   const isProtectedPath = protectedPaths.some(path =>
     request.nextUrl.pathname.startsWith(path)
   )
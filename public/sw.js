@@ -0,0 +1,306 @@
+// Service worker for The Momentum Journal
+// - Caches the app shell, visited pages and recent journal/goal reads so the app opens offline
+// - Queues journal and goal create/update requests made offline in IndexedDB and replays them
+//   with Background Sync (or when a page reports it is back online)
+// - Shows Web Push notifications sent by the reminder engine
+//
+// The queue database and message types are shared with src/lib/offline/sync-queue.ts
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `momentum-shell-${CACHE_VERSION}`
+const PAGES_CACHE = `momentum-pages-${CACHE_VERSION}`
+const API_CACHE = `momentum-api-${CACHE_VERSION}`
+const CACHES = [SHELL_CACHE, PAGES_CACHE, API_CACHE]
+
+const SHELL_URLS = ['/offline.html', '/logo.svg', '/manifest.webmanifest']
+
+const SYNC_TAG = 'momentum-sync'
+const QUEUE_DB = 'momentum-offline'
+const QUEUE_STORE = 'requests'
+
+// Writes that are queued instead of failing when the network is down
+const QUEUED_ROUTES = [
+  { method: 'POST', pattern: /^\/api\/(journals|goals)$/ },
+  { method: 'PATCH', pattern: /^\/api\/(journals|goals)\/[0-9a-f-]{36}$/ },
+]
+
+// Reads answered from the cache when the network is down
+const CACHED_API_ROUTE = /^\/api\/(journals|goals)(\/[0-9a-f-]{36})?$/
+
+// Replay responses worth retrying later; anything else is final
+const RETRY_STATUSES = [401, 408, 429]
+
+// ============================================
+// Queue (IndexedDB)
+// ============================================
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function runQueue(mode, operation) {
+  return openQueue().then((db) =>
+    new Promise((resolve, reject) => {
+      const request = operation(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).finally(() => db.close())
+  )
+}
+
+async function notifyClients(message) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  windows.forEach((client) => client.postMessage(message))
+}
+
+async function fetchOrQueue(request) {
+  const body = await request.clone().text()
+
+  try {
+    return await fetch(request)
+  } catch {
+    const url = new URL(request.url)
+    await runQueue('readwrite', (store) =>
+      store.add({
+        method: request.method,
+        url: url.pathname + url.search,
+        body,
+        createdAt: new Date().toISOString(),
+      })
+    )
+
+    if (self.registration.sync) {
+      await self.registration.sync.register(SYNC_TAG).catch(() => {})
+    }
+    await notifyClients({ type: 'sync-queue-changed' })
+
+    return new Response(JSON.stringify({ success: true, data: null, queued: true, error: null }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+async function replayQueuedRequests() {
+  const queued = await runQueue('readonly', (store) => store.getAll())
+  let synced = 0
+  let failed = 0
+
+  try {
+    for (const item of queued) {
+      // Throws while still offline, which keeps the rest queued for the next sync
+      const response = await fetch(item.url, {
+        method: item.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: item.body,
+        credentials: 'same-origin',
+      })
+
+      if (RETRY_STATUSES.includes(response.status) || response.status >= 500) {
+        throw new Error(`Replay of ${item.method} ${item.url} answered ${response.status}`)
+      }
+
+      await runQueue('readwrite', (store) => store.delete(item.id))
+
+      if (response.ok) {
+        synced++
+      } else {
+        failed++
+        const result = await response.json().catch(() => null)
+        await notifyClients({
+          type: 'sync-failed',
+          method: item.method,
+          url: item.url,
+          message: (result && result.error && result.error.message) || `Request failed (${response.status})`,
+        })
+      }
+    }
+  } finally {
+    if (synced > 0 || failed > 0) {
+      await notifyClients({ type: 'sync-complete', synced, failed })
+    }
+  }
+}
+
+// Sync events and page messages can overlap; run one replay at a time so nothing is sent twice
+let replaying = null
+
+function replayQueue() {
+  if (!replaying) {
+    replaying = replayQueuedRequests().finally(() => {
+      replaying = null
+    })
+  }
+  return replaying
+}
+
+// ============================================
+// Caching
+// ============================================
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request)
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(cacheName)
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function handleApiRead(request) {
+  try {
+    return await networkFirst(request, API_CACHE)
+  } catch {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        data: null,
+        error: { message: 'You are offline', status: 503, code: 'OFFLINE' },
+      }),
+      { status: 503, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+async function handleNavigation(request) {
+  try {
+    return await networkFirst(request, PAGES_CACHE)
+  } catch {
+    return (await caches.match('/offline.html')) || Response.error()
+  }
+}
+
+// ============================================
+// Lifecycle
+// ============================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('momentum-') && !CACHES.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.method !== 'GET') {
+    if (QUEUED_ROUTES.some((route) => route.method === request.method && route.pattern.test(url.pathname))) {
+      event.respondWith(fetchOrQueue(request))
+    }
+    return
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  } else if (CACHED_API_ROUTE.test(url.pathname)) {
+    event.respondWith(handleApiRead(request))
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  }
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayQueue())
+  }
+})
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {}
+
+  if (message.type === 'replay') {
+    event.waitUntil(replayQueue().catch(() => {}))
+  } else if (message.type === 'clear') {
+    // Signing out: drop the previous user's cached data and unsent changes
+    event.waitUntil(
+      Promise.all([
+        caches.delete(PAGES_CACHE),
+        caches.delete(API_CACHE),
+        runQueue('readwrite', (store) => store.clear()),
+      ]).then(() => notifyClients({ type: 'sync-queue-changed' }))
+    )
+  }
+})
+
+// ============================================
+// Push
+// ============================================
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { title: 'The Momentum Journal', body: event.data ? event.data.text() : '' }
+  }
+
+  const title = payload.title || 'The Momentum Journal'
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/logo.svg',
+      tag: payload.id,
+      data: { url: payload.url || '/dashboard' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin))
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url))
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,25 @@
+/**
+ * Generate a VAPID key pair for Web Push notifications
+ *
+ * Usage:
+ *   node scripts/generate-vapid-keys.js
+ * Then copy the output into .env.local.
+ */
+
+const crypto = require('crypto');
+
+const { privateKey: key } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const jwk = key.export({ format: 'jwk' });
+
+// Uncompressed P-256 point (0x04 || x || y), the format browsers expect
+const publicKey = Buffer.concat([
+  Buffer.from([4]),
+  Buffer.from(jwk.x, 'base64url'),
+  Buffer.from(jwk.y, 'base64url'),
+]).toString('base64url');
+const privateKey = jwk.d;
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
@@ -0,0 +1,80 @@
+/**
+ * Local webhook receiver for development
+ * Logs every delivery and checks its signature, so webhooks can be tried without a public URL.
+ *
+ * Usage:
+ *   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.js [port]
+ * Then register http://localhost:<port>/ as a webhook endpoint under Settings.
+ * Set FAIL_RATE=0.5 to answer half of the deliveries with 500 and watch the retries.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const port = Number(process.argv[2] || process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const failRate = Number(process.env.FAIL_RATE || 0);
+const toleranceSeconds = 5 * 60;
+
+if (!secret) {
+  console.warn('⚠️  WEBHOOK_SECRET is not set - signatures will not be checked');
+}
+
+function verifySignature(body, header) {
+  const parts = Object.fromEntries(
+    (header || '').split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return 'missing';
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return 'stale';
+
+  const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest();
+  const actual = Buffer.from(parts.v1, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+    ? 'valid'
+    : 'invalid';
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = secret ? verifySignature(body, req.headers['x-momentum-signature']) : 'unchecked';
+
+    let event;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      event = null;
+    }
+
+    console.log(
+      `\n📨 ${req.headers['x-momentum-event']} (delivery ${req.headers['x-momentum-delivery']}, signature ${signature})`
+    );
+    console.log(JSON.stringify(event, null, 2));
+
+    if (signature === 'invalid' || signature === 'stale' || signature === 'missing') {
+      res.writeHead(401).end('bad signature');
+      return;
+    }
+    if (Math.random() < failRate) {
+      console.log('💥 Simulating a failure (FAIL_RATE)');
+      res.writeHead(500).end('simulated failure');
+      return;
+    }
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🪝 Listening for webhooks on http://localhost:${port}/`);
+});
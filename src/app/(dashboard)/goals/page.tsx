@@ -35,7 +35,7 @@ interface GoalsApiResponse {
 
 // Hierarchy group type: a top-level unit for client-side pagination
 interface HierarchyGroup {
-  type: 'long-term-group' | 'unlinked-short-term'
+  type: 'long-term-group' | 'unlinked-short-term' | 'habit'
   parent?: Goal
   children: Goal[]
 }
@@ -127,6 +127,16 @@ export default function GoalsPage() {
         })
       })
 
+    // Habits stand on their own
+    allGoals
+      .filter((g) => g.type === 'habit')
+      .forEach((g) => {
+        groups.push({
+          type: 'habit',
+          children: [g],
+        })
+      })
+
     return groups
   }, [])
 
@@ -567,7 +577,7 @@ export default function GoalsPage() {
                   </div>
                 )
               }
-              // Unlinked short-term goal
+              // Unlinked short-term goal or habit
               const goal = group.children[0]
               return (
                 <GoalCard
@@ -575,7 +585,7 @@ export default function GoalsPage() {
                   goal={goal}
                   onEdit={(g) => setEditingGoal(g)}
                   onDelete={(g) => setDeletingGoal(g)}
-                  onLink={(g) => setLinkingGoal(g)}
+                  onLink={group.type === 'unlinked-short-term' ? (g) => setLinkingGoal(g) : undefined}
                   onRefresh={refetch}
                 />
               )
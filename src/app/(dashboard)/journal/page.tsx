@@ -1,13 +1,25 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
-import type { JournalEntry, Goal, Mood, JournalSortOptions, JournalEntryWithGoals } from '@/types'
+import type {
+  JournalDraft,
+  Goal,
+  Mood,
+  JournalSortOptions,
+  JournalEntryWithGoals,
+} from '@/types'
 import { MOODS, MOOD_LABELS } from '@/types'
 import { JournalEntryCard } from '@/components/journal/JournalEntryCard'
 import { EmptyState } from '@/components/journal/EmptyState'
 import { CreateJournalModal } from '@/components/journal/CreateJournalModal'
 import { EditJournalModal } from '@/components/journal/EditJournalModal'
 import { DeleteJournalDialog } from '@/components/journal/DeleteJournalDialog'
+import { ImportJournalModal } from '@/components/journal/ImportJournalModal'
+import { DraftsList } from '@/components/journal/DraftsList'
+import { JournalHistoryModal } from '@/components/journal/JournalHistoryModal'
+import { useToast } from '@/hooks/useToast'
+import { useSyncQueue } from '@/hooks/useSyncQueue'
+import { getQueuedBody, type QueuedRequest } from '@/lib/offline/sync-queue'
 
 type SortField = JournalSortOptions['field']
 type SortDirection = JournalSortOptions['direction']
@@ -26,7 +38,58 @@ interface JournalsApiResponse {
   error: { message: string } | null
 }
 
+const JOURNAL_ENTRY_URL = /^\/api\/journals\/([0-9a-f-]{36})$/
+
+interface QueuedJournalBody {
+  title?: string | null
+  content?: string
+  entryDate?: string
+  mood?: Mood | null
+  tags?: string[]
+  goalIds?: string[]
+}
+
+// A journal entry created offline, shown until the service worker sends it
+function toPendingEntry(request: QueuedRequest, goals: Goal[]): JournalEntryWithGoals {
+  const body = getQueuedBody<QueuedJournalBody>(request)
+  const createdAt = new Date(request.createdAt)
+  return {
+    id: `pending-${request.id}`,
+    userId: '',
+    title: body.title ?? null,
+    content: body.content ?? '',
+    entryDate: body.entryDate ?? request.createdAt.slice(0, 10),
+    mood: body.mood ?? null,
+    tags: body.tags ?? [],
+    createdAt,
+    updatedAt: createdAt,
+    mentionedGoals: goals.filter((goal) => body.goalIds?.includes(goal.id)),
+  }
+}
+
+// An entry with its offline edits applied
+function applyPendingUpdate(
+  entry: JournalEntryWithGoals,
+  request: QueuedRequest,
+  goals: Goal[]
+): JournalEntryWithGoals {
+  const body = getQueuedBody<QueuedJournalBody>(request)
+  return {
+    ...entry,
+    ...(body.title !== undefined && { title: body.title }),
+    ...(body.content !== undefined && { content: body.content }),
+    ...(body.entryDate !== undefined && { entryDate: body.entryDate }),
+    ...(body.mood !== undefined && { mood: body.mood }),
+    ...(body.tags !== undefined && { tags: body.tags }),
+    ...(body.goalIds !== undefined && {
+      mentionedGoals: goals.filter((goal) => body.goalIds?.includes(goal.id)),
+    }),
+    updatedAt: new Date(request.createdAt),
+  }
+}
+
 export default function JournalPage() {
+  const { showToast } = useToast()
   const [entries, setEntries] = useState<JournalEntryWithGoals[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -50,8 +113,12 @@ export default function JournalPage() {
 
   // Modals
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [editingEntry, setEditingEntry] = useState<JournalEntryWithGoals | null>(null)
-  const [deletingEntry, setDeletingEntry] = useState<JournalEntry | null>(null)
+  const [deletingEntry, setDeletingEntry] = useState<JournalEntryWithGoals | null>(null)
+  const [historyEntry, setHistoryEntry] = useState<JournalEntryWithGoals | null>(null)
+  const [resumeDraftId, setResumeDraftId] = useState<string | null>(null)
+  const [draftsRefreshKey, setDraftsRefreshKey] = useState(0)
 
   // Fetch goals for filter dropdown
   useEffect(() => {
@@ -108,6 +175,25 @@ export default function JournalPage() {
     fetchEntries()
   }, [fetchEntries])
 
+  // Entries created or edited offline stay marked until the service worker syncs them
+  const { queued } = useSyncQueue(fetchEntries)
+  const pendingEntries =
+    page === 1
+      ? queued
+          .filter((request) => request.method === 'POST' && request.url === '/api/journals')
+          .map((request) => toPendingEntry(request, goals))
+          .reverse()
+      : []
+  const pendingUpdateIds = new Set<string>()
+  const displayedEntries = entries.map((entry) =>
+    queued.reduce((current, request) => {
+      const match = request.method === 'PATCH' ? JOURNAL_ENTRY_URL.exec(request.url) : null
+      if (match?.[1] !== entry.id) return current
+      pendingUpdateIds.add(entry.id)
+      return applyPendingUpdate(current, request, goals)
+    }, entry)
+  )
+
   // Reset to page 1 when filters change
   useEffect(() => {
     setPage(1)
@@ -141,6 +227,41 @@ export default function JournalPage() {
     fetchEntries()
   }
 
+  const handleResumeDraft = async (draft: JournalDraft) => {
+    if (!draft.journalEntryId) {
+      setResumeDraftId(draft.id)
+      setShowCreateModal(true)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/journals/${draft.journalEntryId}`)
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load entry')
+      }
+
+      // The edit modal restores the draft itself
+      setEditingEntry(result.data)
+    } catch (err) {
+      console.error('Resume draft error:', err)
+      showToast(err instanceof Error ? err.message : 'Failed to load entry', 'error')
+    }
+  }
+
+  // Editors autosave while open; refresh the drafts list once they close
+  const closeCreateModal = () => {
+    setShowCreateModal(false)
+    setResumeDraftId(null)
+    setDraftsRefreshKey((key) => key + 1)
+  }
+
+  const closeEditModal = () => {
+    setEditingEntry(null)
+    setDraftsRefreshKey((key) => key + 1)
+  }
+
   return (
     <div className="p-4 sm:p-6 lg:p-8">
       {/* Header */}
@@ -151,27 +272,50 @@ export default function JournalPage() {
             {totalCount} {totalCount === 1 ? 'entry' : 'entries'}
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
-        >
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 4v16m8-8H4"
-            />
-          </svg>
-          New Entry
-        </button>
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+              />
+            </svg>
+            Import
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 4v16m8-8H4"
+              />
+            </svg>
+            New Entry
+          </button>
+        </div>
       </div>
 
+      <DraftsList refreshKey={draftsRefreshKey} onResume={handleResumeDraft} />
+
       {/* Search and Filters */}
       <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6">
         <div className="flex flex-col gap-4">
@@ -298,7 +442,7 @@ export default function JournalPage() {
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
           {error}
         </div>
-      ) : entries.length === 0 ? (
+      ) : entries.length === 0 && pendingEntries.length === 0 ? (
         <EmptyState
           variant={hasFilters ? 'no-filtered-results' : 'no-entries'}
           onCreateEntry={() => setShowCreateModal(true)}
@@ -307,13 +451,23 @@ export default function JournalPage() {
         <>
           {/* Entries List */}
           <div className="flex flex-col gap-4">
-            {entries.map((entry) => (
+            {pendingEntries.map((entry) => (
               <JournalEntryCard
                 key={entry.id}
                 entry={entry}
                 linkedGoals={entry.mentionedGoals}
+                pendingSync
+              />
+            ))}
+            {displayedEntries.map((entry) => (
+              <JournalEntryCard
+                key={entry.id}
+                entry={entry}
+                linkedGoals={entry.mentionedGoals}
+                pendingSync={pendingUpdateIds.has(entry.id)}
                 onEdit={(e) => setEditingEntry({ ...e, mentionedGoals: entry.mentionedGoals })}
-                onDelete={(e) => setDeletingEntry(e)}
+                onHistory={(e) => setHistoryEntry({ ...e, mentionedGoals: entry.mentionedGoals })}
+                onDelete={(e) => setDeletingEntry({ ...e, mentionedGoals: entry.mentionedGoals })}
               />
             ))}
           </div>
@@ -370,7 +524,14 @@ export default function JournalPage() {
       {/* Modals */}
       <CreateJournalModal
         isOpen={showCreateModal}
-        onClose={() => setShowCreateModal(false)}
+        draftId={resumeDraftId}
+        onClose={closeCreateModal}
+        onSuccess={handleCreateSuccess}
+      />
+
+      <ImportJournalModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
         onSuccess={handleCreateSuccess}
       />
 
@@ -378,10 +539,18 @@ export default function JournalPage() {
         entry={editingEntry}
         linkedGoals={editingEntry?.mentionedGoals}
         isOpen={!!editingEntry}
-        onClose={() => setEditingEntry(null)}
+        onClose={closeEditModal}
         onSuccess={handleEditSuccess}
       />
 
+      <JournalHistoryModal
+        entry={historyEntry}
+        goals={goals}
+        isOpen={!!historyEntry}
+        onClose={() => setHistoryEntry(null)}
+        onRestored={handleEditSuccess}
+      />
+
       <DeleteJournalDialog
         entry={deletingEntry}
         isOpen={!!deletingEntry}
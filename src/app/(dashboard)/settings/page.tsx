@@ -0,0 +1,22 @@
+import { AccessTokenSettings } from '@/components/settings/AccessTokenSettings'
+import { NotificationSettings } from '@/components/settings/NotificationSettings'
+import { ProfileSettings } from '@/components/settings/ProfileSettings'
+import { WebhookSettings } from '@/components/settings/WebhookSettings'
+
+export default function SettingsPage() {
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-3xl">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-gray-500">Manage your profile, reminders, API access and webhooks</p>
+      </div>
+
+      <div className="space-y-6">
+        <ProfileSettings />
+        <NotificationSettings />
+        <AccessTokenSettings />
+        <WebhookSettings />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { differenceInCalendarDays, format } from 'date-fns'
+import type { Trash } from '@/types'
+import { GOAL_TYPE_LABELS, TRASH_RETENTION_DAYS } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+type TrashKind = 'goal' | 'journal'
+
+interface TrashItem {
+  kind: TrashKind
+  id: string
+  title: string
+  detail: string
+  deletedAt: Date
+  purgeAt: Date
+}
+
+const API_PATHS: Record<TrashKind, string> = {
+  goal: '/api/trash/goals',
+  journal: '/api/trash/journals',
+}
+
+function toItems(trash: Trash): { goals: TrashItem[]; journals: TrashItem[] } {
+  return {
+    goals: trash.goals.map((goal) => ({
+      kind: 'goal',
+      id: goal.id,
+      title: goal.title,
+      detail: GOAL_TYPE_LABELS[goal.type],
+      deletedAt: new Date(goal.deletedAt),
+      purgeAt: new Date(goal.purgeAt),
+    })),
+    journals: trash.journalEntries.map((entry) => ({
+      kind: 'journal',
+      id: entry.id,
+      title: entry.title || entry.content.trim().split('\n')[0].slice(0, 80) || 'Untitled entry',
+      detail: format(new Date(`${entry.entryDate}T00:00:00`), 'MMM d, yyyy'),
+      deletedAt: new Date(entry.deletedAt),
+      purgeAt: new Date(entry.purgeAt),
+    })),
+  }
+}
+
+function purgeLabel(purgeAt: Date): string {
+  const days = differenceInCalendarDays(purgeAt, new Date())
+  if (days <= 0) return 'Deleted for good today'
+  return days === 1 ? 'Deleted for good tomorrow' : `Deleted for good in ${days} days`
+}
+
+export default function TrashPage() {
+  const { showToast } = useToast()
+  const [goals, setGoals] = useState<TrashItem[]>([])
+  const [journals, setJournals] = useState<TrashItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trash')
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load trash')
+      }
+
+      const items = toItems(result.data)
+      setGoals(items.goals)
+      setJournals(items.journals)
+    } catch (error) {
+      console.error('Fetch trash error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to load trash', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [showToast])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const removeItem = (item: TrashItem) => {
+    const remove = (prev: TrashItem[]) => prev.filter((i) => i.id !== item.id)
+    if (item.kind === 'goal') setGoals(remove)
+    else setJournals(remove)
+  }
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id)
+    try {
+      const response = await fetch(`${API_PATHS[item.kind]}/${item.id}/restore`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to restore')
+      }
+
+      removeItem(item)
+      showToast(`Restored "${item.title}"`, 'success')
+    } catch (error) {
+      console.error('Restore from trash error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to restore', 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDeleteForever = async (item: TrashItem) => {
+    setBusyId(item.id)
+    try {
+      const response = await fetch(`${API_PATHS[item.kind]}/${item.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to delete')
+      }
+
+      removeItem(item)
+      showToast(`Permanently deleted "${item.title}"`, 'success')
+    } catch (error) {
+      console.error('Delete from trash error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to delete', 'error')
+    } finally {
+      setBusyId(null)
+      setConfirmingId(null)
+    }
+  }
+
+  const renderSection = (heading: string, items: TrashItem[], empty: string) => (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 sm:p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">
+        {heading} <span className="font-normal text-gray-500">({items.length})</span>
+      </h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {items.map((item) => (
+            <li key={item.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                <p className="text-xs text-gray-500">
+                  {item.detail}
+                  {' · deleted '}
+                  {format(item.deletedAt, 'MMM d, yyyy')}
+                  {' · '}
+                  {purgeLabel(item.purgeAt)}
+                </p>
+              </div>
+              {confirmingId === item.id ? (
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingId(null)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteForever(item)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm disabled:opacity-50"
+                  >
+                    {busyId === item.id ? 'Deleting...' : 'Confirm delete'}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm disabled:opacity-50"
+                  >
+                    {busyId === item.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingId(item.id)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition text-sm disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-3xl">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Trash</h1>
+        <p className="mt-1 text-gray-500">
+          Deleted goals and journal entries are kept for {TRASH_RETENTION_DAYS} days. Restoring one
+          brings back its links to goals and entries.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-6">
+          <div className="h-32 bg-gray-100 rounded-xl animate-pulse" />
+          <div className="h-32 bg-gray-100 rounded-xl animate-pulse" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {renderSection('Goals', goals, 'No deleted goals.')}
+          {renderSection('Journal entries', journals, 'No deleted journal entries.')}
+        </div>
+      )}
+    </div>
+  )
+}
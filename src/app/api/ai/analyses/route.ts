@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
 import { getAnalyses, type AnalysisFilters } from '@/lib/db/ai';
 import type { PaginationParams } from '@/types';
 
@@ -12,17 +12,14 @@ const analysisTypeSchema = z.enum(['on-demand', 'weekly', 'monthly']);
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['ai:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
 
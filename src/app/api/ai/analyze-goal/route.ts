@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
 import { getContextForGoalAnalysis, saveAnalysis } from '@/lib/db/ai';
 import { analyzeGoalProgress, ClaudeAPIError } from '@/lib/claude/client';
+import { notifyOnAnalysisFailure } from '@/lib/api/ai';
 
 const requestSchema = z.object({
   goalId: z.string().uuid('Invalid goal ID'),
@@ -14,17 +15,14 @@ const requestSchema = z.object({
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['ai:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = requestSchema.safeParse(body);
@@ -61,7 +59,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Call Claude for analysis
-    const result = await analyzeGoalProgress(context.goal, context.relatedJournals);
+    const result = await notifyOnAnalysisFailure(
+      supabase,
+      user.id,
+      { title: `Analysis of "${context.goal.title}" failed`, url: '/goals' },
+      () => analyzeGoalProgress(context.goal, context.relatedJournals)
+    );
 
     // Save analysis to database
     const savedAnalysis = await saveAnalysis(supabase, user.id, 'on-demand', {
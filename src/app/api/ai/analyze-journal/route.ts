@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
-import { getContextForJournalAnalysis, saveAnalysis } from '@/lib/db/ai';
-import { analyzeJournalEntry, ClaudeAPIError } from '@/lib/claude/client';
-
-const requestSchema = z.object({
-  journalId: z.string().uuid('Invalid journal ID'),
-});
+import { authenticateRequest } from '@/lib/auth';
+import { analyzeJournal } from '@/lib/api/ai';
+import { ApiRouteError } from '@/lib/api/errors';
+import { analyzeJournalSchema } from '@/lib/api/schemas';
+import { ClaudeAPIError } from '@/lib/claude/client';
 
 /**
  * POST /api/ai/analyze-journal
@@ -14,20 +11,17 @@ const requestSchema = z.object({
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['ai:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
-    const parsed = requestSchema.safeParse(body);
+    const parsed = analyzeJournalSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -44,53 +38,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { journalId } = parsed.data;
-
-    // Fetch context for analysis
-    const context = await getContextForJournalAnalysis(supabase, journalId, user.id);
+    const data = await analyzeJournal(supabase, user.id, parsed.data.journalId);
 
-    if (!context) {
+    return NextResponse.json({ success: true, data, error: null });
+  } catch (error) {
+    if (error instanceof ApiRouteError) {
       return NextResponse.json(
         {
           success: false,
           data: null,
-          error: { message: 'Journal entry not found', status: 404 },
+          error: { message: error.message, status: error.status, code: error.code },
         },
-        { status: 404 }
+        { status: error.status }
       );
     }
 
-    // Call Claude for analysis
-    const result = await analyzeJournalEntry(
-      context.journal.content,
-      context.linkedGoals,
-      context.journal.mood
-    );
-
-    // Save analysis to database
-    const savedAnalysis = await saveAnalysis(supabase, user.id, 'on-demand', {
-      journalEntriesAnalyzed: [journalId],
-      goalsAnalyzed: context.linkedGoals.map(g => g.id),
-      insights: result.insights,
-      recommendations: result.recommendations,
-      tokensUsed: result.tokensUsed,
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        analysis: savedAnalysis,
-        journal: {
-          id: context.journal.id,
-          title: context.journal.title,
-          entryDate: context.journal.entryDate,
-          mood: context.journal.mood,
-        },
-        linkedGoalsCount: context.linkedGoals.length,
-      },
-      error: null,
-    });
-  } catch (error) {
     console.error('POST /api/ai/analyze-journal error:', error);
 
     // Handle Claude API specific errors
@@ -1,23 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
-import {
-  getContextForWeeklyInsights,
-  saveAnalysis,
-  getCachedWeeklyInsight,
-  getCachedMonthlyInsight,
-} from '@/lib/db/ai';
-import { generateWeeklyInsights, ClaudeAPIError } from '@/lib/claude/client';
-import type { AnalysisType } from '@/types';
-
-const timelineSchema = z.enum(['week', 'month']).default('week');
-
-const postBodySchema = z.object({
-  timeline: z.enum(['week', 'month']).optional(),
-  analysisType: z.enum(['weekly', 'monthly']).optional(),
-  refresh: z.boolean().optional().default(false),
-});
-
+import { authenticateRequest } from '@/lib/auth';
+import { getOrGenerateInsights } from '@/lib/api/ai';
+import { insightsRequestSchema, insightsTimelineSchema } from '@/lib/api/schemas';
+import { ClaudeAPIError } from '@/lib/claude/client';
 
 /**
  * GET /api/ai/insights?timeline=week|month
@@ -25,23 +10,20 @@ const postBodySchema = z.object({
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['ai:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
     const timelineParam = searchParams.get('timeline') ?? 'week';
     const forceRefresh = searchParams.get('refresh') === 'true';
 
-    const parsedTimeline = timelineSchema.safeParse(timelineParam);
+    const parsedTimeline = insightsTimelineSchema.safeParse(timelineParam);
     if (!parsedTimeline.success) {
       return NextResponse.json(
         {
@@ -53,96 +35,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const timeline = parsedTimeline.data;
-    const analysisType: AnalysisType = timeline === 'week' ? 'weekly' : 'monthly';
-
-    // Calculate period start date
-    const now = new Date();
-    const periodStartDate = new Date(now);
-    if (timeline === 'week') {
-      // Start of current week (Sunday)
-      const dayOfWeek = now.getDay();
-      periodStartDate.setDate(now.getDate() - dayOfWeek);
-    } else {
-      // Start of current month
-      periodStartDate.setDate(1);
-    }
-    periodStartDate.setHours(0, 0, 0, 0);
-    const periodStartStr = periodStartDate.toISOString();
-
-    // Check for cached insight (unless refresh requested)
-    if (!forceRefresh) {
-      const cachedInsight = timeline === 'week'
-        ? await getCachedWeeklyInsight(supabase, user.id, periodStartStr)
-        : await getCachedMonthlyInsight(supabase, user.id, periodStartStr);
-
-      if (cachedInsight) {
-        return NextResponse.json({
-          success: true,
-          data: {
-            analysis: cachedInsight,
-            cached: true,
-            timeline,
-            periodStart: periodStartStr,
-          },
-          error: null,
-        });
-      }
-    }
-
-    // Fetch context for insights generation
-    const context = await getContextForWeeklyInsights(supabase, user.id, timeline);
-
-    // Generate insights using Claude
-    const result = await generateWeeklyInsights(
-      context.journals,
-      context.goals,
-      context.stats
-    );
-
-    // Save analysis to database
-    const savedAnalysis = await saveAnalysis(supabase, user.id, analysisType, {
-      journalEntriesAnalyzed: context.journals.map(j => j.id),
-      goalsAnalyzed: context.goals.map(g => g.id),
-      insights: {
-        ...result.insights,
-        summary: result.summary,
-        key_achievements: result.keyAchievements,
-        areas_for_improvement: result.areasForImprovement,
-        goal_progress_updates: result.goalProgressUpdates,
-      },
-      recommendations: result.recommendations,
-      progressSummary: {
-        overall_progress: Math.round(
-          context.goals.reduce((sum, g) => sum + g.progressPercentage, 0) /
-          Math.max(1, context.goals.length)
-        ),
-        goals_on_track: context.goals
-          .filter(g => g.status === 'active' && g.progressPercentage >= 50)
-          .map(g => g.id),
-        goals_behind: context.goals
-          .filter(g => g.status === 'active' && g.progressPercentage < 50)
-          .map(g => g.id),
-        momentum_score: Math.min(100, context.stats.currentStreak * 10 + context.stats.journalCount * 5),
-      },
-      tokensUsed: result.tokensUsed,
-    });
+    const data = await getOrGenerateInsights(supabase, user.id, parsedTimeline.data, forceRefresh);
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        analysis: savedAnalysis,
-        summary: result.summary,
-        keyAchievements: result.keyAchievements,
-        areasForImprovement: result.areasForImprovement,
-        goalProgressUpdates: result.goalProgressUpdates,
-        stats: context.stats,
-        cached: false,
-        timeline,
-        periodStart: periodStartStr,
-      },
-      error: null,
-    });
+    return NextResponse.json({ success: true, data, error: null });
   } catch (error) {
     console.error('GET /api/ai/insights error:', error);
 
@@ -198,20 +93,17 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['ai:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
-    const parsed = postBodySchema.safeParse(body);
+    const parsed = insightsRequestSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -234,93 +126,9 @@ export async function POST(request: NextRequest) {
       timeline = analysisTypeParam === 'weekly' ? 'week' : 'month';
     }
 
-    const analysisType: AnalysisType = timeline === 'week' ? 'weekly' : 'monthly';
-
-    // Calculate period start date
-    const now = new Date();
-    const periodStartDate = new Date(now);
-    if (timeline === 'week') {
-      const dayOfWeek = now.getDay();
-      periodStartDate.setDate(now.getDate() - dayOfWeek);
-    } else {
-      periodStartDate.setDate(1);
-    }
-    periodStartDate.setHours(0, 0, 0, 0);
-    const periodStartStr = periodStartDate.toISOString();
-
-    // Check cache unless refresh requested (POST always generates, but we can still skip if recent)
-    if (!refresh) {
-      const cachedInsight = timeline === 'week'
-        ? await getCachedWeeklyInsight(supabase, user.id, periodStartStr)
-        : await getCachedMonthlyInsight(supabase, user.id, periodStartStr);
-
-      if (cachedInsight) {
-        return NextResponse.json({
-          success: true,
-          data: {
-            analysis: cachedInsight,
-            cached: true,
-            timeline,
-            periodStart: periodStartStr,
-          },
-          error: null,
-        });
-      }
-    }
-
-    // Fetch context for insights generation
-    const context = await getContextForWeeklyInsights(supabase, user.id, timeline);
-
-    // Generate insights using Claude
-    const result = await generateWeeklyInsights(
-      context.journals,
-      context.goals,
-      context.stats
-    );
-
-    // Save analysis to database
-    const savedAnalysis = await saveAnalysis(supabase, user.id, analysisType, {
-      journalEntriesAnalyzed: context.journals.map(j => j.id),
-      goalsAnalyzed: context.goals.map(g => g.id),
-      insights: {
-        ...result.insights,
-        summary: result.summary,
-        key_achievements: result.keyAchievements,
-        areas_for_improvement: result.areasForImprovement,
-        goal_progress_updates: result.goalProgressUpdates,
-      },
-      recommendations: result.recommendations,
-      progressSummary: {
-        overall_progress: Math.round(
-          context.goals.reduce((sum, g) => sum + g.progressPercentage, 0) /
-          Math.max(1, context.goals.length)
-        ),
-        goals_on_track: context.goals
-          .filter(g => g.status === 'active' && g.progressPercentage >= 50)
-          .map(g => g.id),
-        goals_behind: context.goals
-          .filter(g => g.status === 'active' && g.progressPercentage < 50)
-          .map(g => g.id),
-        momentum_score: Math.min(100, context.stats.currentStreak * 10 + context.stats.journalCount * 5),
-      },
-      tokensUsed: result.tokensUsed,
-    });
+    const data = await getOrGenerateInsights(supabase, user.id, timeline, refresh);
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        analysis: savedAnalysis,
-        summary: result.summary,
-        keyAchievements: result.keyAchievements,
-        areasForImprovement: result.areasForImprovement,
-        goalProgressUpdates: result.goalProgressUpdates,
-        stats: context.stats,
-        cached: false,
-        timeline,
-        periodStart: periodStartStr,
-      },
-      error: null,
-    });
+    return NextResponse.json({ success: true, data, error: null });
   } catch (error) {
     console.error('POST /api/ai/insights error:', error);
 
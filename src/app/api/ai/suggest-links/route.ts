@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getContextForLinkSuggestions } from '@/lib/db/ai';
+import { analyzeJournalEntry, ClaudeAPIError } from '@/lib/claude/client';
+import { suggestGoalLinks, suggestTags } from '@/lib/claude/suggestions';
+import type { JournalLinkSuggestions } from '@/types';
+
+const requestSchema = z.object({
+  title: z.string().max(200).nullable().optional(),
+  content: z.string().min(1).max(50000),
+  mood: z.enum(['great', 'good', 'neutral', 'bad', 'terrible']).nullable().optional(),
+  goalIds: z.array(z.string().uuid()).max(100).optional(), // Already linked, not suggested again
+  tags: z.array(z.string().max(50)).max(20).optional(), // Already on the entry
+});
+
+/**
+ * POST /api/ai/suggest-links
+ * Suggest goal links and tags for a journal entry being written, using Claude's
+ * goal alignment scores and key themes. Nothing is saved: accepted goals are sent
+ * back as suggestedGoalIds and accepted tags as tags when the entry is saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['ai:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = requestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { title, content, mood, goalIds, tags } = parsed.data;
+    const goals = await getContextForLinkSuggestions(supabase, user.id);
+
+    const result = await analyzeJournalEntry(
+      title ? `${title}\n\n${content}` : content,
+      goals,
+      mood ?? null
+    );
+
+    const suggestions: JournalLinkSuggestions = {
+      goals: suggestGoalLinks(result.insights, goals, { excludeGoalIds: goalIds }),
+      tags: suggestTags(result.insights, { excludeTags: tags }),
+      tokensUsed: result.tokensUsed,
+    };
+
+    return NextResponse.json({ success: true, data: suggestions, error: null });
+  } catch (error) {
+    console.error('POST /api/ai/suggest-links error:', error);
+
+    if (error instanceof ClaudeAPIError) {
+      if (error.isRateLimited) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: null,
+            error: {
+              message: 'AI service rate limited. Please try again in a moment.',
+              status: 429,
+              code: 'RATE_LIMITED',
+            },
+          },
+          { status: 429 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'AI suggestions failed. Please try again.',
+            status: error.statusCode ?? 500,
+            code: 'AI_ERROR',
+          },
+        },
+        { status: error.statusCode ?? 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
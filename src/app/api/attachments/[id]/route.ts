@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { deleteJournalAttachment } from '@/lib/db/attachments';
+import { readJournalAttachment, removeAttachmentFiles } from '@/lib/attachments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * A single byte range from a Range header ("bytes=0-1023", "bytes=1024-", "bytes=-500"),
+ * null when the header asks for no range we serve (then the whole file is sent), or
+ * 'unsatisfiable'. Audio players in Safari need ranges to play and seek
+ */
+function parseRange(header: string | null, size: number): [number, number] | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  return start > end || start >= size ? 'unsatisfiable' : [start, end];
+}
+
+/**
+ * GET /api/attachments/[id] - Download an attachment
+ * Query params: thumbnail=true for an image's thumbnail (WebP; the original when there is
+ * none). Supports single byte ranges. Images and audio are served inline, other files as
+ * downloads
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid attachment ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const file = await readJournalAttachment(supabase, id, user.id, {
+      thumbnail: request.nextUrl.searchParams.get('thumbnail') === 'true',
+    });
+    if (!file) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Attachment not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const size = file.data.length;
+    const disposition = file.attachment.kind === 'file' ? 'attachment' : 'inline';
+    const headers: Record<string, string> = {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.attachment.file_name)}`,
+      'Accept-Ranges': 'bytes',
+      // Attachments never change; a new upload gets a new id
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+    };
+
+    const range = parseRange(request.headers.get('range'), size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    // Bodies are copied into plain Uint8Arrays (Buffer is not a BodyInit)
+    if (range) {
+      const [start, end] = range;
+      return new NextResponse(new Uint8Array(file.data.subarray(start, end + 1)), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${size}`,
+          'Content-Length': String(end - start + 1),
+        },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: { ...headers, 'Content-Length': String(size) },
+    });
+  } catch (error) {
+    console.error('GET /api/attachments/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/attachments/[id] - Remove an attachment and its files
+ * Links to it in the entry's content are left as they are and render as missing
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid attachment ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const attachment = await deleteJournalAttachment(supabase, id, user.id);
+    if (!attachment) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Attachment not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    await removeAttachmentFiles([attachment]);
+
+    return NextResponse.json({ success: true, data: { id }, error: null });
+  } catch (error) {
+    console.error('DELETE /api/attachments/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
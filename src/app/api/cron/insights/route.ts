@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateCronRequest } from '@/lib/auth';
+import { runScheduledInsights } from '@/lib/insights';
+
+/**
+ * GET /api/cron/insights - Generate and email last week's and last month's insights
+ * Called by a scheduler with Authorization: Bearer <CRON_SECRET>, e.g. hourly; periods that
+ * were already generated are skipped. data.complete is false when more work is left.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateCronRequest(request);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+
+    const report = await runScheduledInsights(auth.supabase);
+
+    return NextResponse.json({ success: true, data: report, error: null });
+  } catch (error) {
+    console.error('GET /api/cron/insights error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
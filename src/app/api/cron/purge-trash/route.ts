@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateCronRequest } from '@/lib/auth';
+import { purgeExpiredTrash } from '@/lib/db/trash';
+
+/**
+ * GET /api/cron/purge-trash - Permanently delete goals and journal entries trashed over 30 days ago
+ * Called daily by a scheduler with Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateCronRequest(request);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+
+    const report = await purgeExpiredTrash(auth.supabase);
+
+    return NextResponse.json({ success: true, data: report, error: null });
+  } catch (error) {
+    console.error('GET /api/cron/purge-trash error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateCronRequest } from '@/lib/auth';
+import { runReminders } from '@/lib/notifications/reminders';
+
+/**
+ * GET /api/cron/reminders - Send due reminder nudges (journaling, deadlines, stale goals)
+ * Called at least hourly by a scheduler with Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateCronRequest(request);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+
+    const report = await runReminders(auth.supabase);
+
+    return NextResponse.json({ success: true, data: report, error: null });
+  } catch (error) {
+    console.error('GET /api/cron/reminders error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateCronRequest } from '@/lib/auth';
+import { deliverDueWebhookDeliveries } from '@/lib/webhooks';
+
+/**
+ * GET /api/cron/webhooks - Send queued webhook deliveries and retries that are due
+ * Called every minute by a scheduler with Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateCronRequest(request);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+
+    const report = await deliverDueWebhookDeliveries(auth.supabase);
+
+    return NextResponse.json({ success: true, data: report, error: null });
+  } catch (error) {
+    console.error('GET /api/cron/webhooks error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
-import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import { authenticateRequest } from '@/lib/auth';
 import { getGoalsByDeadline } from '@/lib/db/goals';
-import type { Timeline } from '@/lib/db/dashboard';
+import {
+  getWeekStart,
+  parseLocalDate,
+  toLocalDateStr,
+  type Timeline,
+} from '@/lib/db/dashboard';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { getTodayInTimezone } from '@/lib/timezone';
 
 const timelineSchema = z.enum(['week', 'month', 'year']);
 
 /**
- * Get date range for deadline filtering
+ * Get date range for deadline filtering, relative to today in the user's timezone
  * Week: current ISO week (Mon-Sun)
  * Month: current calendar month
  */
-function getDeadlineDateRange(timeline: Timeline): { startDate: string; endDate: string } {
-  const now = new Date();
+function getDeadlineDateRange(
+  timeline: Timeline,
+  timezone: string
+): { startDate: string; endDate: string } {
+  const today = getTodayInTimezone(timezone);
+  const [year, month] = today.split('-').map(Number);
 
   switch (timeline) {
     case 'week': {
-      const day = now.getDay();
-      const diff = day === 0 ? -6 : 1 - day;
-      const weekStart = new Date(now);
-      weekStart.setDate(now.getDate() + diff);
-      weekStart.setHours(0, 0, 0, 0);
+      const weekStart = getWeekStart(parseLocalDate(today));
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekStart.getDate() + 6);
       return {
-        startDate: weekStart.toLocaleDateString('en-CA'),
-        endDate: weekEnd.toLocaleDateString('en-CA'),
+        startDate: toLocalDateStr(weekStart),
+        endDate: toLocalDateStr(weekEnd),
       };
     }
     case 'month': {
-      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      const monthEnd = new Date(year, month, 0);
       return {
-        startDate: monthStart.toLocaleDateString('en-CA'),
-        endDate: monthEnd.toLocaleDateString('en-CA'),
+        startDate: toLocalDateStr(new Date(year, month - 1, 1)),
+        endDate: toLocalDateStr(monthEnd),
       };
     }
     case 'year': {
-      const yearStart = new Date(now.getFullYear(), 0, 1);
-      const yearEnd = new Date(now.getFullYear(), 11, 31);
       return {
-        startDate: yearStart.toLocaleDateString('en-CA'),
-        endDate: yearEnd.toLocaleDateString('en-CA'),
+        startDate: `${year}-01-01`,
+        endDate: `${year}-12-31`,
       };
     }
   }
@@ -55,45 +58,22 @@ function getDeadlineDateRange(timeline: Timeline): { startDate: string; endDate:
  */
 export async function GET(request: NextRequest) {
   try {
-    let supabase = await createClient();
-    let {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    // Bearer token fallback (iOS)
-    if (!user) {
-      const authHeader = request.headers.get('Authorization');
-      if (authHeader?.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        supabase = createSupabaseClient(
-          process.env.NEXT_PUBLIC_SUPABASE_URL!,
-          process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-          {
-            global: {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            },
-          }
-        );
-        const result = await supabase.auth.getUser(token);
-        user = result.data.user;
-      }
-    }
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
     const timelineParam = searchParams.get('timeline') ?? 'week';
     const timelineResult = timelineSchema.safeParse(timelineParam);
     const timeline: Timeline = timelineResult.success ? timelineResult.data : 'week';
 
-    const { startDate, endDate } = getDeadlineDateRange(timeline);
+    const timezone = await getUserTimezone(supabase, user.id);
+    const { startDate, endDate } = getDeadlineDateRange(timeline, timezone);
     const goals = await getGoalsByDeadline(supabase, user.id, startDate, endDate);
 
     return NextResponse.json({
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
-import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import { authenticateRequest } from '@/lib/auth';
 import { getGoalActivityHeatMapData, type Timeline } from '@/lib/db/dashboard';
+import { getUserTimezone } from '@/lib/db/profiles';
 
 const timelineSchema = z.enum(['week', 'month', 'year']);
 
@@ -15,44 +15,17 @@ const timelineSchema = z.enum(['week', 'month', 'year']);
  *   - goals: Array of { id, title, color }
  *   - activityByGoal: Record<goalId, dates[]>
  *   - dateRange: { start, end }
- *
- * Auth: Supports both cookie-based (web) and Bearer token (iOS) authentication
  */
 export async function GET(request: NextRequest) {
   try {
-    // Try cookie-based auth first (web client)
-    let supabase = await createClient();
-    let {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    // If no user from cookies, try Bearer token (iOS client)
-    if (!user) {
-      const authHeader = request.headers.get('Authorization');
-      if (authHeader?.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        supabase = createSupabaseClient(
-          process.env.NEXT_PUBLIC_SUPABASE_URL!,
-          process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-          {
-            global: {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            },
-          }
-        );
-        const result = await supabase.auth.getUser(token);
-        user = result.data.user;
-      }
-    }
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
 
@@ -61,7 +34,8 @@ export async function GET(request: NextRequest) {
     const timelineResult = timelineSchema.safeParse(timelineParam);
     const timeline: Timeline = timelineResult.success ? timelineResult.data : 'week';
 
-    const result = await getGoalActivityHeatMapData(supabase, user.id, timeline);
+    const timezone = await getUserTimezone(supabase, user.id);
+    const result = await getGoalActivityHeatMapData(supabase, user.id, timeline, timezone);
 
     return NextResponse.json({
       success: true,
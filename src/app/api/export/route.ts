@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { createExport, EXPORT_FORMATS } from '@/lib/export';
+
+const formatSchema = z.enum(['json', 'markdown', 'csv']);
+
+/**
+ * GET /api/export?format=json|markdown|csv - Download all of the user's data
+ * json: single document; markdown: zip with one .md per journal entry; csv: zip with one .csv per table
+ * The response is streamed while pages are read from the database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read', 'journals:read', 'ai:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const parsed = formatSchema.safeParse(request.nextUrl.searchParams.get('format') ?? 'json');
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: `Invalid format (expected ${EXPORT_FORMATS.join(', ')})`, status: 400 },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { body, contentType, fileName } = createExport(supabase, user.id, parsed.data);
+
+    // Pull-based so the database is only read as fast as the client downloads
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await body.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          console.error('GET /api/export stream error:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await body.return(undefined);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/export error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
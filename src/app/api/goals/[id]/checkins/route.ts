@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getGoalById } from '@/lib/db/goals';
+import {
+  createCheckin,
+  deleteCheckin,
+  getHabitStats,
+  syncHabitProgress,
+} from '@/lib/db/checkins';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { getTodayInTimezone } from '@/lib/timezone';
+
+// Accepts YYYY-MM-DD format for Supabase date columns
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
+
+const createCheckinSchema = z.object({
+  date: dateOnlySchema.optional(), // Defaults to today
+  note: z.string().max(500).nullable().optional(),
+});
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/goals/[id]/checkins - List check-ins for a habit with streak/completion stats
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const goal = await getGoalById(supabase, id, user.id);
+    if (!goal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    if (goal.type !== 'habit') {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal is not a habit', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const timezone = await getUserTimezone(supabase, user.id);
+    const { checkins, stats } = await getHabitStats(supabase, goal, timezone);
+
+    return NextResponse.json({ success: true, data: { checkins, stats }, error: null });
+  } catch (error) {
+    console.error('GET /api/goals/[id]/checkins error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/goals/[id]/checkins - Check in a habit for a day
+ * Returns the check-in, updated stats and the goal with its synced progress
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = createCheckinSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingGoal = await getGoalById(supabase, id, user.id);
+    if (!existingGoal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    if (existingGoal.type !== 'habit') {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal is not a habit', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const timezone = await getUserTimezone(supabase, user.id);
+    const checkin = await createCheckin(supabase, id, user.id, {
+      date: parsed.data.date ?? getTodayInTimezone(timezone),
+      note: parsed.data.note,
+    });
+    const { stats } = await getHabitStats(supabase, existingGoal, timezone);
+    const goal = await syncHabitProgress(supabase, existingGoal, stats);
+
+    return NextResponse.json(
+      { success: true, data: { checkin, stats, goal }, error: null },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('POST /api/goals/[id]/checkins error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/goals/[id]/checkins?date=YYYY-MM-DD - Undo a day's check-in
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get('date');
+    if (!date || !dateOnlySchema.safeParse(date).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid date (expected YYYY-MM-DD)', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const existingGoal = await getGoalById(supabase, id, user.id);
+    if (!existingGoal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deleteCheckin(supabase, id, user.id, date);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Check-in not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const timezone = await getUserTimezone(supabase, user.id);
+    const { stats } = await getHabitStats(supabase, existingGoal, timezone);
+    const goal = await syncHabitProgress(supabase, existingGoal, stats);
+
+    return NextResponse.json({ success: true, data: { date, stats, goal }, error: null });
+  } catch (error) {
+    console.error('DELETE /api/goals/[id]/checkins error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
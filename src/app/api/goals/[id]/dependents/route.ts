@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { getGoalDependents } from '@/lib/db/goals';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/goals/[id]/dependents - Child goals and journal entries linked to a goal
+ * Shown before deleting the goal, since they are unlinked while it is in the trash
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const dependents = await getGoalDependents(supabase, id, user.id);
+
+    if (!dependents) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: dependents, error: null });
+  } catch (error) {
+    console.error('GET /api/goals/[id]/dependents error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getGoalById, getGoalProgressHistory } from '@/lib/db/goals';
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/goals/[id]/history - Get progress/status history for a goal
+ * Returns goal_progress_events ordered oldest first
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const goal = await getGoalById(supabase, id, user.id);
+    if (!goal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const history = await getGoalProgressHistory(supabase, id, user.id);
+
+    return NextResponse.json({ success: true, data: history, error: null });
+  } catch (error) {
+    console.error('GET /api/goals/[id]/history error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
 import { linkGoalToParent, unlinkGoalFromParent, getGoalWithParent, getGoalWithChildren, getGoalById } from '@/lib/db/goals';
 import { GoalLinkValidationError, GOAL_LINK_ERROR_CODES } from '@/types';
 
@@ -27,15 +27,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     // Try to get with parent first (works for short-term goals)
     const withParent = await getGoalWithParent(supabase, id, user.id);
@@ -99,15 +98,14 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = linkSchema.safeParse(body);
@@ -203,15 +201,14 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const goal = await unlinkGoalFromParent(supabase, id, user.id);
 
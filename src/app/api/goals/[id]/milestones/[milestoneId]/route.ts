@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getGoalById } from '@/lib/db/goals';
+import { updateMilestone, deleteMilestone } from '@/lib/db/milestones';
+
+// Accepts YYYY-MM-DD format for Supabase date columns
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
+
+const updateMilestoneSchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    dueDate: dateOnlySchema.nullable().optional(),
+    weight: z.number().int().min(1).max(100).optional(),
+    position: z.number().int().min(0).optional(),
+    completed: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  });
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string; milestoneId: string }> };
+
+/**
+ * PATCH /api/goals/[id]/milestones/[milestoneId] - Update milestone (incl. check/uncheck)
+ * Returns the milestone and the goal with its re-derived progress
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, milestoneId } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success || !uuidSchema.safeParse(milestoneId).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal or milestone ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = updateMilestoneSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const milestone = await updateMilestone(supabase, milestoneId, id, user.id, parsed.data);
+
+    if (!milestone) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Milestone not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const goal = await getGoalById(supabase, id, user.id);
+
+    return NextResponse.json({ success: true, data: { milestone, goal }, error: null });
+  } catch (error) {
+    console.error('PATCH /api/goals/[id]/milestones/[milestoneId] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/goals/[id]/milestones/[milestoneId] - Delete milestone
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, milestoneId } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success || !uuidSchema.safeParse(milestoneId).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal or milestone ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const deleted = await deleteMilestone(supabase, milestoneId, id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Milestone not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const goal = await getGoalById(supabase, id, user.id);
+
+    return NextResponse.json(
+      { success: true, data: { id: milestoneId, goal }, error: null },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('DELETE /api/goals/[id]/milestones/[milestoneId] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
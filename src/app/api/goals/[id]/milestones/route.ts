@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getGoalById } from '@/lib/db/goals';
+import { getMilestones, createMilestone } from '@/lib/db/milestones';
+
+// Accepts YYYY-MM-DD format for Supabase date columns
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
+
+const createMilestoneSchema = z.object({
+  title: z.string().min(1).max(200),
+  dueDate: dateOnlySchema.nullable().optional(),
+  weight: z.number().int().min(1).max(100).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/goals/[id]/milestones - List milestones for a goal in checklist order
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const goal = await getGoalById(supabase, id, user.id);
+    if (!goal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const milestones = await getMilestones(supabase, id, user.id);
+
+    return NextResponse.json({ success: true, data: milestones, error: null });
+  } catch (error) {
+    console.error('GET /api/goals/[id]/milestones error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/goals/[id]/milestones - Add milestone to a goal
+ * Returns the milestone and the goal with its re-derived progress
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = createMilestoneSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingGoal = await getGoalById(supabase, id, user.id);
+    if (!existingGoal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const milestone = await createMilestone(supabase, id, user.id, parsed.data);
+    const goal = await getGoalById(supabase, id, user.id);
+
+    return NextResponse.json(
+      { success: true, data: { milestone, goal }, error: null },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('POST /api/goals/[id]/milestones error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
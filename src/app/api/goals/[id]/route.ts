@@ -1,47 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiRouteError } from '@/lib/api/errors';
+import { prepareGoalUpdate } from '@/lib/api/goals';
+import { updateGoalSchema, uuidSchema } from '@/lib/api/schemas';
 import { getGoalById, updateGoal, deleteGoal } from '@/lib/db/goals';
-import { GOAL_LINK_ERROR_CODES } from '@/types';
-
-// Validation schemas
-const goalTypeSchema = z.enum(['long-term', 'short-term']);
-const goalStatusSchema = z.enum(['active', 'completed', 'paused', 'abandoned']);
-
-// Accepts YYYY-MM-DD format for Supabase date columns
-const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
-
-const updateGoalSchema = z
-  .object({
-    title: z.string().min(1).max(200).optional(),
-    description: z.string().max(2000).nullable().optional(),
-    type: goalTypeSchema.optional(),
-    category: z.string().max(50).nullable().optional(),
-    targetDate: dateOnlySchema.nullable().optional(),
-    status: goalStatusSchema.optional(),
-    progressPercentage: z.number().min(0).max(100).optional(),
-    parentGoalId: z.string().uuid().nullable().optional(),
-  })
-  .refine((data) => Object.keys(data).length > 0, {
-    message: 'At least one field required',
-  })
-  .refine(
-    (data) => {
-      // When updating type to long-term, parent must be null or not present
-      if (data.type === 'long-term' && data.parentGoalId !== undefined && data.parentGoalId !== null) {
-        return false;
-      }
-      return true;
-    },
-    { message: 'Long-term goals cannot have a parent goal' }
-  );
-
-const uuidSchema = z.string().uuid();
+import { getExpectedUpdatedAt, toETag, UPDATE_CONFLICT_CODE } from '@/lib/concurrency';
+import { GoalConflictError } from '@/types';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
 /**
  * GET /api/goals/[id] - Get single goal
+ * The ETag header can be sent back as If-Match on PATCH to avoid overwriting newer changes
  */
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
@@ -54,17 +24,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const goal = await getGoalById(supabase, id, user.id);
 
@@ -75,7 +42,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    return NextResponse.json({ success: true, data: goal, error: null });
+    return NextResponse.json(
+      { success: true, data: goal, error: null },
+      { headers: { ETag: toETag(goal.updatedAt) } }
+    );
   } catch (error) {
     console.error('GET /api/goals/[id] error:', error);
     return NextResponse.json(
@@ -94,6 +64,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 /**
  * PATCH /api/goals/[id] - Update goal
+ * With If-Match (or expectedUpdatedAt) the update is refused with 409 and the current goal
+ * when the goal has changed since
  */
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
@@ -106,17 +78,14 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = updateGoalSchema.safeParse(body);
@@ -136,26 +105,13 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Prevent type change from short-term to long-term if goal has parent
-    if (parsed.data.type === 'long-term') {
-      const existingGoal = await getGoalById(supabase, id, user.id);
-      if (existingGoal?.parentGoalId) {
-        return NextResponse.json(
-          {
-            success: false,
-            data: null,
-            error: {
-              message: 'Cannot change type to long-term while goal has a parent. Unlink first.',
-              code: GOAL_LINK_ERROR_CODES.TYPE_CHANGE_BLOCKED,
-              status: 400,
-            },
-          },
-          { status: 400 }
-        );
-      }
-    }
+    const expectedUpdatedAt = getExpectedUpdatedAt(request.headers, parsed.data.expectedUpdatedAt);
+    const input = await prepareGoalUpdate(supabase, id, user.id, {
+      ...parsed.data,
+      expectedUpdatedAt,
+    });
 
-    const goal = await updateGoal(supabase, id, user.id, parsed.data);
+    const goal = await updateGoal(supabase, id, user.id, input);
 
     if (!goal) {
       return NextResponse.json(
@@ -164,8 +120,32 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    return NextResponse.json({ success: true, data: goal, error: null });
+    return NextResponse.json(
+      { success: true, data: goal, error: null },
+      { headers: { ETag: toETag(goal.updatedAt) } }
+    );
   } catch (error) {
+    if (error instanceof GoalConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: error.current,
+          error: { message: error.message, status: 409, code: UPDATE_CONFLICT_CODE },
+        },
+        { status: 409, headers: { ETag: toETag(error.current.updatedAt) } }
+      );
+    }
+    if (error instanceof ApiRouteError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: error.message, code: error.code, status: error.status },
+        },
+        { status: error.status }
+      );
+    }
+
     console.error('PATCH /api/goals/[id] error:', error);
     return NextResponse.json(
       {
@@ -182,7 +162,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 }
 
 /**
- * DELETE /api/goals/[id] - Delete goal
+ * DELETE /api/goals/[id] - Move goal to the trash
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
@@ -195,17 +175,14 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const deleted = await deleteGoal(supabase, id, user.id);
 
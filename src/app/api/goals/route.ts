@@ -1,60 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiRouteError } from '@/lib/api/errors';
+import { prepareGoalCreate } from '@/lib/api/goals';
+import {
+  createGoalSchema,
+  goalSortFieldSchema,
+  goalStatusSchema,
+  goalTypeSchema,
+  sortDirSchema,
+  uuidSchema,
+} from '@/lib/api/schemas';
 import { getGoals, createGoal, getGoalCategories } from '@/lib/db/goals';
 import type { GoalFilters, GoalSortOptions, PaginationParams } from '@/types';
 
-// Validation schemas
-const goalTypeSchema = z.enum(['long-term', 'short-term']);
-const goalStatusSchema = z.enum(['active', 'completed', 'paused', 'abandoned']);
-const sortFieldSchema = z.enum([
-  'title',
-  'created_at',
-  'updated_at',
-  'target_date',
-  'progress_percentage',
-]);
-const sortDirSchema = z.enum(['asc', 'desc']);
-
-// Accepts YYYY-MM-DD format for Supabase date columns
-const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
-
-const createGoalSchema = z.object({
-  title: z.string().min(1).max(200),
-  description: z.string().max(2000).nullable().optional(),
-  type: goalTypeSchema,
-  category: z.string().max(50).nullable().optional(),
-  targetDate: dateOnlySchema.nullable().optional(),
-  status: goalStatusSchema.optional(),
-  progressPercentage: z.number().min(0).max(100).optional(),
-  parentGoalId: z.string().uuid().nullable().optional(),
-}).refine(
-  (data) => {
-    // long-term goals cannot have a parent
-    if (data.type === 'long-term' && data.parentGoalId) {
-      return false;
-    }
-    return true;
-  },
-  { message: 'Long-term goals cannot have a parent goal' }
-);
-
 /**
  * GET /api/goals - List goals with filters/sort/pagination
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
 
@@ -79,7 +50,7 @@ export async function GET(request: NextRequest) {
     const hasParent = searchParams.get('hasParent');
     if (parentGoalId === 'null') {
       filters.parentGoalId = null; // Unlinked goals
-    } else if (parentGoalId && z.string().uuid().safeParse(parentGoalId).success) {
+    } else if (parentGoalId && uuidSchema.safeParse(parentGoalId).success) {
       filters.parentGoalId = parentGoalId;
     }
     if (hasParent === 'true') filters.hasParent = true;
@@ -89,7 +60,7 @@ export async function GET(request: NextRequest) {
     let sort: GoalSortOptions | undefined;
     const sortField = searchParams.get('sortField');
     const sortDir = searchParams.get('sortDir');
-    if (sortField && sortFieldSchema.safeParse(sortField).success) {
+    if (sortField && goalSortFieldSchema.safeParse(sortField).success) {
       sort = {
         field: sortField as GoalSortOptions['field'],
         direction:
@@ -146,17 +117,14 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = createGoalSchema.safeParse(body);
@@ -176,13 +144,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const goal = await createGoal(supabase, user.id, parsed.data);
+    const input = await prepareGoalCreate(supabase, user.id, parsed.data);
+    const goal = await createGoal(supabase, user.id, input);
 
     return NextResponse.json(
       { success: true, data: goal, error: null },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof ApiRouteError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: error.message, code: error.code, status: error.status },
+        },
+        { status: error.status }
+      );
+    }
+
     console.error('POST /api/goals error:', error);
     return NextResponse.json(
       {
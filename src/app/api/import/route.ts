@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { runImport, ImportFileError, MAX_IMPORT_FILE_SIZE } from '@/lib/import';
+
+const importFormSchema = z.object({
+  source: z.enum(['dayone', 'markdown', 'csv']).optional(),
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+/**
+ * POST /api/import - Import journal entries from a Day One export, Markdown zip or CSV
+ * multipart/form-data: file (required), source (dayone|markdown|csv, detected when
+ * omitted), dryRun ("true" to preview without writing)
+ * Returns a per-row report; valid rows are written in one transaction, invalid rows are skipped
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: 'Expected multipart/form-data with a file', status: 400 },
+        },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'file is required', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: `File is too large (max ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB)`,
+            status: 413,
+          },
+        },
+        { status: 413 }
+      );
+    }
+
+    const parsed = importFormSchema.safeParse({
+      source: formData.get('source') || undefined,
+      dryRun: formData.get('dryRun') || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: parsed.error.errors[0]?.message || 'Invalid input',
+            status: 400,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await runImport(supabase, user.id, {
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+      source: parsed.data.source,
+      dryRun: parsed.data.dryRun,
+    });
+
+    return NextResponse.json(
+      { success: true, data: report, error: null },
+      { status: report.dryRun || report.imported === 0 ? 200 : 201 }
+    );
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: error.message, status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    console.error('POST /api/import error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { getJournalById } from '@/lib/db/journals';
+import { getJournalAttachments } from '@/lib/db/attachments';
+import { AttachmentFileError, saveJournalAttachment } from '@/lib/attachments';
+import { MAX_ATTACHMENT_UPLOAD_BYTES } from '@/lib/attachments/formats';
+import { mapJournalAttachmentFromRow as mapAttachment } from '@/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/journals/[id]/attachments - Photos, audio memos and files attached to an entry
+ * In upload order; download them from /api/attachments/[attachmentId]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const journal = await getJournalById(supabase, id, user.id);
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const attachments = await getJournalAttachments(supabase, id, user.id);
+
+    return NextResponse.json({ success: true, data: attachments.map(mapAttachment), error: null });
+  } catch (error) {
+    console.error('GET /api/journals/[id]/attachments error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/journals/[id]/attachments - Attach a photo, audio memo or file to an entry
+ * multipart/form-data: file (required). The type is detected from the file's contents:
+ * images up to 10 MB (a thumbnail is generated), audio up to 25 MB, PDF and text files up
+ * to 10 MB. Reference the attachment from the entry's content as attachment:<id>
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const journal = await getJournalById(supabase, id, user.id);
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: 'Expected multipart/form-data with a file', status: 400 },
+        },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'file is required', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_ATTACHMENT_UPLOAD_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: `File is too large (max ${MAX_ATTACHMENT_UPLOAD_BYTES / 1024 / 1024} MB)`,
+            status: 413,
+          },
+        },
+        { status: 413 }
+      );
+    }
+
+    const attachment = await saveJournalAttachment(supabase, user.id, id, {
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ success: true, data: attachment, error: null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentFileError) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: error.message, status: error.status } },
+        { status: error.status }
+      );
+    }
+
+    console.error('POST /api/journals/[id]/attachments error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
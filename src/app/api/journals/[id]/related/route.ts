@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getJournalById } from '@/lib/db/journals';
+import { getRelatedJournalEntries } from '@/lib/embeddings';
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/journals/[id]/related?limit=5 - Thematically similar past entries
+ * Ranked by embedding similarity; entries without embeddings are indexed first
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const journal = await getJournalById(supabase, id, user.id);
+
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(
+      20,
+      Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') ?? '5', 10) || 5)
+    );
+    const related = await getRelatedJournalEntries(supabase, user.id, journal, limit);
+
+    return NextResponse.json({ success: true, data: related, error: null });
+  } catch (error) {
+    console.error('GET /api/journals/[id]/related error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
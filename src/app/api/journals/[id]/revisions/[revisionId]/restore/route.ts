@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { getJournalById, restoreJournalRevision } from '@/lib/db/journals';
+import { indexJournalEntries } from '@/lib/embeddings';
+
+type RouteContext = { params: Promise<{ id: string; revisionId: string }> };
+
+/**
+ * POST /api/journals/[id]/revisions/[revisionId]/restore - Restore a previous version
+ * Returns the updated entry. The version it replaces is recorded as a new revision.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, revisionId } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success || !uuidSchema.safeParse(revisionId).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal or revision ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const existing = await getJournalById(supabase, id, user.id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const journal = await restoreJournalRevision(supabase, id, revisionId, user.id);
+
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Revision not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    await indexJournalEntries(supabase, user.id, [journal]).catch((err) =>
+      console.error('POST /api/journals/[id]/revisions/[revisionId]/restore embedding error:', err)
+    );
+
+    return NextResponse.json({ success: true, data: journal, error: null });
+  } catch (error) {
+    console.error('POST /api/journals/[id]/revisions/[revisionId]/restore error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { getJournalById } from '@/lib/db/journals';
+import { getJournalRevisions } from '@/lib/db/revisions';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/journals/[id]/revisions - Previous versions of a journal entry
+ * Each revision is the entry as it was before an update, most recent first
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const journal = await getJournalById(supabase, id, user.id);
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await getJournalRevisions(supabase, id, user.id);
+
+    return NextResponse.json({ success: true, data: revisions, error: null });
+  } catch (error) {
+    console.error('GET /api/journals/[id]/revisions error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
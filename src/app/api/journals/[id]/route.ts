@@ -1,37 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiRouteError } from '@/lib/api/errors';
+import { updateJournalSchema, uuidSchema } from '@/lib/api/schemas';
 import {
   getJournalWithGoals,
   updateJournalEntryWithGoals,
   deleteJournalEntry,
 } from '@/lib/db/journals';
-
-// Validation schemas
-const moodSchema = z.enum(['great', 'good', 'neutral', 'bad', 'terrible']);
-
-// Accepts YYYY-MM-DD format
-const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
-
-const updateJournalSchema = z
-  .object({
-    title: z.string().max(200).nullable().optional(),
-    content: z.string().min(1).max(50000).optional(),
-    entryDate: dateOnlySchema.optional(),
-    mood: moodSchema.nullable().optional(),
-    tags: z.array(z.string().max(50)).max(20).optional(),
-    goalIds: z.array(z.string().uuid()).optional(),
-  })
-  .refine((data) => Object.keys(data).length > 0, {
-    message: 'At least one field required',
-  });
-
-const uuidSchema = z.string().uuid();
+import { indexJournalEntries } from '@/lib/embeddings';
+import { getExpectedUpdatedAt, toETag, UPDATE_CONFLICT_CODE } from '@/lib/concurrency';
+import { JournalEntryConflictError } from '@/types';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
 /**
  * GET /api/journals/[id] - Get single journal entry with goals
+ * The ETag header can be sent back as If-Match on PATCH to avoid overwriting newer changes
  */
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
@@ -44,17 +28,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const journal = await getJournalWithGoals(supabase, id, user.id);
 
@@ -65,7 +46,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    return NextResponse.json({ success: true, data: journal, error: null });
+    return NextResponse.json(
+      { success: true, data: journal, error: null },
+      { headers: { ETag: toETag(journal.updatedAt) } }
+    );
   } catch (error) {
     console.error('GET /api/journals/[id] error:', error);
     return NextResponse.json(
@@ -84,6 +68,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 /**
  * PATCH /api/journals/[id] - Update journal entry
+ * With If-Match (or expectedUpdatedAt) the update is refused with 409 and the current entry
+ * when the entry has changed since
  */
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
@@ -96,17 +82,14 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = updateJournalSchema.safeParse(body);
@@ -126,7 +109,10 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const journal = await updateJournalEntryWithGoals(supabase, id, user.id, parsed.data);
+    const journal = await updateJournalEntryWithGoals(supabase, id, user.id, {
+      ...parsed.data,
+      expectedUpdatedAt: getExpectedUpdatedAt(request.headers, parsed.data.expectedUpdatedAt),
+    });
 
     if (!journal) {
       return NextResponse.json(
@@ -135,8 +121,38 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
-    return NextResponse.json({ success: true, data: journal, error: null });
+    if (parsed.data.title !== undefined || parsed.data.content !== undefined) {
+      await indexJournalEntries(supabase, user.id, [journal]).catch((err) =>
+        console.error('PATCH /api/journals/[id] embedding error:', err)
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: journal, error: null },
+      { headers: { ETag: toETag(journal.updatedAt) } }
+    );
   } catch (error) {
+    if (error instanceof JournalEntryConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: error.current,
+          error: { message: error.message, status: 409, code: UPDATE_CONFLICT_CODE },
+        },
+        { status: 409, headers: { ETag: toETag(error.current.updatedAt) } }
+      );
+    }
+    if (error instanceof ApiRouteError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: error.message, code: error.code, status: error.status },
+        },
+        { status: error.status }
+      );
+    }
+
     console.error('PATCH /api/journals/[id] error:', error);
     return NextResponse.json(
       {
@@ -153,7 +169,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 }
 
 /**
- * DELETE /api/journals/[id] - Delete journal entry
+ * DELETE /api/journals/[id] - Move journal entry to the trash
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
@@ -166,17 +182,14 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const deleted = await deleteJournalEntry(supabase, id, user.id);
 
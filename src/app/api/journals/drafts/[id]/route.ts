@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { updateJournalDraftSchema, uuidSchema } from '@/lib/api/schemas';
+import { deleteJournalDraft, getJournalDraftById, updateJournalDraft } from '@/lib/db/drafts';
+import { JournalDraftConflictError } from '@/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/journals/drafts/[id] - Get a draft
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid draft ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const draft = await getJournalDraftById(supabase, id, user.id);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Draft not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: draft, error: null });
+  } catch (error) {
+    console.error('GET /api/journals/drafts/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/journals/drafts/[id] - Autosave a draft
+ * Body: { baseVersion, title?, content?, entryDate?, mood?, tags?, goalIds?, device? }
+ * When the draft was saved elsewhere after baseVersion, answers 409 DRAFT_CONFLICT with the
+ * current draft in data. To overwrite it, save again with its version as baseVersion.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid draft ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = updateJournalDraftSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await updateJournalDraft(supabase, id, user.id, parsed.data);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Draft not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: draft, error: null });
+  } catch (error) {
+    if (error instanceof JournalDraftConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: error.current,
+          error: { message: error.message, status: 409, code: 'DRAFT_CONFLICT' },
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('PATCH /api/journals/drafts/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/journals/drafts/[id] - Discard a draft
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid draft ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const deleted = await deleteJournalDraft(supabase, id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Draft not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { id }, error: null });
+  } catch (error) {
+    console.error('DELETE /api/journals/drafts/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { createJournalDraftSchema, journalDraftListQuerySchema } from '@/lib/api/schemas';
+import { createJournalDraft, getJournalDrafts } from '@/lib/db/drafts';
+import { getJournalById } from '@/lib/db/journals';
+import { JournalDraftConflictError } from '@/types';
+
+/**
+ * GET /api/journals/drafts - List drafts, most recently saved first
+ * Query params: journalId (draft of that entry, or 'none' for drafts of new entries)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const parsed = journalDraftListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { journalId } = parsed.data;
+    const drafts = await getJournalDrafts(supabase, user.id, {
+      journalEntryId: journalId === 'none' ? null : journalId,
+    });
+
+    return NextResponse.json({ success: true, data: drafts, error: null });
+  } catch (error) {
+    console.error('GET /api/journals/drafts error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/journals/drafts - Start a draft
+ * Body: { journalEntryId?, title?, content?, entryDate?, mood?, tags?, goalIds?, device? }
+ * An entry has one draft: 409 DRAFT_CONFLICT returns the existing one in data
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = createJournalDraftSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.journalEntryId) {
+      const journal = await getJournalById(supabase, parsed.data.journalEntryId, user.id);
+      if (!journal) {
+        return NextResponse.json(
+          { success: false, data: null, error: { message: 'Journal not found', status: 404 } },
+          { status: 404 }
+        );
+      }
+    }
+
+    const draft = await createJournalDraft(supabase, user.id, parsed.data);
+
+    return NextResponse.json({ success: true, data: draft, error: null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof JournalDraftConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: error.current,
+          error: { message: error.message, status: 409, code: 'DRAFT_CONFLICT' },
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('POST /api/journals/drafts error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
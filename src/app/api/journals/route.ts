@@ -1,42 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { createClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth';
+import {
+  createJournalSchema,
+  dateOnlySchema,
+  journalSortFieldSchema,
+  moodSchema,
+  sortDirSchema,
+  uuidSchema,
+} from '@/lib/api/schemas';
 import { getJournalEntriesWithGoals, createJournalEntryWithGoals } from '@/lib/db/journals';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { indexJournalEntries } from '@/lib/embeddings';
+import { getTodayInTimezone } from '@/lib/timezone';
 import type { JournalFilters, JournalSortOptions, PaginationParams } from '@/types';
 
-// Validation schemas
-const moodSchema = z.enum(['great', 'good', 'neutral', 'bad', 'terrible']);
-const sortFieldSchema = z.enum(['entry_date', 'created_at', 'updated_at', 'title']);
-const sortDirSchema = z.enum(['asc', 'desc']);
-
-// Accepts YYYY-MM-DD format
-const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
-
-const createJournalSchema = z.object({
-  title: z.string().max(200).nullable().optional(),
-  content: z.string().min(1).max(50000),
-  entryDate: dateOnlySchema.optional(),
-  mood: moodSchema.nullable().optional(),
-  tags: z.array(z.string().max(50)).max(20).optional(),
-  goalIds: z.array(z.string().uuid()).optional(),
-});
-
 /**
  * GET /api/journals - List journals with filters/sort/pagination
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['journals:read'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const searchParams = request.nextUrl.searchParams;
 
@@ -59,7 +49,7 @@ export async function GET(request: NextRequest) {
       filters.dateTo = dateTo;
     }
     if (search) filters.search = search;
-    if (goalId && z.string().uuid().safeParse(goalId).success) {
+    if (goalId && uuidSchema.safeParse(goalId).success) {
       filters.goalId = goalId;
     }
     if (tagsParam) {
@@ -70,7 +60,7 @@ export async function GET(request: NextRequest) {
     let sort: JournalSortOptions | undefined;
     const sortField = searchParams.get('sortField');
     const sortDir = searchParams.get('sortDir');
-    if (sortField && sortFieldSchema.safeParse(sortField).success) {
+    if (sortField && journalSortFieldSchema.safeParse(sortField).success) {
       sort = {
         field: sortField as JournalSortOptions['field'],
         direction:
@@ -127,17 +117,14 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
       return NextResponse.json(
-        { success: false, data: null, error: { message: 'Unauthorized', status: 401 } },
-        { status: 401 }
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
       );
     }
+    const { supabase, user } = auth;
 
     const body = await request.json();
     const parsed = createJournalSchema.safeParse(body);
@@ -157,7 +144,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const journal = await createJournalEntryWithGoals(supabase, user.id, parsed.data);
+    // Entries without a date belong to today in the user's timezone
+    const entryDate =
+      parsed.data.entryDate ?? getTodayInTimezone(await getUserTimezone(supabase, user.id));
+    const journal = await createJournalEntryWithGoals(supabase, user.id, {
+      ...parsed.data,
+      entryDate,
+    });
+
+    // The entry is saved either way; a missed embedding is backfilled on the next lookup
+    await indexJournalEntries(supabase, user.id, [journal]).catch((err) =>
+      console.error('POST /api/journals embedding error:', err)
+    );
 
     return NextResponse.json(
       { success: true, data: journal, error: null },
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { suggestGoalsForText } from '@/lib/embeddings';
+
+const suggestGoalsSchema = z.object({
+  title: z.string().max(200).nullable().optional(),
+  content: z.string().min(1).max(50000),
+  limit: z.number().int().min(1).max(10).optional(),
+});
+
+/**
+ * POST /api/journals/suggest-goals - Suggest goals for a draft entry
+ * Based on the goals linked to similar past entries (see suggestGoalsForText)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['journals:read', 'goals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = suggestGoalsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { title, content, limit } = parsed.data;
+    const suggestions = await suggestGoalsForText(
+      supabase,
+      user.id,
+      title ? `${title}\n${content}` : content,
+      { limit }
+    );
+
+    return NextResponse.json({ success: true, data: suggestions, error: null });
+  } catch (error) {
+    console.error('POST /api/journals/suggest-goals error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { AttachmentFileError } from '@/lib/attachments';
+import { ATTACHMENT_MAX_BYTES } from '@/lib/attachments/formats';
+import { transcribeAudio, TranscriptionError } from '@/lib/transcription';
+
+const transcribeFormSchema = z.object({
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/, 'language must be a two-letter ISO 639-1 code')
+    .optional(),
+});
+
+/**
+ * POST /api/journals/transcribe - Turn a voice recording into text for a journal entry
+ * multipart/form-data: file (MP3, M4A, WAV, Ogg or WebM, up to 25 MB), language (optional
+ * ISO 639-1 hint). The recording is not stored; attach it to the entry once it is saved
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: 'Expected multipart/form-data with a file', status: 400 },
+        },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'file is required', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > ATTACHMENT_MAX_BYTES.audio) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: `Recording is too large (max ${ATTACHMENT_MAX_BYTES.audio / 1024 / 1024} MB)`,
+            status: 413,
+          },
+        },
+        { status: 413 }
+      );
+    }
+
+    const parsed = transcribeFormSchema.safeParse({
+      language: formData.get('language') || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: parsed.error.errors[0]?.message || 'Invalid input',
+            status: 400,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const transcription = await transcribeAudio(
+      { fileName: file.name, data: Buffer.from(await file.arrayBuffer()) },
+      { language: parsed.data.language }
+    );
+
+    return NextResponse.json({ success: true, data: transcription, error: null });
+  } catch (error) {
+    if (error instanceof AttachmentFileError) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: error.message, status: error.status } },
+        { status: error.status }
+      );
+    }
+
+    console.error('POST /api/journals/transcribe error:', error);
+
+    if (error instanceof TranscriptionError) {
+      if (error.isRateLimited) {
+        return NextResponse.json(
+          {
+            success: false,
+            data: null,
+            error: {
+              message: 'Transcription service rate limited. Please try again in a moment.',
+              status: 429,
+              code: 'RATE_LIMITED',
+            },
+          },
+          { status: 429 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Transcription failed. Please try again.',
+            status: 502,
+            code: 'TRANSCRIPTION_ERROR',
+          },
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
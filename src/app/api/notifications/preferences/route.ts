@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { updateNotificationPreferencesSchema } from '@/lib/api/schemas';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/db/notifications';
+
+/**
+ * GET /api/notifications/preferences - Reminder rules, channels, reminder time and quiet hours
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['notifications:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const preferences = await getNotificationPreferences(supabase, user.id);
+
+    return NextResponse.json({ success: true, data: preferences, error: null });
+  } catch (error) {
+    console.error('GET /api/notifications/preferences error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications/preferences - Update notification preferences
+ * Body: { channels?, rules?, reminderTime?, quietHoursStart?, quietHoursEnd? }
+ * Times are HH:MM in the user's timezone; quiet hours are set or cleared together
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['notifications:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = updateNotificationPreferencesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await updateNotificationPreferences(supabase, user.id, parsed.data);
+
+    return NextResponse.json({ success: true, data: preferences, error: null });
+  } catch (error) {
+    console.error('PATCH /api/notifications/preferences error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
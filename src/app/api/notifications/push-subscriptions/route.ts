@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { deletePushSubscriptionSchema, pushSubscriptionSchema } from '@/lib/api/schemas';
+import { deletePushSubscription, savePushSubscription } from '@/lib/db/notifications';
+
+/**
+ * POST /api/notifications/push-subscriptions - Enable Web Push for this browser
+ * Body: the browser's PushSubscription.toJSON() ({ endpoint, keys: { p256dh, auth } })
+ * Browsers subscribe from a signed-in session, not with an access token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = pushSubscriptionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await savePushSubscription(supabase, user.id, {
+      ...parsed.data,
+      userAgent: parsed.data.userAgent ?? request.headers.get('user-agent')?.slice(0, 500) ?? null,
+    });
+
+    return NextResponse.json({ success: true, data: subscription, error: null }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/notifications/push-subscriptions error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/notifications/push-subscriptions - Disable Web Push for a browser
+ * Body: { endpoint }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = deletePushSubscriptionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deletePushSubscription(supabase, user.id, parsed.data.endpoint);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Subscription not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: null, error: null });
+  } catch (error) {
+    console.error('DELETE /api/notifications/push-subscriptions error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { markNotificationsReadSchema } from '@/lib/api/schemas';
+import { getNotifications, markNotificationsRead } from '@/lib/db/notifications';
+import type { PaginationParams } from '@/types';
+
+/**
+ * GET /api/notifications - The in-app notification inbox, newest first
+ * Query params: unread=true (only unread), page, pageSize (max 100)
+ * The response includes unreadCount next to pagination
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['notifications:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const pagination: PaginationParams = {
+      page: Math.max(1, parseInt(searchParams.get('page') ?? '1', 10) || 1),
+      pageSize: Math.min(
+        100,
+        Math.max(1, parseInt(searchParams.get('pageSize') ?? '20', 10) || 20)
+      ),
+    };
+
+    const result = await getNotifications(
+      supabase,
+      user.id,
+      { unreadOnly: searchParams.get('unread') === 'true' },
+      pagination
+    );
+
+    const totalPages = Math.ceil(result.totalCount / (pagination.pageSize ?? 20));
+
+    return NextResponse.json({
+      success: true,
+      data: result.notifications,
+      unreadCount: result.unreadCount,
+      pagination: {
+        page: pagination.page ?? 1,
+        pageSize: pagination.pageSize ?? 20,
+        totalCount: result.totalCount,
+        totalPages,
+        hasNext: (pagination.page ?? 1) < totalPages,
+        hasPrev: (pagination.page ?? 1) > 1,
+      },
+      error: null,
+    });
+  } catch (error) {
+    console.error('GET /api/notifications error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications - Mark notifications read
+ * Body: { ids: string[] } or { all: true }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['notifications:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = markNotificationsReadSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const marked = await markNotificationsRead(
+      supabase,
+      user.id,
+      'ids' in parsed.data ? parsed.data.ids : undefined
+    );
+
+    return NextResponse.json({ success: true, data: { marked }, error: null });
+  } catch (error) {
+    console.error('PATCH /api/notifications error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
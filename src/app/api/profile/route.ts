@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getProfile, updateProfile } from '@/lib/db/profiles';
+import { isValidTimezone } from '@/lib/timezone';
+
+const updateProfileSchema = z
+  .object({
+    fullName: z.string().max(100).nullable().optional(),
+    timezone: z
+      .string()
+      .max(64)
+      .refine(isValidTimezone, 'Unknown timezone (expected an IANA name such as Europe/Berlin)')
+      .optional(),
+    emailDigest: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  });
+
+/**
+ * GET /api/profile - Get the current user's profile
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['profile:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const profile = await getProfile(supabase, user.id);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Profile not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: profile, error: null });
+  } catch (error) {
+    console.error('GET /api/profile error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/profile - Update name, timezone and/or the email digest preference
+ * The timezone decides what "today" is for streaks, check-ins and dashboard ranges.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['profile:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = updateProfileSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = await updateProfile(supabase, user.id, parsed.data);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Profile not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: profile, error: null });
+  } catch (error) {
+    console.error('PATCH /api/profile error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
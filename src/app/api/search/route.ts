@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { searchQuerySchema } from '@/lib/api/schemas';
+import { searchAll } from '@/lib/db/search';
+import { toTsQuery } from '@/lib/search';
+
+/**
+ * GET /api/search?q= - Ranked full-text search across journal entries and goals
+ * q supports "exact phrases", prefix* terms, -exclusions and OR.
+ * Filters: type (journal|goal), mood, tag, dateFrom, dateTo, goalId. Mood, tag and
+ * date filters apply to journal entries only, so they leave goals out of the results.
+ * titleHighlight/snippet are HTML-escaped with matches wrapped in <mark>.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read', 'journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const parsed = searchQuerySchema.safeParse({
+      q: searchParams.get('q') ?? '',
+      type: searchParams.get('type') || undefined,
+      mood: searchParams.get('mood') || undefined,
+      tag: searchParams.get('tag') || undefined,
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      goalId: searchParams.get('goalId') || undefined,
+      page: searchParams.get('page') || undefined,
+      pageSize: searchParams.get('pageSize') || undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: parsed.error.errors[0]?.message || 'Invalid search parameters',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { q, type, page, pageSize, ...filters } = parsed.data;
+    const tsQuery = toTsQuery(q);
+
+    if (!tsQuery) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: { message: 'Search query has no searchable words', status: 400 },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchAll(
+      supabase,
+      tsQuery,
+      { ...filters, kinds: type ? [type] : undefined },
+      { page, pageSize }
+    );
+
+    const totalPages = Math.ceil(result.totalCount / pageSize);
+
+    return NextResponse.json({
+      success: true,
+      data: result.results,
+      pagination: {
+        page,
+        pageSize,
+        totalCount: result.totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+      error: null,
+    });
+  } catch (error) {
+    console.error('GET /api/search error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
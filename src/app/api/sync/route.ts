@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiRouteError } from '@/lib/api/errors';
+import { prepareGoalCreate, prepareGoalUpdate } from '@/lib/api/goals';
+import { syncQuerySchema, syncRequestSchema } from '@/lib/api/schemas';
+import { applySyncMutations, getSyncChanges } from '@/lib/db/sync';
+import { SyncMutationError, type GoalType, type SyncMutation } from '@/types';
+
+/**
+ * GET /api/sync - Goals, journal entries and mentions changed since a cursor
+ * Query params: since (cursor from the previous sync; omit for a full sync), limit
+ * Returns updated records and deleted ids per kind, a new cursor and hasMore
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read', 'journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase } = auth;
+
+    const parsed = syncQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const changes = await getSyncChanges(
+      supabase,
+      Number(parsed.data.since ?? 0),
+      parsed.data.limit
+    );
+
+    return NextResponse.json({ success: true, data: changes, error: null });
+  } catch (error) {
+    console.error('GET /api/sync error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sync - Apply a batch of client changes atomically
+ * Body: { mutations: [{ entity, op, id, data?, expectedUpdatedAt? }] }
+ * Conflicting items are skipped and listed in conflicts with the server's version; an invalid
+ * item rolls back the whole batch (400 SYNC_MUTATION_FAILED, details.index)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, {
+      scopes: ['goals:write', 'journals:write'],
+    });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = syncRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Goals follow the same rules as POST /api/goals and PATCH /api/goals/[id]. Checked in
+    // order, so a goal can have a parent created earlier in the batch
+    const createdGoalTypes = new Map<string, GoalType>();
+    const mutations: SyncMutation[] = [];
+    for (let index = 0; index < parsed.data.mutations.length; index++) {
+      const mutation = parsed.data.mutations[index];
+      try {
+        if (mutation.entity === 'goal' && mutation.op === 'create') {
+          const data = await prepareGoalCreate(supabase, user.id, mutation.data, createdGoalTypes);
+          createdGoalTypes.set(mutation.id, data.type);
+          mutations.push({ ...mutation, data });
+        } else if (mutation.entity === 'goal' && mutation.op === 'update') {
+          const data = await prepareGoalUpdate(supabase, mutation.id, user.id, mutation.data);
+          mutations.push({ ...mutation, data });
+        } else {
+          mutations.push(mutation);
+        }
+      } catch (error) {
+        if (error instanceof ApiRouteError) {
+          throw new SyncMutationError(index, error.message);
+        }
+        throw error;
+      }
+    }
+
+    const result = await applySyncMutations(supabase, user.id, mutations);
+
+    return NextResponse.json({ success: true, data: result, error: null });
+  } catch (error) {
+    if (error instanceof SyncMutationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: error.message,
+            status: 400,
+            code: 'SYNC_MUTATION_FAILED',
+            details: { index: error.index },
+          },
+        },
+        { status: 400 }
+      );
+    }
+    console.error('POST /api/sync error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
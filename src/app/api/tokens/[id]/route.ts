@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { revokePersonalAccessToken } from '@/lib/db/tokens';
+
+const uuidSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/tokens/[id] - Revoke a personal access token
+ * Requests made with the token fail from then on
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid token ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const revoked = await revokePersonalAccessToken(supabase, id, user.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Token not found', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { id }, error: null });
+  } catch (error) {
+    console.error('DELETE /api/tokens/[id] error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { createPersonalAccessToken, getPersonalAccessTokens } from '@/lib/db/tokens';
+import { TOKEN_SCOPES, type TokenScope } from '@/types';
+
+const tokenScopeSchema = z.enum(TOKEN_SCOPES as [TokenScope, ...TokenScope[]]);
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(tokenScopeSchema).min(1, 'Select at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+/**
+ * GET /api/tokens - List the user's active personal access tokens
+ * Tokens can only be managed from a signed-in session, not with another token
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const tokens = await getPersonalAccessTokens(supabase, user.id);
+
+    return NextResponse.json({ success: true, data: tokens, error: null });
+  } catch (error) {
+    console.error('GET /api/tokens error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tokens - Create a personal access token
+ * Body: { name, scopes, expiresInDays? }
+ * The plaintext token is only included in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = createTokenSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const created = await createPersonalAccessToken(supabase, user.id, parsed.data);
+
+    return NextResponse.json({ success: true, data: created, error: null }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/tokens error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
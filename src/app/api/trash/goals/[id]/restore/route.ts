@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { restoreGoal } from '@/lib/db/trash';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/trash/goals/[id]/restore - Restore a trashed goal
+ * Its child goals and journal links come back with it
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid goal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['goals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const goal = await restoreGoal(supabase, id, user.id);
+
+    if (!goal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Goal not found in trash', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: goal, error: null });
+  } catch (error) {
+    console.error('POST /api/trash/goals/[id]/restore error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
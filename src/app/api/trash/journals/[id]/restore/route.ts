@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { restoreJournalEntry } from '@/lib/db/trash';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/trash/journals/[id]/restore - Restore a trashed journal entry
+ * Its goal links come back with it
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid journal ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { scopes: ['journals:write'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const journal = await restoreJournalEntry(supabase, id, user.id);
+
+    if (!journal) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Journal not found in trash', status: 404 } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: journal, error: null });
+  } catch (error) {
+    console.error('POST /api/trash/journals/[id]/restore error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { getTrash } from '@/lib/db/trash';
+
+/**
+ * GET /api/trash - List trashed goals and journal entries
+ * Each item carries deletedAt and purgeAt, when it will be deleted for good
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { scopes: ['goals:read', 'journals:read'] });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const trash = await getTrash(supabase, user.id);
+
+    return NextResponse.json({ success: true, data: trash, error: null });
+  } catch (error) {
+    console.error('GET /api/trash error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { analyzeJournal } from '@/lib/api/ai';
+import { apiV1 } from '@/lib/api/contract';
+import { createEndpointHandler } from '@/lib/api/handler';
+
+/**
+ * POST /api/v1/ai/analyze-journal - Analyze a journal entry using Claude
+ */
+export const POST = createEndpointHandler(
+  apiV1.analyzeJournalEntry,
+  async ({ supabase, user, body }) => ({
+    data: await analyzeJournal(supabase, user.id, body.journalId),
+  })
+);
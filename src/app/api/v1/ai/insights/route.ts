@@ -0,0 +1,23 @@
+import { getOrGenerateInsights } from '@/lib/api/ai';
+import { apiV1 } from '@/lib/api/contract';
+import { createEndpointHandler } from '@/lib/api/handler';
+
+/**
+ * GET /api/v1/ai/insights?timeline=week|month - Fetch cached or generate insights
+ */
+export const GET = createEndpointHandler(apiV1.getInsights, async ({ supabase, user, query }) => ({
+  data: await getOrGenerateInsights(supabase, user.id, query.timeline, query.refresh === 'true'),
+}));
+
+/**
+ * POST /api/v1/ai/insights - Generate insights (bypasses cache if refresh=true)
+ */
+export const POST = createEndpointHandler(
+  apiV1.generateInsights,
+  async ({ supabase, user, body }) => {
+    // timeline wins over analysisType when both are given
+    const timeline =
+      body.timeline ?? (body.analysisType === 'monthly' ? 'month' : 'week');
+    return { data: await getOrGenerateInsights(supabase, user.id, timeline, body.refresh) };
+  }
+);
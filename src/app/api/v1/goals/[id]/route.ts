@@ -0,0 +1,46 @@
+import { apiV1 } from '@/lib/api/contract';
+import { ApiRouteError } from '@/lib/api/errors';
+import { prepareGoalUpdate } from '@/lib/api/goals';
+import { createEndpointHandler } from '@/lib/api/handler';
+import { getGoalById, updateGoal, deleteGoal } from '@/lib/db/goals';
+import { getExpectedUpdatedAt } from '@/lib/concurrency';
+
+/**
+ * GET /api/v1/goals/{id} - Get single goal
+ */
+export const GET = createEndpointHandler(apiV1.getGoal, async ({ supabase, user, params }) => {
+  const goal = await getGoalById(supabase, params.id, user.id);
+  if (!goal) {
+    throw new ApiRouteError('Goal not found', 404);
+  }
+  return { data: goal };
+});
+
+/**
+ * PATCH /api/v1/goals/{id} - Update goal
+ */
+export const PATCH = createEndpointHandler(
+  apiV1.updateGoal,
+  async ({ request, supabase, user, params, body }) => {
+    const input = await prepareGoalUpdate(supabase, params.id, user.id, {
+      ...body,
+      expectedUpdatedAt: getExpectedUpdatedAt(request.headers, body.expectedUpdatedAt),
+    });
+    const goal = await updateGoal(supabase, params.id, user.id, input);
+    if (!goal) {
+      throw new ApiRouteError('Goal not found', 404);
+    }
+    return { data: goal };
+  }
+);
+
+/**
+ * DELETE /api/v1/goals/{id} - Move goal to the trash
+ */
+export const DELETE = createEndpointHandler(apiV1.deleteGoal, async ({ supabase, user, params }) => {
+  const deleted = await deleteGoal(supabase, params.id, user.id);
+  if (!deleted) {
+    throw new ApiRouteError('Goal not found', 404);
+  }
+  return { data: { id: params.id } };
+});
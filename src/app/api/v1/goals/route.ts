@@ -0,0 +1,32 @@
+import { apiV1 } from '@/lib/api/contract';
+import { prepareGoalCreate } from '@/lib/api/goals';
+import { buildPagination, createEndpointHandler } from '@/lib/api/handler';
+import { getGoals, createGoal } from '@/lib/db/goals';
+
+/**
+ * GET /api/v1/goals - List goals with filters/sort/pagination
+ */
+export const GET = createEndpointHandler(apiV1.listGoals, async ({ supabase, user, query }) => {
+  const { parentGoalId, hasParent, sortField, sortDir, page, pageSize, ...filters } = query;
+
+  const result = await getGoals(supabase, user.id, {
+    filters: {
+      ...filters,
+      parentGoalId: parentGoalId === 'null' ? null : parentGoalId,
+      hasParent: hasParent === undefined ? undefined : hasParent === 'true',
+    },
+    sort: sortField ? { field: sortField, direction: sortDir } : undefined,
+    pagination: { page, pageSize },
+  });
+
+  return { data: result.goals, pagination: buildPagination(page, pageSize, result.totalCount) };
+});
+
+/**
+ * POST /api/v1/goals - Create new goal
+ */
+export const POST = createEndpointHandler(apiV1.createGoal, async ({ supabase, user, body }) => {
+  const input = await prepareGoalCreate(supabase, user.id, body);
+  const goal = await createGoal(supabase, user.id, input);
+  return { data: goal };
+});
@@ -0,0 +1,62 @@
+import { apiV1 } from '@/lib/api/contract';
+import { ApiRouteError } from '@/lib/api/errors';
+import { createEndpointHandler } from '@/lib/api/handler';
+import {
+  getJournalWithGoals,
+  updateJournalEntryWithGoals,
+  deleteJournalEntry,
+} from '@/lib/db/journals';
+import { indexJournalEntries } from '@/lib/embeddings';
+import { getExpectedUpdatedAt } from '@/lib/concurrency';
+
+/**
+ * GET /api/v1/journals/{id} - Get single journal entry with goals
+ */
+export const GET = createEndpointHandler(
+  apiV1.getJournalEntry,
+  async ({ supabase, user, params }) => {
+    const journal = await getJournalWithGoals(supabase, params.id, user.id);
+    if (!journal) {
+      throw new ApiRouteError('Journal not found', 404);
+    }
+    return { data: journal };
+  }
+);
+
+/**
+ * PATCH /api/v1/journals/{id} - Update journal entry
+ */
+export const PATCH = createEndpointHandler(
+  apiV1.updateJournalEntry,
+  async ({ request, supabase, user, params, body }) => {
+    const journal = await updateJournalEntryWithGoals(supabase, params.id, user.id, {
+      ...body,
+      expectedUpdatedAt: getExpectedUpdatedAt(request.headers, body.expectedUpdatedAt),
+    });
+    if (!journal) {
+      throw new ApiRouteError('Journal not found', 404);
+    }
+
+    if (body.title !== undefined || body.content !== undefined) {
+      await indexJournalEntries(supabase, user.id, [journal]).catch((err) =>
+        console.error('PATCH /api/v1/journals/{id} embedding error:', err)
+      );
+    }
+
+    return { data: journal };
+  }
+);
+
+/**
+ * DELETE /api/v1/journals/{id} - Move journal entry to the trash
+ */
+export const DELETE = createEndpointHandler(
+  apiV1.deleteJournalEntry,
+  async ({ supabase, user, params }) => {
+    const deleted = await deleteJournalEntry(supabase, params.id, user.id);
+    if (!deleted) {
+      throw new ApiRouteError('Journal not found', 404);
+    }
+    return { data: { id: params.id } };
+  }
+);
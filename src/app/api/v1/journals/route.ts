@@ -0,0 +1,46 @@
+import { apiV1 } from '@/lib/api/contract';
+import { buildPagination, createEndpointHandler } from '@/lib/api/handler';
+import { getJournalEntriesWithGoals, createJournalEntryWithGoals } from '@/lib/db/journals';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { indexJournalEntries } from '@/lib/embeddings';
+import { getTodayInTimezone } from '@/lib/timezone';
+
+/**
+ * GET /api/v1/journals - List journals with filters/sort/pagination
+ */
+export const GET = createEndpointHandler(
+  apiV1.listJournalEntries,
+  async ({ supabase, user, query }) => {
+    const { tags, sortField, sortDir, page, pageSize, ...filters } = query;
+
+    const result = await getJournalEntriesWithGoals(supabase, user.id, {
+      filters: { ...filters, tags: tags ? tags.split(',').filter(Boolean) : undefined },
+      sort: sortField ? { field: sortField, direction: sortDir } : undefined,
+      pagination: { page, pageSize },
+    });
+
+    return {
+      data: result.journals,
+      pagination: buildPagination(page, pageSize, result.totalCount),
+    };
+  }
+);
+
+/**
+ * POST /api/v1/journals - Create new journal entry
+ */
+export const POST = createEndpointHandler(
+  apiV1.createJournalEntry,
+  async ({ supabase, user, body }) => {
+    // Entries without a date belong to today in the user's timezone
+    const entryDate = body.entryDate ?? getTodayInTimezone(await getUserTimezone(supabase, user.id));
+    const journal = await createJournalEntryWithGoals(supabase, user.id, { ...body, entryDate });
+
+    // The entry is saved either way; a missed embedding is backfilled on the next lookup
+    await indexJournalEntries(supabase, user.id, [journal]).catch((err) =>
+      console.error('POST /api/v1/journals embedding error:', err)
+    );
+
+    return { data: journal };
+  }
+);
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { createOpenAPIDocument } from '@/lib/api/openapi';
+
+/**
+ * GET /api/v1/openapi.json - OpenAPI 3.1 document for /api/v1
+ * Public; generated from the same schemas the endpoints validate with
+ */
+export async function GET() {
+  return NextResponse.json(createOpenAPIDocument());
+}
@@ -0,0 +1,26 @@
+import { apiV1 } from '@/lib/api/contract';
+import { ApiRouteError } from '@/lib/api/errors';
+import { buildPagination, createEndpointHandler } from '@/lib/api/handler';
+import { searchAll } from '@/lib/db/search';
+import { toTsQuery } from '@/lib/search';
+
+/**
+ * GET /api/v1/search?q= - Ranked full-text search across journal entries and goals
+ */
+export const GET = createEndpointHandler(apiV1.search, async ({ supabase, query }) => {
+  const { q, type, page, pageSize, ...filters } = query;
+  const tsQuery = toTsQuery(q);
+
+  if (!tsQuery) {
+    throw new ApiRouteError('Search query has no searchable words', 400);
+  }
+
+  const result = await searchAll(
+    supabase,
+    tsQuery,
+    { ...filters, kinds: type ? [type] : undefined },
+    { page, pageSize }
+  );
+
+  return { data: result.results, pagination: buildPagination(page, pageSize, result.totalCount) };
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { uuidSchema } from '@/lib/api/schemas';
+import { getWebhookDeliveries } from '@/lib/db/webhooks';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/webhooks/[id]/deliveries?limit=50 - Delivery log of an endpoint, newest first
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, data: null, error: { message: 'Invalid webhook ID', status: 400 } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') ?? '50', 10) || 50)
+    );
+
+    const deliveries = await getWebhookDeliveries(supabase, id, user.id, limit);
+
+    return NextResponse.json({ success: true, data: deliveries, error: null });
+  } catch (error) {
+    console.error('GET /api/webhooks/[id]/deliveries error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
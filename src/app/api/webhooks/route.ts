@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { createWebhookEndpointSchema } from '@/lib/api/schemas';
+import { createWebhookEndpoint, getWebhookEndpoints } from '@/lib/db/webhooks';
+
+/**
+ * GET /api/webhooks - List the user's webhook endpoints
+ * Webhooks can only be managed from a signed-in session, not with an access token
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const endpoints = await getWebhookEndpoints(supabase, user.id);
+
+    return NextResponse.json({ success: true, data: endpoints, error: null });
+  } catch (error) {
+    console.error('GET /api/webhooks error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks - Register a webhook endpoint
+ * Body: { url, description?, events }
+ * The signing secret is only included in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, { allowTokens: false });
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, data: null, error: auth.error },
+        { status: auth.error.status }
+      );
+    }
+    const { supabase, user } = auth;
+
+    const body = await request.json();
+    const parsed = createWebhookEndpointSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: null,
+          error: {
+            message: 'Validation failed',
+            status: 400,
+            details: parsed.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const created = await createWebhookEndpoint(supabase, user.id, parsed.data);
+
+    return NextResponse.json({ success: true, data: created, error: null }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/webhooks error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        data: null,
+        error: {
+          message: error instanceof Error ? error.message : 'Internal server error',
+          status: 500,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { ToastProvider } from '@/hooks/useToast'
 import { ToastContainer } from '@/components/ui/Toast'
+import { ServiceWorkerRegistration } from '@/components/ServiceWorkerRegistration'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -39,6 +40,7 @@ export default function RootLayout({
         <ToastProvider>
           {children}
           <ToastContainer />
+          <ServiceWorkerRegistration />
         </ToastProvider>
       </body>
     </html>
@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useToast } from '@/hooks/useToast'
+import {
+  isOfflineSupported,
+  requestReplay,
+  subscribeToSyncMessages,
+} from '@/lib/offline/sync-queue'
+
+/**
+ * Registers public/sw.js and reports offline changes as they sync
+ * Only in production builds: the worker caches /_next/static, which changes on every dev rebuild
+ */
+export function ServiceWorkerRegistration() {
+  const { showToast } = useToast()
+
+  useEffect(() => {
+    if (!isOfflineSupported() || process.env.NODE_ENV !== 'production') return
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(() => {
+        // Browsers without Background Sync replay when a page loads or reconnects
+        if (navigator.onLine) requestReplay()
+      })
+      .catch((error) => console.error('Service worker registration error:', error))
+
+    window.addEventListener('online', requestReplay)
+    return () => window.removeEventListener('online', requestReplay)
+  }, [])
+
+  useEffect(() => {
+    return subscribeToSyncMessages((message) => {
+      if (message.type === 'sync-complete' && message.synced > 0) {
+        showToast(
+          message.synced === 1
+            ? 'Your offline change has been saved'
+            : `${message.synced} offline changes have been saved`,
+          'success'
+        )
+      } else if (message.type === 'sync-failed') {
+        showToast(`An offline change could not be saved: ${message.message}`, 'error')
+      }
+    })
+  }, [showToast])
+
+  return null
+}
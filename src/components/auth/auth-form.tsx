@@ -36,6 +36,7 @@ export function AuthForm({ mode }: AuthFormProps) {
           options: {
             data: {
               full_name: fullName,
+              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             },
             emailRedirectTo: `${window.location.origin}/api/auth/callback`,
           },
@@ -78,7 +78,7 @@ export function GoalsProgressChart({ data, timeline, loading = false }: GoalsPro
         <div className="flex gap-4 text-xs">
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 bg-blue-500 rounded" />
-            <span className="text-gray-600">Progress %</span>
+            <span className="text-gray-600">Avg progress %</span>
           </div>
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 bg-green-500 rounded" />
@@ -117,7 +117,7 @@ export function GoalsProgressChart({ data, timeline, loading = false }: GoalsPro
                   <div className="absolute bottom-full mb-2 hidden group-hover:block z-20">
                     <div className="bg-gray-900 text-white text-xs rounded-lg px-3 py-2 whitespace-nowrap shadow-lg">
                       <p className="font-medium">{point.label}</p>
-                      <p>Progress: {point.avgProgress}%</p>
+                      <p>Avg progress: {point.avgProgress}%</p>
                       <p>Completed: {point.completedGoals}</p>
                       <p>Active: {point.activeGoals}</p>
                       <p>Journal: {point.journalEntries}</p>
@@ -4,14 +4,15 @@ import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import type { Goal, GoalType } from '@/types'
+import type { Goal, GoalType, HabitRecurrence } from '@/types'
 import { GOAL_TYPES, GOAL_TYPE_LABELS } from '@/types'
 import { useToast } from '@/hooks/useToast'
+import { RecurrenceFields, DEFAULT_RECURRENCE } from './RecurrenceFields'
 
 const createGoalSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   description: z.string().max(2000, 'Description too long').optional(),
-  type: z.enum(['long-term', 'short-term'] as const),
+  type: z.enum(['long-term', 'short-term', 'habit'] as const),
   category: z.string().max(50, 'Category too long').optional(),
   targetDate: z.string().optional(),
   parentGoalId: z.string().optional(),
@@ -33,6 +34,7 @@ export function CreateGoalModal({
   const { showToast } = useToast()
   const [longTermGoals, setLongTermGoals] = useState<Goal[]>([])
   const [loadingLongTermGoals, setLoadingLongTermGoals] = useState(false)
+  const [recurrence, setRecurrence] = useState<HabitRecurrence>(DEFAULT_RECURRENCE)
 
   const {
     register,
@@ -53,6 +55,7 @@ export function CreateGoalModal({
   useEffect(() => {
     if (!isOpen) {
       reset()
+      setRecurrence(DEFAULT_RECURRENCE)
     }
   }, [isOpen, reset])
 
@@ -98,6 +101,7 @@ export function CreateGoalModal({
           category: data.category || null,
           targetDate: data.targetDate || null,
           parentGoalId: data.type === 'short-term' && data.parentGoalId ? data.parentGoalId : null,
+          recurrence: data.type === 'habit' ? recurrence : null,
         }),
       })
 
@@ -107,7 +111,11 @@ export function CreateGoalModal({
         throw new Error(result.error?.message || 'Failed to create goal')
       }
 
-      showToast('Goal created successfully', 'success')
+      if (result.queued) {
+        showToast('You are offline. Saved on this device and will sync when you reconnect', 'info')
+      } else {
+        showToast('Goal created successfully', 'success')
+      }
       onSuccess()
       onClose()
     } catch (error) {
@@ -256,6 +264,11 @@ export function CreateGoalModal({
             )}
           </div>
 
+          {/* Recurrence - only for habit goals */}
+          {selectedType === 'habit' && (
+            <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+          )}
+
           {/* Parent Goal - only for short-term goals */}
           {selectedType === 'short-term' && (
             <div>
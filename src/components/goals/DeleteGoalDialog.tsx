@@ -1,7 +1,8 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import type { Goal } from '@/types'
+import type { Goal, GoalDependents } from '@/types'
+import { TRASH_RETENTION_DAYS } from '@/types'
 import { useToast } from '@/hooks/useToast'
 
 interface DeleteGoalDialogProps {
@@ -19,6 +20,25 @@ export function DeleteGoalDialog({
 }: DeleteGoalDialogProps) {
   const { showToast } = useToast()
   const [isDeleting, setIsDeleting] = useState(false)
+  const [dependents, setDependents] = useState<GoalDependents | null>(null)
+
+  // Load what deleting would unlink, so the dialog can say so
+  useEffect(() => {
+    if (!goal || !isOpen) return
+    let cancelled = false
+    setDependents(null)
+
+    fetch(`/api/goals/${goal.id}/dependents`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (!cancelled && result.success) setDependents(result.data)
+      })
+      .catch((error) => console.error('Fetch goal dependents error:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [goal, isOpen])
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -49,7 +69,7 @@ export function DeleteGoalDialog({
         throw new Error(result.error?.message || 'Failed to delete goal')
       }
 
-      showToast('Goal deleted successfully', 'success')
+      showToast('Goal moved to trash', 'success')
       onSuccess()
       onClose()
     } catch (error) {
@@ -99,8 +119,22 @@ export function DeleteGoalDialog({
             "{goal.title}"
           </p>
 
+          {dependents && dependents.childGoals.length > 0 && (
+            <p className="text-sm text-gray-700 text-center mb-2">
+              {dependents.childGoals.length === 1 ? 'Its linked goal' : 'Its linked goals'}{' '}
+              {dependents.childGoals.map((g) => `"${g.title}"`).join(', ')} will show as unlinked.
+            </p>
+          )}
+          {dependents && dependents.journalEntryCount > 0 && (
+            <p className="text-sm text-gray-700 text-center mb-2">
+              It will be unlinked from {dependents.journalEntryCount}{' '}
+              {dependents.journalEntryCount === 1 ? 'journal entry' : 'journal entries'}.
+            </p>
+          )}
+
           <p className="text-sm text-gray-500 text-center mb-6">
-            This action cannot be undone. All data associated with this goal will be permanently removed.
+            The goal moves to the Trash, where you can restore it with all its links for{' '}
+            {TRASH_RETENTION_DAYS} days before it is permanently deleted.
           </p>
 
           <div className="flex gap-3">
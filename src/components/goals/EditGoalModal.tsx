@@ -1,18 +1,21 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import type { Goal } from '@/types'
+import type { Goal, HabitRecurrence } from '@/types'
 import {
   GOAL_TYPES,
   GOAL_TYPE_LABELS,
   GOAL_STATUSES,
   GOAL_STATUS_LABELS,
+  ROLLUP_WEIGHTINGS,
 } from '@/types'
 import { format } from 'date-fns'
 import { useToast } from '@/hooks/useToast'
+import { UpdateConflictBanner } from '@/components/ui/UpdateConflictBanner'
+import { RecurrenceFields, DEFAULT_RECURRENCE } from './RecurrenceFields'
 
 const ERROR_MESSAGES: Record<string, string> = {
   GOAL_ALREADY_LINKED: 'This goal is already linked to a parent goal',
@@ -30,14 +33,23 @@ const getErrorMessage = (error: { code?: string; message?: string } | string): s
 const editGoalSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   description: z.string().max(2000, 'Description too long').optional(),
-  type: z.enum(['long-term', 'short-term'] as const),
+  type: z.enum(['long-term', 'short-term', 'habit'] as const),
   category: z.string().max(50, 'Category too long').optional(),
   targetDate: z.string().optional(),
   status: z.enum(['active', 'completed', 'paused', 'abandoned'] as const),
   progressPercentage: z.number().min(0).max(100),
   parentGoalId: z.string().optional(),
+  derivedProgress: z.boolean(),
+  rollupWeighting: z.enum(['equal', 'custom'] as const),
+  autoComplete: z.boolean(),
+  rollupWeight: z.number().int().min(1, 'Min weight is 1').max(100, 'Max weight is 100'),
 })
 
+const ROLLUP_WEIGHTING_LABELS: Record<(typeof ROLLUP_WEIGHTINGS)[number], string> = {
+  equal: 'Equal weights',
+  custom: 'Custom weights per goal',
+}
+
 type EditGoalFormData = z.infer<typeof editGoalSchema>
 
 interface EditGoalModalProps {
@@ -56,6 +68,11 @@ export function EditGoalModal({
   const { showToast } = useToast()
   const [longTermGoals, setLongTermGoals] = useState<Goal[]>([])
   const [loadingLongTermGoals, setLoadingLongTermGoals] = useState(false)
+  const [milestoneCount, setMilestoneCount] = useState(0)
+  const [recurrence, setRecurrence] = useState<HabitRecurrence>(DEFAULT_RECURRENCE)
+  const [conflict, setConflict] = useState<Goal | null>(null)
+  // updatedAt of the version being edited; a save is refused if the goal has changed since
+  const expectedUpdatedAt = useRef<string>()
 
   const {
     register,
@@ -71,6 +88,9 @@ export function EditGoalModal({
   const progressValue = watch('progressPercentage', goal?.progressPercentage ?? 0)
   const selectedType = watch('type')
   const currentParentGoalId = watch('parentGoalId')
+  const derivedProgress = watch('derivedProgress')
+  const isDerived = selectedType === 'long-term' && derivedProgress
+  const isHabit = selectedType === 'habit'
 
   // Clear parentGoalId when changing type to long-term
   useEffect(() => {
@@ -79,22 +99,36 @@ export function EditGoalModal({
     }
   }, [selectedType, currentParentGoalId, setValue])
 
-  useEffect(() => {
-    if (goal && isOpen) {
+  const applyGoal = useCallback(
+    (source: Goal) => {
       reset({
-        title: goal.title,
-        description: goal.description || '',
-        type: goal.type,
-        category: goal.category || '',
-        targetDate: goal.targetDate
-          ? format(goal.targetDate, 'yyyy-MM-dd')
+        title: source.title,
+        description: source.description || '',
+        type: source.type,
+        category: source.category || '',
+        targetDate: source.targetDate
+          ? format(source.targetDate, 'yyyy-MM-dd')
           : '',
-        status: goal.status,
-        progressPercentage: goal.progressPercentage,
-        parentGoalId: goal.parentGoalId || '',
+        status: source.status,
+        progressPercentage: source.progressPercentage,
+        parentGoalId: source.parentGoalId || '',
+        derivedProgress: source.progressMode === 'derived',
+        rollupWeighting: source.rollupWeighting,
+        autoComplete: source.autoComplete,
+        rollupWeight: source.rollupWeight,
       })
+      setRecurrence(source.recurrence ?? DEFAULT_RECURRENCE)
+      expectedUpdatedAt.current = new Date(source.updatedAt).toISOString()
+    },
+    [reset]
+  )
+
+  useEffect(() => {
+    if (goal && isOpen) {
+      applyGoal(goal)
+      setConflict(null)
     }
-  }, [goal, isOpen, reset])
+  }, [goal, isOpen, applyGoal])
 
   // Fetch long-term goals when modal opens
   useEffect(() => {
@@ -113,6 +147,20 @@ export function EditGoalModal({
     }
   }, [isOpen])
 
+  // Progress is derived when the goal has milestones
+  useEffect(() => {
+    if (!isOpen || !goal) return
+    setMilestoneCount(0)
+    fetch(`/api/goals/${goal.id}/milestones`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success && result.data) {
+          setMilestoneCount(result.data.length)
+        }
+      })
+      .catch((err) => console.error('Failed to fetch milestones:', err))
+  }, [isOpen, goal])
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose()
@@ -141,19 +189,36 @@ export function EditGoalModal({
           category: data.category || null,
           targetDate: data.targetDate || null,
           status: data.status,
-          progressPercentage: data.progressPercentage,
+          ...(milestoneCount === 0 && !isDerived && !isHabit && {
+            progressPercentage: data.progressPercentage,
+          }),
           parentGoalId: data.type === 'short-term' && data.parentGoalId ? data.parentGoalId : null,
+          progressMode: isDerived ? 'derived' : 'manual',
+          rollupWeighting: data.rollupWeighting,
+          autoComplete: data.autoComplete,
+          rollupWeight: data.rollupWeight,
+          ...(isHabit && { recurrence }),
+          expectedUpdatedAt: expectedUpdatedAt.current,
         }),
       })
 
       const result = await response.json()
 
+      if (result.error?.code === 'UPDATE_CONFLICT') {
+        setConflict(result.data)
+        return
+      }
+
       if (!result.success) {
         showToast(getErrorMessage(result.error), 'error')
         return
       }
 
-      showToast('Goal updated successfully', 'success')
+      if (result.queued) {
+        showToast('You are offline. Saved on this device and will sync when you reconnect', 'info')
+      } else {
+        showToast('Goal updated successfully', 'success')
+      }
       onSuccess()
       onClose()
     } catch (error) {
@@ -162,6 +227,19 @@ export function EditGoalModal({
     }
   }
 
+  const handleKeepMine = () => {
+    if (!conflict) return
+    expectedUpdatedAt.current = new Date(conflict.updatedAt).toISOString()
+    setConflict(null)
+    handleSubmit(onSubmit)()
+  }
+
+  const handleLoadLatest = () => {
+    if (!conflict) return
+    applyGoal(conflict)
+    setConflict(null)
+  }
+
   if (!isOpen || !goal) return null
 
   return (
@@ -196,6 +274,15 @@ export function EditGoalModal({
         </div>
 
         <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          {conflict && (
+            <UpdateConflictBanner
+              noun="goal"
+              updatedAt={conflict.updatedAt}
+              onKeepMine={handleKeepMine}
+              onLoadLatest={handleLoadLatest}
+            />
+          )}
+
           <div>
             <label
               htmlFor="edit-title"
@@ -321,15 +408,71 @@ export function EditGoalModal({
               min="0"
               max="100"
               {...register('progressPercentage', { valueAsNumber: true })}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              disabled={isDerived || isHabit || milestoneCount > 0}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
             />
             <div className="flex justify-between text-xs text-gray-500 mt-1">
               <span>0%</span>
               <span>50%</span>
               <span>100%</span>
             </div>
+            {isHabit ? (
+              <p className="mt-1 text-sm text-gray-500">
+                Follows the check-in rate over the last 4 weeks
+              </p>
+            ) : isDerived ? (
+              <p className="mt-1 text-sm text-gray-500">
+                Calculated from linked short-term goals
+              </p>
+            ) : milestoneCount > 0 && (
+              <p className="mt-1 text-sm text-gray-500">
+                Calculated from {milestoneCount} milestone{milestoneCount === 1 ? '' : 's'}
+              </p>
+            )}
           </div>
 
+          {/* Recurrence - only for habit goals */}
+          {isHabit && (
+            <RecurrenceFields value={recurrence} onChange={setRecurrence} idPrefix="edit-recurrence" />
+          )}
+
+          {/* Progress roll-up - only for long-term goals */}
+          {selectedType === 'long-term' && (
+            <div className="space-y-3 p-3 rounded-lg bg-gray-50">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  {...register('derivedProgress')}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Calculate progress from linked short-term goals
+              </label>
+              {isDerived && (
+                <>
+                  <select
+                    {...register('rollupWeighting')}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+                    aria-label="Weighting"
+                  >
+                    {ROLLUP_WEIGHTINGS.map((weighting) => (
+                      <option key={weighting} value={weighting}>
+                        {ROLLUP_WEIGHTING_LABELS[weighting]}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      {...register('autoComplete')}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Mark completed when progress reaches 100%
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Parent Goal - only for short-term goals */}
           {selectedType === 'short-term' && (
             <div>
@@ -367,6 +510,31 @@ export function EditGoalModal({
             </div>
           )}
 
+          {selectedType === 'short-term' && currentParentGoalId && (
+            <div>
+              <label
+                htmlFor="edit-rollupWeight"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Weight in Parent Progress
+              </label>
+              <input
+                id="edit-rollupWeight"
+                type="number"
+                min={1}
+                max={100}
+                {...register('rollupWeight', { valueAsNumber: true })}
+                className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Used when the parent goal rolls up progress with custom weights
+              </p>
+              {errors.rollupWeight && (
+                <p className="mt-1 text-sm text-red-600">{errors.rollupWeight.message}</p>
+              )}
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
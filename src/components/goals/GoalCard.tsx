@@ -1,9 +1,11 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import type { Goal, GoalStatus, GoalType } from '@/types'
+import type { Goal, GoalMilestone, GoalStatus, GoalType } from '@/types'
 import { GOAL_STATUS_LABELS, GOAL_TYPE_LABELS } from '@/types'
 import { ProgressIndicator } from './ProgressIndicator'
+import { MilestoneChecklist } from './MilestoneChecklist'
+import { HabitCheckinStrip } from './HabitCheckinStrip'
 import { AnalyzeButton } from '@/components/ai/AnalyzeButton'
 import { useToast } from '@/hooks/useToast'
 import { format } from 'date-fns'
@@ -43,6 +45,7 @@ const statusColors: Record<GoalStatus, string> = {
 const typeColors: Record<GoalType, string> = {
   'long-term': 'bg-purple-100 text-purple-700',
   'short-term': 'bg-orange-100 text-orange-700',
+  habit: 'bg-teal-100 text-teal-700',
 }
 
 export function GoalCard({
@@ -63,6 +66,57 @@ export function GoalCard({
   const [loadingLinks, setLoadingLinks] = useState(false)
   const [unlinking, setUnlinking] = useState(false)
   const [refreshKey, setRefreshKey] = useState(0)
+  const [milestones, setMilestones] = useState<GoalMilestone[] | null>(null)
+  const [loadingMilestones, setLoadingMilestones] = useState(false)
+  const [progress, setProgress] = useState(goal.progressPercentage)
+
+  useEffect(() => {
+    setProgress(goal.progressPercentage)
+  }, [goal.progressPercentage])
+
+  // Fetch milestones the first time the card is expanded (habits track check-ins instead)
+  useEffect(() => {
+    if (!expanded || milestones !== null || goal.type === 'habit') return
+
+    const abortController = new AbortController()
+    setLoadingMilestones(true)
+
+    fetch(`/api/goals/${goal.id}/milestones`, { signal: abortController.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success && result.data) {
+          setMilestones(result.data)
+        }
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to fetch milestones:', err)
+          setMilestones([])
+        }
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) {
+          setLoadingMilestones(false)
+        }
+      })
+
+    return () => abortController.abort()
+  }, [expanded, goal.id, goal.type, milestones])
+
+  const handleMilestonesChange = (updated: GoalMilestone[], updatedGoal: Goal | null) => {
+    setMilestones(updated)
+    if (updatedGoal && updatedGoal.progressPercentage !== progress) {
+      setProgress(updatedGoal.progressPercentage)
+      onRefresh?.()
+    }
+  }
+
+  const handleCheckinChange = (updatedGoal: Goal) => {
+    if (updatedGoal.progressPercentage !== progress) {
+      setProgress(updatedGoal.progressPercentage)
+      onRefresh?.()
+    }
+  }
 
   // Fetch linked goals when expanded - with AbortController for race condition
   useEffect(() => {
@@ -160,6 +214,15 @@ export function GoalCard({
                   Linked
                 </span>
               )}
+              {/* Roll-up indicator for derived long-term goals */}
+              {goal.type === 'long-term' && goal.progressMode === 'derived' && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-700"
+                  title="Progress is calculated from linked short-term goals"
+                >
+                  Auto progress
+                </span>
+              )}
             </div>
             <h3 className="text-lg font-semibold text-gray-900 truncate">
               {goal.title}
@@ -195,9 +258,16 @@ export function GoalCard({
         </div>
 
         <div className="mt-4">
-          <ProgressIndicator value={goal.progressPercentage} size="sm" />
+          <ProgressIndicator value={progress} size="sm" milestones={milestones ?? []} />
         </div>
 
+        {/* Check-in strip for habit goals */}
+        {goal.type === 'habit' && (
+          <div className="mt-3">
+            <HabitCheckinStrip goal={goal} onChange={handleCheckinChange} />
+          </div>
+        )}
+
         {goal.targetDate && (
           <div className="mt-3 flex items-center gap-1 text-sm text-gray-500">
             <svg
@@ -231,6 +301,27 @@ export function GoalCard({
             </div>
           )}
 
+          {/* Milestones checklist */}
+          {goal.type !== 'habit' && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">
+                Milestones
+              </h4>
+              {loadingMilestones || milestones === null ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                  Loading...
+                </div>
+              ) : (
+                <MilestoneChecklist
+                  goalId={goal.id}
+                  milestones={milestones}
+                  onChange={handleMilestonesChange}
+                />
+              )}
+            </div>
+          )}
+
           {/* Parent Goal Link (for short-term goals) */}
           {goal.type === 'short-term' && (
             <div className="mb-4">
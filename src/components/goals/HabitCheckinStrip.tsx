@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { format, subDays } from 'date-fns'
+import type { Goal, HabitStats } from '@/types'
+import { describeRecurrence } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+interface HabitCheckinStripProps {
+  goal: Goal
+  onChange?: (goal: Goal) => void
+  days?: number
+}
+
+export function HabitCheckinStrip({ goal, onChange, days = 7 }: HabitCheckinStripProps) {
+  const { showToast } = useToast()
+  const [checkedDates, setCheckedDates] = useState<Set<string> | null>(null)
+  const [stats, setStats] = useState<HabitStats | null>(null)
+  const [pendingDate, setPendingDate] = useState<string | null>(null)
+
+  // Oldest first, ending today (local dates)
+  const strip = useMemo(() => {
+    const today = new Date()
+    return Array.from({ length: days }, (_, i) => subDays(today, days - 1 - i))
+  }, [days])
+
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    fetch(`/api/goals/${goal.id}/checkins`, { signal: abortController.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.success && result.data) {
+          setCheckedDates(
+            new Set(result.data.checkins.map((c: { checkinDate: string }) => c.checkinDate))
+          )
+          setStats(result.data.stats)
+        }
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to fetch check-ins:', err)
+        }
+      })
+
+    return () => abortController.abort()
+  }, [goal.id])
+
+  const isScheduled = (day: Date) =>
+    goal.recurrence?.frequency !== 'weekdays' || goal.recurrence.weekdays.includes(day.getDay())
+
+  const handleToggle = async (date: string) => {
+    if (!checkedDates) return
+    const checked = checkedDates.has(date)
+
+    setPendingDate(date)
+    try {
+      const res = checked
+        ? await fetch(`/api/goals/${goal.id}/checkins?date=${date}`, { method: 'DELETE' })
+        : await fetch(`/api/goals/${goal.id}/checkins`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ date }),
+          })
+      const result = await res.json()
+      if (!result.success) {
+        showToast(result.error?.message || 'Failed to update check-in', 'error')
+        return
+      }
+
+      const next = new Set(checkedDates)
+      if (checked) {
+        next.delete(date)
+      } else {
+        next.add(date)
+      }
+      setCheckedDates(next)
+      setStats(result.data.stats)
+      if (result.data.goal) onChange?.(result.data.goal)
+    } catch (err) {
+      console.error('Check-in error:', err)
+      showToast('Failed to update check-in', 'error')
+    } finally {
+      setPendingDate(null)
+    }
+  }
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-1.5 text-xs text-gray-500">
+        <span>{goal.recurrence ? describeRecurrence(goal.recurrence) : 'Habit'}</span>
+        {stats && (
+          <span>
+            {stats.currentStreak} {stats.streakUnit}
+            {stats.currentStreak === 1 ? '' : 's'} streak · {stats.completionRate}% last 4 weeks
+          </span>
+        )}
+      </div>
+      <div className="flex gap-1">
+        {strip.map((day) => {
+          const date = format(day, 'yyyy-MM-dd')
+          const checked = checkedDates?.has(date) ?? false
+          const scheduled = isScheduled(day)
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => handleToggle(date)}
+              disabled={checkedDates === null || pendingDate !== null}
+              title={`${format(day, 'EEE, MMM d')}${checked ? ' - done' : ''}`}
+              aria-pressed={checked}
+              className={`flex-1 flex flex-col items-center py-1 rounded-md text-[10px] font-medium border transition disabled:cursor-wait ${
+                checked
+                  ? 'bg-teal-500 border-teal-500 text-white'
+                  : scheduled
+                    ? 'bg-white border-gray-300 text-gray-600 hover:border-teal-400'
+                    : 'bg-gray-50 border-gray-200 text-gray-400'
+              }`}
+            >
+              <span>{format(day, 'EEEEE')}</span>
+              <span>{format(day, 'd')}</span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
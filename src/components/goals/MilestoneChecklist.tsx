@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import type { Goal, GoalMilestone } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+interface MilestoneChecklistProps {
+  goalId: string
+  milestones: GoalMilestone[]
+  onChange: (milestones: GoalMilestone[], goal: Goal | null) => void
+  disabled?: boolean
+}
+
+const formatDueDate = (date: string) => {
+  // YYYY-MM-DD only — parse without timezone shift
+  const [y, m, d] = date.split('-').map(Number)
+  return format(new Date(y, m - 1, d), 'MMM d')
+}
+
+const isOverdue = (milestone: GoalMilestone) => {
+  if (!milestone.dueDate || milestone.completed) return false
+  return milestone.dueDate < new Date().toLocaleDateString('en-CA')
+}
+
+export function MilestoneChecklist({
+  goalId,
+  milestones,
+  onChange,
+  disabled = false,
+}: MilestoneChecklistProps) {
+  const { showToast } = useToast()
+  const [newTitle, setNewTitle] = useState('')
+  const [newDueDate, setNewDueDate] = useState('')
+  const [newWeight, setNewWeight] = useState(1)
+  const [adding, setAdding] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const handleToggle = async (milestone: GoalMilestone) => {
+    setPendingId(milestone.id)
+    try {
+      const res = await fetch(`/api/goals/${goalId}/milestones/${milestone.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed: !milestone.completed }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        showToast(result.error?.message || 'Failed to update milestone', 'error')
+        return
+      }
+      onChange(
+        milestones.map((m) => (m.id === milestone.id ? result.data.milestone : m)),
+        result.data.goal
+      )
+    } catch (err) {
+      console.error('Toggle milestone error:', err)
+      showToast('Failed to update milestone', 'error')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleDelete = async (milestone: GoalMilestone) => {
+    setPendingId(milestone.id)
+    try {
+      const res = await fetch(`/api/goals/${goalId}/milestones/${milestone.id}`, {
+        method: 'DELETE',
+      })
+      const result = await res.json()
+      if (!result.success) {
+        showToast(result.error?.message || 'Failed to delete milestone', 'error')
+        return
+      }
+      onChange(
+        milestones.filter((m) => m.id !== milestone.id),
+        result.data.goal
+      )
+    } catch (err) {
+      console.error('Delete milestone error:', err)
+      showToast('Failed to delete milestone', 'error')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newTitle.trim()) return
+
+    setAdding(true)
+    try {
+      const res = await fetch(`/api/goals/${goalId}/milestones`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: newTitle.trim(),
+          dueDate: newDueDate || null,
+          weight: newWeight,
+        }),
+      })
+      const result = await res.json()
+      if (!result.success) {
+        showToast(result.error?.message || 'Failed to add milestone', 'error')
+        return
+      }
+      onChange([...milestones, result.data.milestone], result.data.goal)
+      setNewTitle('')
+      setNewDueDate('')
+      setNewWeight(1)
+    } catch (err) {
+      console.error('Add milestone error:', err)
+      showToast('Failed to add milestone', 'error')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      {milestones.length > 0 ? (
+        <ul className="space-y-1.5 mb-3">
+          {milestones.map((milestone) => (
+            <li
+              key={milestone.id}
+              className="flex items-center gap-2 p-2 rounded-lg bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                checked={milestone.completed}
+                onChange={() => handleToggle(milestone)}
+                disabled={disabled || pendingId === milestone.id}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                aria-label={`Mark "${milestone.title}" as ${milestone.completed ? 'not done' : 'done'}`}
+              />
+              <span
+                className={`flex-1 min-w-0 text-sm truncate ${
+                  milestone.completed ? 'line-through text-gray-400' : 'text-gray-800'
+                }`}
+              >
+                {milestone.title}
+              </span>
+              {milestone.weight > 1 && (
+                <span className="flex-shrink-0 text-xs text-gray-500" title="Weight">
+                  x{milestone.weight}
+                </span>
+              )}
+              {milestone.dueDate && (
+                <span
+                  className={`flex-shrink-0 text-xs ${
+                    isOverdue(milestone) ? 'text-red-600 font-medium' : 'text-gray-500'
+                  }`}
+                >
+                  {formatDueDate(milestone.dueDate)}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => handleDelete(milestone)}
+                disabled={disabled || pendingId === milestone.id}
+                className="flex-shrink-0 p-1 text-gray-400 hover:text-red-600 rounded transition disabled:opacity-50"
+                title="Delete milestone"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">
+          No milestones yet. Adding one makes progress follow the checklist.
+        </p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Add a milestone..."
+          maxLength={200}
+          disabled={disabled || adding}
+          className="flex-1 min-w-[160px] px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-500"
+        />
+        <input
+          type="date"
+          value={newDueDate}
+          onChange={(e) => setNewDueDate(e.target.value)}
+          disabled={disabled || adding}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          aria-label="Due date"
+        />
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={newWeight}
+          onChange={(e) => setNewWeight(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+          disabled={disabled || adding}
+          className="w-16 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          aria-label="Weight"
+          title="Weight"
+        />
+        <button
+          type="submit"
+          disabled={disabled || adding || !newTitle.trim()}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+        >
+          {adding ? 'Adding...' : 'Add'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,10 +1,13 @@
 'use client'
 
+import type { GoalMilestone } from '@/types'
+
 interface ProgressIndicatorProps {
   value: number
   size?: 'sm' | 'md' | 'lg'
   showLabel?: boolean
   className?: string
+  milestones?: Pick<GoalMilestone, 'id' | 'title' | 'weight' | 'completed'>[]
 }
 
 function getProgressColor(value: number): string {
@@ -36,6 +39,7 @@ export function ProgressIndicator({
   size = 'md',
   showLabel = true,
   className = '',
+  milestones = [],
 }: ProgressIndicatorProps) {
   const clampedValue = Math.max(0, Math.min(100, value))
   const { bar, text } = sizeStyles[size]
@@ -43,6 +47,15 @@ export function ProgressIndicator({
   const fillColor = getProgressColor(clampedValue)
   const textColor = getTextColor(clampedValue)
 
+  // Milestone boundaries as cumulative weight positions along the bar
+  const totalWeight = milestones.reduce((sum, m) => sum + m.weight, 0)
+  const completedCount = milestones.filter((m) => m.completed).length
+  let cumulativeWeight = 0
+  const markers = milestones.slice(0, -1).map((m) => {
+    cumulativeWeight += m.weight
+    return { id: m.id, title: m.title, position: (cumulativeWeight / totalWeight) * 100 }
+  })
+
   return (
     <div className={`w-full ${className}`}>
       {showLabel && (
@@ -50,13 +63,26 @@ export function ProgressIndicator({
           <span className={`${text} font-medium ${textColor}`}>
             {clampedValue}%
           </span>
+          {milestones.length > 0 && (
+            <span className={`${text} text-gray-500`}>
+              {completedCount}/{milestones.length} milestones
+            </span>
+          )}
         </div>
       )}
-      <div className={`w-full ${bgColor} rounded-full overflow-hidden ${bar}`}>
+      <div className={`relative w-full ${bgColor} rounded-full overflow-hidden ${bar}`}>
         <div
           className={`${fillColor} ${bar} rounded-full transition-all duration-300`}
           style={{ width: `${clampedValue}%` }}
         />
+        {markers.map((marker) => (
+          <div
+            key={marker.id}
+            className="absolute top-0 bottom-0 w-0.5 bg-white"
+            style={{ left: `${marker.position}%` }}
+            title={marker.title}
+          />
+        ))}
       </div>
     </div>
   )
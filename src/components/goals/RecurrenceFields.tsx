@@ -0,0 +1,116 @@
+'use client'
+
+import type { HabitRecurrence } from '@/types'
+import { HABIT_FREQUENCY_LABELS, WEEKDAY_LABELS } from '@/types'
+
+interface RecurrenceFieldsProps {
+  value: HabitRecurrence
+  onChange: (value: HabitRecurrence) => void
+  idPrefix?: string
+}
+
+// Monday-first display order, values are Date.getDay() indexes
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+const FREQUENCIES = Object.keys(HABIT_FREQUENCY_LABELS) as HabitRecurrence['frequency'][]
+
+export const DEFAULT_RECURRENCE: HabitRecurrence = { frequency: 'daily' }
+
+export function RecurrenceFields({ value, onChange, idPrefix = 'recurrence' }: RecurrenceFieldsProps) {
+  const handleFrequencyChange = (frequency: HabitRecurrence['frequency']) => {
+    switch (frequency) {
+      case 'daily':
+        onChange({ frequency })
+        break
+      case 'weekly':
+        onChange({ frequency, timesPerWeek: 3 })
+        break
+      case 'weekdays':
+        onChange({ frequency, weekdays: [1, 3, 5] })
+        break
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    if (value.frequency !== 'weekdays') return
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day]
+    // Keep at least one scheduled day
+    if (weekdays.length === 0) return
+    onChange({ frequency: 'weekdays', weekdays })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label
+          htmlFor={`${idPrefix}-frequency`}
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Repeat
+        </label>
+        <select
+          id={`${idPrefix}-frequency`}
+          value={value.frequency}
+          onChange={(e) => handleFrequencyChange(e.target.value as HabitRecurrence['frequency'])}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+        >
+          {FREQUENCIES.map((frequency) => (
+            <option key={frequency} value={frequency}>
+              {HABIT_FREQUENCY_LABELS[frequency]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value.frequency === 'weekly' && (
+        <div>
+          <label
+            htmlFor={`${idPrefix}-times`}
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Times per week
+          </label>
+          <input
+            id={`${idPrefix}-times`}
+            type="number"
+            min={1}
+            max={7}
+            value={value.timesPerWeek}
+            onChange={(e) =>
+              onChange({
+                frequency: 'weekly',
+                timesPerWeek: Math.max(1, Math.min(7, Number(e.target.value) || 1)),
+              })
+            }
+            className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          />
+        </div>
+      )}
+
+      {value.frequency === 'weekdays' && (
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Weekdays">
+          {WEEKDAY_ORDER.map((day) => {
+            const selected = value.weekdays.includes(day)
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={selected}
+                className={`px-2.5 py-1 text-sm rounded-lg border transition ${
+                  selected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,3 +4,6 @@ export { GoalCard } from './GoalCard'
 export { CreateGoalModal } from './CreateGoalModal'
 export { EditGoalModal } from './EditGoalModal'
 export { DeleteGoalDialog } from './DeleteGoalDialog'
+export { MilestoneChecklist } from './MilestoneChecklist'
+export { HabitCheckinStrip } from './HabitCheckinStrip'
+export { RecurrenceFields } from './RecurrenceFields'
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import type { Goal, Mood, SuggestedGoalLink } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+interface AILinkSuggestionsProps {
+  title?: string
+  content?: string
+  mood?: Mood | null
+  linkedGoalIds: string[]
+  existingTags?: string[]
+  acceptedGoals: Goal[]
+  acceptedTags: string[]
+  onAcceptedGoalsChange: (goals: Goal[]) => void
+  onAcceptedTagsChange: (tags: string[]) => void
+}
+
+export function AILinkSuggestions({
+  title,
+  content,
+  mood,
+  linkedGoalIds,
+  existingTags = [],
+  acceptedGoals,
+  acceptedTags,
+  onAcceptedGoalsChange,
+  onAcceptedTagsChange,
+}: AILinkSuggestionsProps) {
+  const { showToast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingGoals, setPendingGoals] = useState<SuggestedGoalLink[]>([])
+  const [pendingTags, setPendingTags] = useState<string[]>([])
+
+  const handleSuggest = async () => {
+    if (!content?.trim()) return
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/ai/suggest-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title || null,
+          content,
+          mood: mood ?? null,
+          goalIds: [...linkedGoalIds, ...acceptedGoals.map((g) => g.id)],
+          tags: [...existingTags, ...acceptedTags],
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to get suggestions')
+      }
+
+      setPendingGoals(result.data.goals)
+      setPendingTags(result.data.tags)
+      if (result.data.goals.length === 0 && result.data.tags.length === 0) {
+        showToast('No suggestions for this entry', 'info')
+      }
+    } catch (error) {
+      console.error('Suggest links error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to get suggestions', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const acceptGoal = (goal: Goal) => {
+    onAcceptedGoalsChange([...acceptedGoals, goal])
+    setPendingGoals((goals) => goals.filter((s) => s.goal.id !== goal.id))
+  }
+
+  const rejectGoal = (goalId: string) => {
+    setPendingGoals((goals) => goals.filter((s) => s.goal.id !== goalId))
+  }
+
+  const acceptTag = (tag: string) => {
+    onAcceptedTagsChange([...acceptedTags, tag])
+    setPendingTags((tags) => tags.filter((t) => t !== tag))
+  }
+
+  const rejectTag = (tag: string) => {
+    setPendingTags((tags) => tags.filter((t) => t !== tag))
+  }
+
+  // A goal picked manually in the meantime no longer needs a suggestion
+  const visibleGoals = pendingGoals.filter((s) => !linkedGoalIds.includes(s.goal.id))
+  const accepted = acceptedGoals.filter((g) => !linkedGoalIds.includes(g.id))
+
+  return (
+    <div className="mt-3 space-y-2">
+      <button
+        type="button"
+        onClick={handleSuggest}
+        disabled={isLoading || !content?.trim()}
+        className="inline-flex items-center gap-1.5 text-sm text-purple-600 hover:text-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+          />
+        </svg>
+        {isLoading ? 'Analyzing...' : 'Suggest goals and tags'}
+      </button>
+
+      {(visibleGoals.length > 0 || pendingTags.length > 0) && (
+        <div className="p-3 bg-purple-50 border border-purple-100 rounded-lg space-y-2">
+          {visibleGoals.map(({ goal, alignment }) => (
+            <div key={goal.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-gray-800">
+                {goal.title}
+                <span className="ml-2 text-xs text-gray-500">
+                  {Math.round(alignment * 100)}% match
+                </span>
+              </span>
+              <SuggestionActions
+                label={goal.title}
+                onAccept={() => acceptGoal(goal)}
+                onReject={() => rejectGoal(goal.id)}
+              />
+            </div>
+          ))}
+          {pendingTags.map((tag) => (
+            <div key={tag} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-800">#{tag}</span>
+              <SuggestionActions
+                label={`#${tag}`}
+                onAccept={() => acceptTag(tag)}
+                onReject={() => rejectTag(tag)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(accepted.length > 0 || acceptedTags.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500">Accepted:</span>
+          {accepted.map((goal) => (
+            <AcceptedChip
+              key={goal.id}
+              label={goal.title}
+              onRemove={() => onAcceptedGoalsChange(acceptedGoals.filter((g) => g.id !== goal.id))}
+            />
+          ))}
+          {acceptedTags.map((tag) => (
+            <AcceptedChip
+              key={tag}
+              label={`#${tag}`}
+              onRemove={() => onAcceptedTagsChange(acceptedTags.filter((t) => t !== tag))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SuggestionActions({
+  label,
+  onAccept,
+  onReject,
+}: {
+  label: string
+  onAccept: () => void
+  onReject: () => void
+}) {
+  return (
+    <div className="flex items-center gap-1 shrink-0">
+      <button
+        type="button"
+        onClick={onAccept}
+        className="p-1 text-green-600 hover:bg-green-100 rounded transition"
+        aria-label={`Accept ${label}`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={onReject}
+        className="p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 rounded transition"
+        aria-label={`Reject ${label}`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  )
+}
+
+function AcceptedChip({ label, onRemove }: { label: string; onRemove: () => void }) {
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-800 rounded-lg text-sm">
+      <span className="truncate max-w-[150px]">{label}</span>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="hover:text-purple-900"
+        aria-label={`Remove ${label}`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </span>
+  )
+}
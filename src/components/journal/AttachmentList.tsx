@@ -0,0 +1,104 @@
+'use client'
+
+import type { JournalAttachment } from '@/types'
+import { formatFileSize } from '@/lib/attachments/formats'
+import { getAttachmentUrl } from '@/lib/attachments/markdown'
+
+interface AttachmentListProps {
+  attachments: JournalAttachment[]
+  onInsert?: (attachment: JournalAttachment) => void // Add a link to the entry's content
+  onRemove?: (attachment: JournalAttachment) => void
+}
+
+/**
+ * Photos as thumbnails, audio memos as players and other files as download links
+ */
+export function AttachmentList({ attachments, onInsert, onRemove }: AttachmentListProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <ul className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.id}
+          className="flex items-center gap-3 p-2 rounded-lg border border-gray-100 bg-gray-50"
+        >
+          {attachment.kind === 'image' ? (
+            <a
+              href={getAttachmentUrl(attachment.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={getAttachmentUrl(attachment.id, { thumbnail: true })}
+                alt={attachment.fileName}
+                loading="lazy"
+                className="w-16 h-16 object-cover rounded"
+              />
+            </a>
+          ) : (
+            <span className="shrink-0 w-16 h-16 flex items-center justify-center rounded bg-white text-gray-400">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d={
+                    attachment.kind === 'audio'
+                      ? 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3'
+                      : 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z'
+                  }
+                />
+              </svg>
+            </span>
+          )}
+
+          <div className="flex-1 min-w-0">
+            <a
+              href={getAttachmentUrl(attachment.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-sm font-medium text-gray-900 truncate hover:text-blue-600"
+            >
+              {attachment.fileName}
+            </a>
+            <p className="text-xs text-gray-500">{formatFileSize(attachment.sizeBytes)}</p>
+            {attachment.kind === 'audio' && (
+              <audio
+                controls
+                preload="none"
+                src={getAttachmentUrl(attachment.id)}
+                className="w-full h-8 mt-1"
+              />
+            )}
+          </div>
+
+          {(onInsert || onRemove) && (
+            <div className="flex flex-col gap-1 shrink-0">
+              {onInsert && (
+                <button
+                  type="button"
+                  onClick={() => onInsert(attachment)}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-700"
+                >
+                  Insert
+                </button>
+              )}
+              {onRemove && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(attachment)}
+                  className="text-xs font-medium text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -1,14 +1,19 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useForm, Controller } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import type { Mood } from '@/types'
+import type { Goal, JournalDraft, Mood } from '@/types'
 import { useToast } from '@/hooks/useToast'
+import { useJournalDraft } from '@/hooks/useJournalDraft'
+import { DraftConflictBanner, DraftStatusIndicator } from './DraftStatus'
 import { MoodSelector } from './MoodSelector'
 import { GoalTagging } from './GoalTagging'
-import ReactMarkdown from 'react-markdown'
+import { GoalSuggestions } from './GoalSuggestions'
+import { AILinkSuggestions } from './AILinkSuggestions'
+import { JournalMarkdown } from './JournalMarkdown'
+import { formatDuration, VoiceRecorder, type VoiceRecording } from './VoiceRecorder'
 
 const createJournalSchema = z.object({
   title: z.string().max(200, 'Title too long').optional(),
@@ -19,20 +24,31 @@ const createJournalSchema = z.object({
 
 type CreateJournalFormData = z.infer<typeof createJournalSchema>
 
+const today = () => new Date().toLocaleDateString('en-CA')
+
 interface CreateJournalModalProps {
   isOpen: boolean
+  draftId?: string | null // Draft to resume; defaults to the latest draft of a new entry
   onClose: () => void
   onSuccess: () => void
 }
 
 export function CreateJournalModal({
   isOpen,
+  draftId = null,
   onClose,
   onSuccess,
 }: CreateJournalModalProps) {
   const { showToast } = useToast()
   const [showPreview, setShowPreview] = useState(false)
   const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>([])
+  const [acceptedGoals, setAcceptedGoals] = useState<Goal[]>([])
+  const [acceptedTags, setAcceptedTags] = useState<string[]>([])
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [resumedFrom, setResumedFrom] = useState<Date | null>(null)
+  // Dictated audio, attached to the entry once it is created
+  const [recordings, setRecordings] = useState<VoiceRecording[]>([])
+  const [transcribing, setTranscribing] = useState(false)
 
   const {
     register,
@@ -40,29 +56,162 @@ export function CreateJournalModal({
     control,
     reset,
     watch,
+    getValues,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<CreateJournalFormData>({
     resolver: zodResolver(createJournalSchema),
     defaultValues: {
-      entryDate: new Date().toLocaleDateString('en-CA'),
+      entryDate: today(),
       mood: null,
     },
   })
 
   const contentValue = watch('content')
+  const titleValue = watch('title')
+  const moodValue = watch('mood')
+  const entryDateValue = watch('entryDate')
 
-  useEffect(() => {
-    if (!isOpen) {
+  const {
+    status: draftStatus,
+    conflict,
+    flush,
+    resume,
+    keepMine,
+    takeTheirs,
+    discard,
+    finish,
+  } = useJournalDraft({
+    enabled: isOpen && draftLoaded,
+    values: {
+      title: titleValue ?? '',
+      content: contentValue ?? '',
+      entryDate: entryDateValue ?? '',
+      mood: (moodValue as Mood | null | undefined) ?? null,
+      tags: acceptedTags,
+      goalIds: selectedGoalIds,
+    },
+  })
+
+  const applyDraft = useCallback(
+    (draft: JournalDraft | null) => {
       reset({
-        title: '',
-        content: '',
-        entryDate: new Date().toLocaleDateString('en-CA'),
-        mood: null,
+        title: draft?.title ?? '',
+        content: draft?.content ?? '',
+        entryDate: draft?.entryDate ?? today(),
+        mood: draft?.mood ?? null,
       })
-      setSelectedGoalIds([])
+      setSelectedGoalIds(draft?.goalIds ?? [])
+      setAcceptedGoals([])
+      setAcceptedTags(draft?.tags ?? [])
+    },
+    [reset]
+  )
+
+  useEffect(() => {
+    if (!isOpen) {
+      applyDraft(null)
       setShowPreview(false)
+      setDraftLoaded(false)
+      setResumedFrom(null)
+      setRecordings([])
     }
-  }, [isOpen, reset])
+  }, [isOpen, applyDraft])
+
+  // Pick up where the last draft left off, on this or another device
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+
+    const loadDraft = async () => {
+      let draft: JournalDraft | null = null
+      try {
+        const response = await fetch(
+          draftId ? `/api/journals/drafts/${draftId}` : '/api/journals/drafts?journalId=none'
+        )
+        const result = await response.json()
+
+        if (result.success) {
+          draft = Array.isArray(result.data) ? result.data[0] ?? null : result.data
+        }
+      } catch (error) {
+        console.error('Load journal draft error:', error)
+      }
+
+      if (cancelled) return
+      if (draft) applyDraft(draft)
+      resume(draft)
+      setResumedFrom(draft ? new Date(draft.updatedAt) : null)
+      setDraftLoaded(true)
+    }
+
+    loadDraft()
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, draftId, applyDraft, resume])
+
+  const handleStartOver = async () => {
+    await discard()
+    applyDraft(null)
+    setResumedFrom(null)
+    setRecordings([])
+  }
+
+  // The transcript is added to the end of the content, where it can be edited before saving
+  const handleRecorded = async (recording: VoiceRecording) => {
+    setRecordings((current) => [...current, recording])
+    setTranscribing(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', recording.file)
+      const response = await fetch('/api/journals/transcribe', { method: 'POST', body: formData })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to transcribe recording')
+      }
+
+      const content = (getValues('content') ?? '').trimEnd()
+      setValue('content', `${content}${content ? '\n\n' : ''}${result.data.text}`, {
+        shouldDirty: true,
+        shouldValidate: true,
+      })
+    } catch (error) {
+      console.error('Transcribe recording error:', error)
+      showToast(
+        `${error instanceof Error ? error.message : 'Failed to transcribe recording'}. The recording will still be attached`,
+        'error'
+      )
+    } finally {
+      setTranscribing(false)
+    }
+  }
+
+  const attachRecordings = async (journalId: string) => {
+    for (const recording of recordings) {
+      const formData = new FormData()
+      formData.append('file', recording.file)
+      try {
+        const response = await fetch(`/api/journals/${journalId}/attachments`, {
+          method: 'POST',
+          body: formData,
+        })
+        const result = await response.json()
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Failed to attach recording')
+        }
+      } catch (error) {
+        console.error('Attach recording error:', error)
+        showToast(`Could not attach ${recording.file.name}`, 'error')
+      }
+    }
+  }
+
+  const handleTakeTheirs = () => {
+    const theirs = takeTheirs()
+    if (theirs) applyDraft(theirs)
+  }
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -80,6 +229,7 @@ export function CreateJournalModal({
 
   const onSubmit = async (data: CreateJournalFormData) => {
     try {
+      const savedDraftId = await flush()
       const response = await fetch('/api/journals', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -88,7 +238,12 @@ export function CreateJournalModal({
           content: data.content,
           entryDate: data.entryDate,
           mood: data.mood,
+          tags: acceptedTags,
           goalIds: selectedGoalIds,
+          suggestedGoalIds: acceptedGoals
+            .map((g) => g.id)
+            .filter((id) => !selectedGoalIds.includes(id)),
+          ...(savedDraftId && { draftId: savedDraftId }),
         }),
       })
 
@@ -98,7 +253,19 @@ export function CreateJournalModal({
         throw new Error(result.error?.message || 'Failed to create entry')
       }
 
-      showToast('Journal entry created successfully', 'success')
+      finish()
+
+      if (result.queued) {
+        showToast(
+          recordings.length > 0
+            ? 'You are offline. Saved on this device without the voice recordings'
+            : 'You are offline. Saved on this device and will sync when you reconnect',
+          'info'
+        )
+      } else {
+        if (recordings.length > 0) await attachRecordings(result.data.id)
+        showToast('Journal entry created successfully', 'success')
+      }
       onSuccess()
       onClose()
     } catch (error) {
@@ -118,7 +285,10 @@ export function CreateJournalModal({
       />
       <div className="relative bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between z-10">
-          <h2 className="text-xl font-semibold text-gray-900">New Journal Entry</h2>
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-semibold text-gray-900">New Journal Entry</h2>
+            <DraftStatusIndicator status={draftStatus} />
+          </div>
           <button
             onClick={onClose}
             className="p-2 text-gray-400 hover:text-gray-600 transition"
@@ -141,6 +311,29 @@ export function CreateJournalModal({
         </div>
 
         <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          {conflict && (
+            <DraftConflictBanner
+              theirs={conflict}
+              onKeepMine={keepMine}
+              onTakeTheirs={handleTakeTheirs}
+            />
+          )}
+
+          {resumedFrom && !conflict && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-blue-50 text-sm text-blue-800">
+              <span>
+                Resumed your draft from {resumedFrom.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+              <button
+                type="button"
+                onClick={handleStartOver}
+                className="font-medium hover:underline flex-shrink-0"
+              >
+                Start over
+              </button>
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label
@@ -203,20 +396,27 @@ export function CreateJournalModal({
               >
                 Content <span className="text-red-500">*</span>
               </label>
-              <button
-                type="button"
-                onClick={() => setShowPreview(!showPreview)}
-                className="text-sm text-blue-600 hover:text-blue-700"
-              >
-                {showPreview ? 'Edit' : 'Preview'}
-              </button>
+              <div className="flex items-center gap-4">
+                {transcribing ? (
+                  <span className="text-sm text-gray-500">Transcribing...</span>
+                ) : (
+                  <VoiceRecorder onRecorded={handleRecorded} disabled={isSubmitting} />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowPreview(!showPreview)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {showPreview ? 'Edit' : 'Preview'}
+                </button>
+              </div>
             </div>
 
             {showPreview ? (
               <div className="min-h-[200px] px-4 py-3 border border-gray-300 rounded-lg bg-gray-50">
                 {contentValue ? (
                   <div className="prose prose-sm max-w-none">
-                    <ReactMarkdown>{contentValue}</ReactMarkdown>
+                    <JournalMarkdown content={contentValue} />
                   </div>
                 ) : (
                   <p className="text-gray-400 italic">Nothing to preview</p>
@@ -235,8 +435,30 @@ export function CreateJournalModal({
               <p className="mt-1 text-sm text-red-600">{errors.content.message}</p>
             )}
             <p className="mt-1 text-xs text-gray-500">
-              Supports Markdown: **bold**, *italic*, # headings, - lists, etc.
+              Supports Markdown: **bold**, *italic*, # headings, - lists, etc. Photos, audio and
+              files can be attached once the entry is created.
             </p>
+            {recordings.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {recordings.map((recording, index) => (
+                  <li
+                    key={recording.file.name}
+                    className="flex items-center justify-between gap-2 text-sm text-gray-600"
+                  >
+                    <span className="truncate">
+                      {recording.file.name} ({formatDuration(recording.durationSeconds)}) is attached when you save
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setRecordings((current) => current.filter((_, i) => i !== index))}
+                      className="text-xs font-medium text-red-600 hover:text-red-700 flex-shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* Goal Tagging */}
@@ -248,6 +470,22 @@ export function CreateJournalModal({
               selectedGoalIds={selectedGoalIds}
               onChange={setSelectedGoalIds}
             />
+            <GoalSuggestions
+              title={titleValue}
+              content={contentValue}
+              selectedGoalIds={selectedGoalIds}
+              onAccept={(goalId) => setSelectedGoalIds((ids) => [...ids, goalId])}
+            />
+            <AILinkSuggestions
+              title={titleValue}
+              content={contentValue}
+              mood={moodValue as Mood | null | undefined}
+              linkedGoalIds={selectedGoalIds}
+              acceptedGoals={acceptedGoals}
+              acceptedTags={acceptedTags}
+              onAcceptedGoalsChange={setAcceptedGoals}
+              onAcceptedTagsChange={setAcceptedTags}
+            />
           </div>
 
           {/* Actions */}
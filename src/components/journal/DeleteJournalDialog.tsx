@@ -1,11 +1,12 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import type { JournalEntry } from '@/types'
+import type { JournalEntryWithGoals } from '@/types'
+import { TRASH_RETENTION_DAYS } from '@/types'
 import { useToast } from '@/hooks/useToast'
 
 interface DeleteJournalDialogProps {
-  entry: JournalEntry | null
+  entry: JournalEntryWithGoals | null
   isOpen: boolean
   onClose: () => void
   onSuccess: () => void
@@ -49,7 +50,7 @@ export function DeleteJournalDialog({
         throw new Error(result.error?.message || 'Failed to delete entry')
       }
 
-      showToast('Journal entry deleted successfully', 'success')
+      showToast('Journal entry moved to trash', 'success')
       onSuccess()
       onClose()
     } catch (error) {
@@ -101,8 +102,16 @@ export function DeleteJournalDialog({
             "{displayTitle}"
           </p>
 
+          {entry.mentionedGoals.length > 0 && (
+            <p className="text-sm text-gray-700 text-center mb-2">
+              It will be unlinked from {entry.mentionedGoals.length === 1 ? 'the goal' : 'these goals'}:{' '}
+              {entry.mentionedGoals.map((g) => g.title).join(', ')}
+            </p>
+          )}
+
           <p className="text-sm text-gray-500 text-center mb-6">
-            This action cannot be undone. The entry and all its goal links will be permanently removed.
+            The entry moves to the Trash, where you can restore it with its goal links for{' '}
+            {TRASH_RETENTION_DAYS} days before it is permanently deleted.
           </p>
 
           <div className="flex gap-3">
@@ -0,0 +1,62 @@
+'use client'
+
+import type { JournalDraft } from '@/types'
+import type { JournalDraftStatus } from '@/hooks/useJournalDraft'
+
+const STATUS_LABELS: Record<JournalDraftStatus, string | null> = {
+  idle: null,
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  error: 'Draft not saved',
+  conflict: null,
+}
+
+export function DraftStatusIndicator({ status }: { status: JournalDraftStatus }) {
+  const label = STATUS_LABELS[status]
+  if (!label) return null
+
+  return (
+    <span
+      className={`text-xs ${status === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+      aria-live="polite"
+    >
+      {label}
+    </span>
+  )
+}
+
+interface DraftConflictBannerProps {
+  theirs: JournalDraft
+  onKeepMine: () => void
+  onTakeTheirs: () => void
+}
+
+export function DraftConflictBanner({ theirs, onKeepMine, onTakeTheirs }: DraftConflictBannerProps) {
+  const source = theirs.device === 'ios' ? 'the iOS app' : 'another device'
+
+  return (
+    <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm" role="alert">
+      <p className="text-amber-800">
+        This draft was changed in {source} at{' '}
+        {new Date(theirs.updatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+        Autosave is paused until you choose which version to keep.
+      </p>
+      <div className="flex gap-3 mt-2">
+        <button
+          type="button"
+          onClick={onKeepMine}
+          className="text-amber-900 font-medium hover:underline"
+        >
+          Keep this version
+        </button>
+        <button
+          type="button"
+          onClick={onTakeTheirs}
+          className="text-amber-900 font-medium hover:underline"
+        >
+          Load the other version
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { JournalDraft } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+interface DraftsListProps {
+  refreshKey: number // Bump to refetch, e.g. after an editor closes
+  onResume: (draft: JournalDraft) => void
+}
+
+function draftSummary(draft: JournalDraft): string {
+  if (draft.title) return draft.title
+  const firstLine = draft.content.trim().split('\n')[0]
+  return firstLine ? firstLine.slice(0, 80) : 'Untitled draft'
+}
+
+export function DraftsList({ refreshKey, onResume }: DraftsListProps) {
+  const { showToast } = useToast()
+  const [drafts, setDrafts] = useState<JournalDraft[]>([])
+  const [discardingId, setDiscardingId] = useState<string | null>(null)
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/journals/drafts')
+      const result = await response.json()
+
+      if (result.success) {
+        setDrafts(result.data)
+      }
+    } catch (error) {
+      console.error('Fetch journal drafts error:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDrafts()
+  }, [fetchDrafts, refreshKey])
+
+  const handleDiscard = async (draft: JournalDraft) => {
+    setDiscardingId(draft.id)
+    try {
+      const response = await fetch(`/api/journals/drafts/${draft.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success && response.status !== 404) {
+        throw new Error(result.error?.message || 'Failed to discard draft')
+      }
+
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id))
+    } catch (error) {
+      console.error('Discard journal draft error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to discard draft', 'error')
+    } finally {
+      setDiscardingId(null)
+    }
+  }
+
+  if (drafts.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 mb-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-2">
+        Drafts <span className="font-normal text-gray-500">({drafts.length})</span>
+      </h2>
+      <ul className="divide-y divide-gray-100">
+        {drafts.map((draft) => (
+          <li key={draft.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <p className="text-sm text-gray-900 truncate">{draftSummary(draft)}</p>
+              <p className="text-xs text-gray-500">
+                {draft.journalEntryId ? 'Unsaved changes to an entry' : 'New entry'}
+                {' · saved '}
+                {new Date(draft.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                {draft.device === 'ios' && ' on iOS'}
+              </p>
+            </div>
+            <div className="flex gap-3 flex-shrink-0 text-sm">
+              <button
+                type="button"
+                onClick={() => onResume(draft)}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Resume
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDiscard(draft)}
+                disabled={discardingId === draft.id}
+                className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+              >
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
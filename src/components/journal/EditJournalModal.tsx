@@ -1,14 +1,29 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useForm, Controller } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import type { JournalEntry, Mood, Goal } from '@/types'
+import type {
+  JournalAttachment,
+  JournalDraft,
+  JournalEntry,
+  JournalEntryWithGoals,
+  Mood,
+  Goal,
+} from '@/types'
 import { useToast } from '@/hooks/useToast'
+import { draftToValues, useJournalDraft, type JournalDraftValues } from '@/hooks/useJournalDraft'
+import { useJournalAttachments } from '@/hooks/useJournalAttachments'
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_UPLOAD_BYTES } from '@/lib/attachments/formats'
+import { toAttachmentMarkdown } from '@/lib/attachments/markdown'
+import { UpdateConflictBanner } from '@/components/ui/UpdateConflictBanner'
+import { DraftConflictBanner, DraftStatusIndicator } from './DraftStatus'
 import { MoodSelector } from './MoodSelector'
 import { GoalTagging } from './GoalTagging'
-import ReactMarkdown from 'react-markdown'
+import { AILinkSuggestions } from './AILinkSuggestions'
+import { JournalMarkdown } from './JournalMarkdown'
+import { AttachmentList } from './AttachmentList'
 
 const editJournalSchema = z.object({
   title: z.string().max(200, 'Title too long').optional(),
@@ -19,6 +34,8 @@ const editJournalSchema = z.object({
 
 type EditJournalFormData = z.infer<typeof editJournalSchema>
 
+const NO_GOALS: Goal[] = []
+
 interface EditJournalModalProps {
   entry: JournalEntry | null
   linkedGoals?: Goal[]
@@ -29,7 +46,7 @@ interface EditJournalModalProps {
 
 export function EditJournalModal({
   entry,
-  linkedGoals = [],
+  linkedGoals = NO_GOALS,
   isOpen,
   onClose,
   onSuccess,
@@ -37,6 +54,21 @@ export function EditJournalModal({
   const { showToast } = useToast()
   const [showPreview, setShowPreview] = useState(false)
   const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>([])
+  const [acceptedGoals, setAcceptedGoals] = useState<Goal[]>([])
+  const [acceptedTags, setAcceptedTags] = useState<string[]>([])
+  const [entryTags, setEntryTags] = useState<string[]>([])
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [restoredFrom, setRestoredFrom] = useState<Date | null>(null)
+  const [updateConflict, setUpdateConflict] = useState<JournalEntryWithGoals | null>(null)
+  // updatedAt of the version being edited; a save is refused if the entry has changed since
+  const expectedUpdatedAt = useRef<string>()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  const {
+    attachments,
+    upload: uploadAttachment,
+    remove: removeAttachment,
+  } = useJournalAttachments(entry?.id ?? null, isOpen)
 
   const {
     register,
@@ -44,25 +76,186 @@ export function EditJournalModal({
     control,
     reset,
     watch,
+    getValues,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<EditJournalFormData>({
     resolver: zodResolver(editJournalSchema),
   })
 
   const contentValue = watch('content')
+  const titleValue = watch('title')
+  const moodValue = watch('mood')
+  const entryDateValue = watch('entryDate')
 
-  useEffect(() => {
-    if (entry && isOpen) {
-      reset({
+  const {
+    status: draftStatus,
+    conflict,
+    flush,
+    resume,
+    keepMine,
+    takeTheirs,
+    discard,
+    finish,
+  } = useJournalDraft({
+    enabled: isOpen && draftLoaded,
+    journalEntryId: entry?.id ?? null,
+    values: {
+      title: titleValue ?? '',
+      content: contentValue ?? '',
+      entryDate: entryDateValue ?? '',
+      mood: (moodValue as Mood | null | undefined) ?? null,
+      tags: acceptedTags.length > 0 ? [...entryTags, ...acceptedTags].slice(0, 20) : entryTags,
+      goalIds: selectedGoalIds,
+    },
+  })
+
+  // The saved entry, as the editor shows it before any changes
+  const baseline = useMemo<JournalDraftValues | null>(
+    () =>
+      entry && {
         title: entry.title || '',
         content: entry.content,
         entryDate: entry.entryDate,
         mood: entry.mood as Mood | null,
+        tags: entry.tags,
+        goalIds: linkedGoals.map((g) => g.id),
+      },
+    [entry, linkedGoals]
+  )
+
+  const applyValues = useCallback(
+    (values: JournalDraftValues) => {
+      if (!entry) return
+      reset({
+        title: values.title,
+        content: values.content,
+        entryDate: values.entryDate || entry.entryDate,
+        mood: values.mood,
       })
-      setSelectedGoalIds(linkedGoals.map((g) => g.id))
-      setShowPreview(false)
+      setSelectedGoalIds(values.goalIds)
+      setAcceptedGoals([])
+      setEntryTags(entry.tags)
+      setAcceptedTags(values.tags.filter((tag) => !entry.tags.includes(tag)))
+    },
+    [entry, reset]
+  )
+
+  useEffect(() => {
+    if (!entry || !baseline || !isOpen) {
+      setDraftLoaded(false)
+      return
+    }
+
+    let cancelled = false
+    applyValues(baseline)
+    setShowPreview(false)
+    setRestoredFrom(null)
+    setUpdateConflict(null)
+    setDraftLoaded(false)
+    expectedUpdatedAt.current = new Date(entry.updatedAt).toISOString()
+
+    const loadDraft = async () => {
+      let draft: JournalDraft | null = null
+      try {
+        const response = await fetch(`/api/journals/drafts?journalId=${entry.id}`)
+        const result = await response.json()
+
+        if (result.success) {
+          draft = result.data[0] ?? null
+        }
+      } catch (error) {
+        console.error('Load journal draft error:', error)
+      }
+
+      if (cancelled) return
+
+      // A draft older than the entry was overtaken by a save elsewhere; edit the entry instead
+      if (draft && new Date(draft.updatedAt) > new Date(entry.updatedAt)) {
+        applyValues(draftToValues(draft))
+        resume(draft)
+        setRestoredFrom(new Date(draft.updatedAt))
+      } else {
+        resume(draft, baseline)
+      }
+      setDraftLoaded(true)
+    }
+
+    loadDraft()
+    return () => {
+      cancelled = true
+    }
+  }, [entry, baseline, isOpen, applyValues, resume])
+
+  const handleDiscardChanges = async () => {
+    if (!baseline) return
+    await discard(baseline)
+    applyValues(baseline)
+    setRestoredFrom(null)
+  }
+
+  const handleTakeTheirs = () => {
+    const theirs = takeTheirs()
+    if (theirs) applyValues(draftToValues(theirs))
+  }
+
+  const handleLoadLatest = () => {
+    if (!updateConflict) return
+    applyValues({
+      title: updateConflict.title || '',
+      content: updateConflict.content,
+      entryDate: updateConflict.entryDate,
+      mood: updateConflict.mood as Mood | null,
+      tags: updateConflict.tags,
+      goalIds: updateConflict.mentionedGoals.map((g) => g.id),
+    })
+    setEntryTags(updateConflict.tags)
+    setAcceptedTags([])
+    expectedUpdatedAt.current = new Date(updateConflict.updatedAt).toISOString()
+    setUpdateConflict(null)
+  }
+
+  const insertAttachment = (attachment: JournalAttachment) => {
+    const content = (getValues('content') ?? '').trimEnd()
+    setValue('content', `${content}${content ? '\n\n' : ''}${toAttachmentMarkdown(attachment)}\n`, {
+      shouldDirty: true,
+      shouldValidate: true,
+    })
+  }
+
+  // Files are uploaded right away and linked at the end of the content
+  const handleAttachFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setUploading(true)
+    try {
+      for (const file of Array.from(files)) {
+        if (file.size > MAX_ATTACHMENT_UPLOAD_BYTES) {
+          showToast(`${file.name} is too large (max ${MAX_ATTACHMENT_UPLOAD_BYTES / 1024 / 1024} MB)`, 'error')
+          continue
+        }
+        try {
+          insertAttachment(await uploadAttachment(file))
+        } catch (error) {
+          console.error('Upload attachment error:', error)
+          showToast(error instanceof Error ? error.message : `Failed to attach ${file.name}`, 'error')
+        }
+      }
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleRemoveAttachment = async (attachment: JournalAttachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}? This cannot be undone.`)) return
+    try {
+      await removeAttachment(attachment)
+      showToast('Attachment removed', 'success')
+    } catch (error) {
+      console.error('Remove attachment error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to remove attachment', 'error')
     }
-  }, [entry, linkedGoals, isOpen, reset])
+  }
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -82,6 +275,7 @@ export function EditJournalModal({
     if (!entry) return
 
     try {
+      const savedDraftId = await flush()
       const response = await fetch(`/api/journals/${entry.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -90,17 +284,34 @@ export function EditJournalModal({
           content: data.content,
           entryDate: data.entryDate,
           mood: data.mood,
+          ...(acceptedTags.length > 0 && { tags: [...entryTags, ...acceptedTags].slice(0, 20) }),
           goalIds: selectedGoalIds,
+          suggestedGoalIds: acceptedGoals
+            .map((g) => g.id)
+            .filter((id) => !selectedGoalIds.includes(id)),
+          ...(savedDraftId && { draftId: savedDraftId }),
+          expectedUpdatedAt: expectedUpdatedAt.current,
         }),
       })
 
       const result = await response.json()
 
+      if (result.error?.code === 'UPDATE_CONFLICT') {
+        setUpdateConflict(result.data)
+        return
+      }
+
       if (!result.success) {
         throw new Error(result.error?.message || 'Failed to update entry')
       }
 
-      showToast('Journal entry updated successfully', 'success')
+      finish()
+
+      if (result.queued) {
+        showToast('You are offline. Saved on this device and will sync when you reconnect', 'info')
+      } else {
+        showToast('Journal entry updated successfully', 'success')
+      }
       onSuccess()
       onClose()
     } catch (error) {
@@ -109,6 +320,13 @@ export function EditJournalModal({
     }
   }
 
+  const handleKeepMine = () => {
+    if (!updateConflict) return
+    expectedUpdatedAt.current = new Date(updateConflict.updatedAt).toISOString()
+    setUpdateConflict(null)
+    handleSubmit(onSubmit)()
+  }
+
   if (!isOpen || !entry) return null
 
   return (
@@ -120,7 +338,10 @@ export function EditJournalModal({
       />
       <div className="relative bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between z-10">
-          <h2 className="text-xl font-semibold text-gray-900">Edit Journal Entry</h2>
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-semibold text-gray-900">Edit Journal Entry</h2>
+            <DraftStatusIndicator status={draftStatus} />
+          </div>
           <button
             onClick={onClose}
             className="p-2 text-gray-400 hover:text-gray-600 transition"
@@ -143,6 +364,38 @@ export function EditJournalModal({
         </div>
 
         <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          {conflict && (
+            <DraftConflictBanner
+              theirs={conflict}
+              onKeepMine={keepMine}
+              onTakeTheirs={handleTakeTheirs}
+            />
+          )}
+
+          {updateConflict && (
+            <UpdateConflictBanner
+              noun="entry"
+              updatedAt={updateConflict.updatedAt}
+              onKeepMine={handleKeepMine}
+              onLoadLatest={handleLoadLatest}
+            />
+          )}
+
+          {restoredFrom && !conflict && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-blue-50 text-sm text-blue-800">
+              <span>
+                Restored unsaved changes from {restoredFrom.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+              <button
+                type="button"
+                onClick={handleDiscardChanges}
+                className="font-medium hover:underline flex-shrink-0"
+              >
+                Discard changes
+              </button>
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label
@@ -218,7 +471,7 @@ export function EditJournalModal({
               <div className="min-h-[200px] px-4 py-3 border border-gray-300 rounded-lg bg-gray-50">
                 {contentValue ? (
                   <div className="prose prose-sm max-w-none">
-                    <ReactMarkdown>{contentValue}</ReactMarkdown>
+                    <JournalMarkdown content={contentValue} attachments={attachments} />
                   </div>
                 ) : (
                   <p className="text-gray-400 italic">Nothing to preview</p>
@@ -241,6 +494,42 @@ export function EditJournalModal({
             </p>
           </div>
 
+          {/* Attachments */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Attachments
+              </label>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                {uploading ? 'Uploading...' : 'Attach files'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => handleAttachFiles(e.target.files)}
+                className="hidden"
+              />
+            </div>
+            {attachments && attachments.length > 0 ? (
+              <AttachmentList
+                attachments={attachments}
+                onInsert={insertAttachment}
+                onRemove={handleRemoveAttachment}
+              />
+            ) : (
+              <p className="text-xs text-gray-500">
+                Photos, audio memos, PDFs and text files are uploaded right away and linked in the content.
+              </p>
+            )}
+          </div>
+
           {/* Goal Tagging */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -250,6 +539,17 @@ export function EditJournalModal({
               selectedGoalIds={selectedGoalIds}
               onChange={setSelectedGoalIds}
             />
+            <AILinkSuggestions
+              title={titleValue}
+              content={contentValue}
+              mood={moodValue as Mood | null | undefined}
+              linkedGoalIds={selectedGoalIds}
+              existingTags={entryTags}
+              acceptedGoals={acceptedGoals}
+              acceptedTags={acceptedTags}
+              onAcceptedGoalsChange={setAcceptedGoals}
+              onAcceptedTagsChange={setAcceptedTags}
+            />
           </div>
 
           {/* Actions */}
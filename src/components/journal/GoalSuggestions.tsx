@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { GoalSuggestion } from '@/types'
+
+interface GoalSuggestionsProps {
+  title?: string
+  content?: string
+  selectedGoalIds: string[]
+  onAccept: (goalId: string) => void
+}
+
+// Wait for a pause in typing and enough text to compare
+const DEBOUNCE_MS = 800
+const MIN_CONTENT_LENGTH = 40
+
+export function GoalSuggestions({
+  title,
+  content,
+  selectedGoalIds,
+  onAccept,
+}: GoalSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<GoalSuggestion[]>([])
+
+  useEffect(() => {
+    if (!content || content.trim().length < MIN_CONTENT_LENGTH) {
+      setSuggestions([])
+      return
+    }
+
+    const abortController = new AbortController()
+    const timer = setTimeout(() => {
+      fetch('/api/journals/suggest-goals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: title || null, content }),
+        signal: abortController.signal,
+      })
+        .then((res) => res.json())
+        .then((result) => {
+          if (result.success && result.data) {
+            setSuggestions(result.data)
+          }
+        })
+        .catch((err) => {
+          if (err.name !== 'AbortError') {
+            console.error('Failed to fetch goal suggestions:', err)
+          }
+        })
+    }, DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      abortController.abort()
+    }
+  }, [title, content])
+
+  const visible = suggestions.filter((s) => !selectedGoalIds.includes(s.goal.id))
+  if (visible.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <span className="text-xs text-gray-500">Suggested:</span>
+      {visible.map(({ goal, basedOn }) => (
+        <button
+          key={goal.id}
+          type="button"
+          onClick={() => onAccept(goal.id)}
+          title={`Linked to ${basedOn} similar ${basedOn === 1 ? 'entry' : 'entries'}`}
+          className="inline-flex items-center gap-1 px-2 py-1 border border-dashed border-blue-300 text-blue-700 rounded-lg text-sm hover:bg-blue-50 transition"
+        >
+          <svg
+            className="w-3.5 h-3.5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 4v16m8-8H4"
+            />
+          </svg>
+          <span className="truncate max-w-[150px]">{goal.title}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ImportReport, ImportSource } from '@/types'
+import { IMPORT_SOURCES, IMPORT_SOURCE_LABELS } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+interface ImportJournalModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function ImportJournalModal({
+  isOpen,
+  onClose,
+  onSuccess,
+}: ImportJournalModalProps) {
+  const { showToast } = useToast()
+  const [file, setFile] = useState<File | null>(null)
+  const [source, setSource] = useState<ImportSource | ''>('')
+  const [preview, setPreview] = useState<ImportReport | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null)
+      setSource('')
+      setPreview(null)
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = ''
+    }
+  }, [isOpen, onClose])
+
+  const submit = async (dryRun: boolean): Promise<ImportReport> => {
+    if (!file) throw new Error('Choose a file to import')
+
+    const formData = new FormData()
+    formData.append('file', file)
+    if (source) formData.append('source', source)
+    formData.append('dryRun', String(dryRun))
+
+    const response = await fetch('/api/import', { method: 'POST', body: formData })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Import failed')
+    }
+    return result.data
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    try {
+      setPreview(await submit(true))
+    } catch (error) {
+      console.error('Import preview error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to read file', 'error')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    try {
+      const report = await submit(false)
+      showToast(
+        `Imported ${report.imported} ${report.imported === 1 ? 'entry' : 'entries'}` +
+          (report.invalid > 0 ? ` (${report.invalid} skipped)` : ''),
+        'success'
+      )
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Import error:', error)
+      showToast(error instanceof Error ? error.message : 'Import failed', 'error')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="fixed inset-0 bg-black/50"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+      <div className="relative bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Import Entries</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition"
+            aria-label="Close"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-500">
+            Import a Day One JSON export, a zip of Markdown files with YAML front-matter, or a
+            CSV with date, title, content, mood, tags and goals columns. Goals are matched to
+            yours by title.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="importFile"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                File <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="importFile"
+                type="file"
+                accept=".json,.zip,.csv,.md,.markdown,.txt"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null)
+                  setPreview(null)
+                }}
+                className="w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:border-0 file:rounded-lg file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="importSource"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Format
+              </label>
+              <select
+                id="importSource"
+                value={source}
+                onChange={(e) => {
+                  setSource(e.target.value as ImportSource | '')
+                  setPreview(null)
+                }}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+              >
+                <option value="">Detect automatically</option>
+                {IMPORT_SOURCES.map((s) => (
+                  <option key={s} value={s}>
+                    {IMPORT_SOURCE_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="px-2 py-1 rounded-md bg-gray-100 text-gray-700">
+                  {preview.total} found
+                </span>
+                <span className="px-2 py-1 rounded-md bg-green-100 text-green-700">
+                  {preview.valid} ready
+                </span>
+                {preview.invalid > 0 && (
+                  <span className="px-2 py-1 rounded-md bg-red-100 text-red-700">
+                    {preview.invalid} with errors (will be skipped)
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {preview.rows.map((row) => (
+                  <div key={row.row} className="px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900 truncate">
+                        {row.entry?.entryDate ?? '—'} · {row.entry?.title || 'Untitled'}
+                      </span>
+                      <span
+                        className={`shrink-0 text-xs ${
+                          row.status === 'invalid' ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {row.status === 'invalid' ? 'Error' : 'Ready'}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{row.source}</p>
+                    {row.matchedGoals.length > 0 && (
+                      <p className="text-xs text-blue-600">
+                        Goals: {row.matchedGoals.map((g) => g.title).join(', ')}
+                      </p>
+                    )}
+                    {row.unmatchedGoals.length > 0 && (
+                      <p className="text-xs text-amber-600">
+                        No matching goal: {row.unmatchedGoals.join(', ')}
+                      </p>
+                    )}
+                    {row.warnings.map((warning) => (
+                      <p key={warning} className="text-xs text-amber-600">
+                        {warning}
+                      </p>
+                    ))}
+                    {row.errors.map((error) => (
+                      <p key={error} className="text-xs text-red-600">
+                        {error}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+            >
+              Cancel
+            </button>
+            {preview ? (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || preview.valid === 0}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+              >
+                {isImporting
+                  ? 'Importing...'
+                  : `Import ${preview.valid} ${preview.valid === 1 ? 'entry' : 'entries'}`}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={!file || isPreviewing}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+              >
+                {isPreviewing ? 'Checking...' : 'Preview'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
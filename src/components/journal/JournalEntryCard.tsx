@@ -1,29 +1,41 @@
 'use client'
 
 import { useState } from 'react'
-import ReactMarkdown from 'react-markdown'
 import { format } from 'date-fns'
 import type { JournalEntry, Goal, Mood } from '@/types'
+import { useJournalAttachments } from '@/hooks/useJournalAttachments'
+import { getLinkedAttachmentIds } from '@/lib/attachments/markdown'
 import { MoodBadge } from './MoodSelector'
+import { JournalMarkdown } from './JournalMarkdown'
+import { AttachmentList } from './AttachmentList'
 import { LinkedGoalsDisplay } from './GoalTagging'
+import { RelatedEntries } from './RelatedEntries'
 import { AnalyzeButton } from '@/components/ai/AnalyzeButton'
 
 interface JournalEntryCardProps {
   entry: JournalEntry
   linkedGoals?: Goal[]
   onEdit?: (entry: JournalEntry) => void
+  onHistory?: (entry: JournalEntry) => void
   onDelete?: (entry: JournalEntry) => void
   showAnalyze?: boolean
+  pendingSync?: boolean // Saved on this device but not yet on the server
 }
 
 export function JournalEntryCard({
   entry,
   linkedGoals = [],
   onEdit,
+  onHistory,
   onDelete,
   showAnalyze = true,
+  pendingSync = false,
 }: JournalEntryCardProps) {
   const [expanded, setExpanded] = useState(false)
+  const { attachments } = useJournalAttachments(pendingSync ? null : entry.id, expanded)
+  // Attachments the content does not show inline are listed below it
+  const linkedAttachmentIds = getLinkedAttachmentIds(entry.content)
+  const otherAttachments = (attachments ?? []).filter((a) => !linkedAttachmentIds.includes(a.id))
 
   const formatDate = (date: Date | string) => {
     if (typeof date === 'string') {
@@ -69,6 +81,27 @@ export function JournalEntryCard({
                 {formatDate(entry.entryDate)}
               </span>
               {entry.mood && <MoodBadge mood={entry.mood as Mood} />}
+              {pendingSync && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 text-xs font-medium"
+                  title="Saved on this device. It will sync when you are back online."
+                >
+                  <svg
+                    className="w-3.5 h-3.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                    />
+                  </svg>
+                  Waiting to sync
+                </span>
+              )}
             </div>
 
             {/* Title */}
@@ -126,9 +159,19 @@ export function JournalEntryCard({
         <div className="px-4 sm:px-6 pb-4 sm:pb-6 border-t border-gray-100 pt-4">
           {/* Full markdown content */}
           <div className="prose prose-sm max-w-none text-gray-700 mb-4">
-            <ReactMarkdown>{entry.content}</ReactMarkdown>
+            <JournalMarkdown content={entry.content} attachments={attachments} />
           </div>
 
+          {/* Attachments not shown in the content */}
+          {otherAttachments.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+                Attachments
+              </h4>
+              <AttachmentList attachments={otherAttachments} />
+            </div>
+          )}
+
           {/* Tags */}
           {entry.tags && entry.tags.length > 0 && (
             <div className="flex flex-wrap gap-1.5 mb-4">
@@ -143,6 +186,13 @@ export function JournalEntryCard({
             </div>
           )}
 
+          {/* Similar past entries */}
+          {!pendingSync && (
+            <div className="mb-4">
+              <RelatedEntries entryId={entry.id} />
+            </div>
+          )}
+
           {/* Timestamps */}
           <div className="grid grid-cols-2 gap-4 text-sm mb-4">
             <div>
@@ -161,7 +211,7 @@ export function JournalEntryCard({
 
           {/* Actions */}
           <div className="flex gap-2 pt-2 border-t border-gray-100">
-            {showAnalyze && (
+            {showAnalyze && !pendingSync && (
               <div onClick={(e) => e.stopPropagation()}>
                 <AnalyzeButton type="journal" id={entry.id} variant="default" />
               </div>
@@ -190,6 +240,30 @@ export function JournalEntryCard({
                 Edit
               </button>
             )}
+            {onHistory && !pendingSync && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onHistory(entry)
+                }}
+                className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+                History
+              </button>
+            )}
             {onDelete && (
               <button
                 onClick={(e) => {
@@ -0,0 +1,301 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import type { Goal, JournalEntryRevision, JournalEntryWithGoals } from '@/types'
+import { MOOD_LABELS } from '@/types'
+import { useToast } from '@/hooks/useToast'
+import { diffLines, type DiffLine } from '@/lib/diff'
+
+interface JournalHistoryModalProps {
+  entry: JournalEntryWithGoals | null
+  goals?: Goal[] // For naming goals a revision was linked to
+  isOpen: boolean
+  onClose: () => void
+  onRestored: () => void
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  unchanged: 'text-gray-700',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-green-50 text-green-900',
+}
+
+const NO_GOALS: Goal[] = []
+
+const formatTimestamp = (date: Date | string) => format(new Date(date), 'MMM d, yyyy h:mm a')
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) {
+    return <td colSpan={2} className="bg-gray-50" />
+  }
+
+  return (
+    <>
+      <td className="w-10 px-2 text-right text-gray-400 select-none align-top">{line.number}</td>
+      <td className={`px-2 whitespace-pre-wrap break-words align-top ${LINE_STYLES[line.type]}`}>
+        {line.text || ' '}
+      </td>
+    </>
+  )
+}
+
+export function JournalHistoryModal({
+  entry,
+  goals = NO_GOALS,
+  isOpen,
+  onClose,
+  onRestored,
+}: JournalHistoryModalProps) {
+  const { showToast } = useToast()
+  const [revisions, setRevisions] = useState<JournalEntryRevision[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  useEffect(() => {
+    if (!entry || !isOpen) return
+    let cancelled = false
+
+    const fetchRevisions = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/journals/${entry.id}/revisions`)
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Failed to load history')
+        }
+
+        if (!cancelled) {
+          setRevisions(result.data)
+          setSelectedId(result.data[0]?.id ?? null)
+        }
+      } catch (error) {
+        console.error('Fetch journal revisions error:', error)
+        if (!cancelled) {
+          showToast(error instanceof Error ? error.message : 'Failed to load history', 'error')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRevisions()
+    return () => {
+      cancelled = true
+    }
+  }, [entry, isOpen, showToast])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = ''
+    }
+  }, [isOpen, onClose])
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null
+
+  const rows = useMemo(
+    () => (selected && entry ? diffLines(selected.content, entry.content) : []),
+    [selected, entry]
+  )
+
+  // Title, mood, tags and goals that differ between the revision and the current entry
+  const fieldChanges = useMemo(() => {
+    if (!selected || !entry) return []
+
+    const goalName = (id: string) =>
+      entry.mentionedGoals.find((g) => g.id === id)?.title ??
+      goals.find((g) => g.id === id)?.title ??
+      'Deleted goal'
+    const listOrNone = (items: string[]) => (items.length > 0 ? items.join(', ') : 'None')
+    const currentGoalIds = entry.mentionedGoals.map((g) => g.id)
+    const sameItems = (a: string[], b: string[]) =>
+      a.length === b.length && a.every((item) => b.includes(item))
+
+    const changes: { label: string; before: string; after: string }[] = []
+    if ((selected.title ?? '') !== (entry.title ?? '')) {
+      changes.push({ label: 'Title', before: selected.title || 'None', after: entry.title || 'None' })
+    }
+    if (selected.mood !== entry.mood) {
+      changes.push({
+        label: 'Mood',
+        before: selected.mood ? MOOD_LABELS[selected.mood] : 'None',
+        after: entry.mood ? MOOD_LABELS[entry.mood] : 'None',
+      })
+    }
+    if (!sameItems(selected.tags, entry.tags)) {
+      changes.push({ label: 'Tags', before: listOrNone(selected.tags), after: listOrNone(entry.tags) })
+    }
+    if (!sameItems(selected.goalIds, currentGoalIds)) {
+      changes.push({
+        label: 'Goals',
+        before: listOrNone(selected.goalIds.map(goalName)),
+        after: listOrNone(currentGoalIds.map(goalName)),
+      })
+    }
+    return changes
+  }, [selected, entry, goals])
+
+  const handleRestore = async () => {
+    if (!entry || !selected) return
+
+    setIsRestoring(true)
+    try {
+      const response = await fetch(
+        `/api/journals/${entry.id}/revisions/${selected.id}/restore`,
+        { method: 'POST' }
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to restore version')
+      }
+
+      showToast('Earlier version restored', 'success')
+      onRestored()
+      onClose()
+    } catch (error) {
+      console.error('Restore journal revision error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to restore version', 'error')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (!isOpen || !entry) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="fixed inset-0 bg-black/50"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+      <div className="relative bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Version History</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition"
+            aria-label="Close"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">
+            No earlier versions yet. A version is kept each time this entry is edited.
+          </p>
+        ) : (
+          <div className="flex flex-col md:flex-row min-h-0 flex-1">
+            {/* Revisions */}
+            <ul className="md:w-56 flex-shrink-0 max-h-40 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-100">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-4 py-3 text-sm transition ${
+                      revision.id === selectedId
+                        ? 'bg-blue-50 text-blue-700 font-medium'
+                        : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {formatTimestamp(revision.savedAt)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Comparison */}
+            {selected && (
+              <div className="flex-1 min-w-0 overflow-y-auto p-4 sm:p-6 space-y-4">
+                {fieldChanges.length > 0 && (
+                  <dl className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1 text-sm">
+                    {fieldChanges.map((change) => (
+                      <div key={change.label} className="contents">
+                        <dt className="text-gray-500">{change.label}</dt>
+                        <dd className="text-red-800">{change.before}</dd>
+                        <dd className="text-green-800">{change.after}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+
+                <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                  <table className="w-full table-fixed text-xs font-mono">
+                    <colgroup>
+                      <col className="w-10" />
+                      <col />
+                      <col className="w-10" />
+                      <col />
+                    </colgroup>
+                    <thead className="bg-gray-50 text-gray-600 font-sans">
+                      <tr>
+                        <th colSpan={2} className="px-2 py-2 text-left font-medium">
+                          Version from {formatTimestamp(selected.savedAt)}
+                        </th>
+                        <th colSpan={2} className="px-2 py-2 text-left font-medium border-l border-gray-200">
+                          Current
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, index) => (
+                        <tr key={index}>
+                          <DiffCell line={row.before} />
+                          <DiffCell line={row.after} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {fieldChanges.length === 0 && rows.every((row) => row.before?.type === 'unchanged') && (
+                  <p className="text-sm text-gray-500">This version matches the current entry.</p>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+                  >
+                    {isRestoring ? 'Restoring...' : 'Restore this version'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
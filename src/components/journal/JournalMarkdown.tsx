@@ -0,0 +1,94 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import ReactMarkdown, { defaultUrlTransform, type Components } from 'react-markdown'
+import type { JournalAttachment } from '@/types'
+import { getAttachmentIdFromUrl, getAttachmentUrl } from '@/lib/attachments/markdown'
+
+interface JournalMarkdownProps {
+  content: string
+  // The entry's attachments; when given, links to removed attachments show as such and
+  // audio links become players. Omit while they are unknown (e.g. a new entry)
+  attachments?: JournalAttachment[] | null
+}
+
+// attachment:<id> URLs are kept as they are and resolved by the components below
+const urlTransform = (url: string) =>
+  getAttachmentIdFromUrl(url) ? url : defaultUrlTransform(url)
+
+/**
+ * Journal entry content, with attachment:<id> links rendered inline: images as thumbnails
+ * that open the original, audio as players and other files as download links
+ */
+export function JournalMarkdown({ content, attachments }: JournalMarkdownProps) {
+  const findAttachment = (url: string | undefined) => {
+    const id = url ? getAttachmentIdFromUrl(url) : null
+    if (!id) return null
+    return { id, attachment: attachments?.find((a) => a.id === id) ?? null }
+  }
+
+  const missing = (label: ReactNode) => (
+    <span className="inline-block px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-500 not-prose">
+      {label} (attachment removed)
+    </span>
+  )
+
+  const components: Components = {
+    img({ src, alt }) {
+      const linked = findAttachment(typeof src === 'string' ? src : undefined)
+      if (!linked) {
+        // eslint-disable-next-line @next/next/no-img-element
+        return <img src={src} alt={alt} />
+      }
+      if (attachments && !linked.attachment) return missing(alt || 'Image')
+
+      return (
+        <a
+          href={getAttachmentUrl(linked.id)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={getAttachmentUrl(linked.id, { thumbnail: true })}
+            alt={alt || linked.attachment?.fileName || ''}
+            loading="lazy"
+            className="rounded-lg max-h-80"
+          />
+        </a>
+      )
+    },
+    a({ href, children }) {
+      const linked = findAttachment(href)
+      if (!linked) return <a href={href}>{children}</a>
+      if (attachments && !linked.attachment) return missing(children)
+
+      if (linked.attachment?.kind === 'audio') {
+        return (
+          <span className="block not-prose" onClick={(e) => e.stopPropagation()}>
+            <span className="block text-xs text-gray-500 mb-1">{children}</span>
+            <audio controls preload="metadata" src={getAttachmentUrl(linked.id)} className="w-full" />
+          </span>
+        )
+      }
+
+      return (
+        <a
+          href={getAttachmentUrl(linked.id)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {children}
+        </a>
+      )
+    },
+  }
+
+  return (
+    <ReactMarkdown urlTransform={urlTransform} components={components}>
+      {content}
+    </ReactMarkdown>
+  )
+}
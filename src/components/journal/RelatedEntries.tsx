@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import type { RelatedJournalEntry } from '@/types'
+
+interface RelatedEntriesProps {
+  entryId: string
+  limit?: number
+}
+
+export function RelatedEntries({ entryId, limit = 3 }: RelatedEntriesProps) {
+  const [related, setRelated] = useState<RelatedJournalEntry[] | null>(null)
+
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    fetch(`/api/journals/${entryId}/related?limit=${limit}`, {
+      signal: abortController.signal,
+    })
+      .then((res) => res.json())
+      .then((result) => {
+        setRelated(result.success && result.data ? result.data : [])
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to fetch related entries:', err)
+          setRelated([])
+        }
+      })
+
+    return () => abortController.abort()
+  }, [entryId, limit])
+
+  if (related === null) {
+    return <p className="text-xs text-gray-400">Finding related entries...</p>
+  }
+
+  if (related.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+        Related entries
+      </h4>
+      <ul className="space-y-1">
+        {related.map(({ entry, similarity }) => {
+          const [y, m, d] = entry.entryDate.split('-').map(Number)
+          return (
+            <li key={entry.id} className="flex items-baseline gap-2 text-sm">
+              <span className="shrink-0 text-gray-500">
+                {format(new Date(y, m - 1, d), 'MMM d, yyyy')}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-gray-900">
+                {entry.title || entry.content.slice(0, 80)}
+              </span>
+              <span className="shrink-0 text-xs text-gray-400">
+                {Math.round(similarity * 100)}% similar
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
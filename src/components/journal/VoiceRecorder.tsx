@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+// Recordings stop by themselves well below the 25 MB audio limit
+const MAX_RECORDING_SECONDS = 15 * 60
+
+export interface VoiceRecording {
+  file: File
+  durationSeconds: number
+}
+
+interface VoiceRecorderProps {
+  onRecorded: (recording: VoiceRecording) => void
+  disabled?: boolean
+}
+
+export function formatDuration(seconds: number) {
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+function getExtension(mimeType: string) {
+  if (mimeType.includes('mp4')) return 'm4a'
+  if (mimeType.includes('ogg')) return 'ogg'
+  return 'webm'
+}
+
+/**
+ * Records from the microphone with MediaRecorder and hands over the recording when stopped
+ */
+export function VoiceRecorder({ onRecorded, disabled = false }: VoiceRecorderProps) {
+  const [recording, setRecording] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const timerRef = useRef<ReturnType<typeof setInterval>>()
+  const onRecordedRef = useRef(onRecorded)
+  onRecordedRef.current = onRecorded
+
+  const stop = () => {
+    clearInterval(timerRef.current)
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+    setRecording(false)
+  }
+
+  // Closing the editor mid-recording discards it and releases the microphone
+  useEffect(() => {
+    return () => {
+      clearInterval(timerRef.current)
+      const recorder = recorderRef.current
+      if (recorder?.state === 'recording') {
+        recorder.onstop = () => recorder.stream.getTracks().forEach((track) => track.stop())
+        recorder.stop()
+      }
+    }
+  }, [])
+
+  const start = async () => {
+    setError(null)
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Recording is not supported in this browser')
+      return
+    }
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch (err) {
+      console.error('Microphone access error:', err)
+      setError('Allow microphone access to dictate')
+      return
+    }
+
+    const recorder = new MediaRecorder(stream)
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop())
+      const type = recorder.mimeType || 'audio/webm'
+      const stamp = new Date(startedAt).toLocaleString('sv').replace(/:/g, '.')
+      onRecordedRef.current({
+        file: new File(chunks, `Voice memo ${stamp}.${getExtension(type)}`, { type }),
+        durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      })
+    }
+
+    recorderRef.current = recorder
+    recorder.start()
+    setElapsed(0)
+    setRecording(true)
+    timerRef.current = setInterval(() => {
+      const seconds = Math.round((Date.now() - startedAt) / 1000)
+      setElapsed(seconds)
+      if (seconds >= MAX_RECORDING_SECONDS) stop()
+    }, 1000)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      {recording ? (
+        <button
+          type="button"
+          onClick={stop}
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-red-600 hover:text-red-700"
+        >
+          <span className="w-2 h-2 rounded-full bg-red-600 animate-pulse" aria-hidden="true" />
+          Stop {formatDuration(elapsed)}
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={start}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"
+            />
+          </svg>
+          Dictate
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Notification } from '@/types'
+
+const PAGE_SIZE = 10
+const POLL_INTERVAL_MS = 60 * 1000
+
+function formatAge(createdAt: string | Date): string {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+  return new Date(createdAt).toLocaleDateString()
+}
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/notifications?pageSize=${PAGE_SIZE}`)
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load notifications')
+      }
+
+      setNotifications(result.data)
+      setUnreadCount(result.unreadCount)
+    } catch (error) {
+      // Polling runs in the background; a missed refresh is not worth a toast
+      console.error('Fetch notifications error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false)
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [isOpen])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const readAt = new Date()
+    const ids = 'ids' in body ? body.ids : null
+    setNotifications((prev) =>
+      prev.map((n) => (!n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n))
+    )
+    setUnreadCount((prev) => (ids ? Math.max(0, prev - ids.length) : 0))
+
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to mark notifications read')
+      }
+    } catch (error) {
+      console.error('Mark notifications read error:', error)
+      fetchNotifications()
+    }
+  }
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead({ ids: [notification.id] })
+    }
+    setIsOpen(false)
+  }
+
+  const toggleOpen = () => {
+    if (!isOpen) fetchNotifications()
+    setIsOpen(!isOpen)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggleOpen}
+        className="relative p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-medium">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-xl border border-gray-200 shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead({ all: true })}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="p-4">
+              <div className="h-12 bg-gray-100 rounded-lg animate-pulse" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => {
+                const content = (
+                  <span className="flex items-start gap-2">
+                    {!notification.readAt && (
+                      <span className="mt-1.5 w-2 h-2 flex-shrink-0 rounded-full bg-blue-600" />
+                    )}
+                    <span className="flex-1 min-w-0">
+                      <span
+                        className={`block text-sm ${notification.readAt ? 'text-gray-700' : 'font-medium text-gray-900'}`}
+                      >
+                        {notification.title}
+                      </span>
+                      {notification.body && (
+                        <span className="block text-xs text-gray-500 line-clamp-2">
+                          {notification.body}
+                        </span>
+                      )}
+                      <span className="block text-xs text-gray-400 mt-0.5">
+                        {formatAge(notification.createdAt)}
+                      </span>
+                    </span>
+                  </span>
+                )
+
+                return (
+                  <li key={notification.id}>
+                    {notification.url ? (
+                      <Link
+                        href={notification.url}
+                        onClick={() => handleOpen(notification)}
+                        className="block px-4 py-3 hover:bg-gray-50 transition"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(notification)}
+                        className="block w-full text-left px-4 py-3 hover:bg-gray-50 transition"
+                      >
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
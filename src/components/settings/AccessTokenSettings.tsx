@@ -0,0 +1,282 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { PersonalAccessToken, TokenScope } from '@/types'
+import { TOKEN_SCOPES, TOKEN_SCOPE_LABELS } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+]
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : 'Never'
+}
+
+export function AccessTokenSettings() {
+  const { showToast } = useToast()
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<TokenScope[]>(['goals:read', 'journals:read'])
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90)
+  const [creating, setCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tokens')
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load access tokens')
+      }
+
+      setTokens(result.data)
+    } catch (error) {
+      console.error('Fetch tokens error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to load access tokens', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [showToast])
+
+  useEffect(() => {
+    fetchTokens()
+  }, [fetchTokens])
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    )
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to create access token')
+      }
+
+      setNewSecret(result.data.secret)
+      setTokens((prev) => [result.data.token, ...prev])
+      setName('')
+    } catch (error) {
+      console.error('Create token error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to create access token', 'error')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    setRevokingId(token.id)
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to revoke access token')
+      }
+
+      setTokens((prev) => prev.filter((t) => t.id !== token.id))
+      showToast(`Revoked "${token.name}"`, 'success')
+    } catch (error) {
+      console.error('Revoke token error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to revoke access token', 'error')
+    } finally {
+      setRevokingId(null)
+      setConfirmingId(null)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newSecret) return
+    try {
+      await navigator.clipboard.writeText(newSecret)
+      showToast('Token copied to clipboard', 'success')
+    } catch {
+      showToast('Could not copy; select the token and copy it manually', 'error')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Personal access tokens</h2>
+        <p className="text-sm text-gray-500">
+          Let scripts and integrations call the API as you. Send the token as{' '}
+          <code className="px-1 bg-gray-100 rounded">Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+      </div>
+
+      {newSecret && (
+        <div className="p-4 rounded-lg border border-green-200 bg-green-50 space-y-2">
+          <p className="text-sm font-medium text-green-800">
+            Copy your new token now. It will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newSecret}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 font-mono text-sm border border-green-300 rounded-lg bg-white text-gray-900"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium"
+            >
+              Copy
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewSecret(null)}
+            className="text-sm text-green-700 hover:text-green-800"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div>
+          <label htmlFor="tokenName" className="block text-sm font-medium text-gray-700 mb-1">
+            Token name
+          </label>
+          <input
+            id="tokenName"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="e.g. Weekly backup script"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          />
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Scopes</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="font-mono text-xs text-gray-900">{scope}</span>
+                  <span className="block text-xs text-gray-500">{TOKEN_SCOPE_LABELS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div>
+          <label htmlFor="tokenExpiry" className="block text-sm font-medium text-gray-700 mb-1">
+            Expires after
+          </label>
+          <select
+            id="tokenExpiry"
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+          >
+            {creating ? 'Creating...' : 'Create token'}
+          </button>
+        </div>
+      </form>
+
+      <div className="border-t border-gray-200 pt-4">
+        {loading ? (
+          <div className="h-16 bg-gray-100 rounded-lg animate-pulse" />
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">No active tokens.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tokens.map((token) => (
+              <li key={token.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{token.name}</p>
+                  <p className="text-xs text-gray-500">
+                    <span className="font-mono">{token.tokenPrefix}...</span>
+                    {' · '}
+                    {token.scopes.join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Last used {token.lastUsedAt ? formatDate(token.lastUsedAt) : 'never'}
+                    {' · '}
+                    Expires {formatDate(token.expiresAt).toLowerCase()}
+                  </p>
+                </div>
+                {confirmingId === token.id ? (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingId(null)}
+                      disabled={revokingId === token.id}
+                      className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(token)}
+                      disabled={revokingId === token.id}
+                      className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm disabled:opacity-50"
+                    >
+                      {revokingId === token.id ? 'Revoking...' : 'Confirm revoke'}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingId(token.id)}
+                    className="px-3 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition text-sm"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
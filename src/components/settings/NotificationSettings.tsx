@@ -0,0 +1,369 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { NotificationChannel, NotificationPreferences, ReminderRule } from '@/types'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  REMINDER_RULES,
+  REMINDER_RULE_LABELS,
+} from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+
+type PushState = 'unsupported' | 'unconfigured' | 'denied' | 'off' | 'on'
+
+function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+  const raw = atob(base64)
+  const buffer = new ArrayBuffer(raw.length)
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i)
+  }
+  return buffer
+}
+
+async function getExistingSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration('/')
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+export function NotificationSettings() {
+  const { showToast } = useToast()
+  const [saved, setSaved] = useState<NotificationPreferences | null>(null)
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [rules, setRules] = useState<ReminderRule[]>([])
+  const [reminderTime, setReminderTime] = useState('21:00')
+  const [quietHours, setQuietHours] = useState(false)
+  const [quietHoursStart, setQuietHoursStart] = useState('22:00')
+  const [quietHoursEnd, setQuietHoursEnd] = useState('07:00')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [pushState, setPushState] = useState<PushState>('off')
+  const [pushBusy, setPushBusy] = useState(false)
+
+  const applyPreferences = (preferences: NotificationPreferences) => {
+    setSaved(preferences)
+    setChannels(preferences.channels)
+    setRules(preferences.rules)
+    setReminderTime(preferences.reminderTime)
+    setQuietHours(preferences.quietHoursStart !== null)
+    if (preferences.quietHoursStart && preferences.quietHoursEnd) {
+      setQuietHoursStart(preferences.quietHoursStart)
+      setQuietHoursEnd(preferences.quietHoursEnd)
+    }
+  }
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences')
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Failed to load notification settings')
+        }
+
+        applyPreferences(result.data)
+      } catch (error) {
+        console.error('Fetch notification preferences error:', error)
+        showToast(
+          error instanceof Error ? error.message : 'Failed to load notification settings',
+          'error'
+        )
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreferences()
+  }, [showToast])
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      setPushState('unsupported')
+      return
+    }
+    if (!VAPID_PUBLIC_KEY) {
+      setPushState('unconfigured')
+      return
+    }
+    if (Notification.permission === 'denied') {
+      setPushState('denied')
+      return
+    }
+
+    getExistingSubscription()
+      .then((subscription) => setPushState(subscription ? 'on' : 'off'))
+      .catch(() => setPushState('off'))
+  }, [])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channels,
+          rules,
+          reminderTime,
+          quietHoursStart: quietHours ? quietHoursStart : null,
+          quietHoursEnd: quietHours ? quietHoursEnd : null,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to save notification settings')
+      }
+
+      applyPreferences(result.data)
+      showToast('Notification settings saved', 'success')
+    } catch (error) {
+      console.error('Save notification preferences error:', error)
+      showToast(
+        error instanceof Error ? error.message : 'Failed to save notification settings',
+        'error'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEnablePush = async () => {
+    if (!VAPID_PUBLIC_KEY) return
+    setPushBusy(true)
+
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        setPushState(permission === 'denied' ? 'denied' : 'off')
+        return
+      }
+
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      await navigator.serviceWorker.ready
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: base64UrlToBuffer(VAPID_PUBLIC_KEY),
+        }))
+
+      const response = await fetch('/api/notifications/push-subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...subscription.toJSON(), userAgent: navigator.userAgent }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        await subscription.unsubscribe()
+        throw new Error(result.error?.message || 'Failed to enable push notifications')
+      }
+
+      setPushState('on')
+      showToast('Push notifications enabled on this device', 'success')
+    } catch (error) {
+      console.error('Enable push error:', error)
+      showToast(
+        error instanceof Error ? error.message : 'Failed to enable push notifications',
+        'error'
+      )
+    } finally {
+      setPushBusy(false)
+    }
+  }
+
+  const handleDisablePush = async () => {
+    setPushBusy(true)
+
+    try {
+      const subscription = await getExistingSubscription()
+      if (subscription) {
+        await fetch('/api/notifications/push-subscriptions', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        })
+        await subscription.unsubscribe()
+      }
+
+      setPushState('off')
+      showToast('Push notifications disabled on this device', 'success')
+    } catch (error) {
+      console.error('Disable push error:', error)
+      showToast(
+        error instanceof Error ? error.message : 'Failed to disable push notifications',
+        'error'
+      )
+    } finally {
+      setPushBusy(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="h-48 bg-white rounded-xl border border-gray-200 animate-pulse" />
+  }
+
+  const isDirty =
+    saved !== null &&
+    (saved.channels.slice().sort().join() !== channels.slice().sort().join() ||
+      saved.rules.slice().sort().join() !== rules.slice().sort().join() ||
+      saved.reminderTime !== reminderTime ||
+      saved.quietHoursStart !== (quietHours ? quietHoursStart : null) ||
+      saved.quietHoursEnd !== (quietHours ? quietHoursEnd : null))
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="bg-white rounded-xl border border-gray-200 p-6 space-y-4"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Reminders</h2>
+        <p className="text-sm text-gray-500">
+          Nudges to keep your journaling streak going and your goals moving. Times are in your
+          profile&apos;s timezone.
+        </p>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">Remind me when</legend>
+        <div className="space-y-2">
+          {REMINDER_RULES.map((rule) => (
+            <label key={rule} className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={rules.includes(rule)}
+                onChange={() => setRules((prev) => toggle(prev, rule))}
+                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{REMINDER_RULE_LABELS[rule]}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="reminderTime" className="block text-sm font-medium text-gray-700 mb-1">
+          Reminder time
+        </label>
+        <input
+          id="reminderTime"
+          type="time"
+          value={reminderTime}
+          onChange={(e) => setReminderTime(e.target.value)}
+          required
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          When to check for a missing journal entry and send deadline and stale goal nudges.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={quietHours}
+            onChange={(e) => setQuietHours(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Quiet hours
+        </label>
+        {quietHours && (
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="time"
+              aria-label="Quiet hours start"
+              value={quietHoursStart}
+              onChange={(e) => setQuietHoursStart(e.target.value)}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+            />
+            <span>to</span>
+            <input
+              type="time"
+              aria-label="Quiet hours end"
+              value={quietHoursEnd}
+              onChange={(e) => setQuietHoursEnd(e.target.value)}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-500">Reminders due during quiet hours wait until they end.</p>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">Send reminders</legend>
+        <div className="space-y-2">
+          {NOTIFICATION_CHANNELS.map((channel) => (
+            <label key={channel} className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={channels.includes(channel)}
+                onChange={() => setChannels((prev) => toggle(prev, channel))}
+                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{NOTIFICATION_CHANNEL_LABELS[channel]}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="p-4 rounded-lg border border-gray-200 bg-gray-50 flex flex-col sm:flex-row sm:items-center gap-2">
+        <p className="flex-1 text-sm text-gray-600">
+          {pushState === 'on' && 'Push notifications are enabled on this device.'}
+          {pushState === 'off' && 'Push notifications are not enabled on this device.'}
+          {pushState === 'denied' &&
+            'Notifications are blocked for this site. Allow them in your browser settings.'}
+          {pushState === 'unsupported' && 'This browser does not support push notifications.'}
+          {pushState === 'unconfigured' && 'Push notifications are not configured on this server.'}
+        </p>
+        {pushState === 'off' && (
+          <button
+            type="button"
+            onClick={handleEnablePush}
+            disabled={pushBusy}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition text-sm disabled:opacity-50"
+          >
+            {pushBusy ? 'Enabling...' : 'Enable on this device'}
+          </button>
+        )}
+        {pushState === 'on' && (
+          <button
+            type="button"
+            onClick={handleDisablePush}
+            disabled={pushBusy}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition text-sm disabled:opacity-50"
+          >
+            {pushBusy ? 'Disabling...' : 'Disable on this device'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving || !isDirty}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { Profile } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+function getSupportedTimezones(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  // Some runtimes omit UTC or the stored zone from the list
+  return Array.from(new Set(['UTC', current, ...zones])).filter(Boolean)
+}
+
+function formatNowIn(timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      timeZone: timezone,
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date())
+  } catch {
+    return ''
+  }
+}
+
+export function ProfileSettings() {
+  const { showToast } = useToast()
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [fullName, setFullName] = useState('')
+  const [timezone, setTimezone] = useState('UTC')
+  const [emailDigest, setEmailDigest] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const detectedTimezone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, [])
+  const timezones = useMemo(() => getSupportedTimezones(timezone), [timezone])
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch('/api/profile')
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Failed to load profile')
+        }
+
+        setProfile(result.data)
+        setFullName(result.data.fullName ?? '')
+        setTimezone(result.data.timezone)
+        setEmailDigest(result.data.emailDigest)
+      } catch (error) {
+        console.error('Fetch profile error:', error)
+        showToast(error instanceof Error ? error.message : 'Failed to load profile', 'error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProfile()
+  }, [showToast])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fullName: fullName.trim() || null, timezone, emailDigest }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to save profile')
+      }
+
+      setProfile(result.data)
+      showToast('Profile saved', 'success')
+    } catch (error) {
+      console.error('Save profile error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to save profile', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="h-48 bg-white rounded-xl border border-gray-200 animate-pulse" />
+  }
+
+  const isDirty =
+    profile !== null &&
+    ((profile.fullName ?? '') !== fullName.trim() ||
+      profile.timezone !== timezone ||
+      profile.emailDigest !== emailDigest)
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="bg-white rounded-xl border border-gray-200 p-6 space-y-4"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Profile</h2>
+        <p className="text-sm text-gray-500">{profile?.email}</p>
+      </div>
+
+      <div>
+        <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-1">
+          Name
+        </label>
+        <input
+          id="fullName"
+          type="text"
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          maxLength={100}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+          Timezone
+        </label>
+        <select
+          id="timezone"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+        >
+          {timezones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, ' ')}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Decides when your day starts for streaks, habit check-ins and dashboard ranges.
+          {' '}It is now {formatNowIn(timezone)} there.
+        </p>
+        {detectedTimezone && detectedTimezone !== timezone && (
+          <button
+            type="button"
+            onClick={() => setTimezone(detectedTimezone)}
+            className="mt-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            Use this device&apos;s timezone ({detectedTimezone.replace(/_/g, ' ')})
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={emailDigest}
+          onChange={(e) => setEmailDigest(e.target.checked)}
+          className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-700">Email insight digests</span>
+          <span className="block text-xs text-gray-500">
+            A summary of your achievements and areas for improvement after each week and month.
+          </span>
+        </span>
+      </label>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving || !isDirty}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '@/types'
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_EVENT_LABELS } from '@/types'
+import { useToast } from '@/hooks/useToast'
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export function WebhookSettings() {
+  const { showToast } = useToast()
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEventType[]>(['goal.completed', 'journal.created'])
+  const [creating, setCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false)
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks')
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load webhooks')
+      }
+
+      setEndpoints(result.data)
+    } catch (error) {
+      console.error('Fetch webhooks error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to load webhooks', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [showToast])
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [fetchEndpoints])
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    )
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim(), description: description.trim() || null, events }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        const urlError = result.error?.details?.url?.[0]
+        throw new Error(urlError || result.error?.message || 'Failed to add webhook')
+      }
+
+      setNewSecret(result.data.secret)
+      setEndpoints((prev) => [result.data.endpoint, ...prev])
+      setUrl('')
+      setDescription('')
+    } catch (error) {
+      console.error('Create webhook error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to add webhook', 'error')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    setUpdatingId(endpoint.id)
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !endpoint.active }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to update webhook')
+      }
+
+      setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? result.data : e)))
+    } catch (error) {
+      console.error('Update webhook error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to update webhook', 'error')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    setUpdatingId(endpoint.id)
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to delete webhook')
+      }
+
+      setEndpoints((prev) => prev.filter((e) => e.id !== endpoint.id))
+      if (expandedId === endpoint.id) setExpandedId(null)
+      showToast('Webhook deleted', 'success')
+    } catch (error) {
+      console.error('Delete webhook error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to delete webhook', 'error')
+    } finally {
+      setUpdatingId(null)
+      setConfirmingId(null)
+    }
+  }
+
+  const toggleDeliveries = async (endpoint: WebhookEndpoint) => {
+    if (expandedId === endpoint.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(endpoint.id)
+    setDeliveries([])
+    setLoadingDeliveries(true)
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/deliveries?limit=20`)
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to load deliveries')
+      }
+
+      setDeliveries(result.data)
+    } catch (error) {
+      console.error('Fetch deliveries error:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to load deliveries', 'error')
+    } finally {
+      setLoadingDeliveries(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newSecret) return
+    try {
+      await navigator.clipboard.writeText(newSecret)
+      showToast('Secret copied to clipboard', 'success')
+    } catch {
+      showToast('Could not copy; select the secret and copy it manually', 'error')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Webhooks</h2>
+        <p className="text-sm text-gray-500">
+          Get a signed POST request when something happens. Verify the{' '}
+          <code className="px-1 bg-gray-100 rounded">X-Momentum-Signature</code> header with the
+          endpoint&apos;s secret. Failed deliveries are retried for about 15 hours.
+        </p>
+      </div>
+
+      {newSecret && (
+        <div className="p-4 rounded-lg border border-green-200 bg-green-50 space-y-2">
+          <p className="text-sm font-medium text-green-800">
+            Copy the signing secret now. It will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newSecret}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 font-mono text-sm border border-green-300 rounded-lg bg-white text-gray-900"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium"
+            >
+              Copy
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewSecret(null)}
+            className="text-sm text-green-700 hover:text-green-800"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div>
+          <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            Endpoint URL
+          </label>
+          <input
+            id="webhookUrl"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/momentum"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="webhookDescription" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <input
+            id="webhookDescription"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={200}
+            placeholder="e.g. Slack bot"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+          />
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Events</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {WEBHOOK_EVENT_TYPES.map((event) => (
+              <label key={event} className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="font-mono text-xs text-gray-900">{event}</span>
+                  <span className="block text-xs text-gray-500">{WEBHOOK_EVENT_LABELS[event]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={creating || !url.trim() || events.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+          >
+            {creating ? 'Adding...' : 'Add webhook'}
+          </button>
+        </div>
+      </form>
+
+      <div className="border-t border-gray-200 pt-4">
+        {loading ? (
+          <div className="h-16 bg-gray-100 rounded-lg animate-pulse" />
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500">No webhooks.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {endpoints.map((endpoint) => (
+              <li key={endpoint.id} className="py-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {endpoint.description || endpoint.url}
+                      {!endpoint.active && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">(paused)</span>
+                      )}
+                    </p>
+                    {endpoint.description && (
+                      <p className="text-xs text-gray-500 font-mono truncate">{endpoint.url}</p>
+                    )}
+                    <p className="text-xs text-gray-400">{endpoint.events.join(', ')}</p>
+                  </div>
+                  {confirmingId === endpoint.id ? (
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingId(null)}
+                        disabled={updatingId === endpoint.id}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(endpoint)}
+                        disabled={updatingId === endpoint.id}
+                        className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm disabled:opacity-50"
+                      >
+                        {updatingId === endpoint.id ? 'Deleting...' : 'Confirm delete'}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => toggleDeliveries(endpoint)}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm"
+                      >
+                        {expandedId === endpoint.id ? 'Hide log' : 'Deliveries'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleActive(endpoint)}
+                        disabled={updatingId === endpoint.id}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm disabled:opacity-50"
+                      >
+                        {endpoint.active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingId(endpoint.id)}
+                        className="px-3 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition text-sm"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {expandedId === endpoint.id && (
+                  <div className="rounded-lg bg-gray-50 p-3">
+                    {loadingDeliveries ? (
+                      <div className="h-8 bg-gray-100 rounded animate-pulse" />
+                    ) : deliveries.length === 0 ? (
+                      <p className="text-xs text-gray-500">No deliveries yet.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {deliveries.map((delivery) => (
+                          <li key={delivery.id} className="flex items-center gap-2 text-xs">
+                            <span
+                              className={`px-1.5 py-0.5 rounded font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}
+                            >
+                              {delivery.status}
+                            </span>
+                            <span className="font-mono text-gray-900">{delivery.eventType}</span>
+                            <span className="text-gray-500">
+                              {new Date(delivery.createdAt).toLocaleString()}
+                            </span>
+                            <span className="text-gray-400 truncate">
+                              {delivery.attemptCount} attempt{delivery.attemptCount === 1 ? '' : 's'}
+                              {delivery.error ? ` · ${delivery.error}` : ''}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+'use client'
+
+interface UpdateConflictBannerProps {
+  noun: string // What was changed, e.g. "goal"
+  updatedAt: Date | string
+  onKeepMine: () => void
+  onLoadLatest: () => void
+}
+
+// Shown when a save is refused because the record was changed after the form was opened
+export function UpdateConflictBanner({
+  noun,
+  updatedAt,
+  onKeepMine,
+  onLoadLatest,
+}: UpdateConflictBannerProps) {
+  return (
+    <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm" role="alert">
+      <p className="text-amber-800">
+        This {noun} was changed elsewhere at{' '}
+        {new Date(updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })},
+        after you started editing. Your changes have not been saved.
+      </p>
+      <div className="flex gap-3 mt-2">
+        <button
+          type="button"
+          onClick={onKeepMine}
+          className="text-amber-900 font-medium hover:underline"
+        >
+          Save my changes anyway
+        </button>
+        <button
+          type="button"
+          onClick={onLoadLatest}
+          className="text-amber-900 font-medium hover:underline"
+        >
+          Load the latest version
+        </button>
+      </div>
+    </div>
+  )
+}
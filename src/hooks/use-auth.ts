@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback, useRef } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { User, Session } from '@supabase/supabase-js'
 import { useRouter } from 'next/navigation'
+import { clearOfflineData } from '@/lib/offline/sync-queue'
 
 // Refresh session if it expires within 7 days
 const REFRESH_THRESHOLD_MS = 7 * 24 * 60 * 60 * 1000
@@ -120,6 +121,7 @@ export function useAuth() {
 
   const signOut = async () => {
     await supabase.auth.signOut()
+    clearOfflineData()
     setUser(null)
     setSession(null)
     router.push('/login')
@@ -0,0 +1,67 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { JournalAttachment } from '@/types'
+
+/**
+ * A journal entry's attachments, fetched while enabled (e.g. when a card is expanded)
+ * attachments is null until the first fetch finishes; upload and remove update it in place
+ */
+export function useJournalAttachments(entryId: string | null, enabled = true) {
+  const [attachments, setAttachments] = useState<JournalAttachment[] | null>(null)
+
+  useEffect(() => {
+    setAttachments(null)
+    if (!entryId || !enabled) return
+
+    const abortController = new AbortController()
+
+    fetch(`/api/journals/${entryId}/attachments`, { signal: abortController.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        setAttachments(result.success && result.data ? result.data : [])
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to fetch attachments:', err)
+          setAttachments([])
+        }
+      })
+
+    return () => abortController.abort()
+  }, [entryId, enabled])
+
+  const upload = useCallback(
+    async (file: File): Promise<JournalAttachment> => {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`/api/journals/${entryId}/attachments`, {
+        method: 'POST',
+        body: formData,
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error?.message || `Failed to attach ${file.name}`)
+      }
+
+      setAttachments((current) => [...(current ?? []), result.data])
+      return result.data
+    },
+    [entryId]
+  )
+
+  const remove = useCallback(async (attachment: JournalAttachment) => {
+    const response = await fetch(`/api/attachments/${attachment.id}`, { method: 'DELETE' })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to remove attachment')
+    }
+
+    setAttachments((current) => (current ?? []).filter((a) => a.id !== attachment.id))
+  }, [])
+
+  return { attachments, upload, remove }
+}
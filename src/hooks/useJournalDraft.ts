@@ -0,0 +1,211 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { JournalDraft, Mood } from '@/types'
+
+const AUTOSAVE_DELAY_MS = 3000
+
+export interface JournalDraftValues {
+  title: string
+  content: string
+  entryDate: string
+  mood: Mood | null
+  tags: string[]
+  goalIds: string[]
+}
+
+export type JournalDraftStatus = 'idle' | 'saving' | 'saved' | 'error' | 'conflict'
+
+export function draftToValues(draft: JournalDraft): JournalDraftValues {
+  return {
+    title: draft.title ?? '',
+    content: draft.content,
+    entryDate: draft.entryDate ?? '',
+    mood: draft.mood,
+    tags: draft.tags,
+    goalIds: draft.goalIds,
+  }
+}
+
+function valuesKey(values: JournalDraftValues): string {
+  return JSON.stringify([
+    values.title,
+    values.content,
+    values.entryDate,
+    values.mood,
+    values.tags,
+    values.goalIds,
+  ])
+}
+
+interface UseJournalDraftOptions {
+  enabled: boolean // Editor open and initial content loaded
+  journalEntryId?: string | null // Entry being edited; null for a new entry
+  values: JournalDraftValues // Current editor content
+}
+
+/**
+ * Autosaves editor content to /api/journals/drafts a few seconds after it stops changing,
+ * and once more when the editor closes
+ * A save answered with DRAFT_CONFLICT (the draft was saved on another device since it was
+ * loaded) pauses autosave until the conflict is resolved with keepMine or takeTheirs.
+ */
+export function useJournalDraft({ enabled, journalEntryId = null, values }: UseJournalDraftOptions) {
+  const [draft, setDraft] = useState<JournalDraft | null>(null)
+  const [status, setStatus] = useState<JournalDraftStatus>('idle')
+  const [conflict, setConflict] = useState<JournalDraft | null>(null)
+
+  const draftRef = useRef<JournalDraft | null>(null)
+  const savedKeyRef = useRef<string | null>(null) // Content already on the server (or unchanged)
+  const pausedRef = useRef(false)
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const valuesRef = useRef(values)
+  valuesRef.current = values
+
+  const key = valuesKey(values)
+
+  const setCurrentDraft = useCallback((next: JournalDraft | null) => {
+    draftRef.current = next
+    setDraft(next)
+  }, [])
+
+  const save = useCallback(async (current: JournalDraftValues): Promise<string | null> => {
+    const currentKey = valuesKey(current)
+    const existing = draftRef.current
+
+    if (pausedRef.current || currentKey === savedKeyRef.current) return existing?.id ?? null
+    if (!existing && !current.title.trim() && !current.content.trim()) return null
+
+    setStatus('saving')
+    try {
+      const response = await fetch(
+        existing ? `/api/journals/drafts/${existing.id}` : '/api/journals/drafts',
+        {
+          method: existing ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title: current.title || null,
+            content: current.content,
+            entryDate: current.entryDate || null,
+            mood: current.mood,
+            tags: current.tags,
+            goalIds: current.goalIds,
+            device: 'web',
+            ...(existing ? { baseVersion: existing.version } : { journalEntryId }),
+          }),
+        }
+      )
+      const result = await response.json()
+
+      if (result.error?.code === 'DRAFT_CONFLICT') {
+        pausedRef.current = true
+        setConflict(result.data)
+        setStatus('conflict')
+        return existing?.id ?? null
+      }
+
+      if (existing && response.status === 404) {
+        // Discarded or saved as an entry elsewhere: start a new draft
+        setCurrentDraft(null)
+        return save(current)
+      }
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to save draft')
+      }
+
+      setCurrentDraft(result.data)
+      savedKeyRef.current = currentKey
+      setStatus('saved')
+      return result.data.id
+    } catch (error) {
+      console.error('Save journal draft error:', error)
+      setStatus('error')
+      return existing?.id ?? null
+    }
+  }, [journalEntryId, setCurrentDraft])
+
+  // Saves run one at a time so each PATCH carries the version the previous one returned. The
+  // content is read now: by the time a queued save runs, a closed editor may have been reset.
+  const flush = useCallback((): Promise<string | null> => {
+    const current = valuesRef.current
+    const run = () => save(current)
+    const next = queueRef.current.then(run, run)
+    queueRef.current = next
+    return next
+  }, [save])
+
+  useEffect(() => {
+    if (!enabled || key === savedKeyRef.current) return
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [enabled, key, flush])
+
+  useEffect(() => {
+    if (!enabled) return
+    return () => {
+      flush()
+    }
+  }, [enabled, flush])
+
+  /**
+   * Start from a draft loaded from the server, or from none
+   * baseline is the content the editor starts with when it is not the draft's, e.g. the entry
+   * being edited; autosave begins once the content differs from it
+   */
+  const resume = useCallback(
+    (next: JournalDraft | null, baseline?: JournalDraftValues) => {
+      const saved = baseline ?? (next ? draftToValues(next) : null)
+      setCurrentDraft(next)
+      savedKeyRef.current = saved ? valuesKey(saved) : null
+      pausedRef.current = false
+      setConflict(null)
+      setStatus(next ? 'saved' : 'idle')
+    },
+    [setCurrentDraft]
+  )
+
+  // Overwrite the other device's version with the editor content
+  const keepMine = useCallback(() => {
+    if (!conflict) return
+    setCurrentDraft(conflict)
+    savedKeyRef.current = null
+    pausedRef.current = false
+    setConflict(null)
+    flush()
+  }, [conflict, flush, setCurrentDraft])
+
+  // Switch to the other device's version; returns it for the editor to load
+  const takeTheirs = useCallback((): JournalDraft | null => {
+    if (!conflict) return null
+    resume(conflict)
+    return conflict
+  }, [conflict, resume])
+
+  const discard = useCallback(
+    async (baseline?: JournalDraftValues) => {
+      pausedRef.current = true
+      await queueRef.current.catch(() => {})
+      const existing = draftRef.current
+      resume(null, baseline)
+
+      if (existing) {
+        try {
+          await fetch(`/api/journals/drafts/${existing.id}`, { method: 'DELETE' })
+        } catch (error) {
+          console.error('Discard journal draft error:', error)
+        }
+      }
+    },
+    [resume]
+  )
+
+  // The editor content was saved as an entry, which deletes the draft; stop autosaving it
+  const finish = useCallback(() => {
+    pausedRef.current = true
+    setCurrentDraft(null)
+    setStatus('idle')
+  }, [setCurrentDraft])
+
+  return { draft, status, conflict, flush, resume, keepMine, takeTheirs, discard, finish }
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  getQueuedRequests,
+  subscribeToSyncMessages,
+  type QueuedRequest,
+} from '@/lib/offline/sync-queue'
+
+/**
+ * Requests made offline that the service worker has not sent yet
+ * onSynced runs after queued requests reach the server, e.g. to refetch a list
+ */
+export function useSyncQueue(onSynced?: () => void) {
+  const [queued, setQueued] = useState<QueuedRequest[]>([])
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const refresh = useCallback(async () => {
+    try {
+      setQueued(await getQueuedRequests())
+    } catch (error) {
+      console.error('Read sync queue error:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+
+    return subscribeToSyncMessages((message) => {
+      refresh()
+      if (message.type === 'sync-complete' && message.synced > 0) {
+        onSyncedRef.current?.()
+      }
+    })
+  }, [refresh])
+
+  return { queued, refresh }
+}
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getContextForJournalAnalysis,
+  getContextForWeeklyInsights,
+  saveAnalysis,
+  getCachedWeeklyInsight,
+  getCachedMonthlyInsight,
+} from '@/lib/db/ai';
+import { parseLocalDate, toLocalDateStr } from '@/lib/db/dashboard';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { analyzeJournalEntry, ClaudeAPIError } from '@/lib/claude/client';
+import { generateInsights } from '@/lib/insights';
+import { notifyUser } from '@/lib/notifications';
+import { getTodayInTimezone, startOfDayInTimezone } from '@/lib/timezone';
+import { ApiRouteError } from './errors';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * Start of the current period in the user's timezone, as an ISO timestamp
+ * Week: since Sunday; month: since the 1st
+ */
+function getPeriodStart(timeline: 'week' | 'month', timezone: string): string {
+  const start = parseLocalDate(getTodayInTimezone(timezone));
+  if (timeline === 'week') {
+    start.setDate(start.getDate() - start.getDay());
+  } else {
+    start.setDate(1);
+  }
+  return startOfDayInTimezone(toLocalDateStr(start), timezone).toISOString();
+}
+
+/**
+ * Run an AI call, adding a notification to the inbox when the AI service fails
+ * The error is rethrown so the route still answers with it
+ */
+export async function notifyOnAnalysisFailure<T>(
+  supabase: SupabaseClientAny,
+  userId: string,
+  failure: { title: string; url: string },
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ClaudeAPIError) {
+      await notifyUser(supabase, userId, {
+        type: 'analysis_failed',
+        title: failure.title,
+        body: error.isRateLimited
+          ? 'The AI service is busy. Try again in a moment.'
+          : 'The AI service returned an error. Try again later.',
+        url: failure.url,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Analyze a journal entry with Claude and save the analysis
+ * Throws ApiRouteError (404) when the entry does not exist
+ */
+export async function analyzeJournal(
+  supabase: SupabaseClientAny,
+  userId: string,
+  journalId: string
+) {
+  const context = await getContextForJournalAnalysis(supabase, journalId, userId);
+
+  if (!context) {
+    throw new ApiRouteError('Journal entry not found', 404);
+  }
+
+  const result = await notifyOnAnalysisFailure(
+    supabase,
+    userId,
+    {
+      title: `Analysis of your ${context.journal.entryDate} journal entry failed`,
+      url: '/journal',
+    },
+    () => analyzeJournalEntry(context.journal.content, context.linkedGoals, context.journal.mood)
+  );
+
+  const savedAnalysis = await saveAnalysis(supabase, userId, 'on-demand', {
+    journalEntriesAnalyzed: [journalId],
+    goalsAnalyzed: context.linkedGoals.map(g => g.id),
+    insights: result.insights,
+    recommendations: result.recommendations,
+    tokensUsed: result.tokensUsed,
+  });
+
+  return {
+    analysis: savedAnalysis,
+    journal: {
+      id: context.journal.id,
+      title: context.journal.title,
+      entryDate: context.journal.entryDate,
+      mood: context.journal.mood,
+    },
+    linkedGoalsCount: context.linkedGoals.length,
+  };
+}
+
+/**
+ * Weekly or monthly insights for the current period
+ * Returns the insight already generated this period unless refresh is set
+ */
+export async function getOrGenerateInsights(
+  supabase: SupabaseClientAny,
+  userId: string,
+  timeline: 'week' | 'month',
+  refresh: boolean
+) {
+  const timezone = await getUserTimezone(supabase, userId);
+  const periodStart = getPeriodStart(timeline, timezone);
+
+  if (!refresh) {
+    const cachedInsight = timeline === 'week'
+      ? await getCachedWeeklyInsight(supabase, userId, periodStart)
+      : await getCachedMonthlyInsight(supabase, userId, periodStart);
+
+    if (cachedInsight) {
+      return { analysis: cachedInsight, cached: true, timeline, periodStart };
+    }
+  }
+
+  const context = await getContextForWeeklyInsights(supabase, userId, timeline, timezone);
+  const { analysis: savedAnalysis, result } = await notifyOnAnalysisFailure(
+    supabase,
+    userId,
+    { title: `Your ${timeline === 'week' ? 'weekly' : 'monthly'} insights failed`, url: '/insights' },
+    () => generateInsights(supabase, userId, timeline, context)
+  );
+
+  return {
+    analysis: savedAnalysis,
+    summary: result.summary,
+    keyAchievements: result.keyAchievements,
+    areasForImprovement: result.areasForImprovement,
+    goalProgressUpdates: result.goalProgressUpdates,
+    stats: context.stats,
+    cached: false,
+    timeline,
+    periodStart,
+  };
+}
@@ -0,0 +1,468 @@
+/**
+ * /api/v1 contract test
+ * Calls every route in src/app/api/v1 with a request built from its endpoint's schemas and
+ * checks the response twice: against the zod response schema and against the generated
+ * /api/v1/openapi.json. Data access is mocked with typed fixtures, so a handler, a domain type
+ * or a schema drifting from the others fails here rather than in a client.
+ */
+
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { NextRequest, type NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GoalRow, JournalEntryRow, AIAnalysisRow } from '@/types/database.types';
+import {
+  mapAIAnalysisFromRow,
+  mapGoalFromRow,
+  mapJournalEntryFromRow,
+  type JournalEntryWithGoals,
+} from '@/types';
+import { analyzeJournal, getOrGenerateInsights } from '@/lib/api/ai';
+import { prepareGoalCreate, prepareGoalUpdate } from '@/lib/api/goals';
+import { createGoal, deleteGoal, getGoalById, getGoals, updateGoal } from '@/lib/db/goals';
+import {
+  createJournalEntryWithGoals,
+  deleteJournalEntry,
+  getJournalEntriesWithGoals,
+  getJournalWithGoals,
+  updateJournalEntryWithGoals,
+} from '@/lib/db/journals';
+import { getUserTimezone } from '@/lib/db/profiles';
+import { searchAll } from '@/lib/db/search';
+import { indexJournalEntries } from '@/lib/embeddings';
+import { API_V1_ENDPOINTS, apiV1, getResponseSchema, type Endpoint } from './contract';
+import { createOpenAPIDocument } from './openapi';
+import { apiErrorResponseSchema } from './schemas';
+
+vi.mock('@/lib/auth', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    success: true,
+    supabase: {},
+    user: { id: '00000000-0000-4000-8000-000000000001' },
+    method: 'cookie',
+    scopes: null,
+    tokenId: null,
+  })),
+}));
+vi.mock('@/lib/api/ai', () => ({ analyzeJournal: vi.fn(), getOrGenerateInsights: vi.fn() }));
+vi.mock('@/lib/api/goals', () => ({ prepareGoalCreate: vi.fn(), prepareGoalUpdate: vi.fn() }));
+vi.mock('@/lib/db/goals', () => ({
+  getGoals: vi.fn(),
+  createGoal: vi.fn(),
+  getGoalById: vi.fn(),
+  updateGoal: vi.fn(),
+  deleteGoal: vi.fn(),
+}));
+vi.mock('@/lib/db/journals', () => ({
+  getJournalEntriesWithGoals: vi.fn(),
+  createJournalEntryWithGoals: vi.fn(),
+  getJournalWithGoals: vi.fn(),
+  updateJournalEntryWithGoals: vi.fn(),
+  deleteJournalEntry: vi.fn(),
+}));
+vi.mock('@/lib/db/profiles', () => ({ getUserTimezone: vi.fn() }));
+vi.mock('@/lib/db/search', () => ({ searchAll: vi.fn() }));
+vi.mock('@/lib/embeddings', () => ({ indexJournalEntries: vi.fn() }));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const GOAL_ID = '00000000-0000-4000-8000-000000000002';
+const HABIT_ID = '00000000-0000-4000-8000-000000000003';
+const JOURNAL_ID = '00000000-0000-4000-8000-000000000004';
+const ANALYSIS_ID = '00000000-0000-4000-8000-000000000005';
+
+const V1_DIR = path.join(process.cwd(), 'src/app/api/v1');
+const HTTP_METHODS = ['GET', 'POST', 'PATCH', 'PUT', 'DELETE'];
+
+type RouteHandler = (
+  request: NextRequest,
+  context: { params: Promise<Record<string, string>> }
+) => Promise<NextResponse>;
+
+// ============================================
+// Fixtures
+// ============================================
+
+const goalRow: GoalRow = {
+  id: GOAL_ID,
+  user_id: USER_ID,
+  title: 'Run a marathon',
+  description: 'Spring race',
+  type: 'long-term',
+  category: 'health',
+  target_date: '2026-04-12',
+  status: 'active',
+  progress_percentage: 40,
+  parent_goal_id: null,
+  progress_mode: 'derived',
+  rollup_weighting: 'equal',
+  recurrence: null,
+  auto_complete: true,
+  rollup_weight: 1,
+  created_at: '2025-10-01T08:00:00.000Z',
+  updated_at: '2025-10-15T08:00:00.000Z',
+  deleted_at: null,
+};
+
+const goal = mapGoalFromRow(goalRow);
+
+const habit = mapGoalFromRow({
+  ...goalRow,
+  id: HABIT_ID,
+  title: 'Stretch',
+  type: 'habit',
+  target_date: null,
+  progress_mode: 'manual',
+  recurrence: { frequency: 'weekdays', weekdays: [1, 3, 5] },
+});
+
+const journalRow: JournalEntryRow = {
+  id: JOURNAL_ID,
+  user_id: USER_ID,
+  title: 'Long run',
+  content: 'Did 18 km today.',
+  entry_date: '2025-10-15',
+  mood: 'great',
+  tags: ['running'],
+  created_at: '2025-10-15T19:00:00.000Z',
+  updated_at: '2025-10-15T19:30:00.000Z',
+  deleted_at: null,
+};
+
+const journal: JournalEntryWithGoals = {
+  ...mapJournalEntryFromRow(journalRow),
+  mentionedGoals: [goal, habit],
+};
+
+const analysisRow: AIAnalysisRow = {
+  id: ANALYSIS_ID,
+  user_id: USER_ID,
+  analysis_type: 'weekly',
+  journal_entries_analyzed: [JOURNAL_ID],
+  goals_analyzed: [GOAL_ID],
+  insights: { patterns: ['Runs on weekends'], sentiment: 'positive', key_themes: ['training'] },
+  recommendations: { suggestions: ['Add a rest day'] },
+  progress_summary: null,
+  tokens_used: 812,
+  created_at: '2025-10-16T07:00:00.000Z',
+};
+
+const analysis = mapAIAnalysisFromRow(analysisRow);
+
+function mockDataAccess() {
+  vi.mocked(getGoals).mockResolvedValue({ goals: [goal, habit], totalCount: 12 });
+  vi.mocked(createGoal).mockResolvedValue(goal);
+  vi.mocked(getGoalById).mockResolvedValue(goal);
+  vi.mocked(prepareGoalCreate).mockImplementation(async (_supabase, _userId, input) => input);
+  vi.mocked(prepareGoalUpdate).mockImplementation(async (_supabase, _id, _userId, input) => input);
+  vi.mocked(updateGoal).mockResolvedValue(goal);
+  vi.mocked(deleteGoal).mockResolvedValue(true);
+
+  vi.mocked(getJournalEntriesWithGoals).mockResolvedValue({ journals: [journal], totalCount: 1 });
+  vi.mocked(createJournalEntryWithGoals).mockResolvedValue(journal);
+  vi.mocked(getJournalWithGoals).mockResolvedValue(journal);
+  vi.mocked(updateJournalEntryWithGoals).mockResolvedValue(journal);
+  vi.mocked(deleteJournalEntry).mockResolvedValue(true);
+  vi.mocked(getUserTimezone).mockResolvedValue('Pacific/Kiritimati');
+  vi.mocked(indexJournalEntries).mockResolvedValue(undefined);
+
+  vi.mocked(searchAll).mockResolvedValue({
+    results: [
+      {
+        kind: 'journal',
+        id: JOURNAL_ID,
+        title: journal.title,
+        titleHighlight: '<mark>Long</mark> run',
+        snippet: 'Did 18 km today.',
+        rank: 0.6,
+        entryDate: journal.entryDate,
+        mood: journal.mood,
+        tags: journal.tags,
+        goalType: null,
+        goalStatus: null,
+        updatedAt: journal.updatedAt,
+      },
+      {
+        kind: 'goal',
+        id: GOAL_ID,
+        title: goal.title,
+        titleHighlight: 'Run a marathon',
+        snippet: 'Spring race',
+        rank: 0.2,
+        entryDate: null,
+        mood: null,
+        tags: [],
+        goalType: goal.type,
+        goalStatus: goal.status,
+        updatedAt: goal.updatedAt,
+      },
+    ],
+    totalCount: 2,
+  });
+
+  vi.mocked(analyzeJournal).mockResolvedValue({
+    analysis: { ...analysis, analysisType: 'on-demand' },
+    journal: { id: journal.id, title: journal.title, entryDate: journal.entryDate, mood: journal.mood },
+    linkedGoalsCount: 2,
+  });
+  vi.mocked(getOrGenerateInsights).mockImplementation(async (_supabase, _userId, timeline, refresh) =>
+    refresh
+      ? {
+          analysis,
+          summary: 'A strong training week.',
+          keyAchievements: [{ title: 'Longest run yet', goal_id: GOAL_ID }],
+          areasForImprovement: [{ area: 'Rest', suggestion: 'Take a day off', priority: 'medium' }],
+          goalProgressUpdates: [
+            {
+              goal_id: GOAL_ID,
+              goal_title: goal.title,
+              previous_progress: 30,
+              current_progress: 40,
+              change: 10,
+            },
+          ],
+          stats: { activeGoals: 2, completedGoals: 0, journalCount: 5, currentStreak: 3 },
+          cached: false,
+          timeline,
+          periodStart: '2025-10-12T10:00:00.000Z',
+        }
+      : { analysis, cached: true, timeline, periodStart: '2025-10-12T10:00:00.000Z' }
+  );
+}
+
+// ============================================
+// Requests
+// ============================================
+
+interface ContractCase {
+  params?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+// One valid request per endpoint; a new endpoint without a case does not compile
+const cases: Record<keyof typeof apiV1, ContractCase> = {
+  listGoals: { query: { status: 'active', parentGoalId: 'null', sortField: 'title', page: '2' } },
+  createGoal: {
+    body: { title: 'Stretch', type: 'habit', recurrence: { frequency: 'weekly', timesPerWeek: 3 } },
+  },
+  getGoal: { params: { id: GOAL_ID } },
+  updateGoal: {
+    params: { id: GOAL_ID },
+    body: { progressPercentage: 55, expectedUpdatedAt: '2025-10-15T08:00:00.000Z' },
+  },
+  deleteGoal: { params: { id: GOAL_ID } },
+  listJournalEntries: { query: { mood: 'great', tags: 'running,races', dateFrom: '2025-10-01' } },
+  createJournalEntry: {
+    body: { content: 'Did 18 km today.', mood: 'great', tags: ['running'], goalIds: [GOAL_ID] },
+  },
+  getJournalEntry: { params: { id: JOURNAL_ID } },
+  updateJournalEntry: { params: { id: JOURNAL_ID }, body: { title: 'Long run', tags: [] } },
+  deleteJournalEntry: { params: { id: JOURNAL_ID } },
+  search: { query: { q: '"long run" km*', type: 'journal', pageSize: '5' } },
+  analyzeJournalEntry: { body: { journalId: JOURNAL_ID } },
+  getInsights: { query: { timeline: 'month' } },
+  generateInsights: { body: { analysisType: 'weekly', refresh: true } },
+};
+
+function buildRequest(endpoint: Endpoint, testCase: ContractCase): NextRequest {
+  const pathname = endpoint.path.replace(/\{(\w+)\}/g, (_, name) => testCase.params?.[name] ?? '');
+  const url = new URL(`http://localhost/api/v1${pathname}`);
+  Object.entries(testCase.query ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  return new NextRequest(url, {
+    method: endpoint.method,
+    ...(testCase.body !== undefined
+      ? { body: JSON.stringify(testCase.body), headers: { 'Content-Type': 'application/json' } }
+      : {}),
+  });
+}
+
+async function loadRoute(routeFile: string): Promise<Record<string, unknown>> {
+  return import(path.join(V1_DIR, routeFile));
+}
+
+function getRouteFile(endpoint: Endpoint): string {
+  return path.join(endpoint.path.replace(/\{(\w+)\}/g, '[$1]'), 'route.ts');
+}
+
+async function callEndpoint(endpoint: Endpoint, testCase: ContractCase) {
+  const route = await loadRoute(getRouteFile(endpoint));
+  const handler = route[endpoint.method] as RouteHandler;
+  const response = await handler(buildRequest(endpoint, testCase), {
+    params: Promise.resolve(testCase.params ?? {}),
+  });
+  return { status: response.status, body: (await response.json()) as unknown };
+}
+
+// ============================================
+// OpenAPI document
+// ============================================
+
+const document = createOpenAPIDocument();
+
+type OpenAPIParameter = { name: string; in: 'path' | 'query'; required: boolean; schema: object };
+type OpenAPIOperation = {
+  parameters: OpenAPIParameter[];
+  requestBody?: unknown;
+  responses: Record<string, unknown>;
+};
+
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+addFormats(ajv);
+ajv.addSchema(document, 'openapi');
+
+// Query and path parameters arrive as strings
+const parameterAjv = new Ajv2020({ strict: false, coerceTypes: true });
+addFormats(parameterAjv);
+
+function getOperation(endpoint: Endpoint): OpenAPIOperation {
+  const pathItem = document.paths[endpoint.path] as Record<string, OpenAPIOperation> | undefined;
+  const operation = pathItem?.[endpoint.method.toLowerCase()];
+  if (!operation) {
+    throw new Error(`${endpoint.method} ${endpoint.path} is missing from openapi.json`);
+  }
+  return operation;
+}
+
+/** Validator for a schema inside the OpenAPI document, by JSON pointer segments */
+function documentValidator(...segments: string[]) {
+  const pointer = segments
+    .map((segment) => encodeURIComponent(segment.replace(/~/g, '~0').replace(/\//g, '~1')))
+    .join('/');
+  return ajv.compile({ $ref: `openapi#/${pointer}` });
+}
+
+function expectMatchesDocument(value: unknown, ...segments: string[]) {
+  const validate = documentValidator(...segments);
+  expect(validate(value) ? [] : validate.errors).toEqual([]);
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('/api/v1 contract', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDataAccess();
+  });
+
+  it('has a route handler for every endpoint and an endpoint for every route handler', async () => {
+    const routeFiles = readdirSync(V1_DIR, { recursive: true, encoding: 'utf8' }).filter(
+      (file) => path.basename(file) === 'route.ts' && !file.startsWith('openapi.json')
+    );
+
+    const implemented: string[] = [];
+    for (const file of routeFiles) {
+      const route = await loadRoute(file);
+      const routePath = `/${path.dirname(file)}`.replace(/\[(\w+)\]/g, '{$1}');
+      HTTP_METHODS.filter((method) => method in route).forEach((method) =>
+        implemented.push(`${method} ${routePath}`)
+      );
+    }
+
+    const declared = API_V1_ENDPOINTS.map((endpoint) => `${endpoint.method} ${endpoint.path}`);
+    expect(implemented.sort()).toEqual(declared.sort());
+  });
+
+  it('serves the generated OpenAPI document', async () => {
+    const route = await loadRoute('openapi.json/route.ts');
+    const response = await (route.GET as () => Promise<NextResponse>)();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(JSON.parse(JSON.stringify(document)));
+  });
+
+  it('documents every endpoint and nothing else', () => {
+    const documented = Object.keys(document.paths).flatMap((endpointPath) =>
+      Object.keys(document.paths[endpointPath]).map(
+        (method) => `${method.toUpperCase()} ${endpointPath}`
+      )
+    );
+    const declared = API_V1_ENDPOINTS.map((endpoint) => `${endpoint.method} ${endpoint.path}`);
+    expect(documented.sort()).toEqual(declared.sort());
+  });
+
+  describe.each(API_V1_ENDPOINTS.map((endpoint) => [endpoint.operationId, endpoint] as const))(
+    '%s',
+    (operationId, endpoint) => {
+      const testCase = cases[operationId as keyof typeof apiV1];
+
+      it('has a request that matches the contract and the document', () => {
+        const operation = getOperation(endpoint);
+
+        (['path', 'query'] as const).forEach((location) => {
+          const values = (location === 'path' ? testCase.params : testCase.query) ?? {};
+          const parameters = operation.parameters.filter((p) => p.in === location);
+
+          Object.keys(values).forEach((name) => {
+            const parameter = parameters.find((p) => p.name === name);
+            expect(parameter, `${location} parameter ${name} is documented`).toBeDefined();
+            const validate = parameterAjv.compile({
+              type: 'object',
+              properties: { value: parameter!.schema },
+            });
+            expect(validate({ value: values[name] }) ? [] : validate.errors).toEqual([]);
+          });
+          parameters
+            .filter((p) => p.required)
+            .forEach((p) => expect(values, `required ${location} parameter`).toHaveProperty(p.name));
+        });
+
+        const schemas = { path: endpoint.params, query: endpoint.query, body: endpoint.body };
+        expect(schemas.path?.safeParse(testCase.params).success ?? true).toBe(true);
+        expect(schemas.query?.safeParse(testCase.query ?? {}).success ?? true).toBe(true);
+
+        expect(operation.requestBody !== undefined).toBe(endpoint.body !== undefined);
+        expect(testCase.body !== undefined).toBe(endpoint.body !== undefined);
+        if (endpoint.body) {
+          expect(endpoint.body.safeParse(testCase.body).error?.issues ?? []).toEqual([]);
+          expectMatchesDocument(
+            testCase.body,
+            'paths',
+            endpoint.path,
+            endpoint.method.toLowerCase(),
+            'requestBody',
+            'content',
+            'application/json',
+            'schema'
+          );
+        }
+      });
+
+      it('responds with the documented status and body', async () => {
+        const { status, body } = await callEndpoint(endpoint, testCase);
+        const expectedStatus = String(endpoint.status ?? 200);
+
+        expect(status, JSON.stringify(body)).toBe(Number(expectedStatus));
+        expect(getResponseSchema(endpoint).safeParse(body).error?.issues ?? []).toEqual([]);
+        expectMatchesDocument(
+          body,
+          'paths',
+          endpoint.path,
+          endpoint.method.toLowerCase(),
+          'responses',
+          expectedStatus,
+          'content',
+          'application/json',
+          'schema'
+        );
+      });
+
+      if (endpoint.params) {
+        it('rejects invalid path parameters with the documented error', async () => {
+          const { status, body } = await callEndpoint(endpoint, {
+            ...testCase,
+            params: { id: 'not-a-uuid' },
+          });
+
+          expect(status).toBe(400);
+          expect(apiErrorResponseSchema.safeParse(body).success).toBe(true);
+          expectMatchesDocument(body, 'components', 'schemas', 'ErrorResponse');
+        });
+      }
+    }
+  );
+});
@@ -0,0 +1,253 @@
+/**
+ * /api/v1 contract
+ * Each endpoint is declared once with its path, scopes and zod schemas. The route files under
+ * src/app/api/v1 implement these with createEndpointHandler, and /api/v1/openapi.json is
+ * generated from the same list, so the spec, the validation and the handlers cannot disagree.
+ */
+
+import type { z } from 'zod';
+import type { TokenScope } from '@/types';
+import {
+  aiAnalysisSchema,
+  analyzeJournalSchema,
+  apiErrorSchema,
+  apiResponseSchema,
+  createGoalSchema,
+  createJournalSchema,
+  deletedSchema,
+  goalListQuerySchema,
+  goalSchema,
+  idParamsSchema,
+  insightsQuerySchema,
+  insightsRequestSchema,
+  insightsResultSchema,
+  journalAnalysisResultSchema,
+  journalEntryWithGoalsSchema,
+  journalListQuerySchema,
+  paginatedResponseSchema,
+  paginationSchema,
+  recurrenceSchema,
+  searchQuerySchema,
+  searchResultSchema,
+  updateGoalSchema,
+  updateJournalSchema,
+} from './schemas';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface Endpoint<
+  TParams extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+  TQuery extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+  TBody extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+  TResponse extends z.ZodTypeAny = z.ZodTypeAny,
+  TPaginated extends boolean = boolean,
+> {
+  operationId: string;
+  method: HttpMethod;
+  path: string; // Relative to /api/v1, with OpenAPI path templates ("/goals/{id}")
+  summary: string;
+  description?: string;
+  tag: string;
+  scopes: TokenScope[]; // Required when called with a personal access token
+  params?: TParams;
+  query?: TQuery;
+  body?: TBody;
+  response: TResponse; // Schema of the envelope's `data` (of each item when paginated)
+  paginated?: TPaginated;
+  status?: 200 | 201;
+}
+
+function defineEndpoint<
+  TParams extends z.ZodTypeAny | undefined = undefined,
+  TQuery extends z.ZodTypeAny | undefined = undefined,
+  TBody extends z.ZodTypeAny | undefined = undefined,
+  TResponse extends z.ZodTypeAny = z.ZodTypeAny,
+  TPaginated extends boolean = false,
+>(
+  endpoint: Endpoint<TParams, TQuery, TBody, TResponse, TPaginated>
+): Endpoint<TParams, TQuery, TBody, TResponse, TPaginated> {
+  return endpoint;
+}
+
+/** Full response envelope (ApiResponse<T> or PaginatedResponse<T>) of a successful call */
+export function getResponseSchema(endpoint: Endpoint) {
+  return endpoint.paginated
+    ? paginatedResponseSchema(endpoint.response)
+    : apiResponseSchema(endpoint.response);
+}
+
+export const apiV1 = {
+  listGoals: defineEndpoint({
+    operationId: 'listGoals',
+    method: 'GET',
+    path: '/goals',
+    summary: 'List goals',
+    tag: 'Goals',
+    scopes: ['goals:read'],
+    query: goalListQuerySchema,
+    response: goalSchema,
+    paginated: true,
+  }),
+  createGoal: defineEndpoint({
+    operationId: 'createGoal',
+    method: 'POST',
+    path: '/goals',
+    summary: 'Create a goal',
+    tag: 'Goals',
+    scopes: ['goals:write'],
+    body: createGoalSchema,
+    response: goalSchema,
+    status: 201,
+  }),
+  getGoal: defineEndpoint({
+    operationId: 'getGoal',
+    method: 'GET',
+    path: '/goals/{id}',
+    summary: 'Get a goal',
+    tag: 'Goals',
+    scopes: ['goals:read'],
+    params: idParamsSchema,
+    response: goalSchema,
+  }),
+  updateGoal: defineEndpoint({
+    operationId: 'updateGoal',
+    method: 'PATCH',
+    path: '/goals/{id}',
+    summary: 'Update a goal',
+    description:
+      'progressPercentage is ignored for goals whose progress is derived from linked goals, milestones or check-ins. ' +
+      'Send the updatedAt you last read as expectedUpdatedAt (or an If-Match header) to get 409 instead of overwriting newer changes.',
+    tag: 'Goals',
+    scopes: ['goals:write'],
+    params: idParamsSchema,
+    body: updateGoalSchema,
+    response: goalSchema,
+  }),
+  deleteGoal: defineEndpoint({
+    operationId: 'deleteGoal',
+    method: 'DELETE',
+    path: '/goals/{id}',
+    summary: 'Delete a goal',
+    description:
+      'Moves the goal to the trash, where it can be restored in the app for 30 days before it is deleted for good.',
+    tag: 'Goals',
+    scopes: ['goals:write'],
+    params: idParamsSchema,
+    response: deletedSchema,
+  }),
+  listJournalEntries: defineEndpoint({
+    operationId: 'listJournalEntries',
+    method: 'GET',
+    path: '/journals',
+    summary: 'List journal entries with their linked goals',
+    tag: 'Journal entries',
+    scopes: ['journals:read'],
+    query: journalListQuerySchema,
+    response: journalEntryWithGoalsSchema,
+    paginated: true,
+  }),
+  createJournalEntry: defineEndpoint({
+    operationId: 'createJournalEntry',
+    method: 'POST',
+    path: '/journals',
+    summary: 'Create a journal entry',
+    tag: 'Journal entries',
+    scopes: ['journals:write'],
+    body: createJournalSchema,
+    response: journalEntryWithGoalsSchema,
+    status: 201,
+  }),
+  getJournalEntry: defineEndpoint({
+    operationId: 'getJournalEntry',
+    method: 'GET',
+    path: '/journals/{id}',
+    summary: 'Get a journal entry with its linked goals',
+    tag: 'Journal entries',
+    scopes: ['journals:read'],
+    params: idParamsSchema,
+    response: journalEntryWithGoalsSchema,
+  }),
+  updateJournalEntry: defineEndpoint({
+    operationId: 'updateJournalEntry',
+    method: 'PATCH',
+    path: '/journals/{id}',
+    summary: 'Update a journal entry',
+    description:
+      'Send the updatedAt you last read as expectedUpdatedAt (or an If-Match header) to get 409 instead of overwriting newer changes.',
+    tag: 'Journal entries',
+    scopes: ['journals:write'],
+    params: idParamsSchema,
+    body: updateJournalSchema,
+    response: journalEntryWithGoalsSchema,
+  }),
+  deleteJournalEntry: defineEndpoint({
+    operationId: 'deleteJournalEntry',
+    method: 'DELETE',
+    path: '/journals/{id}',
+    summary: 'Delete a journal entry',
+    description:
+      'Moves the entry to the trash, where it can be restored in the app for 30 days before it is deleted for good.',
+    tag: 'Journal entries',
+    scopes: ['journals:write'],
+    params: idParamsSchema,
+    response: deletedSchema,
+  }),
+  search: defineEndpoint({
+    operationId: 'search',
+    method: 'GET',
+    path: '/search',
+    summary: 'Full-text search across journal entries and goals',
+    description:
+      'q supports "exact phrases", prefix* terms, -exclusions and OR. Mood, tag and date filters apply to journal entries only.',
+    tag: 'Search',
+    scopes: ['goals:read', 'journals:read'],
+    query: searchQuerySchema,
+    response: searchResultSchema,
+    paginated: true,
+  }),
+  analyzeJournalEntry: defineEndpoint({
+    operationId: 'analyzeJournalEntry',
+    method: 'POST',
+    path: '/ai/analyze-journal',
+    summary: 'Analyze a journal entry',
+    tag: 'AI',
+    scopes: ['ai:write'],
+    body: analyzeJournalSchema,
+    response: journalAnalysisResultSchema,
+  }),
+  getInsights: defineEndpoint({
+    operationId: 'getInsights',
+    method: 'GET',
+    path: '/ai/insights',
+    summary: 'Get weekly or monthly insights',
+    description: 'Returns the insight already generated for the current period, or generates one.',
+    tag: 'AI',
+    scopes: ['ai:read'],
+    query: insightsQuerySchema,
+    response: insightsResultSchema,
+  }),
+  generateInsights: defineEndpoint({
+    operationId: 'generateInsights',
+    method: 'POST',
+    path: '/ai/insights',
+    summary: 'Generate weekly or monthly insights',
+    description: 'Returns the cached insight for the current period unless refresh is true.',
+    tag: 'AI',
+    scopes: ['ai:write'],
+    body: insightsRequestSchema,
+    response: insightsResultSchema,
+  }),
+};
+
+export const API_V1_ENDPOINTS: Endpoint[] = Object.values(apiV1);
+
+// Schemas emitted once under components.schemas and referenced by name
+export const API_V1_COMPONENTS: Record<string, z.ZodTypeAny> = {
+  Goal: goalSchema,
+  JournalEntryWithGoals: journalEntryWithGoalsSchema,
+  SearchResult: searchResultSchema,
+  AIAnalysis: aiAnalysisSchema,
+  HabitRecurrence: recurrenceSchema,
+  Pagination: paginationSchema,
+  ApiError: apiErrorSchema,
+};
@@ -0,0 +1,12 @@
+// Thrown by endpoint implementations to answer with a specific status (e.g. 404);
+// createEndpointHandler turns it into the error envelope
+export class ApiRouteError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'ApiRouteError';
+  }
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getGoalById } from '@/lib/db/goals';
+import { GOAL_LINK_ERROR_CODES, type Goal, type GoalType } from '@/types';
+import { ApiRouteError } from './errors';
+import { prepareGoalCreate } from './goals';
+
+vi.mock('@/lib/db/goals', () => ({ getGoalById: vi.fn() }));
+vi.mock('@/lib/db/milestones', () => ({ getMilestones: vi.fn() }));
+
+const supabase = {} as SupabaseClient;
+const userId = '9b2f7c1e-4d3a-4f6b-8c5e-1a2b3c4d5e6f';
+const parentId = '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+
+function storedGoal(type: GoalType): Goal {
+  return { id: parentId, userId, type } as Goal;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ApiRouteError> {
+  const error = await promise.then(
+    () => null,
+    (err: unknown) => err
+  );
+  expect(error).toBeInstanceOf(ApiRouteError);
+  return error as ApiRouteError;
+}
+
+describe('prepareGoalCreate', () => {
+  beforeEach(() => {
+    vi.mocked(getGoalById).mockReset();
+  });
+
+  it('accepts a short-term goal under a long-term goal of the user', async () => {
+    vi.mocked(getGoalById).mockResolvedValue(storedGoal('long-term'));
+    const input = { title: 'Run 5k', type: 'short-term' as const, parentGoalId: parentId };
+
+    await expect(prepareGoalCreate(supabase, userId, input)).resolves.toEqual(input);
+    expect(getGoalById).toHaveBeenCalledWith(supabase, parentId, userId);
+  });
+
+  it('rejects a parent the user does not own', async () => {
+    vi.mocked(getGoalById).mockResolvedValue(null);
+
+    const error = await rejection(
+      prepareGoalCreate(supabase, userId, {
+        title: 'Run 5k',
+        type: 'short-term',
+        parentGoalId: parentId,
+      })
+    );
+    expect(error.status).toBe(404);
+    expect(error.code).toBe(GOAL_LINK_ERROR_CODES.PARENT_NOT_FOUND);
+  });
+
+  it('rejects a parent that is not long-term', async () => {
+    vi.mocked(getGoalById).mockResolvedValue(storedGoal('short-term'));
+
+    const error = await rejection(
+      prepareGoalCreate(supabase, userId, {
+        title: 'Run 5k',
+        type: 'short-term',
+        parentGoalId: parentId,
+      })
+    );
+    expect(error.status).toBe(400);
+    expect(error.code).toBe(GOAL_LINK_ERROR_CODES.PARENT_NOT_LONG_TERM);
+  });
+
+  it('accepts a parent created earlier in the same batch', async () => {
+    const pending = new Map<string, GoalType>([[parentId, 'long-term']]);
+
+    await prepareGoalCreate(
+      supabase,
+      userId,
+      { title: 'Run 5k', type: 'short-term', parentGoalId: parentId },
+      pending
+    );
+    expect(getGoalById).not.toHaveBeenCalled();
+  });
+
+  it('rejects a habit without a recurrence rule', async () => {
+    const error = await rejection(
+      prepareGoalCreate(supabase, userId, { title: 'Stretch', type: 'habit' })
+    );
+    expect(error.status).toBe(400);
+  });
+});
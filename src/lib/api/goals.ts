@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getGoalById } from '@/lib/db/goals';
+import { getMilestones } from '@/lib/db/milestones';
+import {
+  GOAL_LINK_ERROR_CODES,
+  type CreateGoalInput,
+  type GoalType,
+  type UpdateGoalInput,
+} from '@/types';
+import { ApiRouteError } from './errors';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+// The parent must be one of the user's long-term goals, as when linking through /link
+async function checkParentGoal(
+  supabase: SupabaseClientAny,
+  parentGoalId: string,
+  userId: string,
+  pendingGoalTypes?: Map<string, GoalType>
+): Promise<void> {
+  const parentType =
+    pendingGoalTypes?.get(parentGoalId) ??
+    (await getGoalById(supabase, parentGoalId, userId))?.type;
+
+  if (!parentType) {
+    throw new ApiRouteError('Parent goal not found', 404, GOAL_LINK_ERROR_CODES.PARENT_NOT_FOUND);
+  }
+  if (parentType !== 'long-term') {
+    throw new ApiRouteError(
+      'Parent must be a long-term goal',
+      400,
+      GOAL_LINK_ERROR_CODES.PARENT_NOT_LONG_TERM
+    );
+  }
+}
+
+/**
+ * Checks a new goal before it is saved. Throws ApiRouteError when it is not allowed.
+ * pendingGoalTypes lists goals created earlier in the same sync batch, which can be parents.
+ */
+export async function prepareGoalCreate(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: CreateGoalInput,
+  pendingGoalTypes?: Map<string, GoalType>
+): Promise<CreateGoalInput> {
+  if (input.parentGoalId) {
+    await checkParentGoal(supabase, input.parentGoalId, userId, pendingGoalTypes);
+  }
+
+  // Habits need a recurrence rule
+  if (input.type === 'habit' && !input.recurrence) {
+    throw new ApiRouteError('Habit goals require a recurrence rule', 400);
+  }
+
+  return input;
+}
+
+/**
+ * Checks a goal update against the stored goal and returns the input to save.
+ * Throws ApiRouteError when the update is not allowed; drops progressPercentage when
+ * progress is derived from linked goals, milestones or check-ins.
+ */
+export async function prepareGoalUpdate(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string,
+  input: UpdateGoalInput
+): Promise<UpdateGoalInput> {
+  const needsExisting =
+    (input.type !== undefined && input.type !== 'short-term') ||
+    input.progressPercentage !== undefined;
+  const existingGoal = needsExisting ? await getGoalById(supabase, id, userId) : null;
+
+  // Prevent type change away from short-term if goal has parent
+  if (input.type !== undefined && input.type !== 'short-term' && existingGoal?.parentGoalId) {
+    throw new ApiRouteError(
+      'Cannot change type while goal has a parent. Unlink first.',
+      400,
+      GOAL_LINK_ERROR_CODES.TYPE_CHANGE_BLOCKED
+    );
+  }
+
+  if (input.parentGoalId) {
+    await checkParentGoal(supabase, input.parentGoalId, userId);
+  }
+
+  // Habits need a recurrence rule
+  if (input.type === 'habit' && !input.recurrence && !existingGoal?.recurrence) {
+    throw new ApiRouteError('Habit goals require a recurrence rule', 400);
+  }
+
+  if (input.progressPercentage === undefined) {
+    return input;
+  }
+
+  const derived =
+    (input.progressMode ?? existingGoal?.progressMode) === 'derived' ||
+    (input.type ?? existingGoal?.type) === 'habit';
+  const milestones = derived ? [] : await getMilestones(supabase, id, userId);
+  return derived || milestones.length > 0 ? { ...input, progressPercentage: undefined } : input;
+}
@@ -0,0 +1,190 @@
+/**
+ * Route handlers for /api/v1 endpoints
+ * createEndpointHandler authenticates the request with the endpoint's scopes, validates path
+ * params, query and body against the contract, runs the implementation and wraps its result in
+ * the response envelope. Outside production every response is also checked against the
+ * contract, so drift shows up while developing; contract.test.ts calls every route in CI.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { authenticateRequest } from '@/lib/auth';
+import { ClaudeAPIError } from '@/lib/claude/errors';
+import { UPDATE_CONFLICT_CODE } from '@/lib/concurrency';
+import {
+  GoalConflictError,
+  GoalLinkValidationError,
+  JournalEntryConflictError,
+  type ApiError,
+} from '@/types';
+import { getResponseSchema, type Endpoint } from './contract';
+import { ApiRouteError } from './errors';
+import type { paginationSchema } from './schemas';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+type Infer<S> = S extends z.ZodTypeAny ? z.infer<S> : never;
+
+/**
+ * What an implementation may return for a JSON value of type T: Dates are accepted wherever the
+ * contract has a plain string, since they serialize to ISO strings
+ */
+export type Serializable<T> = T extends string
+  ? string extends T
+    ? string | Date
+    : T
+  : T extends (infer U)[]
+    ? Serializable<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serializable<T[K]> }
+      : T;
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+type EndpointData<E extends Endpoint> = Serializable<z.infer<E['response']>>;
+
+export type EndpointResult<E extends Endpoint> = NonNullable<E['paginated']> extends true
+  ? { data: EndpointData<E>[]; pagination: Pagination }
+  : { data: EndpointData<E> };
+
+export interface EndpointContext<E extends Endpoint> {
+  request: NextRequest;
+  supabase: SupabaseClientAny;
+  user: { id: string };
+  params: Infer<Exclude<E['params'], undefined>>;
+  query: Infer<Exclude<E['query'], undefined>>;
+  body: Infer<Exclude<E['body'], undefined>>;
+}
+
+type RouteContext = { params: Promise<Record<string, string>> };
+
+export function buildPagination(page: number, pageSize: number, totalCount: number): Pagination {
+  const totalPages = Math.ceil(totalCount / pageSize);
+  return {
+    page,
+    pageSize,
+    totalCount,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+}
+
+function errorResponse(error: ApiError & { status: number }, data: unknown = null) {
+  return NextResponse.json({ success: false, data, error }, { status: error.status });
+}
+
+function validationError(message: string, error: z.ZodError) {
+  return errorResponse({ message, status: 400, details: error.flatten().fieldErrors });
+}
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof ApiRouteError) {
+    return errorResponse({ message: error.message, status: error.status, code: error.code });
+  }
+  if (error instanceof GoalConflictError || error instanceof JournalEntryConflictError) {
+    return errorResponse(
+      { message: error.message, status: 409, code: UPDATE_CONFLICT_CODE },
+      error.current
+    );
+  }
+  if (error instanceof GoalLinkValidationError) {
+    return errorResponse({ message: error.message, status: 400, code: error.code });
+  }
+  if (error instanceof ClaudeAPIError) {
+    if (error.isRateLimited) {
+      return errorResponse({
+        message: 'AI service rate limited. Please try again in a moment.',
+        status: 429,
+        code: 'RATE_LIMITED',
+      });
+    }
+    return errorResponse({
+      message: 'AI request failed. Please try again.',
+      status: error.statusCode ?? 500,
+      code: 'AI_ERROR',
+    });
+  }
+  return errorResponse({
+    message: error instanceof Error ? error.message : 'Internal server error',
+    status: 500,
+  });
+}
+
+export function createEndpointHandler<E extends Endpoint>(
+  endpoint: E,
+  implementation: (context: EndpointContext<E>) => Promise<EndpointResult<E>>
+) {
+  const label = `${endpoint.method} /api/v1${endpoint.path}`;
+  const responseSchema = getResponseSchema(endpoint);
+
+  return async function handler(request: NextRequest, context: RouteContext) {
+    try {
+      const params = endpoint.params?.safeParse((await context.params) ?? {});
+      if (params && !params.success) {
+        return validationError('Invalid path parameters', params.error);
+      }
+
+      const auth = await authenticateRequest(request, { scopes: endpoint.scopes });
+      if (!auth.success) {
+        return errorResponse(auth.error);
+      }
+
+      // Empty query values count as absent
+      const rawQuery = Object.fromEntries(
+        Array.from(request.nextUrl.searchParams.entries()).filter(([, value]) => value !== '')
+      );
+      const query = endpoint.query?.safeParse(rawQuery);
+      if (query && !query.success) {
+        return validationError('Invalid query parameters', query.error);
+      }
+
+      let body;
+      if (endpoint.body) {
+        let rawBody: unknown;
+        try {
+          rawBody = await request.json();
+        } catch {
+          return errorResponse({ message: 'Request body must be valid JSON', status: 400 });
+        }
+        body = endpoint.body.safeParse(rawBody);
+        if (!body.success) {
+          return validationError('Validation failed', body.error);
+        }
+      }
+
+      const result = await implementation({
+        request,
+        supabase: auth.supabase,
+        user: auth.user,
+        params: params?.data,
+        query: query?.data,
+        body: body?.data,
+      } as EndpointContext<E>);
+
+      const payload = { success: true, ...result, error: null };
+
+      if (process.env.NODE_ENV !== 'production') {
+        const check = responseSchema.safeParse(JSON.parse(JSON.stringify(payload)));
+        if (!check.success) {
+          console.error(`${label} response does not match the contract:`, check.error.format());
+          return errorResponse({
+            message: `Response of ${endpoint.operationId} does not match the API contract`,
+            status: 500,
+            code: 'CONTRACT_MISMATCH',
+            details: check.error.flatten().fieldErrors,
+          });
+        }
+      }
+
+      return NextResponse.json(payload, { status: endpoint.status ?? 200 });
+    } catch (error) {
+      if (!(error instanceof ApiRouteError)) {
+        console.error(`${label} error:`, error);
+      }
+      return toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * OpenAPI document for /api/v1
+ * Generated from the endpoint contract: request parameters and bodies come from the same zod
+ * schemas the routes validate with, and responses from the schemas they are checked against.
+ */
+
+import { z } from 'zod';
+import { TOKEN_SCOPES, TOKEN_SCOPE_LABELS } from '@/types';
+import { API_V1_COMPONENTS, API_V1_ENDPOINTS, getResponseSchema, type Endpoint } from './contract';
+import { apiErrorResponseSchema } from './schemas';
+
+type JsonSchema = { [key: string]: unknown };
+
+const COMPONENT_NAMES = new Map<z.ZodTypeAny, string>(
+  Object.keys(API_V1_COMPONENTS).map((name) => [API_V1_COMPONENTS[name], name])
+);
+
+function refTo(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  schema._def.checks.forEach((check) => {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+    }
+  });
+  return json;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  schema._def.checks.forEach((check) => {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+    }
+  });
+  return json;
+}
+
+function objectSchema(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  Object.keys(schema.shape).forEach((key) => {
+    const property: z.ZodTypeAny = schema.shape[key];
+    properties[key] = toJsonSchema(property);
+    if (!property.isOptional()) {
+      required.push(key);
+    }
+  });
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    json.required = required;
+  }
+  // Response objects may gain fields; only strict objects promise not to
+  if (schema._def.unknownKeys === 'strict') {
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodObject) return objectSchema(schema);
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    return json;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map((option) => toJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return {
+      oneOf: (schema.options as z.ZodTypeAny[]).map((option) => toJsonSchema(option)),
+      discriminator: { propertyName: schema.discriminator },
+    };
+  }
+
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  // Refinements and transforms validate beyond what JSON Schema can express
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+
+  // z.unknown(), z.any() and anything without a JSON Schema equivalent
+  return {};
+}
+
+function toJsonSchema(schema: z.ZodTypeAny, allowRef = true): JsonSchema {
+  const name = COMPONENT_NAMES.get(schema);
+  if (allowRef && name) {
+    return refTo(name);
+  }
+
+  const json = convert(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function parameters(schema: z.ZodTypeAny | undefined, location: 'path' | 'query') {
+  if (!(schema instanceof z.ZodObject)) {
+    return [];
+  }
+
+  return Object.keys(schema.shape).map((name) => {
+    const property: z.ZodTypeAny = schema.shape[name];
+    const { description, ...parameterSchema } = toJsonSchema(property);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !property.isOptional(),
+      ...(description ? { description } : {}),
+      schema: parameterSchema,
+    };
+  });
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+  };
+}
+
+function operation(endpoint: Endpoint) {
+  const status = String(endpoint.status ?? 200);
+  const responses: Record<string, unknown> = {
+    [status]: {
+      description: endpoint.status === 201 ? 'Created' : 'OK',
+      content: { 'application/json': { schema: toJsonSchema(getResponseSchema(endpoint)) } },
+    },
+    '400': errorResponse('Invalid parameters or request body'),
+    '401': errorResponse('Missing or invalid credentials'),
+    '403': errorResponse('Access token lacks a required scope'),
+  };
+  if (endpoint.params) {
+    responses['404'] = errorResponse('Not found');
+  }
+  if (endpoint.method === 'PATCH') {
+    responses['409'] = errorResponse(
+      'Changed since expectedUpdatedAt or If-Match; data holds the current version'
+    );
+  }
+  if (endpoint.tag === 'AI') {
+    responses['429'] = errorResponse('AI service rate limited');
+  }
+  responses['500'] = errorResponse('Server error');
+
+  return {
+    operationId: endpoint.operationId,
+    summary: endpoint.summary,
+    ...(endpoint.description ? { description: endpoint.description } : {}),
+    tags: [endpoint.tag],
+    security: [{ bearerAuth: endpoint.scopes }],
+    parameters: [...parameters(endpoint.params, 'path'), ...parameters(endpoint.query, 'query')],
+    ...(endpoint.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toJsonSchema(endpoint.body) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+export function createOpenAPIDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  API_V1_ENDPOINTS.forEach((endpoint) => {
+    paths[endpoint.path] = paths[endpoint.path] ?? {};
+    paths[endpoint.path][endpoint.method.toLowerCase()] = operation(endpoint);
+  });
+
+  const schemas: Record<string, JsonSchema> = {};
+  Object.keys(API_V1_COMPONENTS).forEach((name) => {
+    schemas[name] = toJsonSchema(API_V1_COMPONENTS[name], false);
+  });
+  schemas.ErrorResponse = toJsonSchema(apiErrorResponseSchema);
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'The Momentum Journal API',
+      version: '1.0.0',
+      description:
+        'Every response uses the same envelope: { success, data, error }, plus pagination for list endpoints.',
+    },
+    servers: [{ url: '/api/v1' }],
+    tags: Array.from(new Set(API_V1_ENDPOINTS.map((endpoint) => endpoint.tag))).map((name) => ({
+      name,
+    })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `A personal access token (mjp_...) or a Supabase access token. Personal access tokens need the scopes listed on each operation: ${TOKEN_SCOPES.map(
+            (scope) => `${scope} (${TOKEN_SCOPE_LABELS[scope]})`
+          ).join(', ')}.`,
+        },
+      },
+    },
+  };
+}
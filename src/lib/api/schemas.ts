@@ -0,0 +1,646 @@
+/**
+ * API schemas
+ * Request and response shapes declared once: routes validate input with them, /api/v1 also
+ * checks its responses against them, and the OpenAPI document is generated from them.
+ * Response schemas describe the JSON on the wire, so Date fields are ISO date-time strings.
+ */
+
+import { z } from 'zod';
+import {
+  NOTIFICATION_CHANNELS,
+  REMINDER_RULES,
+  WEBHOOK_EVENT_TYPES,
+  type NotificationChannel,
+  type ReminderRule,
+  type WebhookEventType,
+} from '@/types';
+import { isAllowedWebhookUrl } from '@/lib/webhooks/address';
+
+// ============================================
+// Primitives
+// ============================================
+
+export const uuidSchema = z.string().uuid();
+
+// Accepts YYYY-MM-DD format for Supabase date columns
+export const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (expected YYYY-MM-DD)');
+
+const dateTimeSchema = z.string().datetime();
+
+export const goalTypeSchema = z.enum(['long-term', 'short-term', 'habit']);
+export const goalStatusSchema = z.enum(['active', 'completed', 'paused', 'abandoned']);
+export const progressModeSchema = z.enum(['manual', 'derived']);
+export const rollupWeightingSchema = z.enum(['equal', 'custom']);
+export const moodSchema = z.enum(['great', 'good', 'neutral', 'bad', 'terrible']);
+export const analysisTypeSchema = z.enum(['on-demand', 'weekly', 'monthly']);
+export const sortDirSchema = z.enum(['asc', 'desc']);
+
+// Recurrence rule for habit goals
+export const recurrenceSchema = z
+  .discriminatedUnion('frequency', [
+    z.object({ frequency: z.literal('daily') }),
+    z.object({ frequency: z.literal('weekly'), timesPerWeek: z.number().int().min(1).max(7) }),
+    z.object({
+      frequency: z.literal('weekdays'),
+      weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+    }),
+  ])
+  .describe('Recurrence rule for habit goals; weekdays are 0 (Sunday) to 6');
+
+export const idParamsSchema = z.object({ id: uuidSchema });
+
+// ============================================
+// Goals
+// ============================================
+
+export const goalSortFieldSchema = z.enum([
+  'title',
+  'created_at',
+  'updated_at',
+  'target_date',
+  'progress_percentage',
+]);
+
+export const createGoalSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    description: z.string().max(2000).nullable().optional(),
+    type: goalTypeSchema,
+    category: z.string().max(50).nullable().optional(),
+    targetDate: dateOnlySchema.nullable().optional(),
+    status: goalStatusSchema.optional(),
+    progressPercentage: z.number().min(0).max(100).optional(),
+    parentGoalId: z.string().uuid().nullable().optional(),
+    progressMode: progressModeSchema.optional(),
+    rollupWeighting: rollupWeightingSchema.optional(),
+    autoComplete: z.boolean().optional(),
+    rollupWeight: z.number().int().min(1).max(100).optional(),
+    recurrence: recurrenceSchema.nullable().optional(),
+  })
+  .refine(
+    (data) => {
+      // only short-term goals can have a parent
+      if (data.type !== 'short-term' && data.parentGoalId) {
+        return false;
+      }
+      return true;
+    },
+    { message: 'Only short-term goals can have a parent goal' }
+  )
+  .refine(
+    (data) => data.type !== 'habit' || !!data.recurrence,
+    { message: 'Habit goals require a recurrence rule' }
+  );
+
+// Fields a goal update may set (also used by sync)
+const goalUpdateFieldsSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  type: goalTypeSchema.optional(),
+  category: z.string().max(50).nullable().optional(),
+  targetDate: dateOnlySchema.nullable().optional(),
+  status: goalStatusSchema.optional(),
+  progressPercentage: z.number().min(0).max(100).optional(),
+  parentGoalId: z.string().uuid().nullable().optional(),
+  progressMode: progressModeSchema.optional(),
+  rollupWeighting: rollupWeightingSchema.optional(),
+  autoComplete: z.boolean().optional(),
+  rollupWeight: z.number().int().min(1).max(100).optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+});
+
+export const updateGoalSchema = goalUpdateFieldsSchema
+  .extend({
+    expectedUpdatedAt: dateTimeSchema
+      .optional()
+      .describe('updatedAt of the goal the edit was based on; a newer goal is a conflict (409)'),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  })
+  .refine(
+    (data) => {
+      // When updating type to long-term or habit, parent must be null or not present
+      if (
+        data.type !== undefined &&
+        data.type !== 'short-term' &&
+        data.parentGoalId !== undefined &&
+        data.parentGoalId !== null
+      ) {
+        return false;
+      }
+      return true;
+    },
+    { message: 'Only short-term goals can have a parent goal' }
+  );
+
+export const goalListQuerySchema = z.object({
+  type: goalTypeSchema.optional(),
+  status: goalStatusSchema.optional(),
+  category: z.string().max(50).optional(),
+  search: z.string().max(200).optional(),
+  parentGoalId: z
+    .union([uuidSchema, z.literal('null')])
+    .optional()
+    .describe('Parent goal ID, or "null" for goals without a parent'),
+  hasParent: z.enum(['true', 'false']).optional(),
+  sortField: goalSortFieldSchema.optional(),
+  sortDir: sortDirSchema.default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export const goalSchema = z.object({
+  id: uuidSchema,
+  userId: uuidSchema,
+  title: z.string(),
+  description: z.string().nullable(),
+  type: goalTypeSchema,
+  category: z.string().nullable(),
+  targetDate: dateTimeSchema.nullable(),
+  status: goalStatusSchema,
+  progressPercentage: z.number(),
+  parentGoalId: uuidSchema.nullable(),
+  progressMode: progressModeSchema,
+  rollupWeighting: rollupWeightingSchema,
+  autoComplete: z.boolean(),
+  rollupWeight: z.number().int(),
+  recurrence: recurrenceSchema.nullable(),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+});
+
+// ============================================
+// Journal Entries
+// ============================================
+
+export const journalSortFieldSchema = z.enum(['entry_date', 'created_at', 'updated_at', 'title']);
+
+export const createJournalSchema = z.object({
+  title: z.string().max(200).nullable().optional(),
+  content: z.string().min(1).max(50000),
+  entryDate: dateOnlySchema.optional().describe("Defaults to today in the user's timezone"),
+  mood: moodSchema.nullable().optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+  goalIds: z.array(z.string().uuid()).optional(),
+  suggestedGoalIds: z
+    .array(z.string().uuid())
+    .optional()
+    .describe('Accepted AI suggestions, linked as not mentioned explicitly'),
+  draftId: uuidSchema.optional().describe('Draft this entry was written in; deleted once it is saved'),
+});
+
+export const updateJournalSchema = z
+  .object({
+    title: z.string().max(200).nullable().optional(),
+    content: z.string().min(1).max(50000).optional(),
+    entryDate: dateOnlySchema.optional(),
+    mood: moodSchema.nullable().optional(),
+    tags: z.array(z.string().max(50)).max(20).optional(),
+    goalIds: z
+      .array(z.string().uuid())
+      .optional()
+      .describe('Replaces the linked goals; links not listed here or in suggestedGoalIds are removed'),
+    suggestedGoalIds: z.array(z.string().uuid()).optional(),
+    draftId: uuidSchema.optional().describe('Draft these edits were made in; deleted once they are saved'),
+    expectedUpdatedAt: dateTimeSchema
+      .optional()
+      .describe('updatedAt of the entry the edit was based on; a newer entry is a conflict (409)'),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  });
+
+export const journalListQuerySchema = z.object({
+  mood: moodSchema.optional(),
+  dateFrom: dateOnlySchema.optional(),
+  dateTo: dateOnlySchema.optional(),
+  search: z.string().max(200).optional(),
+  goalId: uuidSchema.optional(),
+  tags: z.string().max(500).optional().describe('Comma-separated tags; entries must have all of them'),
+  sortField: journalSortFieldSchema.optional(),
+  sortDir: sortDirSchema.default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export const journalEntrySchema = z.object({
+  id: uuidSchema,
+  userId: uuidSchema,
+  title: z.string().nullable(),
+  content: z.string(),
+  entryDate: dateOnlySchema,
+  mood: moodSchema.nullable(),
+  tags: z.array(z.string()),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+});
+
+export const journalEntryWithGoalsSchema = journalEntrySchema.extend({
+  mentionedGoals: z.array(goalSchema),
+});
+
+// ============================================
+// Journal Drafts
+// ============================================
+
+// Everything is optional: a draft may be saved before the editor is filled in
+const journalDraftFieldsSchema = z.object({
+  title: z.string().max(200).nullable().optional(),
+  content: z.string().max(50000).optional(),
+  entryDate: dateOnlySchema.nullable().optional(),
+  mood: moodSchema.nullable().optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+  goalIds: z.array(uuidSchema).max(100).optional(),
+  device: z.string().max(50).nullable().optional().describe('Client saving the draft, e.g. web or ios'),
+});
+
+export const createJournalDraftSchema = journalDraftFieldsSchema.extend({
+  journalEntryId: uuidSchema
+    .nullable()
+    .optional()
+    .describe('Entry whose unsaved edits this draft holds; omit for a new entry'),
+});
+
+export const updateJournalDraftSchema = journalDraftFieldsSchema.extend({
+  baseVersion: z
+    .number()
+    .int()
+    .min(1)
+    .describe('Version of the draft the client last loaded or saved; a newer one is a conflict'),
+});
+
+export const journalDraftListQuerySchema = z.object({
+  journalId: z
+    .union([uuidSchema, z.literal('none')])
+    .optional()
+    .describe("Only the draft of this entry, or 'none' for drafts of new entries"),
+});
+
+// ============================================
+// Sync
+// ============================================
+
+export const syncQuerySchema = z.object({
+  since: z
+    .string()
+    .regex(/^\d+$/, 'Invalid cursor')
+    .optional()
+    .describe('cursor from the previous sync; omit for a full sync'),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+});
+
+// Goal links are synced as mentions, so entries are synced without goalIds
+const syncJournalEntryFieldsSchema = createJournalSchema.pick({
+  title: true,
+  content: true,
+  entryDate: true,
+  mood: true,
+  tags: true,
+});
+
+const syncExpectedUpdatedAtSchema = dateTimeSchema
+  .optional()
+  .describe('updatedAt the change was based on; a newer goal or entry is a conflict');
+
+export const syncMutationSchema = z.union([
+  z.object({
+    entity: z.literal('goal'),
+    op: z.literal('create'),
+    id: uuidSchema,
+    data: createGoalSchema,
+  }),
+  z.object({
+    entity: z.literal('goal'),
+    op: z.literal('update'),
+    id: uuidSchema,
+    data: goalUpdateFieldsSchema,
+    expectedUpdatedAt: syncExpectedUpdatedAtSchema,
+  }),
+  z.object({
+    entity: z.literal('journalEntry'),
+    op: z.literal('create'),
+    id: uuidSchema,
+    data: syncJournalEntryFieldsSchema,
+  }),
+  z.object({
+    entity: z.literal('journalEntry'),
+    op: z.literal('update'),
+    id: uuidSchema,
+    data: syncJournalEntryFieldsSchema.partial(),
+    expectedUpdatedAt: syncExpectedUpdatedAtSchema,
+  }),
+  z.object({
+    entity: z.enum(['goal', 'journalEntry']),
+    op: z.literal('delete'),
+    id: uuidSchema,
+    expectedUpdatedAt: syncExpectedUpdatedAtSchema,
+  }),
+  z.object({
+    entity: z.literal('mention'),
+    op: z.literal('create'),
+    id: uuidSchema,
+    data: z.object({
+      journalEntryId: uuidSchema,
+      goalId: uuidSchema,
+      mentionedExplicitly: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    entity: z.literal('mention'),
+    op: z.literal('delete'),
+    id: uuidSchema,
+  }),
+]);
+
+export const syncRequestSchema = z.object({
+  mutations: z
+    .array(syncMutationSchema)
+    .min(1)
+    .max(500)
+    .describe('Applied in order in one transaction; create parents before what refers to them'),
+});
+
+// ============================================
+// Search
+// ============================================
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'q is required').max(500, 'Query too long'),
+  type: z.enum(['journal', 'goal']).optional(),
+  mood: moodSchema.optional(),
+  tag: z.string().max(50).optional(),
+  dateFrom: dateOnlySchema.optional(),
+  dateTo: dateOnlySchema.optional(),
+  goalId: z.string().uuid('Invalid goal ID').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const searchResultSchema = z.object({
+  kind: z.enum(['journal', 'goal']),
+  id: uuidSchema,
+  title: z.string().nullable(),
+  titleHighlight: z.string().describe('HTML-escaped; matches wrapped in <mark>'),
+  snippet: z.string().describe('HTML-escaped; matches wrapped in <mark>'),
+  rank: z.number(),
+  entryDate: dateOnlySchema.nullable(),
+  mood: moodSchema.nullable(),
+  tags: z.array(z.string()),
+  goalType: goalTypeSchema.nullable(),
+  goalStatus: goalStatusSchema.nullable(),
+  updatedAt: dateTimeSchema,
+});
+
+// ============================================
+// AI Analysis
+// ============================================
+
+export const analyzeJournalSchema = z.object({
+  journalId: z.string().uuid('Invalid journal ID'),
+});
+
+export const insightsTimelineSchema = z.enum(['week', 'month']);
+
+export const insightsQuerySchema = z.object({
+  timeline: insightsTimelineSchema.default('week'),
+  refresh: z.enum(['true', 'false']).optional().describe('"true" skips the cached insight'),
+});
+
+export const insightsRequestSchema = z.object({
+  timeline: insightsTimelineSchema.optional(),
+  analysisType: z.enum(['weekly', 'monthly']).optional(),
+  refresh: z.boolean().optional().default(false),
+});
+
+// JSONB columns: known keys are listed, others are passed through
+const aiInsightsSchema = z
+  .object({
+    patterns: z.array(z.string()).optional(),
+    sentiment: z.string().optional(),
+    key_themes: z.array(z.string()).optional(),
+    goal_alignment: z.record(z.number()).optional(),
+  })
+  .passthrough();
+
+const aiRecommendationsSchema = z
+  .object({
+    suggestions: z.array(z.string()).optional(),
+    action_items: z.array(z.string()).optional(),
+    focus_areas: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+const aiProgressSummarySchema = z
+  .object({
+    overall_progress: z.number().optional(),
+    goals_on_track: z.array(z.string()).optional(),
+    goals_behind: z.array(z.string()).optional(),
+    momentum_score: z.number().optional(),
+  })
+  .passthrough();
+
+export const aiAnalysisSchema = z.object({
+  id: uuidSchema,
+  userId: uuidSchema,
+  analysisType: analysisTypeSchema,
+  journalEntriesAnalyzed: z.array(uuidSchema),
+  goalsAnalyzed: z.array(uuidSchema),
+  insights: aiInsightsSchema,
+  recommendations: aiRecommendationsSchema.nullable(),
+  progressSummary: aiProgressSummarySchema.nullable(),
+  tokensUsed: z.number().int().nullable(),
+  createdAt: dateTimeSchema,
+});
+
+export const journalAnalysisResultSchema = z.object({
+  analysis: aiAnalysisSchema,
+  journal: journalEntrySchema.pick({ id: true, title: true, entryDate: true, mood: true }),
+  linkedGoalsCount: z.number().int(),
+});
+
+const keyAchievementSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  goal_id: z.string().optional(),
+  date: z.string().optional(),
+});
+
+const areaForImprovementSchema = z.object({
+  area: z.string(),
+  suggestion: z.string(),
+  priority: z.enum(['high', 'medium', 'low']).optional(),
+});
+
+const goalProgressUpdateSchema = z.object({
+  goal_id: z.string(),
+  goal_title: z.string(),
+  previous_progress: z.number(),
+  current_progress: z.number(),
+  change: z.number(),
+  notes: z.string().optional(),
+});
+
+export const insightsResultSchema = z.object({
+  analysis: aiAnalysisSchema,
+  cached: z.boolean().describe('true when an insight generated earlier in the period is returned'),
+  timeline: insightsTimelineSchema,
+  periodStart: dateTimeSchema,
+  // Only present for freshly generated insights
+  summary: z.string().optional(),
+  keyAchievements: z.array(keyAchievementSchema).optional(),
+  areasForImprovement: z.array(areaForImprovementSchema).optional(),
+  goalProgressUpdates: z.array(goalProgressUpdateSchema).optional(),
+  stats: z
+    .object({
+      activeGoals: z.number().int(),
+      completedGoals: z.number().int(),
+      journalCount: z.number().int(),
+      currentStreak: z.number().int(),
+      avgMood: z.string().optional(),
+    })
+    .optional(),
+});
+
+// ============================================
+// Webhooks
+// ============================================
+
+export const webhookEventTypeSchema = z.enum(
+  WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]]
+);
+
+// Plain http and private addresses are only accepted outside production (e.g.
+// scripts/webhook-receiver.js)
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine(
+    (url) =>
+      url.startsWith('https://') ||
+      (process.env.NODE_ENV !== 'production' && url.startsWith('http://')),
+    { message: 'Webhook URL must use https' }
+  )
+  .refine(isAllowedWebhookUrl, {
+    message: 'Webhook URL must point to a public address, not a private or reserved one',
+  });
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200).nullable().optional(),
+  events: z.array(webhookEventTypeSchema).min(1, 'Select at least one event'),
+});
+
+export const updateWebhookEndpointSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    description: z.string().trim().max(200).nullable().optional(),
+    events: z.array(webhookEventTypeSchema).min(1, 'Select at least one event').optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  });
+
+// ============================================
+// Notifications
+// ============================================
+
+export const notificationChannelSchema = z.enum(
+  NOTIFICATION_CHANNELS as [NotificationChannel, ...NotificationChannel[]]
+);
+
+export const reminderRuleSchema = z.enum(REMINDER_RULES as [ReminderRule, ...ReminderRule[]]);
+
+// HH:MM, 24-hour clock
+export const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Invalid time (expected HH:MM)');
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    channels: z.array(notificationChannelSchema).optional(),
+    rules: z.array(reminderRuleSchema).optional(),
+    reminderTime: timeOfDaySchema.optional(),
+    quietHoursStart: timeOfDaySchema.nullable().optional(),
+    quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field required',
+  })
+  .refine(
+    (data) =>
+      (data.quietHoursStart === undefined) === (data.quietHoursEnd === undefined) &&
+      (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+    {
+      message: 'Set both quiet hours start and end, or clear both',
+      path: ['quietHoursEnd'],
+    }
+  );
+
+export const markNotificationsReadSchema = z.union([
+  z.object({ ids: z.array(uuidSchema).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+// PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2000).startsWith('https://'),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+  userAgent: z.string().max(500).nullable().optional(),
+});
+
+export const deletePushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2000),
+});
+
+// ============================================
+// Envelopes (ApiResponse<T> / PaginatedResponse<T>)
+// ============================================
+
+export const deletedSchema = z.object({ id: uuidSchema });
+
+export const apiErrorSchema = z.object({
+  message: z.string(),
+  code: z.string().optional(),
+  status: z.number().int().optional(),
+  details: z.record(z.unknown()).optional().describe('Per-field validation errors'),
+});
+
+export const paginationSchema = z.object({
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  totalCount: z.number().int(),
+  totalPages: z.number().int(),
+  hasNext: z.boolean(),
+  hasPrev: z.boolean(),
+});
+
+export const apiErrorResponseSchema = z.object({
+  success: z.literal(false),
+  data: z.null(),
+  error: apiErrorSchema,
+});
+
+export function apiResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.literal(true),
+    data,
+    error: z.null(),
+  });
+}
+
+export function paginatedResponseSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    success: z.literal(true),
+    data: z.array(item),
+    pagination: paginationSchema,
+    error: z.null(),
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Accepted attachment formats and size limits
+ * Shared with the browser (file picker, early size checks); the server decides the type from
+ * the file's leading bytes, never from the name or the type the client claims.
+ */
+
+import type { AttachmentKind } from '@/types';
+
+export const ATTACHMENT_MAX_BYTES: Record<AttachmentKind, number> = {
+  image: 10 * 1024 * 1024,
+  audio: 25 * 1024 * 1024,
+  file: 10 * 1024 * 1024,
+};
+
+// Uploads over the largest limit are refused before they are read
+export const MAX_ATTACHMENT_UPLOAD_BYTES = Math.max(...Object.values(ATTACHMENT_MAX_BYTES));
+
+export const ATTACHMENT_CONTENT_TYPES: Record<string, AttachmentKind> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'image/heic': 'image',
+  'audio/mpeg': 'audio',
+  'audio/mp4': 'audio',
+  'audio/wav': 'audio',
+  'audio/ogg': 'audio',
+  'audio/webm': 'audio',
+  'application/pdf': 'file',
+  'text/plain': 'file',
+  'text/markdown': 'file',
+  'text/csv': 'file',
+};
+
+// Text formats have no signature and are recognised by extension
+const TEXT_EXTENSIONS: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+};
+
+/** accept attribute for file inputs */
+export const ATTACHMENT_ACCEPT = [
+  ...Object.keys(ATTACHMENT_CONTENT_TYPES),
+  '.heic',
+  '.m4a',
+  ...Object.keys(TEXT_EXTENSIONS).map((extension) => `.${extension}`),
+].join(',');
+
+// iso5/iso6: fragmented MP4, as written by MediaRecorder in some browsers
+const MP4_AUDIO_BRANDS = ['M4A ', 'M4B ', 'mp42', 'isom', 'iso5', 'iso6'];
+const HEIF_BRANDS = ['heic', 'heix', 'mif1', 'msf1'];
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode.apply(null, Array.from(bytes.subarray(start, end)));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * The content type of an upload from its leading bytes (at least the first 16; the first
+ * 8 KB for text files), or null when it is not an accepted format
+ */
+export function detectContentType(bytes: Uint8Array, fileName: string): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 12);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+  }
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    if (HEIF_BRANDS.includes(brand)) return 'image/heic';
+    if (MP4_AUDIO_BRANDS.includes(brand)) return 'audio/mp4';
+  }
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+  if (ascii(bytes, 0, 4) === 'OggS') return 'audio/ogg';
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'audio/webm';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const textType = TEXT_EXTENSIONS[extension];
+  if (textType && !bytes.subarray(0, 8192).includes(0)) return textType;
+
+  return null;
+}
+
+/** Human-readable size, e.g. 2.4 MB */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
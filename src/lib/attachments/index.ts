@@ -0,0 +1,211 @@
+/**
+ * Journal attachments
+ * Uploads are checked (type from the file's bytes, size per kind), images get a WebP
+ * thumbnail, and the files go to the storage backend before the journal_attachments row is
+ * written. Deleting the row first and the files second means a failure can only leave
+ * unreferenced files behind, never a row without its file.
+ */
+
+import { randomUUID } from 'node:crypto';
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalAttachmentRow } from '@/types/database.types';
+import type { AttachmentKind, JournalAttachment } from '@/types';
+import { mapJournalAttachmentFromRow as mapAttachment } from '@/types';
+import { createJournalAttachment, getJournalAttachmentById } from '@/lib/db/attachments';
+import { getStorage } from '@/lib/storage';
+import { ATTACHMENT_CONTENT_TYPES, ATTACHMENT_MAX_BYTES, detectContentType } from './formats';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+// Longest side of image thumbnails, in pixels
+const THUMBNAIL_SIZE = 480;
+
+const THUMBNAIL_CONTENT_TYPE = 'image/webp';
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  image: 'Images',
+  audio: 'Audio files',
+  file: 'Files',
+};
+
+/**
+ * The uploaded file cannot be attached (empty, too large or an unsupported type)
+ */
+export class AttachmentFileError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 | 415
+  ) {
+    super(message);
+    this.name = 'AttachmentFileError';
+  }
+}
+
+export interface AttachmentUpload {
+  fileName: string;
+  data: Buffer;
+}
+
+export interface AttachmentFile {
+  attachment: JournalAttachmentRow;
+  data: Uint8Array;
+  contentType: string;
+}
+
+function cleanFileName(fileName: string): string {
+  const name = fileName
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\x00-\x1f\x7f]/g, '')
+    .trim();
+  return name.slice(0, 255) || 'attachment';
+}
+
+interface ImageInfo {
+  width: number | null;
+  height: number | null;
+  thumbnail: Buffer | null;
+}
+
+/**
+ * Dimensions (as displayed, after EXIF rotation) and a thumbnail of an image
+ * Formats sharp cannot decode (e.g. some HEIC photos) are kept without either
+ */
+async function readImage(data: Buffer): Promise<ImageInfo> {
+  try {
+    const metadata = await sharp(data).metadata();
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    return {
+      width: (rotated ? metadata.height : metadata.width) ?? null,
+      height: (rotated ? metadata.width : metadata.height) ?? null,
+      thumbnail,
+    };
+  } catch (error) {
+    console.error('Attachment thumbnail error:', error);
+    return { width: null, height: null, thumbnail: null };
+  }
+}
+
+/**
+ * Validate an upload, store it and attach it to a journal entry
+ * The caller checks that the entry exists and belongs to the user
+ */
+export async function saveJournalAttachment(
+  supabase: SupabaseClientAny,
+  userId: string,
+  journalId: string,
+  upload: AttachmentUpload
+): Promise<JournalAttachment> {
+  if (upload.data.length === 0) {
+    throw new AttachmentFileError('File is empty', 400);
+  }
+
+  const contentType = detectContentType(upload.data, upload.fileName);
+  if (!contentType) {
+    throw new AttachmentFileError(
+      'Unsupported file type. Attach photos (JPEG, PNG, GIF, WebP, HEIC), audio (MP3, M4A, WAV, Ogg, WebM), PDFs or text files',
+      415
+    );
+  }
+
+  const kind = ATTACHMENT_CONTENT_TYPES[contentType];
+  const maxBytes = ATTACHMENT_MAX_BYTES[kind];
+  if (upload.data.length > maxBytes) {
+    throw new AttachmentFileError(
+      `${KIND_LABELS[kind]} can be at most ${maxBytes / 1024 / 1024} MB`,
+      413
+    );
+  }
+
+  const image = kind === 'image' ? await readImage(upload.data) : null;
+
+  const id = randomUUID();
+  const storageKey = `${userId}/${journalId}/${id}`;
+  const thumbnailKey = image?.thumbnail ? `${storageKey}.thumbnail.webp` : null;
+
+  const storage = getStorage();
+  const storedKeys: string[] = [];
+
+  try {
+    await storage.put(storageKey, upload.data, contentType);
+    storedKeys.push(storageKey);
+    if (thumbnailKey && image?.thumbnail) {
+      await storage.put(thumbnailKey, image.thumbnail, THUMBNAIL_CONTENT_TYPE);
+      storedKeys.push(thumbnailKey);
+    }
+
+    const row = await createJournalAttachment(supabase, {
+      id,
+      journal_entry_id: journalId,
+      user_id: userId,
+      kind,
+      file_name: cleanFileName(upload.fileName),
+      content_type: contentType,
+      size_bytes: upload.data.length,
+      storage_key: storageKey,
+      thumbnail_key: thumbnailKey,
+      width: image?.width ?? null,
+      height: image?.height ?? null,
+    });
+
+    return mapAttachment(row);
+  } catch (error) {
+    await storage.delete(storedKeys).catch((cleanupError) => {
+      console.error('Attachment cleanup error:', cleanupError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Read an attachment's file, or its thumbnail when there is one (validates user ownership)
+ * Returns null when the attachment does not exist or its file is missing
+ */
+export async function readJournalAttachment(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string,
+  options: { thumbnail?: boolean } = {}
+): Promise<AttachmentFile | null> {
+  const attachment = await getJournalAttachmentById(supabase, id, userId);
+  if (!attachment) return null;
+
+  const useThumbnail = options.thumbnail === true && attachment.thumbnail_key !== null;
+  const data = await getStorage().get(
+    useThumbnail ? (attachment.thumbnail_key as string) : attachment.storage_key
+  );
+  if (!data) return null;
+
+  return {
+    attachment,
+    data,
+    contentType: useThumbnail ? THUMBNAIL_CONTENT_TYPE : attachment.content_type,
+  };
+}
+
+/**
+ * Remove the stored files of attachments whose rows have been deleted
+ * Errors are logged rather than thrown, since the attachments are already gone
+ */
+export async function removeAttachmentFiles(attachments: JournalAttachmentRow[]): Promise<void> {
+  const keys: string[] = [];
+  for (const attachment of attachments) {
+    keys.push(attachment.storage_key);
+    if (attachment.thumbnail_key) keys.push(attachment.thumbnail_key);
+  }
+  if (keys.length === 0) return;
+
+  try {
+    await getStorage().delete(keys);
+  } catch (error) {
+    console.error('Remove attachment files error:', error);
+  }
+}
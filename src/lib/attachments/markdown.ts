@@ -0,0 +1,44 @@
+/**
+ * Attachment links in journal Markdown
+ * Entries refer to their attachments as attachment:<id> (![photo](attachment:...) for
+ * images), so the content stays valid wherever the files are served from. Renderers turn
+ * these into /api/attachments URLs.
+ */
+
+import type { JournalAttachment } from '@/types';
+
+export const ATTACHMENT_URL_SCHEME = 'attachment:';
+
+const ATTACHMENT_URL_PATTERN = /^attachment:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/** The attachment id of an attachment:<id> URL, or null for any other URL */
+export function getAttachmentIdFromUrl(url: string): string | null {
+  const match = ATTACHMENT_URL_PATTERN.exec(url);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/** Where the app serves an attachment; thumbnail falls back to the original server-side */
+export function getAttachmentUrl(id: string, options: { thumbnail?: boolean } = {}): string {
+  return `/api/attachments/${id}${options.thumbnail ? '?thumbnail=true' : ''}`;
+}
+
+/** Ids of the attachments an entry's content links to */
+export function getLinkedAttachmentIds(content: string): string[] {
+  const ids: string[] = [];
+  const pattern = /\(attachment:([0-9a-f-]{36})\)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    const id = match[1].toLowerCase();
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/** Markdown that embeds an attachment: an image for photos, a link otherwise */
+export function toAttachmentMarkdown(
+  attachment: Pick<JournalAttachment, 'id' | 'kind' | 'fileName'>
+): string {
+  const label = attachment.fileName.replace(/([\\[\]])/g, '\\$1');
+  const link = `[${label}](${ATTACHMENT_URL_SCHEME}${attachment.id})`;
+  return attachment.kind === 'image' ? `!${link}` : link;
+}
@@ -0,0 +1,168 @@
+/**
+ * Request authentication for API routes
+ * Every route under src/app/api resolves its user and Supabase client here. Accepted credentials:
+ *   - Authorization: Bearer <personal access token> ("mjp_..."), limited to the token's scopes
+ *   - Authorization: Bearer <Supabase access token> (iOS client), full access
+ *   - Session cookies (web client), full access
+ * An Authorization header takes precedence over cookies and is never combined with them.
+ * Scheduled jobs under /api/cron authenticate with CRON_SECRET instead (authenticateCronRequest).
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { authenticatePersonalAccessToken } from '@/lib/db/tokens';
+import type { ApiError, TokenScope } from '@/types';
+import { isPersonalAccessToken, signTokenSessionJwt } from './tokens';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export type AuthMethod = 'cookie' | 'bearer' | 'token';
+
+export interface AuthContext {
+  success: true;
+  supabase: SupabaseClientAny;
+  user: { id: string };
+  method: AuthMethod;
+  scopes: TokenScope[] | null; // null = full access (signed-in session)
+  tokenId: string | null;
+}
+
+export interface AuthFailure {
+  success: false;
+  error: ApiError & { status: number };
+}
+
+export interface CronAuthContext {
+  success: true;
+  supabase: SupabaseClientAny; // Service role: bypasses RLS
+}
+
+export interface AuthenticateOptions {
+  scopes?: TokenScope[]; // All required when authenticating with a personal access token
+  allowTokens?: boolean; // false for routes that must not be reachable with a token (default true)
+}
+
+function createBearerClient(accessToken?: string): SupabaseClientAny {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    }
+  );
+}
+
+function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7).trim() || null;
+}
+
+function unauthorized(message: string = 'Unauthorized'): AuthFailure {
+  return { success: false, error: { message, status: 401 } };
+}
+
+async function authenticateToken(
+  secret: string,
+  options: AuthenticateOptions
+): Promise<AuthContext | AuthFailure> {
+  if (options.allowTokens === false) {
+    return {
+      success: false,
+      error: { message: 'Personal access tokens cannot be used for this endpoint', status: 403 },
+    };
+  }
+
+  const token = await authenticatePersonalAccessToken(createBearerClient(), secret);
+  if (!token) {
+    return unauthorized('Invalid, expired or revoked access token');
+  }
+
+  const missing = (options.scopes ?? []).filter((scope) => !token.scopes.includes(scope));
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: { message: `Access token is missing required scope: ${missing.join(', ')}`, status: 403 },
+    };
+  }
+
+  return {
+    success: true,
+    supabase: createBearerClient(signTokenSessionJwt(token.userId)),
+    user: { id: token.userId },
+    method: 'token',
+    scopes: token.scopes,
+    tokenId: token.tokenId,
+  };
+}
+
+/**
+ * Authenticate an API request. On failure the error carries the status to respond with
+ * (401 for missing/invalid credentials, 403 for a token without the required scopes).
+ */
+export async function authenticateRequest(
+  request: Request,
+  options: AuthenticateOptions = {}
+): Promise<AuthContext | AuthFailure> {
+  const bearer = getBearerToken(request);
+
+  if (bearer && isPersonalAccessToken(bearer)) {
+    return authenticateToken(bearer, options);
+  }
+
+  if (bearer) {
+    const supabase = createBearerClient(bearer);
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(bearer);
+
+    if (!user) {
+      return unauthorized();
+    }
+
+    return { success: true, supabase, user, method: 'bearer', scopes: null, tokenId: null };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return unauthorized();
+  }
+
+  return { success: true, supabase, user, method: 'cookie', scopes: null, tokenId: null };
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Authenticate a scheduled job (Vercel Cron or any scheduler sending
+ * Authorization: Bearer <CRON_SECRET>). Jobs work across users, so the client uses the
+ * service role and every query must filter by user itself.
+ */
+export function authenticateCronRequest(request: Request): CronAuthContext | AuthFailure {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return {
+      success: false,
+      error: { message: 'CRON_SECRET is not configured; scheduled jobs are disabled', status: 503 },
+    };
+  }
+
+  const bearer = getBearerToken(request);
+  if (!bearer || !timingSafeEqual(digest(bearer), digest(secret))) {
+    return unauthorized();
+  }
+
+  return { success: true, supabase: createAdminClient() };
+}
@@ -0,0 +1,68 @@
+/**
+ * Personal access token primitives
+ * Tokens look like "mjp_<43 base64url chars>". Only the SHA-256 hash is stored; requests made
+ * with a token get a short-lived Supabase JWT for its owner so RLS still applies.
+ */
+
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'mjp_';
+
+// Characters kept in token_prefix to tell tokens apart in the settings UI
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+// Lifetime of the JWT minted for a single token-authenticated request
+const TOKEN_SESSION_TTL_SECONDS = 5 * 60;
+
+export interface GeneratedPersonalAccessToken {
+  secret: string;
+  hash: string;
+  displayPrefix: string;
+}
+
+export function isPersonalAccessToken(value: string): boolean {
+  return value.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+export function hashPersonalAccessToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function generatePersonalAccessToken(): GeneratedPersonalAccessToken {
+  const secret = PERSONAL_ACCESS_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  return {
+    secret,
+    hash: hashPersonalAccessToken(secret),
+    displayPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Sign an HS256 JWT for the user with the project's JWT secret (SUPABASE_JWT_SECRET),
+ * accepted by PostgREST as if the user had signed in
+ */
+export function signTokenSessionJwt(userId: string): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET is not configured; personal access tokens are unavailable');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: now,
+      exp: now + TOKEN_SESSION_TTL_SECONDS,
+    })
+  );
+  const signature = base64url(createHmac('sha256', secret).update(`${header}.${payload}`).digest());
+
+  return `${header}.${payload}.${signature}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Anthropic provider
+ * Messages API through the official SDK
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeAPIError } from './errors';
+import type { LLMProvider } from './provider';
+
+export interface AnthropicProviderConfig {
+  apiKey?: string;
+  model: string;
+  maxTokens: number;
+}
+
+export function createAnthropicProvider(config: AnthropicProviderConfig): LLMProvider {
+  let client: Anthropic | null = null;
+
+  const getClient = (): Anthropic => {
+    if (!client) {
+      if (!config.apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable not set');
+      }
+      client = new Anthropic({ apiKey: config.apiKey });
+    }
+    return client;
+  };
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+    async complete({ prompt }) {
+      try {
+        const response = await getClient().messages.create({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          messages: [{ role: 'user', content: prompt }],
+        });
+
+        const textContent = response.content.find(c => c.type === 'text');
+        if (!textContent || textContent.type !== 'text') {
+          throw new ClaudeAPIError('No text response from Claude');
+        }
+
+        return {
+          text: textContent.text,
+          tokensUsed: (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0),
+        };
+      } catch (error) {
+        if (error instanceof Anthropic.APIError) {
+          throw new ClaudeAPIError(error.message, error.status, error.status === 429);
+        }
+        throw error;
+      }
+    },
+  };
+}
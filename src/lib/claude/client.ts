@@ -1,9 +1,9 @@
 /**
- * Claude API client wrapper for AI analysis
- * Uses Anthropic SDK with proper error handling and token tracking
+ * AI analysis client
+ * Builds prompts, runs them through the configured LLM provider (see provider.ts)
+ * and parses the JSON answers, with error handling and token tracking
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import type {
   Goal,
   JournalEntry,
@@ -14,24 +14,10 @@ import type {
   AreaForImprovement,
   GoalProgressUpdate,
 } from '@/types';
+import { ClaudeAPIError } from './errors';
+import { getLLMProvider, type LLMTask } from './provider';
 
-// Model configuration
-const MODEL = 'claude-3-5-sonnet-20241022';
-const MAX_TOKENS = 2048;
-
-// Singleton client instance
-let client: Anthropic | null = null;
-
-function getClient(): Anthropic {
-  if (!client) {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable not set');
-    }
-    client = new Anthropic({ apiKey });
-  }
-  return client;
-}
+export { ClaudeAPIError };
 
 // Response types
 export interface JournalAnalysisResult {
@@ -57,18 +43,6 @@ export interface WeeklyInsightsResult {
   tokensUsed: number;
 }
 
-// Error class for API failures
-export class ClaudeAPIError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public isRateLimited?: boolean
-  ) {
-    super(message);
-    this.name = 'ClaudeAPIError';
-  }
-}
-
 /**
  * Analyze a journal entry - returns sentiment, themes, goal alignment
  */
@@ -77,10 +51,8 @@ export async function analyzeJournalEntry(
   goals: Goal[],
   mood: string | null
 ): Promise<JournalAnalysisResult> {
-  const anthropic = getClient();
-
   const goalsContext = goals.length > 0
-    ? `User's goals:\n${goals.map(g => `- ${g.title} (${g.type}, ${g.status}, ${g.progressPercentage}% progress)`).join('\n')}`
+    ? `User's goals:\n${goals.map(g => `- [${g.id}] ${g.title} (${g.type}, ${g.status}, ${g.progressPercentage}% progress)`).join('\n')}`
     : 'No goals defined.';
 
   const moodContext = mood ? `Reported mood: ${mood}` : 'No mood reported.';
@@ -111,42 +83,17 @@ Analyze and return JSON with this exact structure:
   }
 }
 
-For goal_alignment, score 0.0-1.0 how much this entry relates to each goal. Only include goals that are mentioned or relevant.
+For goal_alignment, key by the goal id in brackets and score 0.0-1.0 how much this entry relates to each goal. Only include goals that are mentioned or relevant.
+Keep key_themes to short topic labels (1-3 words) that could serve as tags.
 Keep patterns, themes, suggestions to 3-5 items max. Be specific and actionable.`;
 
-  try {
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: MAX_TOKENS,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new ClaudeAPIError('No text response from Claude');
-    }
-
-    const tokensUsed = (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
-
-    // Parse JSON response
-    const parsed = parseJSONResponse(textContent.text);
-
-    return {
-      insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
-      recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
-      tokensUsed,
-    };
-  } catch (error) {
-    if (error instanceof ClaudeAPIError) throw error;
-    if (error instanceof Anthropic.APIError) {
-      throw new ClaudeAPIError(
-        error.message,
-        error.status,
-        error.status === 429
-      );
-    }
-    throw new ClaudeAPIError(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  const { parsed, tokensUsed } = await runPrompt('journal-analysis', prompt);
+
+  return {
+    insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
+    recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
+    tokensUsed,
+  };
 }
 
 /**
@@ -156,8 +103,6 @@ export async function analyzeGoalProgress(
   goal: Goal,
   relatedJournals: JournalEntry[]
 ): Promise<GoalAnalysisResult> {
-  const anthropic = getClient();
-
   const journalsContext = relatedJournals.length > 0
     ? `Related journal entries (${relatedJournals.length}):\n${relatedJournals.map(j =>
         `[${j.entryDate}] ${j.mood ? `(${j.mood})` : ''} ${j.content.slice(0, 200)}...`
@@ -204,39 +149,14 @@ Assess if the goal is on track based on progress %, time remaining, and journal
 momentum_score: 0-100 based on recent activity and progress rate.
 Be specific about what's working and what needs attention.`;
 
-  try {
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: MAX_TOKENS,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new ClaudeAPIError('No text response from Claude');
-    }
-
-    const tokensUsed = (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
-
-    const parsed = parseJSONResponse(textContent.text);
-
-    return {
-      insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
-      recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
-      progressSummary: (parsed.progress_summary as AIProgressSummary) ?? { overall_progress: goal.progressPercentage, momentum_score: 50 },
-      tokensUsed,
-    };
-  } catch (error) {
-    if (error instanceof ClaudeAPIError) throw error;
-    if (error instanceof Anthropic.APIError) {
-      throw new ClaudeAPIError(
-        error.message,
-        error.status,
-        error.status === 429
-      );
-    }
-    throw new ClaudeAPIError(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  const { parsed, tokensUsed } = await runPrompt('goal-analysis', prompt);
+
+  return {
+    insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
+    recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
+    progressSummary: (parsed.progress_summary as AIProgressSummary) ?? { overall_progress: goal.progressPercentage, momentum_score: 50 },
+    tokensUsed,
+  };
 }
 
 /**
@@ -253,8 +173,6 @@ export async function generateWeeklyInsights(
     avgMood?: string;
   }
 ): Promise<WeeklyInsightsResult> {
-  const anthropic = getClient();
-
   const journalsContext = journals.length > 0
     ? `Journal entries this period (${journals.length}):\n${journals.map(j =>
         `[${j.entryDate}] Mood: ${j.mood ?? 'none'}\n${j.content.slice(0, 150)}...`
@@ -306,46 +224,37 @@ Generate JSON with this exact structure:
 
 Be encouraging but honest. Focus on progress and momentum. Keep items to 3-5 max.`;
 
+  const { parsed, tokensUsed } = await runPrompt('weekly-insights', prompt);
+
+  return {
+    summary: (parsed.summary as string) ?? 'No summary available.',
+    keyAchievements: (parsed.key_achievements as KeyAchievement[]) ?? [],
+    areasForImprovement: (parsed.areas_for_improvement as AreaForImprovement[]) ?? [],
+    goalProgressUpdates: (parsed.goal_progress_updates as GoalProgressUpdate[]) ?? [],
+    insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
+    recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
+    tokensUsed,
+  };
+}
+
+/**
+ * Run a prompt through the configured provider and parse its JSON answer
+ */
+async function runPrompt(
+  task: LLMTask,
+  prompt: string
+): Promise<{ parsed: Record<string, unknown>; tokensUsed: number }> {
   try {
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: MAX_TOKENS,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new ClaudeAPIError('No text response from Claude');
-    }
-
-    const tokensUsed = (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
-
-    const parsed = parseJSONResponse(textContent.text);
-
-    return {
-      summary: (parsed.summary as string) ?? 'No summary available.',
-      keyAchievements: (parsed.key_achievements as KeyAchievement[]) ?? [],
-      areasForImprovement: (parsed.areas_for_improvement as AreaForImprovement[]) ?? [],
-      goalProgressUpdates: (parsed.goal_progress_updates as GoalProgressUpdate[]) ?? [],
-      insights: (parsed.insights as AIAnalysisInsights) ?? { sentiment: 'neutral', patterns: [], key_themes: [] },
-      recommendations: (parsed.recommendations as AIAnalysisRecommendations) ?? { suggestions: [], action_items: [], focus_areas: [] },
-      tokensUsed,
-    };
+    const completion = await getLLMProvider().complete({ task, prompt });
+    return { parsed: parseJSONResponse(completion.text), tokensUsed: completion.tokensUsed };
   } catch (error) {
     if (error instanceof ClaudeAPIError) throw error;
-    if (error instanceof Anthropic.APIError) {
-      throw new ClaudeAPIError(
-        error.message,
-        error.status,
-        error.status === 429
-      );
-    }
-    throw new ClaudeAPIError(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new ClaudeAPIError(`LLM API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Parse JSON from Claude response, handling markdown code blocks
+ * Parse JSON from the model response, handling markdown code blocks
  */
 function parseJSONResponse(text: string): Record<string, unknown> {
   // Remove markdown code blocks if present
@@ -360,7 +269,7 @@ function parseJSONResponse(text: string): Record<string, unknown> {
   try {
     return JSON.parse(jsonStr);
   } catch (e) {
-    console.error('Failed to parse Claude response as JSON:', text.slice(0, 200));
-    throw new ClaudeAPIError('Invalid JSON response from Claude');
+    console.error('Failed to parse LLM response as JSON:', text.slice(0, 200));
+    throw new ClaudeAPIError('Invalid JSON response from LLM');
   }
 }
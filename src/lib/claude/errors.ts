@@ -0,0 +1,11 @@
+// Error class for API failures, raised by every LLM provider
+export class ClaudeAPIError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public isRateLimited?: boolean
+  ) {
+    super(message);
+    this.name = 'ClaudeAPIError';
+  }
+}
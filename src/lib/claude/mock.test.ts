@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Goal } from '@/types';
+import { analyzeJournalEntry } from './client';
+import { createMockProvider } from './mock';
+import { suggestGoalLinks } from './suggestions';
+
+const goals = [
+  { id: '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f', title: 'Run a marathon', type: 'long-term' },
+  { id: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d', title: 'Read 20 books', type: 'short-term' },
+].map((goal) => ({ ...goal, status: 'active', progressPercentage: 0 }) as Goal);
+
+describe('mock LLM provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('aligns a journal analysis with the goals in the prompt, so links are suggested', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+
+    const entry = 'Long run before work, then read a chapter.';
+    const result = await analyzeJournalEntry(entry, goals, null);
+
+    expect(result.insights.goal_alignment).toEqual({ [goals[0].id]: 0.6, [goals[1].id]: 0.6 });
+    expect(suggestGoalLinks(result.insights, goals).map((s) => s.goal.id)).toEqual(
+      goals.map((goal) => goal.id)
+    );
+  });
+
+  it('leaves goal_alignment empty when no goals are listed', async () => {
+    const { text } = await createMockProvider().complete({
+      task: 'journal-analysis',
+      prompt: 'No goals defined.',
+    });
+
+    expect(JSON.parse(text).insights.goal_alignment).toEqual({});
+  });
+
+  it('answers the same request the same way', async () => {
+    const provider = createMockProvider();
+    const request = { task: 'goal-analysis' as const, prompt: 'Analyze goal progress' };
+
+    expect((await provider.complete(request)).text).toBe((await provider.complete(request)).text);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Mock provider for tests and local development
+ * Returns a fixed fixture per task, so the same request always gets the same answer
+ * and nothing leaves the machine. A journal analysis with an empty goal_alignment scores
+ * every goal listed in the prompt, so goal suggestions work offline too.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LLMProvider, LLMTask } from './provider';
+
+export interface MockProviderConfig {
+  fixturesDir?: string; // <task>.json files here replace the built-in fixtures
+}
+
+// At least suggestGoalLinks' default minAlignment, so every listed goal is suggested
+const MOCK_GOAL_ALIGNMENT = 0.6;
+
+// Goals are listed in analysis prompts as "- [<id>] <title> (...)"
+const PROMPT_GOAL_PATTERN = /^- \[([^\]]+)\]/gm;
+
+const FIXTURES: Record<LLMTask, Record<string, unknown>> = {
+  'journal-analysis': {
+    insights: {
+      sentiment: 'neutral',
+      patterns: ['Writes about plans more than outcomes'],
+      key_themes: ['routine', 'focus'],
+      goal_alignment: {},
+    },
+    recommendations: {
+      suggestions: ['Note one concrete result at the end of each entry'],
+      action_items: ['Pick a single priority for tomorrow'],
+      focus_areas: ['Consistency'],
+    },
+  },
+  'goal-analysis': {
+    insights: {
+      sentiment: 'neutral',
+      patterns: ['Progress comes in bursts'],
+      key_themes: ['momentum'],
+    },
+    recommendations: {
+      suggestions: ['Break the goal into weekly milestones'],
+      action_items: ['Schedule the next step'],
+      focus_areas: ['Planning'],
+    },
+    progress_summary: {
+      overall_progress: 50,
+      goals_on_track: ['Steady journal activity'],
+      goals_behind: [],
+      momentum_score: 50,
+    },
+  },
+  'weekly-insights': {
+    summary: 'A steady period with regular journaling and gradual progress on active goals.',
+    key_achievements: [],
+    areas_for_improvement: [
+      { area: 'Consistency', suggestion: 'Journal at the same time each day', priority: 'medium' },
+    ],
+    goal_progress_updates: [],
+    insights: {
+      sentiment: 'neutral',
+      patterns: ['Entries cluster early in the week'],
+      key_themes: ['routine'],
+    },
+    recommendations: {
+      suggestions: ['Review goals every Sunday'],
+      action_items: ['Set one goal for the coming week'],
+      focus_areas: ['Reflection'],
+    },
+  },
+};
+
+async function loadFixture(task: LLMTask, fixturesDir?: string): Promise<Record<string, unknown>> {
+  if (fixturesDir) {
+    try {
+      return JSON.parse(await readFile(path.join(fixturesDir, `${task}.json`), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return FIXTURES[task];
+}
+
+function alignWithPromptGoals(
+  fixture: Record<string, unknown>,
+  prompt: string
+): Record<string, unknown> {
+  const insights = fixture.insights as { goal_alignment?: Record<string, number> } | undefined;
+  if (!insights?.goal_alignment || Object.keys(insights.goal_alignment).length > 0) {
+    return fixture;
+  }
+
+  const goalAlignment: Record<string, number> = {};
+  const pattern = new RegExp(PROMPT_GOAL_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(prompt)) !== null) {
+    goalAlignment[match[1]] = MOCK_GOAL_ALIGNMENT;
+  }
+
+  return { ...fixture, insights: { ...insights, goal_alignment: goalAlignment } };
+}
+
+export function createMockProvider(config: MockProviderConfig = {}): LLMProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async complete({ task, prompt }) {
+      let fixture = await loadFixture(task, config.fixturesDir);
+      if (task === 'journal-analysis') fixture = alignWithPromptGoals(fixture, prompt);
+
+      const text = JSON.stringify(fixture);
+      // Rough 4-characters-per-token estimate keeps usage tracking meaningful
+      return { text, tokensUsed: Math.ceil((prompt.length + text.length) / 4) };
+    },
+  };
+}
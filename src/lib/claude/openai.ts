@@ -0,0 +1,64 @@
+/**
+ * OpenAI-compatible provider
+ * Works with any server implementing POST /chat/completions, e.g. self-hosted models
+ * behind vLLM, Ollama or LM Studio
+ */
+
+import { ClaudeAPIError } from './errors';
+import type { LLMProvider } from './provider';
+
+export interface OpenAIProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxTokens: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model: config.model,
+    async complete({ prompt }) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new ClaudeAPIError(
+          `LLM request failed (${response.status}): ${detail.slice(0, 200)}`,
+          response.status,
+          response.status === 429
+        );
+      }
+
+      const body = (await response.json()) as ChatCompletionResponse;
+      const text = body.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new ClaudeAPIError(`No text response from ${config.model}`);
+      }
+
+      const usage = body.usage ?? {};
+      return {
+        text,
+        tokensUsed: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * LLM provider selection
+ * The analysis functions in client.ts build prompts and parse JSON; a provider only
+ * turns a prompt into text.
+ *
+ * Provider selection (env):
+ *   LLM_PROVIDER=anthropic (default) - Anthropic API, uses ANTHROPIC_API_KEY
+ *   LLM_PROVIDER=openai - any OpenAI-compatible /chat/completions endpoint (vLLM, Ollama,
+ *     LM Studio...), configured with LLM_API_URL (default https://api.openai.com/v1), LLM_API_KEY
+ *   LLM_PROVIDER=mock - deterministic fixtures, no network; LLM_MOCK_FIXTURES_DIR may point
+ *     to a directory of <task>.json files that replace the built-in ones
+ * LLM_MODEL and LLM_MAX_TOKENS override the provider's defaults.
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+
+export type LLMTask = 'journal-analysis' | 'goal-analysis' | 'weekly-insights';
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+}
+
+export interface LLMCompletion {
+  text: string;
+  tokensUsed: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+// Singleton provider instance
+let provider: LLMProvider | null = null;
+
+function getMaxTokens(): number {
+  const value = Number(process.env.LLM_MAX_TOKENS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_TOKENS;
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const kind = process.env.LLM_PROVIDER ?? 'anthropic';
+    const model = process.env.LLM_MODEL || undefined;
+    switch (kind) {
+      case 'anthropic':
+        provider = createAnthropicProvider({
+          apiKey: process.env.ANTHROPIC_API_KEY,
+          model: model ?? 'claude-3-5-sonnet-20241022',
+          maxTokens: getMaxTokens(),
+        });
+        break;
+      case 'openai':
+        provider = createOpenAIProvider({
+          baseUrl: process.env.LLM_API_URL ?? 'https://api.openai.com/v1',
+          apiKey: process.env.LLM_API_KEY,
+          model: model ?? 'gpt-4o-mini',
+          maxTokens: getMaxTokens(),
+        });
+        break;
+      case 'mock':
+        provider = createMockProvider({ fixturesDir: process.env.LLM_MOCK_FIXTURES_DIR });
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected anthropic, openai or mock)`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,79 @@
+/**
+ * Goal link and tag suggestions for a journal entry
+ * Derived from an analyzeJournalEntry result: goal_alignment scores propose goals,
+ * key_themes propose tags. Nothing is saved here; the user accepts suggestions first.
+ */
+
+import type { AIAnalysisInsights, Goal, SuggestedGoalLink } from '@/types';
+import { createGoalMatcher } from '@/lib/import/matching';
+
+export interface LinkSuggestionOptions {
+  excludeGoalIds?: string[]; // Already linked
+  excludeTags?: string[]; // Already on the entry
+  minAlignment?: number;
+  maxGoals?: number;
+  maxTags?: number;
+}
+
+const MAX_TAG_LENGTH = 50;
+
+/** "Work-Life Balance" -> "work-life balance" */
+function toTag(theme: string): string | null {
+  const tag = theme.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase();
+  return tag && tag.length <= MAX_TAG_LENGTH ? tag : null;
+}
+
+/**
+ * Goals the entry aligns with, strongest first
+ * Alignment keys are goal ids, but a title (even a slightly different one) is matched too.
+ */
+export function suggestGoalLinks(
+  insights: AIAnalysisInsights,
+  goals: Goal[],
+  options: LinkSuggestionOptions = {}
+): SuggestedGoalLink[] {
+  const { excludeGoalIds = [], minAlignment = 0.5, maxGoals = 3 } = options;
+  const matcher = createGoalMatcher(goals);
+  const goalsById = new Map(goals.map((g) => [g.id, g]));
+  const alignmentById = new Map<string, number>();
+
+  Object.entries(insights.goal_alignment ?? {}).forEach(([key, score]) => {
+    const match = matcher.match(key);
+    if (!match || typeof score !== 'number' || !isFinite(score)) return;
+    const alignment = Math.min(Math.max(score, 0), 1);
+    alignmentById.set(match.id, Math.max(alignmentById.get(match.id) ?? 0, alignment));
+  });
+
+  const suggestions: SuggestedGoalLink[] = [];
+  alignmentById.forEach((alignment, id) => {
+    const goal = goalsById.get(id);
+    if (goal && alignment >= minAlignment && !excludeGoalIds.includes(id)) {
+      suggestions.push({ goal, alignment: Math.round(alignment * 100) / 100 });
+    }
+  });
+
+  return suggestions.sort((a, b) => b.alignment - a.alignment).slice(0, maxGoals);
+}
+
+/**
+ * Tags from the entry's key themes, skipping ones it already has
+ */
+export function suggestTags(
+  insights: AIAnalysisInsights,
+  options: LinkSuggestionOptions = {}
+): string[] {
+  const { excludeTags = [], maxTags = 5 } = options;
+  const seen = new Set(excludeTags.map((t) => t.trim().replace(/^#/, '').toLowerCase()));
+  const tags: string[] = [];
+
+  for (const theme of insights.key_themes ?? []) {
+    if (typeof theme !== 'string') continue;
+    const tag = toTag(theme);
+    if (tag && !seen.has(tag)) {
+      seen.add(tag);
+      tags.push(tag);
+    }
+  }
+
+  return tags.slice(0, maxTags);
+}
@@ -0,0 +1,46 @@
+/**
+ * Optimistic concurrency for goal and journal entry updates
+ * A record's version is its updatedAt. Responses send it as an ETag; an update may send it back
+ * in If-Match, or as expectedUpdatedAt in the body (which survives the offline queue), and is
+ * refused with 409 and the current record when it has been updated since.
+ */
+
+import { ApiRouteError } from '@/lib/api/errors';
+
+export const UPDATE_CONFLICT_CODE = 'UPDATE_CONFLICT';
+
+export function toETag(updatedAt: Date | string): string {
+  return `"${new Date(updatedAt).toISOString()}"`;
+}
+
+/**
+ * The updatedAt an update was based on: the If-Match header, else the body's expectedUpdatedAt
+ * Neither (or If-Match: *) means the update is unconditional
+ */
+export function getExpectedUpdatedAt(
+  headers: Headers,
+  expectedUpdatedAt?: string
+): string | undefined {
+  const ifMatch = headers.get('if-match')?.trim();
+  if (!ifMatch || ifMatch === '*') return expectedUpdatedAt;
+
+  const tag = ifMatch.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  const time = Date.parse(tag);
+  if (Number.isNaN(time)) {
+    throw new ApiRouteError('If-Match must be an ETag returned by this API', 400);
+  }
+  return new Date(time).toISOString();
+}
+
+export function isSameVersion(updatedAt: Date, expectedUpdatedAt: string): boolean {
+  return updatedAt.getTime() === Date.parse(expectedUpdatedAt);
+}
+
+/**
+ * Bounds for matching a stored updated_at in a conditional update: the database keeps
+ * microseconds but the API only milliseconds, so anything within that millisecond matches
+ */
+export function getUpdatedAtWindow(expectedUpdatedAt: string): { from: string; to: string } {
+  const time = Date.parse(expectedUpdatedAt);
+  return { from: new Date(time).toISOString(), to: new Date(time + 1).toISOString() };
+}
@@ -13,13 +13,22 @@ import type {
   AIAnalysisRecommendations,
   AIProgressSummary,
   AnalysisType,
+  InsightPeriod,
+  KeyAchievement,
+  AreaForImprovement,
+  GoalProgressUpdate,
   PaginationParams,
+  WeeklyInsight,
 } from '@/types';
 import {
   mapGoalFromRow as mapGoal,
   mapJournalEntryFromRow as mapJournal,
   mapAIAnalysisFromRow as mapAnalysis,
+  mapWeeklyInsightFromRow as mapWeeklyInsight,
 } from '@/types';
+import { DEFAULT_TIMEZONE, getTodayInTimezone } from '@/lib/timezone';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { calculateStreaks, getDailyPeriods, parseLocalDate, toLocalDateStr } from './dashboard';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseClientAny = SupabaseClient<any, any, any>;
@@ -42,6 +51,12 @@ export interface WeeklyInsightsContext {
   };
 }
 
+// Inclusive YYYY-MM-DD range of a finished period
+export interface InsightDateRange {
+  startDate: string;
+  endDate: string;
+}
+
 export interface JournalAnalysisContext {
   journal: JournalEntry;
   linkedGoals: Goal[];
@@ -73,6 +88,7 @@ export async function getContextForGoalAnalysis(
     .select('*')
     .eq('id', goalId)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .single();
 
   if (goalError || !goalData) {
@@ -96,6 +112,7 @@ export async function getContextForGoalAnalysis(
       .select('*')
       .in('id', journalIds)
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .order('entry_date', { ascending: false })
       .limit(20); // Limit to most recent 20 for context
 
@@ -121,6 +138,7 @@ export async function getContextForJournalAnalysis(
     .select('*')
     .eq('id', journalId)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .single();
 
   if (journalError || !journalData) {
@@ -143,7 +161,8 @@ export async function getContextForJournalAnalysis(
       .from('goals')
       .select('*')
       .in('id', goalIds)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .is('deleted_at', null);
 
     if (goals) {
       linkedGoals = goals.map(mapGoal);
@@ -153,32 +172,68 @@ export async function getContextForJournalAnalysis(
   return { journal, linkedGoals };
 }
 
+/**
+ * Get context for link suggestions - the active goals an entry can be linked to
+ */
+export async function getContextForLinkSuggestions(
+  supabase: SupabaseClientAny,
+  userId: string,
+  limit: number = 50
+): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .eq('status', 'active')
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch goals: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapGoal);
+}
+
 /**
  * Get context for weekly/monthly insights
+ * Covers the last week/month up to today, or the given range of a finished period
  */
 export async function getContextForWeeklyInsights(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: 'week' | 'month' = 'week'
+  timeline: 'week' | 'month' = 'week',
+  timezone: string = DEFAULT_TIMEZONE,
+  range?: InsightDateRange
 ): Promise<WeeklyInsightsContext> {
-  const now = new Date();
-  const startDate = new Date(now);
+  let startDateStr = range?.startDate;
 
-  if (timeline === 'week') {
-    startDate.setDate(now.getDate() - 7);
-  } else {
-    startDate.setMonth(now.getMonth() - 1);
-  }
+  if (!startDateStr) {
+    const startDate = parseLocalDate(getTodayInTimezone(timezone));
+
+    if (timeline === 'week') {
+      startDate.setDate(startDate.getDate() - 7);
+    } else {
+      startDate.setMonth(startDate.getMonth() - 1);
+    }
 
-  const startDateStr = startDate.toLocaleDateString('en-CA');
+    startDateStr = toLocalDateStr(startDate);
+  }
 
   // Fetch journals in range
-  const { data: journalsData } = await supabase
+  let journalsQuery = supabase
     .from('journal_entries')
     .select('*')
     .eq('user_id', userId)
-    .gte('entry_date', startDateStr)
-    .order('entry_date', { ascending: false });
+    .is('deleted_at', null)
+    .gte('entry_date', startDateStr);
+
+  if (range) {
+    journalsQuery = journalsQuery.lte('entry_date', range.endDate);
+  }
+
+  const { data: journalsData } = await journalsQuery.order('entry_date', { ascending: false });
 
   const journals = (journalsData ?? []).map(mapJournal);
 
@@ -186,7 +241,8 @@ export async function getContextForWeeklyInsights(
   const { data: goalsData } = await supabase
     .from('goals')
     .select('*')
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   const goals = (goalsData ?? []).map(mapGoal);
 
@@ -195,8 +251,11 @@ export async function getContextForWeeklyInsights(
   const completedGoals = goals.filter(g => g.status === 'completed').length;
   const journalCount = journals.length;
 
-  // Calculate streak (simplified - consecutive days with entries)
-  const currentStreak = calculateStreak(journals);
+  // Calculate streak (consecutive days with entries within the period)
+  const { currentStreak } = calculateStreaks(
+    journals.map(j => j.entryDate),
+    getDailyPeriods(timezone)
+  );
 
   // Calculate average mood
   const moodScores: Record<string, number> = {
@@ -235,52 +294,7 @@ export async function getContextForWeeklyInsights(
 }
 
 /**
- * Calculate current streak of consecutive journal days
- */
-function calculateStreak(journals: JournalEntry[]): number {
-  if (journals.length === 0) return 0;
-
-  // Sort by date descending
-  const sorted = [...journals].sort(
-    (a, b) => b.entryDate.localeCompare(a.entryDate)
-  );
-
-  // Get unique dates
-  const uniqueDates = new Set<string>();
-  for (const j of sorted) {
-    uniqueDates.add(j.entryDate);
-  }
-
-  const dates = Array.from(uniqueDates).sort().reverse();
-
-  const today = new Date().toLocaleDateString('en-CA');
-  const yesterday = new Date(Date.now() - 86400000).toLocaleDateString('en-CA');
-
-  // Streak must start from today or yesterday
-  if (dates[0] !== today && dates[0] !== yesterday) {
-    return 0;
-  }
-
-  let streak = 1;
-  for (let i = 1; i < dates.length; i++) {
-    const prevDate = new Date(dates[i - 1]);
-    const currDate = new Date(dates[i]);
-    const diffDays = Math.round(
-      (prevDate.getTime() - currDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (diffDays === 1) {
-      streak++;
-    } else {
-      break;
-    }
-  }
-
-  return streak;
-}
-
-/**
- * Save AI analysis result
+ * Save AI analysis result (emits analysis.created)
  */
 export async function saveAnalysis(
   supabase: SupabaseClientAny,
@@ -316,7 +330,10 @@ export async function saveAnalysis(
     throw new Error(`Failed to save analysis: ${error.message}`);
   }
 
-  return mapAnalysis(result);
+  const analysis = mapAnalysis(result);
+  await emitWebhookEvent(supabase, userId, 'analysis.created', { analysis });
+
+  return analysis;
 }
 
 /**
@@ -432,3 +449,87 @@ export async function getCachedMonthlyInsight(
 
   return data ? mapAnalysis(data) : null;
 }
+
+/**
+ * Get the stored insight of a period, if it was generated
+ */
+export async function getWeeklyInsight(
+  supabase: SupabaseClientAny,
+  userId: string,
+  period: InsightPeriod,
+  weekStartDate: string
+): Promise<WeeklyInsight | null> {
+  const { data, error } = await supabase
+    .from('weekly_insights')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('period', period)
+    .eq('week_start_date', weekStartDate)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch weekly insight: ${error.message}`);
+  }
+
+  return data ? mapWeeklyInsight(data) : null;
+}
+
+/**
+ * Store the insight of a period (replaces an earlier one for the same period)
+ */
+export async function saveWeeklyInsight(
+  supabase: SupabaseClientAny,
+  userId: string,
+  data: {
+    period: InsightPeriod;
+    range: InsightDateRange;
+    summary: string;
+    keyAchievements: KeyAchievement[];
+    areasForImprovement: AreaForImprovement[];
+    goalProgressUpdates: GoalProgressUpdate[];
+    aiAnalysisId: string;
+  }
+): Promise<WeeklyInsight> {
+  const { data: result, error } = await supabase
+    .from('weekly_insights')
+    .upsert(
+      {
+        user_id: userId,
+        period: data.period,
+        week_start_date: data.range.startDate,
+        week_end_date: data.range.endDate,
+        summary: data.summary,
+        key_achievements: data.keyAchievements,
+        areas_for_improvement: data.areasForImprovement,
+        goal_progress_updates: data.goalProgressUpdates,
+        ai_analysis_id: data.aiAnalysisId,
+        emailed_at: null,
+      },
+      { onConflict: 'user_id,period,week_start_date' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save weekly insight: ${error.message}`);
+  }
+
+  return mapWeeklyInsight(result);
+}
+
+/**
+ * Record that the insight was sent as an email digest
+ */
+export async function markWeeklyInsightEmailed(
+  supabase: SupabaseClientAny,
+  id: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('weekly_insights')
+    .update({ emailed_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update weekly insight: ${error.message}`);
+  }
+}
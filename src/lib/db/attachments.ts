@@ -0,0 +1,125 @@
+/**
+ * Journal attachment database functions
+ * Rows hold attachment metadata and the storage keys of the file and its thumbnail; reading
+ * and writing the files is left to lib/attachments, so these functions return rows rather
+ * than JournalAttachment. Rows are deleted with their entry when it is purged from the trash.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalAttachmentInsert, JournalAttachmentRow } from '@/types/database.types';
+import { fetchAllRows } from './paging';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * An entry's attachments in upload order (validates user ownership)
+ */
+export async function getJournalAttachments(
+  supabase: SupabaseClientAny,
+  journalId: string,
+  userId: string
+): Promise<JournalAttachmentRow[]> {
+  const { data, error } = await supabase
+    .from('journal_attachments')
+    .select('*')
+    .eq('journal_entry_id', journalId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch journal attachments: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Get a single attachment (validates user ownership)
+ * Attachments of entries in the trash are not found, like the entries themselves
+ */
+export async function getJournalAttachmentById(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<JournalAttachmentRow | null> {
+  // The entry is embedded only to filter on it; no columns of it are returned
+  const { data, error } = await supabase
+    .from('journal_attachments')
+    .select('*, journal_entries!inner()')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('journal_entries.deleted_at', null)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    throw new Error(`Failed to fetch journal attachment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Record an attachment whose files are already stored
+ */
+export async function createJournalAttachment(
+  supabase: SupabaseClientAny,
+  input: JournalAttachmentInsert
+): Promise<JournalAttachmentRow> {
+  const { data, error } = await supabase
+    .from('journal_attachments')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create journal attachment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete an attachment (validates user ownership)
+ * Returns the deleted row, so its files can be removed, or null if there was none
+ */
+export async function deleteJournalAttachment(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<JournalAttachmentRow | null> {
+  const { data, error } = await supabase
+    .from('journal_attachments')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to delete journal attachment: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Attachments of journal entries trashed before a date, for all users (expects the
+ * service-role client; used to remove their files when the entries are purged)
+ */
+export async function getAttachmentsOfJournalsTrashedBefore(
+  supabase: SupabaseClientAny,
+  before: Date
+): Promise<JournalAttachmentRow[]> {
+  // Rows carry the joined entry too, which callers ignore
+  return fetchAllRows<JournalAttachmentRow>('trashed journal attachments', (from, to) =>
+    supabase
+      .from('journal_attachments')
+      .select('*, journal_entries!inner(deleted_at)')
+      .lt('journal_entries.deleted_at', before.toISOString())
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Habit check-in database functions
+ * One check-in per habit per day; streaks and completion rate follow the habit's recurrence rule
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Goal,
+  GoalCheckin,
+  HabitRecurrence,
+  HabitStats,
+  CreateCheckinInput,
+} from '@/types';
+import { mapGoalCheckinFromRow as mapCheckin } from '@/types';
+import { updateGoal } from './goals';
+import {
+  calculateStreaks,
+  getWeekStart,
+  parseLocalDate,
+  toLocalDateStr,
+  type StreakPeriods,
+} from './dashboard';
+import { getTodayInTimezone, toDateStrInTimezone } from '@/lib/timezone';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/** Completion rate looks back this many weeks (including the current one) */
+const COMPLETION_WINDOW_WEEKS = 4;
+
+// ============================================
+// Stats (pure functions)
+// ============================================
+
+function addDays(dateStr: string, days: number): string {
+  const d = parseLocalDate(dateStr);
+  d.setDate(d.getDate() + days);
+  return toLocalDateStr(d);
+}
+
+function weekStartOf(dateStr: string): string {
+  return toLocalDateStr(getWeekStart(parseLocalDate(dateStr)));
+}
+
+function isScheduledDay(recurrence: HabitRecurrence, dateStr: string): boolean {
+  if (recurrence.frequency !== 'weekdays') return true;
+  return recurrence.weekdays.includes(parseLocalDate(dateStr).getDay());
+}
+
+/** Latest scheduled day on or before the given date */
+function latestScheduledDay(recurrence: HabitRecurrence, dateStr: string): string {
+  let day = dateStr;
+  // At most a week back; an empty weekday list falls through to the date itself
+  for (let i = 0; i < 7; i++) {
+    if (isScheduledDay(recurrence, day)) return day;
+    day = addDays(day, -1);
+  }
+  return dateStr;
+}
+
+/**
+ * Period sequence and met periods for a habit
+ * Daily / weekday habits use scheduled days; weekly habits use weeks (keyed by Monday)
+ */
+function getHabitPeriods(
+  recurrence: HabitRecurrence,
+  checkinDates: string[],
+  today: string
+): { periods: StreakPeriods; metPeriods: string[] } {
+  if (recurrence.frequency === 'weekly') {
+    const countsByWeek = new Map<string, number>();
+    for (const date of checkinDates) {
+      const week = weekStartOf(date);
+      countsByWeek.set(week, (countsByWeek.get(week) ?? 0) + 1);
+    }
+    return {
+      periods: {
+        current: weekStartOf(today),
+        previous: (key) => addDays(key, -7),
+      },
+      metPeriods: Array.from(countsByWeek.entries())
+        .filter(([, count]) => count >= recurrence.timesPerWeek)
+        .map(([week]) => week),
+    };
+  }
+
+  return {
+    periods: {
+      current: latestScheduledDay(recurrence, today),
+      previous: (key) => latestScheduledDay(recurrence, addDays(key, -1)),
+    },
+    metPeriods: checkinDates.filter((date) => isScheduledDay(recurrence, date)),
+  };
+}
+
+/**
+ * Streaks and completion rate for a habit
+ * Completion rate covers the last COMPLETION_WINDOW_WEEKS weeks (not before startDate);
+ * the current period only counts once it is met, so an unfinished today doesn't drag it down
+ */
+export function calculateHabitStats(
+  recurrence: HabitRecurrence,
+  checkinDates: string[],
+  startDate: string,
+  today: string
+): HabitStats {
+  const { periods, metPeriods } = getHabitPeriods(recurrence, checkinDates, today);
+  const { currentStreak, longestStreak } = calculateStreaks(metPeriods, periods);
+
+  const windowStart = addDays(weekStartOf(today), -7 * (COMPLETION_WINDOW_WEEKS - 1));
+  const firstPeriod =
+    recurrence.frequency === 'weekly'
+      ? weekStartOf(startDate > windowStart ? startDate : windowStart)
+      : startDate > windowStart
+        ? startDate
+        : windowStart;
+
+  const met = new Set(metPeriods);
+  let total = 0;
+  let completed = 0;
+  for (let key = periods.current; key >= firstPeriod; key = periods.previous(key)) {
+    const isMet = met.has(key);
+    if (key === periods.current && !isMet) continue;
+    total++;
+    if (isMet) completed++;
+  }
+
+  return {
+    currentStreak,
+    longestStreak,
+    streakUnit: recurrence.frequency === 'weekly' ? 'week' : 'day',
+    completionRate: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
+
+// ============================================
+// Query Functions
+// ============================================
+
+/**
+ * Get check-ins for a habit, newest first (validates user ownership)
+ */
+export async function getCheckins(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string
+): Promise<GoalCheckin[]> {
+  const { data, error } = await supabase
+    .from('goal_checkins')
+    .select('*')
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .order('checkin_date', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch check-ins: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapCheckin);
+}
+
+/**
+ * Check in a habit for a day
+ * Checking in twice on the same day updates the note instead of failing
+ */
+export async function createCheckin(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string,
+  input: CreateCheckinInput
+): Promise<GoalCheckin> {
+  const upsertData = {
+    goal_id: goalId,
+    user_id: userId,
+    checkin_date: input.date,
+    note: input.note ?? null,
+  };
+
+  const { data, error } = await supabase
+    .from('goal_checkins')
+    .upsert(upsertData, { onConflict: 'goal_id,checkin_date' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create check-in: ${error.message}`);
+  }
+
+  return mapCheckin(data);
+}
+
+/**
+ * Remove a habit's check-in for a day (validates user ownership)
+ */
+export async function deleteCheckin(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string,
+  date: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('goal_checkins')
+    .delete({ count: 'exact' })
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .eq('checkin_date', date);
+
+  if (error) {
+    throw new Error(`Failed to delete check-in: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Compute a habit's stats from its check-ins, as of today in the user's timezone
+ */
+export async function getHabitStats(
+  supabase: SupabaseClientAny,
+  goal: Goal,
+  timezone: string
+): Promise<{ checkins: GoalCheckin[]; stats: HabitStats }> {
+  const checkins = await getCheckins(supabase, goal.id, goal.userId);
+  const stats = calculateHabitStats(
+    goal.recurrence ?? { frequency: 'daily' },
+    checkins.map((c) => c.checkinDate),
+    toDateStrInTimezone(goal.createdAt, timezone),
+    getTodayInTimezone(timezone)
+  );
+
+  return { checkins, stats };
+}
+
+/**
+ * Keep a habit's progress in line with its completion rate
+ * Goes through updateGoal so history is recorded
+ */
+export async function syncHabitProgress(
+  supabase: SupabaseClientAny,
+  goal: Goal,
+  stats: HabitStats
+): Promise<Goal> {
+  if (stats.completionRate === goal.progressPercentage) return goal;
+
+  const updated = await updateGoal(supabase, goal.id, goal.userId, {
+    progressPercentage: stats.completionRate,
+  });
+
+  return updated ?? goal;
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateStreaks, getDailyPeriods } from './dashboard';
+
+describe('getDailyPeriods', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes today from the user timezone', () => {
+    vi.setSystemTime(new Date('2024-06-01T10:30:00Z'));
+
+    expect(getDailyPeriods('UTC').current).toBe('2024-06-01');
+    expect(getDailyPeriods('Pacific/Kiritimati').current).toBe('2024-06-02');
+    expect(getDailyPeriods('Pacific/Pago_Pago').current).toBe('2024-05-31');
+  });
+
+  it('steps back one calendar day across DST changes and month ends', () => {
+    const { previous } = getDailyPeriods('America/New_York');
+
+    expect(previous('2024-03-11')).toBe('2024-03-10');
+    expect(previous('2024-03-10')).toBe('2024-03-09');
+    expect(previous('2024-11-04')).toBe('2024-11-03');
+    expect(previous('2024-11-03')).toBe('2024-11-02');
+    expect(previous('2024-03-01')).toBe('2024-02-29');
+    expect(previous('2025-01-01')).toBe('2024-12-31');
+  });
+});
+
+describe('calculateStreaks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts a streak across a DST change', () => {
+    vi.setSystemTime(new Date('2024-03-11T12:00:00Z'));
+    const dates = ['2024-03-11', '2024-03-10', '2024-03-09', '2024-03-08'];
+
+    expect(calculateStreaks(dates, getDailyPeriods('America/New_York'))).toEqual({
+      currentStreak: 4,
+      longestStreak: 4,
+    });
+  });
+
+  it('keeps the current streak until the day is over in the user timezone', () => {
+    // 23:30 on 2024-03-11 in New York, already 2024-03-12 in UTC
+    vi.setSystemTime(new Date('2024-03-12T03:30:00Z'));
+    const dates = ['2024-03-10', '2024-03-09'];
+
+    expect(calculateStreaks(dates, getDailyPeriods('America/New_York')).currentStreak).toBe(2);
+    expect(calculateStreaks(dates, getDailyPeriods('UTC')).currentStreak).toBe(0);
+  });
+
+  it('buckets date-line users by their own today', () => {
+    // 2024-06-02 in Kiritimati, 2024-05-31 in Pago Pago
+    vi.setSystemTime(new Date('2024-06-01T10:30:00Z'));
+    const dates = ['2024-05-31', '2024-05-30'];
+
+    expect(calculateStreaks(dates, getDailyPeriods('Pacific/Pago_Pago'))).toEqual({
+      currentStreak: 2,
+      longestStreak: 2,
+    });
+    expect(calculateStreaks(dates, getDailyPeriods('Pacific/Kiritimati'))).toEqual({
+      currentStreak: 0,
+      longestStreak: 2,
+    });
+  });
+
+  it('counts the longest streak separately from the current one', () => {
+    vi.setSystemTime(new Date('2024-11-05T15:00:00Z'));
+    const dates = ['2024-11-05', '2024-11-02', '2024-11-03', '2024-11-01', '2024-11-03'];
+
+    expect(calculateStreaks(dates, getDailyPeriods('America/New_York'))).toEqual({
+      currentStreak: 1,
+      longestStreak: 3,
+    });
+  });
+});
@@ -7,17 +7,22 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import type { GoalRow, JournalEntryRow } from '@/types/database.types';
 import type { GoalStatus, GoalType, Mood, Goal, JournalEntry } from '@/types';
 import { mapGoalFromRow as mapGoal, mapJournalEntryFromRow as mapJournal } from '@/types';
+import { getTodayInTimezone, startOfDayInTimezone, toDateStrInTimezone } from '@/lib/timezone';
+import { fetchAllRows } from './paging';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseClientAny = SupabaseClient<any, any, any>;
 
-/** Format a Date as YYYY-MM-DD using local timezone */
-function toLocalDateStr(d: Date): string {
+/**
+ * Format a calendar Date (from parseLocalDate) as YYYY-MM-DD
+ * Not for instants: use toDateStrInTimezone with the user's timezone for those
+ */
+export function toLocalDateStr(d: Date): string {
   return d.toLocaleDateString('en-CA');
 }
 
 /** Parse YYYY-MM-DD string to Date in local timezone (noon to avoid DST edge cases) */
-function parseLocalDate(dateStr: string): Date {
+export function parseLocalDate(dateStr: string): Date {
   const [y, m, d] = dateStr.split('-').map(Number);
   return new Date(y, m - 1, d, 12, 0, 0);
 }
@@ -39,6 +44,7 @@ export interface GoalsStats {
   byType: {
     'long-term': number;
     'short-term': number;
+    habit: number;
   };
   completionRate: number;
   averageProgress: number;
@@ -88,7 +94,7 @@ export interface ProgressDataPoint {
  * Get ISO week start (Monday) for a date
  * Matches component's getWeekStart logic
  */
-function getWeekStart(date: Date): Date {
+export function getWeekStart(date: Date): Date {
   const d = new Date(date);
   const day = d.getDay();
   // Adjust so Monday = 0: if Sunday (0), go back 6 days; else go back (day - 1) days
@@ -99,11 +105,11 @@ function getWeekStart(date: Date): Date {
 }
 
 /**
- * Get date range based on timeline
+ * Get date range based on timeline, ending today in the user's timezone
  */
-function getDateRange(timeline: Timeline): { startDate: string; endDate: string } {
-  const now = new Date();
-  const endDate = toLocalDateStr(now);
+function getDateRange(timeline: Timeline, timezone: string): { startDate: string; endDate: string } {
+  const endDate = getTodayInTimezone(timezone);
+  const now = parseLocalDate(endDate);
   let startDate: string;
 
   switch (timeline) {
@@ -128,41 +134,59 @@ function getDateRange(timeline: Timeline): { startDate: string; endDate: string
 }
 
 /**
- * Calculate journal writing streak
+ * Period sequence used for streak counting
+ * Keys are YYYY-MM-DD strings identifying each period (a day, a week start, ...)
+ */
+export interface StreakPeriods {
+  current: string; // Key of the period containing today
+  previous: (key: string) => string;
+}
+
+/** Consecutive calendar days, today (in the user's timezone) being the current period */
+export function getDailyPeriods(timezone: string): StreakPeriods {
+  return {
+    current: getTodayInTimezone(timezone),
+    previous: (key) => {
+      const d = parseLocalDate(key);
+      d.setDate(d.getDate() - 1);
+      return toLocalDateStr(d);
+    },
+  };
+}
+
+/**
+ * Calculate current and longest streak of consecutive periods
+ * Use getDailyPeriods for calendar days (journal writing streak); the current streak
+ * only counts if it reaches the current or previous period
  */
-function calculateStreaks(entries: { entry_date: string }[]): {
+export function calculateStreaks(
+  dates: string[],
+  periods: StreakPeriods
+): {
   currentStreak: number;
   longestStreak: number;
 } {
-  if (entries.length === 0) {
+  if (dates.length === 0) {
     return { currentStreak: 0, longestStreak: 0 };
   }
 
   // Sort by date descending
-  const sortedDates = entries
-    .map((e) => e.entry_date)
-    .sort((a, b) => b.localeCompare(a));
+  const sortedDates = [...dates].sort((a, b) => b.localeCompare(a));
 
-  // Remove duplicates (multiple entries same day)
+  // Remove duplicates (multiple entries same period)
   const uniqueDates = Array.from(new Set(sortedDates));
 
   let currentStreak = 0;
   let longestStreak = 0;
   let tempStreak = 1;
 
-  // Check if today or yesterday has entry (for current streak)
-  const today = toLocalDateStr(new Date());
-  const yesterdayDate = new Date();
-  yesterdayDate.setDate(yesterdayDate.getDate() - 1);
-  const yesterday = toLocalDateStr(yesterdayDate);
-  const hasRecentEntry = uniqueDates[0] === today || uniqueDates[0] === yesterday;
+  // Check if the current or previous period has an entry (for current streak)
+  const hasRecentEntry =
+    uniqueDates[0] === periods.current ||
+    uniqueDates[0] === periods.previous(periods.current);
 
   for (let i = 0; i < uniqueDates.length - 1; i++) {
-    const current = parseLocalDate(uniqueDates[i]);
-    const next = parseLocalDate(uniqueDates[i + 1]);
-    const diffDays = Math.round((current.getTime() - next.getTime()) / 86400000);
-
-    if (diffDays === 1) {
+    if (periods.previous(uniqueDates[i]) === uniqueDates[i + 1]) {
       tempStreak++;
     } else {
       longestStreak = Math.max(longestStreak, tempStreak);
@@ -175,10 +199,7 @@ function calculateStreaks(entries: { entry_date: string }[]): {
   if (hasRecentEntry) {
     currentStreak = 1;
     for (let i = 0; i < uniqueDates.length - 1; i++) {
-      const current = parseLocalDate(uniqueDates[i]);
-      const next = parseLocalDate(uniqueDates[i + 1]);
-      const diffDays = Math.round((current.getTime() - next.getTime()) / 86400000);
-      if (diffDays === 1) {
+      if (periods.previous(uniqueDates[i]) === uniqueDates[i + 1]) {
         currentStreak++;
       } else {
         break;
@@ -199,15 +220,17 @@ function calculateStreaks(entries: { entry_date: string }[]): {
 export async function getGoalsStats(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: Timeline
+  timeline: Timeline,
+  timezone: string
 ): Promise<GoalsStats> {
-  const { startDate } = getDateRange(timeline);
+  const { startDate } = getDateRange(timeline, timezone);
 
   const { data, error } = await supabase
     .from('goals')
     .select('status, type, progress_percentage, created_at, updated_at')
     .eq('user_id', userId)
-    .gte('created_at', startDate);
+    .is('deleted_at', null)
+    .gte('created_at', startOfDayInTimezone(startDate, timezone).toISOString());
 
   if (error) {
     throw new Error(`Failed to fetch goals stats: ${error.message}`);
@@ -234,6 +257,7 @@ export async function getGoalsStats(
   const byType = {
     'long-term': 0,
     'short-term': 0,
+    habit: 0,
   };
   for (const goal of goals) {
     const type = goal.type as GoalType;
@@ -264,15 +288,17 @@ export async function getGoalsStats(
 export async function getJournalStats(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: Timeline
+  timeline: Timeline,
+  timezone: string
 ): Promise<JournalStats> {
-  const { startDate } = getDateRange(timeline);
+  const { startDate } = getDateRange(timeline, timezone);
 
   // Get entries within timeline for mood stats
   const { data: timelineData, error: timelineError } = await supabase
     .from('journal_entries')
     .select('mood, entry_date')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .gte('entry_date', startDate);
 
   if (timelineError) {
@@ -284,6 +310,7 @@ export async function getJournalStats(
     .from('journal_entries')
     .select('entry_date')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('entry_date', { ascending: false });
 
   if (allError) {
@@ -310,7 +337,10 @@ export async function getJournalStats(
   }
 
   // Calculate streaks from all entries
-  const { currentStreak, longestStreak } = calculateStreaks(allEntries);
+  const { currentStreak, longestStreak } = calculateStreaks(
+    allEntries.map((e) => e.entry_date),
+    getDailyPeriods(timezone)
+  );
 
   // Calculate avg entries per week
   const weeksInTimeline = timeline === 'week' ? 1 : timeline === 'month' ? 4 : 52;
@@ -325,6 +355,32 @@ export async function getJournalStats(
   };
 }
 
+/**
+ * Current journaling streak and whether there is an entry for today yet
+ */
+export async function getJournalStreakStatus(
+  supabase: SupabaseClientAny,
+  userId: string,
+  timezone: string
+): Promise<{ currentStreak: number; wroteToday: boolean }> {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('entry_date')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('entry_date', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch journal streak data: ${error.message}`);
+  }
+
+  const dates = (data ?? []).map((e) => e.entry_date as string);
+  const periods = getDailyPeriods(timezone);
+  const { currentStreak } = calculateStreaks(dates, periods);
+
+  return { currentStreak, wroteToday: dates.includes(periods.current) };
+}
+
 /**
  * Get recent activity combining goals and journals
  */
@@ -338,6 +394,7 @@ export async function getRecentActivity(
     .from('goals')
     .select('id, title, status, progress_percentage, created_at, updated_at')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('updated_at', { ascending: false })
     .limit(limit);
 
@@ -350,6 +407,7 @@ export async function getRecentActivity(
     .from('journal_entries')
     .select('id, title, mood, entry_date, created_at, updated_at')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('updated_at', { ascending: false })
     .limit(limit);
 
@@ -385,41 +443,104 @@ export async function getRecentActivity(
   return combined.slice(0, limit);
 }
 
+interface ProgressEventRow {
+  goal_id: string;
+  progress_percentage: number | null;
+  status: string;
+  recorded_at: string;
+}
+
 /**
  * Get goals progress over time for charts
+ * Replays goal_progress_events so each point reflects the state at that date; only the events
+ * within the timeline are read, plus each goal's last one before it
  */
 export async function getGoalsProgressOverTime(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: Timeline
+  timeline: Timeline,
+  timezone: string
 ): Promise<ProgressDataPoint[]> {
-  const { startDate, endDate } = getDateRange(timeline);
-
-  // Get all goals within timeline
-  const { data: goalsData, error: goalsError } = await supabase
-    .from('goals')
-    .select('id, status, progress_percentage, created_at, updated_at')
-    .eq('user_id', userId)
-    .gte('created_at', startDate);
-
-  if (goalsError) {
-    throw new Error(`Failed to fetch goals progress: ${goalsError.message}`);
-  }
+  const { startDate, endDate } = getDateRange(timeline, timezone);
+
+  const rangeStart = startOfDayInTimezone(startDate, timezone).toISOString();
+
+  // Get all goals; creation date decides which points a goal counts towards
+  const goalsData = await fetchAllRows<{ id: string; created_at: string }>(
+    'goals progress',
+    (from, to) =>
+      supabase
+        .from('goals')
+        .select('id, created_at')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+
+  // Get progress history: each goal's last event before the timeline (its starting state),
+  // then the events within it
+  const startStates = await fetchAllRows<ProgressEventRow>('goal progress history', (from, to) =>
+    supabase
+      .rpc('get_goal_progress_before', { p_before: rangeStart })
+      .order('goal_id', { ascending: true })
+      .range(from, to)
+  );
+  const rangeEvents = await fetchAllRows<ProgressEventRow>('goal progress history', (from, to) =>
+    supabase
+      .from('goal_progress_events')
+      .select('goal_id, progress_percentage, status, recorded_at')
+      .eq('user_id', userId)
+      .gte('recorded_at', rangeStart)
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+  const eventsData = [...startStates, ...rangeEvents];
 
   // Get journal entries within timeline
-  const { data: journalsData, error: journalsError } = await supabase
-    .from('journal_entries')
-    .select('id, entry_date')
-    .eq('user_id', userId)
-    .gte('entry_date', startDate)
-    .lte('entry_date', endDate);
-
-  if (journalsError) {
-    throw new Error(`Failed to fetch journal progress: ${journalsError.message}`);
+  const journalsData = await fetchAllRows<{ id: string; entry_date: string }>(
+    'journal progress',
+    (from, to) =>
+      supabase
+        .from('journal_entries')
+        .select('id, entry_date')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .gte('entry_date', startDate)
+        .lte('entry_date', endDate)
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+
+  const goals = goalsData.map((g) => ({
+    id: g.id,
+    createdDate: toDateStrInTimezone(new Date(g.created_at), timezone),
+  }));
+  const journals = journalsData;
+
+  // Group events per goal (already sorted oldest first)
+  const eventsByGoal = new Map<string, { date: string; progress: number; status: GoalStatus }[]>();
+  for (const event of eventsData) {
+    const list = eventsByGoal.get(event.goal_id) ?? [];
+    list.push({
+      date: toDateStrInTimezone(new Date(event.recorded_at), timezone),
+      progress: event.progress_percentage ?? 0,
+      status: event.status as GoalStatus,
+    });
+    eventsByGoal.set(event.goal_id, list);
   }
 
-  const goals = goalsData ?? [];
-  const journals = journalsData ?? [];
+  // Goal state as of the end of a day: latest event on or before it
+  const getStateAt = (goalId: string, dateStr: string) => {
+    const events = eventsByGoal.get(goalId) ?? [];
+    let state: { progress: number; status: GoalStatus } = { progress: 0, status: 'active' };
+    for (const event of events) {
+      if (event.date > dateStr) break;
+      state = { progress: event.progress, status: event.status };
+    }
+    return state;
+  };
 
   // Generate date points based on timeline
   const points: ProgressDataPoint[] = [];
@@ -461,20 +582,19 @@ export async function getGoalsProgressOverTime(
 
     const nextDateStr = toLocalDateStr(nextDate);
 
-    // Count goals by status up to this date
-    const goalsUpToDate = goals.filter(
-      (g) => g.created_at.split('T')[0] <= dateStr
-    );
-    const completedGoals = goalsUpToDate.filter((g) => g.status === 'completed').length;
-    const activeGoals = goalsUpToDate.filter((g) => g.status === 'active').length;
+    // Goal states as of the last day in this interval (capped at today)
+    const lastDayStr = nextDateStr > endDate ? endDate : toLocalDateStr(new Date(nextDate.getTime() - 86400000));
+    const statesAtDate = goals
+      .filter((g) => g.createdDate <= lastDayStr)
+      .map((g) => getStateAt(g.id, lastDayStr));
+
+    const completedGoals = statesAtDate.filter((g) => g.status === 'completed').length;
+    const activeGoals = statesAtDate.filter((g) => g.status === 'active').length;
 
     // Calculate average progress
-    const totalProgress = goalsUpToDate.reduce(
-      (sum, g) => sum + (g.progress_percentage ?? 0),
-      0
-    );
+    const totalProgress = statesAtDate.reduce((sum, g) => sum + g.progress, 0);
     const avgProgress =
-      goalsUpToDate.length > 0 ? Math.round(totalProgress / goalsUpToDate.length) : 0;
+      statesAtDate.length > 0 ? Math.round(totalProgress / statesAtDate.length) : 0;
 
     // Count journal entries in this interval
     const journalEntries = journals.filter((j) => {
@@ -520,11 +640,12 @@ export async function getDashboardStats(
   supabase: SupabaseClientAny,
   userId: string,
   timeline: Timeline,
+  timezone: string,
   activityLimit: number = 10
 ): Promise<DashboardStats> {
   const [goals, journals, recentActivity] = await Promise.all([
-    getGoalsStats(supabase, userId, timeline),
-    getJournalStats(supabase, userId, timeline),
+    getGoalsStats(supabase, userId, timeline, timezone),
+    getJournalStats(supabase, userId, timeline, timezone),
     getRecentActivity(supabase, userId, activityLimit),
   ]);
 
@@ -555,9 +676,10 @@ export interface HeatMapResult {
 export async function getJournalHeatMapData(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: Timeline
+  timeline: Timeline,
+  timezone: string
 ): Promise<HeatMapResult> {
-  const { startDate, endDate } = getDateRange(timeline);
+  const { startDate, endDate } = getDateRange(timeline, timezone);
 
   // Get journal entries with date and goal mention info
   const { data, error } = await supabase
@@ -568,6 +690,7 @@ export async function getJournalHeatMapData(
       journal_goal_mentions (goal_id)
     `)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .gte('entry_date', startDate)
     .lte('entry_date', endDate)
     .order('entry_date', { ascending: true });
@@ -661,15 +784,17 @@ const GOAL_COLORS = [
 export async function getGoalActivityHeatMapData(
   supabase: SupabaseClientAny,
   userId: string,
-  timeline: Timeline
+  timeline: Timeline,
+  timezone: string
 ): Promise<GoalActivityHeatMapResult> {
-  const { startDate, endDate } = getDateRange(timeline);
+  const { startDate, endDate } = getDateRange(timeline, timezone);
 
   // Get all active goals for user
   const { data: goalsData, error: goalsError } = await supabase
     .from('goals')
     .select('id, title')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .in('status', ['active', 'completed'])
     .order('created_at', { ascending: true });
 
@@ -695,6 +820,7 @@ export async function getGoalActivityHeatMapData(
       journal_goal_mentions (goal_id)
     `)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .gte('entry_date', startDate)
     .lte('entry_date', endDate);
 
@@ -0,0 +1,182 @@
+/**
+ * Journal draft database functions
+ * Drafts hold autosaved editor content. Every save bumps version, and an update must name the
+ * version it was based on: a mismatch means the draft was saved elsewhere in the meantime
+ * (another tab, or the iOS app) and raises JournalDraftConflictError with the current draft.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalDraftUpdate } from '@/types/database.types';
+import type {
+  CreateJournalDraftInput,
+  JournalDraft,
+  SaveJournalDraftInput,
+  UpdateJournalDraftInput,
+} from '@/types';
+import { JournalDraftConflictError, mapJournalDraftFromRow as mapDraft } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface JournalDraftFilters {
+  journalEntryId?: string | null; // null: drafts of new entries only
+}
+
+function toDraftFields(input: SaveJournalDraftInput): JournalDraftUpdate {
+  const fields: JournalDraftUpdate = {};
+
+  if (input.title !== undefined) fields.title = input.title;
+  if (input.content !== undefined) fields.content = input.content;
+  if (input.entryDate !== undefined) fields.entry_date = input.entryDate;
+  if (input.mood !== undefined) fields.mood = input.mood;
+  if (input.tags !== undefined) fields.tags = input.tags;
+  if (input.goalIds !== undefined) fields.goal_ids = input.goalIds;
+  if (input.device !== undefined) fields.device = input.device;
+
+  return fields;
+}
+
+/**
+ * The user's drafts, most recently saved first
+ */
+export async function getJournalDrafts(
+  supabase: SupabaseClientAny,
+  userId: string,
+  filters: JournalDraftFilters = {}
+): Promise<JournalDraft[]> {
+  let query = supabase
+    .from('journal_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (filters.journalEntryId === null) {
+    query = query.is('journal_entry_id', null);
+  } else if (filters.journalEntryId !== undefined) {
+    query = query.eq('journal_entry_id', filters.journalEntryId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch journal drafts: ${error.message}`);
+  }
+
+  return (data || []).map(mapDraft);
+}
+
+/**
+ * Get a single draft (validates user ownership)
+ */
+export async function getJournalDraftById(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<JournalDraft | null> {
+  const { data, error } = await supabase
+    .from('journal_drafts')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to fetch journal draft: ${error.message}`);
+  }
+
+  return data ? mapDraft(data) : null;
+}
+
+/**
+ * Create a draft
+ * An entry has at most one draft; creating a second raises JournalDraftConflictError
+ * with the existing one. The caller checks that journalEntryId belongs to the user.
+ */
+export async function createJournalDraft(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: CreateJournalDraftInput
+): Promise<JournalDraft> {
+  const { data, error } = await supabase
+    .from('journal_drafts')
+    .insert({
+      ...toDraftFields(input),
+      user_id: userId,
+      journal_entry_id: input.journalEntryId ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505' && input.journalEntryId) {
+      const [existing] = await getJournalDrafts(supabase, userId, {
+        journalEntryId: input.journalEntryId,
+      });
+      if (existing) throw new JournalDraftConflictError(existing);
+    }
+    throw new Error(`Failed to create journal draft: ${error.message}`);
+  }
+
+  return mapDraft(data);
+}
+
+/**
+ * Save a draft, provided it is still at input.baseVersion
+ * Returns null when the draft does not exist; raises JournalDraftConflictError when it was
+ * saved elsewhere since baseVersion
+ */
+export async function updateJournalDraft(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string,
+  input: UpdateJournalDraftInput
+): Promise<JournalDraft | null> {
+  const { data, error } = await supabase
+    .from('journal_drafts')
+    .update({
+      ...toDraftFields(input),
+      version: input.baseVersion + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .eq('version', input.baseVersion)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to update journal draft: ${error.message}`);
+  }
+
+  if (data && data.length > 0) {
+    return mapDraft(data[0]);
+  }
+
+  const current = await getJournalDraftById(supabase, id, userId);
+  if (!current) return null;
+  throw new JournalDraftConflictError(current);
+}
+
+/**
+ * Delete a draft (validates user ownership)
+ * Returns whether a draft was deleted
+ */
+export async function deleteJournalDraft(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('journal_drafts')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete journal draft: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
@@ -0,0 +1,187 @@
+/**
+ * Journal embedding database functions
+ * Vectors are stored per model; similarity queries only compare vectors of one model
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GoalRow, JournalEntryRow } from '@/types/database.types';
+import type { Goal, JournalEntry } from '@/types';
+import { mapGoalFromRow as mapGoal, mapJournalEntryFromRow as mapJournal } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface JournalEmbeddingInput {
+  journalEntryId: string;
+  contentHash: string;
+  embedding: number[];
+}
+
+export interface JournalMatch {
+  journalEntryId: string;
+  similarity: number;
+}
+
+export interface MatchJournalOptions {
+  excludeId?: string;
+  limit?: number;
+  minSimilarity?: number;
+}
+
+/** pgvector text format */
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * Journal entries of the current user without an up-to-date embedding for this model
+ */
+export async function getUnindexedJournalEntries(
+  supabase: SupabaseClientAny,
+  model: string,
+  limit: number = 100
+): Promise<JournalEntry[]> {
+  const { data, error } = await supabase.rpc('get_unindexed_journal_entries', {
+    p_model: model,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch unindexed journals: ${error.message}`);
+  }
+
+  return ((data ?? []) as JournalEntryRow[]).map(mapJournal);
+}
+
+/**
+ * Insert or replace embeddings for journal entries
+ */
+export async function upsertJournalEmbeddings(
+  supabase: SupabaseClientAny,
+  userId: string,
+  model: string,
+  items: JournalEmbeddingInput[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase.from('journal_embeddings').upsert(
+    items.map((item) => ({
+      journal_entry_id: item.journalEntryId,
+      user_id: userId,
+      model,
+      content_hash: item.contentHash,
+      embedding: toVectorLiteral(item.embedding),
+      updated_at: now,
+    })),
+    { onConflict: 'journal_entry_id' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save embeddings: ${error.message}`);
+  }
+}
+
+/**
+ * Stored embedding of one journal entry (pgvector text format), or null
+ */
+export async function getJournalEmbedding(
+  supabase: SupabaseClientAny,
+  journalId: string,
+  model: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('journal_embeddings')
+    .select('embedding')
+    .eq('journal_entry_id', journalId)
+    .eq('model', model)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch embedding: ${error.message}`);
+  }
+
+  return data?.embedding ?? null;
+}
+
+/**
+ * Nearest journal entries of the current user, most similar first
+ */
+export async function matchJournalEntries(
+  supabase: SupabaseClientAny,
+  embedding: number[] | string,
+  model: string,
+  options: MatchJournalOptions = {}
+): Promise<JournalMatch[]> {
+  const { data, error } = await supabase.rpc('match_journal_entries', {
+    p_embedding: typeof embedding === 'string' ? embedding : toVectorLiteral(embedding),
+    p_model: model,
+    p_exclude_id: options.excludeId ?? null,
+    p_limit: options.limit ?? 5,
+    p_min_similarity: options.minSimilarity ?? 0.2,
+  });
+
+  if (error) {
+    throw new Error(`Failed to match journals: ${error.message}`);
+  }
+
+  return ((data ?? []) as { journal_entry_id: string; similarity: number }[]).map((row) => ({
+    journalEntryId: row.journal_entry_id,
+    similarity: row.similarity,
+  }));
+}
+
+/**
+ * Journal entries by id (validates user ownership), in the given order
+ */
+export async function getJournalEntriesByIds(
+  supabase: SupabaseClientAny,
+  userId: string,
+  ids: string[]
+): Promise<JournalEntry[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('*')
+    .in('id', ids)
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch journals: ${error.message}`);
+  }
+
+  const byId = new Map(((data ?? []) as JournalEntryRow[]).map((row) => [row.id, mapJournal(row)]));
+  return ids.map((id) => byId.get(id)).filter((j): j is JournalEntry => j !== undefined);
+}
+
+/**
+ * Goals linked to each of the given journal entries, leaving out goals in the trash
+ */
+export async function getGoalsForJournals(
+  supabase: SupabaseClientAny,
+  journalIds: string[]
+): Promise<Map<string, Goal[]>> {
+  const goalsByJournal = new Map<string, Goal[]>();
+  if (journalIds.length === 0) return goalsByJournal;
+
+  const { data, error } = await supabase
+    .from('journal_goal_mentions')
+    .select('journal_entry_id, goals!inner(*)')
+    .in('journal_entry_id', journalIds)
+    .is('goals.deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch linked goals: ${error.message}`);
+  }
+
+  for (const row of (data ?? []) as unknown as { journal_entry_id: string; goals: GoalRow | null }[]) {
+    if (!row.goals) continue;
+    const goals = goalsByJournal.get(row.journal_entry_id) ?? [];
+    goals.push(mapGoal(row.goals));
+    goalsByJournal.set(row.journal_entry_id, goals);
+  }
+
+  return goalsByJournal;
+}
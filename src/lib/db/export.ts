@@ -0,0 +1,152 @@
+/**
+ * Export query functions
+ * Async generators that page through a user's data in batches so exports never
+ * hold a whole table in memory
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIAnalysis, Goal, JournalEntry, JournalGoalMention } from '@/types';
+import {
+  mapAIAnalysisFromRow as mapAnalysis,
+  mapGoalFromRow as mapGoal,
+  mapJournalEntryFromRow as mapJournal,
+  mapJournalGoalMentionFromRow as mapMention,
+} from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Goals in batches, top-level goals first so parents precede their children
+ */
+export async function* iterateGoals(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<Goal[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('goals')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('parent_goal_id', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export goals: ${error.message}`);
+    }
+
+    if (data && data.length > 0) yield data.map(mapGoal);
+    if (!data || data.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+/**
+ * Journal entries in batches, oldest first
+ */
+export async function* iterateJournalEntries(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<JournalEntry[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('entry_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export journals: ${error.message}`);
+    }
+
+    if (data && data.length > 0) yield data.map(mapJournal);
+    if (!data || data.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+/**
+ * Goal mentions for a batch of journal entries
+ * journal_goal_mentions has no user_id; ownership comes from the journal ids
+ */
+export async function getMentionsForJournals(
+  supabase: SupabaseClientAny,
+  journalIds: string[]
+): Promise<JournalGoalMention[]> {
+  if (journalIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('journal_goal_mentions')
+    .select('*')
+    .in('journal_entry_id', journalIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to export goal mentions: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapMention);
+}
+
+/**
+ * All journal-goal mentions of a user in batches (one batch per journal page)
+ */
+export async function* iterateJournalGoalMentions(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<JournalGoalMention[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('id')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('entry_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export goal mentions: ${error.message}`);
+    }
+
+    const mentions = await getMentionsForJournals(
+      supabase,
+      (data ?? []).map((row: { id: string }) => row.id)
+    );
+    if (mentions.length > 0) yield mentions;
+    if (!data || data.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+/**
+ * AI analyses in batches, oldest first
+ */
+export async function* iterateAIAnalyses(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<AIAnalysis[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('ai_analyses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export analyses: ${error.message}`);
+    }
+
+    if (data && data.length > 0) yield data.map(mapAnalysis);
+    if (!data || data.length < EXPORT_BATCH_SIZE) return;
+  }
+}
@@ -7,13 +7,26 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import type { GoalRow } from '@/types/database.types';
 import type {
   Goal,
+  GoalDependents,
+  GoalProgressEvent,
   GoalFilters,
   GoalSortOptions,
   CreateGoalInput,
   UpdateGoalInput,
   PaginationParams,
+  RollupWeighting,
 } from '@/types';
-import { mapGoalFromRow as mapGoal, GoalLinkValidationError, GOAL_LINK_ERROR_CODES } from '@/types';
+import {
+  mapGoalFromRow as mapGoal,
+  mapGoalProgressEventFromRow as mapProgressEvent,
+  GoalConflictError,
+  GoalLinkValidationError,
+  GOAL_LINK_ERROR_CODES,
+} from '@/types';
+import { getUpdatedAtWindow } from '@/lib/concurrency';
+import { toTsQuery } from '@/lib/search';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { notifyUser } from '@/lib/notifications';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseClientAny = SupabaseClient<any, any, any>;
@@ -45,7 +58,8 @@ export async function getGoals(
   let query = supabase
     .from('goals')
     .select('*', { count: 'exact' })
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   // Apply filters
   if (filters?.type) {
@@ -58,9 +72,9 @@ export async function getGoals(
     query = query.eq('category', filters.category);
   }
   if (filters?.search) {
-    query = query.or(
-      `title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`
-    );
+    const tsQuery = toTsQuery(filters.search, { prefixAll: true });
+    if (!tsQuery) return { goals: [], totalCount: 0 };
+    query = query.textSearch('search_vector', tsQuery, { config: 'english' });
   }
   if (filters?.parentGoalId !== undefined) {
     if (filters.parentGoalId === null) {
@@ -110,6 +124,7 @@ export async function getGoalById(
     .select('*')
     .eq('id', id)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .single();
 
   if (error) {
@@ -140,6 +155,11 @@ export async function createGoal(
     status: input.status ?? 'active',
     progress_percentage: input.progressPercentage ?? 0,
     parent_goal_id: input.parentGoalId ?? null,
+    progress_mode: input.progressMode ?? 'manual',
+    rollup_weighting: input.rollupWeighting ?? 'equal',
+    auto_complete: input.autoComplete ?? false,
+    rollup_weight: input.rollupWeight ?? 1,
+    recurrence: input.recurrence ?? null,
   };
 
   const { data, error } = await supabase
@@ -152,11 +172,17 @@ export async function createGoal(
     throw new Error(`Failed to create goal: ${error.message}`);
   }
 
-  return mapGoal(data);
+  const goal = mapGoal(data);
+  await handleGoalSaved(supabase, userId, null, goal);
+
+  return goal;
 }
 
 /**
  * Update existing goal (validates user ownership)
+ * Emits goal.progress_changed and goal.completed, including for roll-up updates of parents,
+ * and adds completions to the notification inbox. With input.expectedUpdatedAt the update only
+ * applies if the goal has not changed since; otherwise it raises GoalConflictError
  */
 export async function updateGoal(
   supabase: SupabaseClientAny,
@@ -178,47 +204,251 @@ export async function updateGoal(
   if (input.parentGoalId !== undefined) {
     updateData.parent_goal_id = input.parentGoalId;
   }
+  if (input.progressMode !== undefined) updateData.progress_mode = input.progressMode;
+  if (input.rollupWeighting !== undefined) updateData.rollup_weighting = input.rollupWeighting;
+  if (input.autoComplete !== undefined) updateData.auto_complete = input.autoComplete;
+  if (input.rollupWeight !== undefined) updateData.rollup_weight = input.rollupWeight;
+  if (input.recurrence !== undefined) updateData.recurrence = input.recurrence;
 
   // Always update timestamp
   updateData.updated_at = new Date().toISOString();
 
-  const { data, error } = await supabase
+  // Snapshot previous state so only real changes are logged and rolled up
+  const tracksProgress =
+    input.progressPercentage !== undefined ||
+    input.status !== undefined ||
+    input.parentGoalId !== undefined ||
+    input.rollupWeight !== undefined;
+  const previous = tracksProgress ? await getGoalById(supabase, id, userId) : null;
+
+  let query = supabase
     .from('goals')
     .update(updateData)
     .eq('id', id)
     .eq('user_id', userId)
-    .select()
-    .single();
+    .is('deleted_at', null);
+
+  if (input.expectedUpdatedAt !== undefined) {
+    const version = getUpdatedAtWindow(input.expectedUpdatedAt);
+    query = query.gte('updated_at', version.from).lt('updated_at', version.to);
+  }
+
+  const { data, error } = await query.select().single();
 
   if (error) {
     if (error.code === 'PGRST116') {
-      return null; // Not found or no permission
+      // Not found or no permission, unless the goal was updated since expectedUpdatedAt
+      const current =
+        input.expectedUpdatedAt !== undefined ? await getGoalById(supabase, id, userId) : null;
+      if (current) throw new GoalConflictError(current);
+      return null;
     }
     throw new Error(`Failed to update goal: ${error.message}`);
   }
 
-  return data ? mapGoal(data) : null;
+  if (!data) return null;
+
+  const goal = mapGoal(data);
+  if (previous) {
+    await handleGoalSaved(supabase, userId, previous, goal);
+  }
+
+  // Roll-up settings changed on this goal - recompute it from its children
+  const rollupSettingsChanged =
+    input.progressMode !== undefined ||
+    input.rollupWeighting !== undefined ||
+    input.autoComplete !== undefined;
+  if (rollupSettingsChanged && goal.progressMode === 'derived') {
+    return (await recalculateDerivedProgress(supabase, goal.id, userId)) ?? goal;
+  }
+
+  return goal;
+}
+
+/**
+ * Side effects of saving a goal, shared by createGoal, updateGoal and sync: records progress
+ * history, emits goal.progress_changed and goal.completed, adds completions to the notification
+ * inbox and rolls the change up into the old and new parents. previous is null for a new goal
+ */
+export async function handleGoalSaved(
+  supabase: SupabaseClientAny,
+  userId: string,
+  previous: Goal | null,
+  goal: Goal
+): Promise<void> {
+  if (
+    !previous ||
+    previous.progressPercentage !== goal.progressPercentage ||
+    previous.status !== goal.status
+  ) {
+    await recordGoalProgressEvent(supabase, goal);
+  }
+
+  if (previous && previous.progressPercentage !== goal.progressPercentage) {
+    await emitWebhookEvent(supabase, userId, 'goal.progress_changed', {
+      goal,
+      previousProgress: previous.progressPercentage,
+    });
+  }
+  if (previous && previous.status !== 'completed' && goal.status === 'completed') {
+    await emitWebhookEvent(supabase, userId, 'goal.completed', { goal });
+    await notifyUser(supabase, userId, {
+      type: 'goal_completed',
+      title: `Goal completed: ${goal.title}`,
+      url: '/goals',
+      data: { goalId: goal.id },
+    });
+  }
+
+  // Roll child changes up into the old and new parents
+  if (!previous) {
+    if (goal.parentGoalId) {
+      await recalculateDerivedProgress(supabase, goal.parentGoalId, userId);
+    }
+  } else {
+    const parentChanged = previous.parentGoalId !== goal.parentGoalId;
+    const childChanged =
+      previous.progressPercentage !== goal.progressPercentage ||
+      previous.status !== goal.status ||
+      previous.rollupWeight !== goal.rollupWeight;
+
+    if (parentChanged && previous.parentGoalId) {
+      await recalculateDerivedProgress(supabase, previous.parentGoalId, userId);
+    }
+    if ((parentChanged || childChanged) && goal.parentGoalId) {
+      await recalculateDerivedProgress(supabase, goal.parentGoalId, userId);
+    }
+  }
+}
+
+/**
+ * Append the goal's current progress/status to goal_progress_events
+ */
+async function recordGoalProgressEvent(
+  supabase: SupabaseClientAny,
+  goal: Goal
+): Promise<void> {
+  const insertData = {
+    goal_id: goal.id,
+    user_id: goal.userId,
+    progress_percentage: goal.progressPercentage,
+    status: goal.status,
+  };
+
+  const { error } = await supabase.from('goal_progress_events').insert(insertData);
+
+  if (error) {
+    throw new Error(`Failed to record goal progress: ${error.message}`);
+  }
+}
+
+/**
+ * Get progress/status history for a goal, oldest first (validates user ownership)
+ */
+export async function getGoalProgressHistory(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string
+): Promise<GoalProgressEvent[]> {
+  const { data, error } = await supabase
+    .from('goal_progress_events')
+    .select('*')
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch goal progress history: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapProgressEvent);
+}
+
+/**
+ * Weighted progress of a derived goal from its children
+ * Abandoned children are left out, completed ones count as 100%
+ * Returns null when no child counts (progress is left unchanged)
+ */
+export function calculateRollupProgress(
+  children: Pick<Goal, 'progressPercentage' | 'status' | 'rollupWeight'>[],
+  weighting: RollupWeighting
+): number | null {
+  const counted = children.filter((child) => child.status !== 'abandoned');
+  if (counted.length === 0) return null;
+
+  let totalWeight = 0;
+  let weightedProgress = 0;
+  for (const child of counted) {
+    const weight = weighting === 'custom' ? child.rollupWeight : 1;
+    const progress = child.status === 'completed' ? 100 : child.progressPercentage;
+    totalWeight += weight;
+    weightedProgress += weight * progress;
+  }
+
+  return totalWeight > 0 ? Math.round(weightedProgress / totalWeight) : 0;
 }
 
 /**
- * Delete goal (hard delete, validates user ownership)
+ * Recompute a derived goal's progress from its linked short-term goals
+ * Completes the goal when autoComplete is set and progress reaches 100%
+ * No-op for goals in manual mode; goes through updateGoal so history is recorded
+ */
+export async function recalculateDerivedProgress(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string
+): Promise<Goal | null> {
+  const goal = await getGoalById(supabase, goalId, userId);
+  if (!goal || goal.progressMode !== 'derived' || goal.type !== 'long-term') {
+    return goal;
+  }
+
+  const children = await getChildGoals(supabase, goalId, userId);
+  const progress = calculateRollupProgress(children, goal.rollupWeighting);
+  if (progress === null) return goal;
+
+  const input: UpdateGoalInput = {};
+  if (progress !== goal.progressPercentage) {
+    input.progressPercentage = progress;
+  }
+  if (goal.autoComplete && progress === 100 && goal.status === 'active') {
+    input.status = 'completed';
+  }
+
+  if (Object.keys(input).length === 0) return goal;
+
+  return updateGoal(supabase, goalId, userId, input);
+}
+
+/**
+ * Move goal to the trash (soft delete, validates user ownership)
+ * Its child goals and journal links are kept but hidden, so restoreGoal brings them back.
+ * A trashed child no longer counts towards its parent's derived progress
  */
 export async function deleteGoal(
   supabase: SupabaseClientAny,
   id: string,
   userId: string
 ): Promise<boolean> {
+  const existing = await getGoalById(supabase, id, userId);
+
   const { error, count } = await supabase
     .from('goals')
-    .delete({ count: 'exact' })
+    .update({ deleted_at: new Date().toISOString() }, { count: 'exact' })
     .eq('id', id)
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   if (error) {
     throw new Error(`Failed to delete goal: ${error.message}`);
   }
 
-  return (count ?? 0) > 0;
+  const deleted = (count ?? 0) > 0;
+  if (deleted && existing?.parentGoalId) {
+    await recalculateDerivedProgress(supabase, existing.parentGoalId, userId);
+  }
+
+  return deleted;
 }
 
 /**
@@ -232,6 +462,7 @@ export async function getGoalCategories(
     .from('goals')
     .select('category')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .not('category', 'is', null);
 
   if (error) {
@@ -261,6 +492,7 @@ export async function getChildGoals(
     .select('*')
     .eq('parent_goal_id', parentGoalId)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -270,6 +502,36 @@ export async function getChildGoals(
   return (data ?? []).map(mapGoal);
 }
 
+/**
+ * Get what moving a goal to the trash would hide: its child goals and the journal entries
+ * linked to it. Returns null when the goal does not exist
+ */
+export async function getGoalDependents(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<GoalDependents | null> {
+  const goal = await getGoalById(supabase, id, userId);
+  if (!goal) return null;
+
+  const childGoals = await getChildGoals(supabase, id, userId);
+
+  const { error, count } = await supabase
+    .from('journal_goal_mentions')
+    .select('journal_entry_id, journal_entries!inner(deleted_at)', { count: 'exact', head: true })
+    .eq('goal_id', id)
+    .is('journal_entries.deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to count linked journals: ${error.message}`);
+  }
+
+  return {
+    childGoals: childGoals.map(({ id: childId, title }) => ({ id: childId, title })),
+    journalEntryCount: count ?? 0,
+  };
+}
+
 /**
  * Get goal with its parent goal (if any)
  */
@@ -312,6 +574,7 @@ export async function getGoalWithChildren(
 /**
  * Link short-term goal to long-term goal
  * Returns updated goal or throws GoalLinkValidationError with error code
+ * The parent's derived progress is recomputed through updateGoal
  */
 export async function linkGoalToParent(
   supabase: SupabaseClientAny,
@@ -386,7 +649,7 @@ export async function linkGoalToParent(
 }
 
 /**
- * Unlink short-term goal from its parent
+ * Unlink short-term goal from its parent (recomputes the old parent's derived progress)
  */
 export async function unlinkGoalFromParent(
   supabase: SupabaseClientAny,
@@ -420,6 +683,7 @@ export async function getLongTermGoals(
     .from('goals')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .eq('type', 'long-term')
     .eq('status', 'active')
     .order('title', { ascending: true });
@@ -445,6 +709,7 @@ export async function getGoalsByDeadline(
     .from('goals')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .eq('type', 'short-term')
     .not('target_date', 'is', null)
     .gte('target_date', startDate)
@@ -457,3 +722,29 @@ export async function getGoalsByDeadline(
 
   return (data ?? []).map(mapGoal);
 }
+
+/**
+ * Get active goals not updated since the given time
+ * Habits are left out: their check-ins do not touch the goal itself
+ */
+export async function getStaleGoals(
+  supabase: SupabaseClientAny,
+  userId: string,
+  updatedBefore: string
+): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .eq('status', 'active')
+    .neq('type', 'habit')
+    .lt('updated_at', updatedBefore)
+    .order('updated_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch stale goals: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapGoal);
+}
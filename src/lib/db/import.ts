@@ -0,0 +1,40 @@
+/**
+ * Import database functions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CreateJournalEntryInput } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * Insert journal entries and their goal links in a single transaction
+ * Runs as the calling user, so RLS still applies; goal ids the user does not
+ * own are ignored. Returns the new journal ids in input order.
+ */
+export async function importJournalEntries(
+  supabase: SupabaseClientAny,
+  entries: CreateJournalEntryInput[]
+): Promise<string[]> {
+  if (entries.length === 0) return [];
+
+  const payload = entries.map((entry) => ({
+    entry_date: entry.entryDate ?? new Date().toLocaleDateString('en-CA'),
+    title: entry.title ?? null,
+    content: entry.content,
+    mood: entry.mood ?? null,
+    tags: entry.tags ?? [],
+    goal_ids: entry.goalIds ?? [],
+  }));
+
+  const { data, error } = await supabase.rpc('import_journal_entries', {
+    p_entries: payload,
+  });
+
+  if (error) {
+    throw new Error(`Failed to import journals: ${error.message}`);
+  }
+
+  return (data ?? []) as string[];
+}
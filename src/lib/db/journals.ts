@@ -16,9 +16,17 @@ import type {
   Goal,
 } from '@/types';
 import {
+  JournalEntryConflictError,
   mapJournalEntryFromRow as mapJournal,
   mapGoalFromRow as mapGoal,
 } from '@/types';
+import { getUpdatedAtWindow, isSameVersion } from '@/lib/concurrency';
+import { toTsQuery } from '@/lib/search';
+import { getTodayInTimezone } from '@/lib/timezone';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { deleteJournalDraft } from './drafts';
+import { getUserTimezone } from './profiles';
+import { getJournalRevisionById, recordJournalRevision } from './revisions';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseClientAny = SupabaseClient<any, any, any>;
@@ -55,7 +63,8 @@ export async function getJournalEntries(
   let query = supabase
     .from('journal_entries')
     .select('*', { count: 'exact' })
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   // Apply filters
   if (filters?.mood) {
@@ -68,9 +77,9 @@ export async function getJournalEntries(
     query = query.lte('entry_date', filters.dateTo);
   }
   if (filters?.search) {
-    query = query.or(
-      `title.ilike.%${filters.search}%,content.ilike.%${filters.search}%`
-    );
+    const tsQuery = toTsQuery(filters.search, { prefixAll: true });
+    if (!tsQuery) return { journals: [], totalCount: 0 };
+    query = query.textSearch('search_vector', tsQuery, { config: 'english' });
   }
   if (filters?.tags && filters.tags.length > 0) {
     query = query.overlaps('tags', filters.tags);
@@ -125,6 +134,7 @@ export async function getJournalById(
     .select('*')
     .eq('id', id)
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .single();
 
   if (error) {
@@ -165,7 +175,8 @@ export async function getJournalWithGoals(
       .from('goals')
       .select('*')
       .in('id', goalIds)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .is('deleted_at', null);
 
     if (goalsError) {
       throw new Error(`Failed to fetch linked goals: ${goalsError.message}`);
@@ -182,6 +193,7 @@ export async function getJournalWithGoals(
 
 /**
  * Create new journal entry
+ * Without input.entryDate the entry is dated today in the user's timezone
  */
 export async function createJournalEntry(
   supabase: SupabaseClientAny,
@@ -192,7 +204,7 @@ export async function createJournalEntry(
     user_id: userId,
     title: input.title ?? null,
     content: input.content,
-    entry_date: input.entryDate ?? new Date().toLocaleDateString('en-CA'),
+    entry_date: input.entryDate ?? getTodayInTimezone(await getUserTimezone(supabase, userId)),
     mood: input.mood ?? null,
     tags: input.tags ?? [],
   };
@@ -211,7 +223,23 @@ export async function createJournalEntry(
 }
 
 /**
- * Create journal entry with goal links (transactional)
+ * Delete the draft an entry was written in once the entry is saved
+ * Never throws: the entry is saved either way and a leftover draft can be discarded by hand
+ */
+async function discardSavedDraft(
+  supabase: SupabaseClientAny,
+  userId: string,
+  draftId: string | undefined
+): Promise<void> {
+  if (!draftId) return;
+  await deleteJournalDraft(supabase, draftId, userId).catch((error) =>
+    console.error('Discard journal draft error:', error)
+  );
+}
+
+/**
+ * Create journal entry with goal links (transactional, emits journal.created)
+ * Deletes input.draftId once the entry is saved
  */
 export async function createJournalEntryWithGoals(
   supabase: SupabaseClientAny,
@@ -221,17 +249,21 @@ export async function createJournalEntryWithGoals(
   // Create journal entry
   const journal = await createJournalEntry(supabase, userId, input);
 
-  // Link goals if provided
+  // Link goals if provided; accepted suggestions are marked as not mentioned explicitly
+  const goalIds = input.goalIds ?? [];
+  const suggestedGoalIds = (input.suggestedGoalIds ?? []).filter((id) => !goalIds.includes(id));
   let mentionedGoals: Goal[] = [];
-  if (input.goalIds && input.goalIds.length > 0) {
-    await linkJournalToGoals(supabase, journal.id, input.goalIds);
+  if (goalIds.length > 0 || suggestedGoalIds.length > 0) {
+    await linkJournalToGoals(supabase, journal.id, goalIds);
+    await linkJournalToGoals(supabase, journal.id, suggestedGoalIds, false);
 
     // Fetch linked goals
     const { data: goals, error: goalsError } = await supabase
       .from('goals')
       .select('*')
-      .in('id', input.goalIds)
-      .eq('user_id', userId);
+      .in('id', [...goalIds, ...suggestedGoalIds])
+      .eq('user_id', userId)
+      .is('deleted_at', null);
 
     if (goalsError) {
       throw new Error(`Failed to fetch linked goals: ${goalsError.message}`);
@@ -240,14 +272,69 @@ export async function createJournalEntryWithGoals(
     mentionedGoals = (goals ?? []).map(mapGoal);
   }
 
-  return {
-    ...journal,
-    mentionedGoals,
-  };
+  await discardSavedDraft(supabase, userId, input.draftId);
+
+  const created = { ...journal, mentionedGoals };
+  await emitWebhookEvent(supabase, userId, 'journal.created', { journal: created });
+
+  return created;
+}
+
+// Links to trashed goals are left out, so edits keep them for when the goal is restored
+async function getLinkedGoalIds(supabase: SupabaseClientAny, journalId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('journal_goal_mentions')
+    .select('goal_id, goals!inner(deleted_at)')
+    .eq('journal_entry_id', journalId)
+    .is('goals.deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch goal links: ${error.message}`);
+  }
+
+  return (data ?? []).map((m: { goal_id: string }) => m.goal_id);
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && a.every((item) => setB.has(item));
+}
+
+/**
+ * Whether an update changes anything a revision holds (title, content, mood, tags, goal links)
+ */
+function changesRevisionedFields(
+  entry: JournalEntry,
+  linkedGoalIds: string[],
+  input: UpdateJournalEntryInput
+): boolean {
+  const nextGoalIds = [...(input.goalIds ?? linkedGoalIds), ...(input.suggestedGoalIds ?? [])];
+
+  return (
+    (input.title !== undefined && input.title !== entry.title) ||
+    (input.content !== undefined && input.content !== entry.content) ||
+    (input.mood !== undefined && input.mood !== entry.mood) ||
+    (input.tags !== undefined && !sameItems(input.tags, entry.tags)) ||
+    !sameItems(nextGoalIds, linkedGoalIds)
+  );
+}
+
+// Raises JournalEntryConflictError with the entry as it is now, if it still exists
+async function throwJournalConflict(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<void> {
+  const current = await getJournalWithGoals(supabase, id, userId);
+  if (current) throw new JournalEntryConflictError(current);
 }
 
 /**
  * Update existing journal entry (validates user ownership)
+ * When the title, content, mood, tags or goal links change, the entry as it was is recorded in
+ * journal_entry_revisions once the update has applied. With input.expectedUpdatedAt the update
+ * only applies if the entry has not changed since; otherwise it raises JournalEntryConflictError
  */
 export async function updateJournalEntry(
   supabase: SupabaseClientAny,
@@ -255,6 +342,19 @@ export async function updateJournalEntry(
   userId: string,
   input: UpdateJournalEntryInput
 ): Promise<JournalEntry | null> {
+  const current = await getJournalById(supabase, id, userId);
+  if (!current) return null;
+
+  if (
+    input.expectedUpdatedAt !== undefined &&
+    !isSameVersion(current.updatedAt, input.expectedUpdatedAt)
+  ) {
+    await throwJournalConflict(supabase, id, userId);
+  }
+
+  const linkedGoalIds = await getLinkedGoalIds(supabase, id);
+  const replacesRevision = changesRevisionedFields(current, linkedGoalIds, input);
+
   const updateData: Record<string, unknown> = {};
 
   if (input.title !== undefined) updateData.title = input.title;
@@ -266,26 +366,42 @@ export async function updateJournalEntry(
   // Always update timestamp
   updateData.updated_at = new Date().toISOString();
 
-  const { data, error } = await supabase
+  let query = supabase
     .from('journal_entries')
     .update(updateData)
     .eq('id', id)
     .eq('user_id', userId)
-    .select()
-    .single();
+    .is('deleted_at', null);
+
+  // Checked again here in case the entry was updated since it was read above
+  if (input.expectedUpdatedAt !== undefined) {
+    const version = getUpdatedAtWindow(input.expectedUpdatedAt);
+    query = query.gte('updated_at', version.from).lt('updated_at', version.to);
+  }
+
+  const { data, error } = await query.select().single();
 
   if (error) {
     if (error.code === 'PGRST116') {
+      if (input.expectedUpdatedAt !== undefined) {
+        await throwJournalConflict(supabase, id, userId);
+      }
       return null; // Not found or no permission
     }
     throw new Error(`Failed to update journal: ${error.message}`);
   }
 
+  // Only after the update, so a rejected or failed update leaves no revision behind
+  if (replacesRevision) {
+    await recordJournalRevision(supabase, current, linkedGoalIds);
+  }
+
   return data ? mapJournal(data) : null;
 }
 
 /**
  * Update journal entry with goal links
+ * Deletes input.draftId once the changes are saved
  */
 export async function updateJournalEntryWithGoals(
   supabase: SupabaseClientAny,
@@ -297,48 +413,44 @@ export async function updateJournalEntryWithGoals(
   const journal = await updateJournalEntry(supabase, id, userId, input);
   if (!journal) return null;
 
-  // If goalIds provided, replace all goal links
-  let mentionedGoals: Goal[] = [];
-  if (input.goalIds !== undefined) {
-    // Remove all existing links
-    await unlinkJournalFromGoals(supabase, id);
-
-    // Add new links
-    if (input.goalIds.length > 0) {
-      await linkJournalToGoals(supabase, id, input.goalIds);
-
-      // Fetch linked goals
-      const { data: goals, error: goalsError } = await supabase
-        .from('goals')
-        .select('*')
-        .in('id', input.goalIds)
-        .eq('user_id', userId);
-
-      if (goalsError) {
-        throw new Error(`Failed to fetch linked goals: ${goalsError.message}`);
-      }
+  let linkedGoalIds = await getLinkedGoalIds(supabase, id);
+  const suggestedGoalIds = input.suggestedGoalIds ?? [];
 
-      mentionedGoals = (goals ?? []).map(mapGoal);
+  // If goalIds provided, replace the goal links. Links that stay keep their
+  // mentioned_explicitly flag, so accepted suggestions are not turned explicit.
+  if (input.goalIds !== undefined) {
+    const keep = [...input.goalIds, ...suggestedGoalIds];
+    const removed = linkedGoalIds.filter((goalId) => !keep.includes(goalId));
+    if (removed.length > 0) {
+      await unlinkJournalFromGoals(supabase, id, removed);
     }
-  } else {
-    // Fetch existing links
-    const { data: mentions } = await supabase
-      .from('journal_goal_mentions')
-      .select('goal_id')
-      .eq('journal_entry_id', id);
-
-    if (mentions && mentions.length > 0) {
-      const goalIds = mentions.map((m: { goal_id: string }) => m.goal_id);
-      const { data: goals } = await supabase
-        .from('goals')
-        .select('*')
-        .in('id', goalIds)
-        .eq('user_id', userId);
-
-      mentionedGoals = (goals ?? []).map(mapGoal);
+    await linkJournalToGoals(supabase, id, input.goalIds);
+    linkedGoalIds = [...input.goalIds];
+  }
+
+  const newSuggestedIds = suggestedGoalIds.filter((goalId) => !linkedGoalIds.includes(goalId));
+  await linkJournalToGoals(supabase, id, newSuggestedIds, false);
+  linkedGoalIds.push(...newSuggestedIds);
+
+  // Fetch linked goals
+  let mentionedGoals: Goal[] = [];
+  if (linkedGoalIds.length > 0) {
+    const { data: goals, error: goalsError } = await supabase
+      .from('goals')
+      .select('*')
+      .in('id', linkedGoalIds)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (goalsError) {
+      throw new Error(`Failed to fetch linked goals: ${goalsError.message}`);
     }
+
+    mentionedGoals = (goals ?? []).map(mapGoal);
   }
 
+  await discardSavedDraft(supabase, userId, input.draftId);
+
   return {
     ...journal,
     mentionedGoals,
@@ -346,24 +458,60 @@ export async function updateJournalEntryWithGoals(
 }
 
 /**
- * Delete journal entry (hard delete, validates user ownership)
+ * Put an entry back the way it was in one of its revisions (title, content, mood, tags and
+ * goal links). Goals deleted or moved to the trash since are left out. This is an update like
+ * any other, so the version being replaced is recorded and the restore can itself be undone.
+ * Returns null when the entry or revision does not exist
+ */
+export async function restoreJournalRevision(
+  supabase: SupabaseClientAny,
+  id: string,
+  revisionId: string,
+  userId: string
+): Promise<JournalEntryWithGoals | null> {
+  const revision = await getJournalRevisionById(supabase, id, revisionId, userId);
+  if (!revision) return null;
+
+  let goalIds: string[] = [];
+  if (revision.goalIds.length > 0) {
+    const { data: goals, error } = await supabase
+      .from('goals')
+      .select('id')
+      .in('id', revision.goalIds)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch linked goals: ${error.message}`);
+    }
+
+    goalIds = (goals ?? []).map((g: { id: string }) => g.id);
+  }
+
+  return updateJournalEntryWithGoals(supabase, id, userId, {
+    title: revision.title,
+    content: revision.content,
+    mood: revision.mood,
+    tags: revision.tags,
+    goalIds,
+  });
+}
+
+/**
+ * Move journal entry to the trash (soft delete, validates user ownership)
+ * Its goal links are kept but hidden, so restoreJournalEntry brings them back
  */
 export async function deleteJournalEntry(
   supabase: SupabaseClientAny,
   id: string,
   userId: string
 ): Promise<boolean> {
-  // Delete goal mentions first (foreign key constraint)
-  await supabase
-    .from('journal_goal_mentions')
-    .delete()
-    .eq('journal_entry_id', id);
-
   const { error, count } = await supabase
     .from('journal_entries')
-    .delete({ count: 'exact' })
+    .update({ deleted_at: new Date().toISOString() }, { count: 'exact' })
     .eq('id', id)
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   if (error) {
     throw new Error(`Failed to delete journal: ${error.message}`);
@@ -451,7 +599,8 @@ export async function getJournalGoals(
     .from('goals')
     .select('*')
     .in('id', goalIds)
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   if (goalsError) {
     throw new Error(`Failed to fetch linked goals: ${goalsError.message}`);
@@ -487,7 +636,8 @@ export async function getJournalEntriesWithGoals(
     `,
       { count: 'exact' }
     )
-    .eq('user_id', userId);
+    .eq('user_id', userId)
+    .is('deleted_at', null);
 
   // Apply filters
   if (filters?.mood) {
@@ -500,9 +650,9 @@ export async function getJournalEntriesWithGoals(
     query = query.lte('entry_date', filters.dateTo);
   }
   if (filters?.search) {
-    query = query.or(
-      `title.ilike.%${filters.search}%,content.ilike.%${filters.search}%`
-    );
+    const tsQuery = toTsQuery(filters.search, { prefixAll: true });
+    if (!tsQuery) return { journals: [], totalCount: 0 };
+    query = query.textSearch('search_vector', tsQuery, { config: 'english' });
   }
   if (filters?.tags && filters.tags.length > 0) {
     query = query.overlaps('tags', filters.tags);
@@ -544,7 +694,7 @@ export async function getJournalEntriesWithGoals(
     (row: JournalEntryRow & { journal_goal_mentions?: Array<{ goal_id: string; goals: GoalRow | null }> }) => {
       const journalEntry = mapJournal(row);
       const mentionedGoals: Goal[] = (row.journal_goal_mentions ?? [])
-        .filter((m) => m.goals !== null)
+        .filter((m) => m.goals !== null && m.goals.deleted_at === null)
         .map((m) => mapGoal(m.goals as GoalRow));
 
       return {
@@ -571,6 +721,7 @@ export async function getJournalTags(
     .from('journal_entries')
     .select('tags')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .not('tags', 'is', null);
 
   if (error) {
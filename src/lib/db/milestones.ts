@@ -0,0 +1,222 @@
+/**
+ * Goal milestone database functions
+ * Ordered checklist items per goal; a goal with milestones derives its progress from them
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Goal,
+  GoalMilestone,
+  CreateMilestoneInput,
+  UpdateMilestoneInput,
+} from '@/types';
+import { mapGoalMilestoneFromRow as mapMilestone } from '@/types';
+import { getGoalById, updateGoal } from './goals';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * Weighted completion percentage of a milestone list
+ * Returns null when there are no milestones (progress stays manual)
+ */
+export function calculateMilestoneProgress(
+  milestones: Pick<GoalMilestone, 'weight' | 'completed'>[]
+): number | null {
+  if (milestones.length === 0) return null;
+
+  const totalWeight = milestones.reduce((sum, m) => sum + m.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const completedWeight = milestones
+    .filter((m) => m.completed)
+    .reduce((sum, m) => sum + m.weight, 0);
+
+  return Math.round((completedWeight / totalWeight) * 100);
+}
+
+/**
+ * Get milestones for a goal in checklist order
+ */
+export async function getMilestones(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string
+): Promise<GoalMilestone[]> {
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .select('*')
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch milestones: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapMilestone);
+}
+
+/**
+ * Get single milestone by ID, scoped to its goal (validates user ownership)
+ */
+export async function getMilestoneById(
+  supabase: SupabaseClientAny,
+  id: string,
+  goalId: string,
+  userId: string
+): Promise<GoalMilestone | null> {
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .select('*')
+    .eq('id', id)
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    throw new Error(`Failed to fetch milestone: ${error.message}`);
+  }
+
+  return data ? mapMilestone(data) : null;
+}
+
+/**
+ * Create milestone (appended to the end of the checklist unless a position is given)
+ */
+export async function createMilestone(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string,
+  input: CreateMilestoneInput
+): Promise<GoalMilestone> {
+  let position = input.position;
+  if (position === undefined) {
+    const existing = await getMilestones(supabase, goalId, userId);
+    position = existing.length > 0 ? existing[existing.length - 1].position + 1 : 0;
+  }
+
+  const insertData = {
+    goal_id: goalId,
+    user_id: userId,
+    title: input.title,
+    position,
+    weight: input.weight ?? 1,
+    due_date: input.dueDate ?? null,
+  };
+
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .insert(insertData)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create milestone: ${error.message}`);
+  }
+
+  await syncGoalProgressFromMilestones(supabase, goalId, userId);
+
+  return mapMilestone(data);
+}
+
+/**
+ * Update milestone (validates user ownership)
+ */
+export async function updateMilestone(
+  supabase: SupabaseClientAny,
+  id: string,
+  goalId: string,
+  userId: string,
+  input: UpdateMilestoneInput
+): Promise<GoalMilestone | null> {
+  const updateData: Record<string, unknown> = {};
+
+  if (input.title !== undefined) updateData.title = input.title;
+  if (input.dueDate !== undefined) updateData.due_date = input.dueDate;
+  if (input.weight !== undefined) updateData.weight = input.weight;
+  if (input.position !== undefined) updateData.position = input.position;
+  if (input.completed !== undefined) {
+    updateData.completed_at = input.completed ? new Date().toISOString() : null;
+  }
+
+  updateData.updated_at = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .update(updateData)
+    .eq('id', id)
+    .eq('goal_id', goalId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found or no permission
+    }
+    throw new Error(`Failed to update milestone: ${error.message}`);
+  }
+
+  if (input.completed !== undefined || input.weight !== undefined) {
+    await syncGoalProgressFromMilestones(supabase, goalId, userId);
+  }
+
+  return data ? mapMilestone(data) : null;
+}
+
+/**
+ * Delete milestone (hard delete, validates user ownership)
+ */
+export async function deleteMilestone(
+  supabase: SupabaseClientAny,
+  id: string,
+  goalId: string,
+  userId: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('goal_milestones')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+    .eq('goal_id', goalId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete milestone: ${error.message}`);
+  }
+
+  const deleted = (count ?? 0) > 0;
+  if (deleted) {
+    await syncGoalProgressFromMilestones(supabase, goalId, userId);
+  }
+
+  return deleted;
+}
+
+/**
+ * Recompute goal progress from its milestones
+ * No-op when the goal has no milestones, rolls up from linked goals or is a habit;
+ * goes through updateGoal so history is recorded
+ */
+export async function syncGoalProgressFromMilestones(
+  supabase: SupabaseClientAny,
+  goalId: string,
+  userId: string
+): Promise<Goal | null> {
+  const goal = await getGoalById(supabase, goalId, userId);
+  if (!goal) return null;
+  if (goal.progressMode === 'derived' || goal.type === 'habit') return goal;
+
+  const milestones = await getMilestones(supabase, goalId, userId);
+  const progress = calculateMilestoneProgress(milestones);
+
+  if (progress === null || progress === goal.progressPercentage) {
+    return goal;
+  }
+
+  return updateGoal(supabase, goalId, userId, { progressPercentage: progress });
+}
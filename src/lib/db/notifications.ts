@@ -0,0 +1,314 @@
+/**
+ * Notification database functions
+ * Preferences, the notification inbox and Web Push subscriptions. The reminder job writes
+ * with the service-role client; everything else runs as the user.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationInsert, PushSubscriptionRow } from '@/types/database.types';
+import type {
+  CreatePushSubscriptionInput,
+  Notification,
+  NotificationChannel,
+  NotificationPreferences,
+  PaginationParams,
+  PushSubscription,
+  UpdateNotificationPreferencesInput,
+} from '@/types';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  mapNotificationFromRow as mapNotification,
+  mapNotificationPreferencesFromRow as mapPreferences,
+  mapPushSubscriptionFromRow as mapPushSubscription,
+} from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface NotificationFilters {
+  unreadOnly?: boolean;
+}
+
+export interface NotificationQueryResult {
+  notifications: Notification[];
+  totalCount: number;
+  unreadCount: number;
+}
+
+/**
+ * The user's notification preferences (defaults until they are first saved)
+ */
+export async function getNotificationPreferences(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  return data ? mapPreferences(data) : { ...DEFAULT_NOTIFICATION_PREFERENCES };
+}
+
+/**
+ * Preferences of several users, keyed by user id (service-role client, for scheduled jobs)
+ */
+export async function getNotificationPreferencesForUsers(
+  supabase: SupabaseClientAny,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const preferences = new Map<string, NotificationPreferences>();
+  if (userIds.length === 0) return preferences;
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  for (const row of data ?? []) {
+    preferences.set(row.user_id, mapPreferences(row));
+  }
+  for (const userId of userIds) {
+    if (!preferences.has(userId)) {
+      preferences.set(userId, { ...DEFAULT_NOTIFICATION_PREFERENCES });
+    }
+  }
+
+  return preferences;
+}
+
+/**
+ * Save notification preferences; fields left out keep their current value
+ */
+export async function updateNotificationPreferences(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: UpdateNotificationPreferencesInput
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(supabase, userId);
+  const next = { ...current, ...input };
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      user_id: userId,
+      channels: Array.from(new Set(next.channels)),
+      rules: Array.from(new Set(next.rules)),
+      reminder_time: next.reminderTime,
+      quiet_hours_start: next.quietHoursStart,
+      quiet_hours_end: next.quietHoursEnd,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update notification preferences: ${error.message}`);
+  }
+
+  return mapPreferences(data);
+}
+
+/**
+ * List the user's in-app notifications, newest first, with the unread count
+ */
+export async function getNotifications(
+  supabase: SupabaseClientAny,
+  userId: string,
+  filters?: NotificationFilters,
+  pagination?: PaginationParams
+): Promise<NotificationQueryResult> {
+  const page = pagination?.page ?? 1;
+  const pageSize = pagination?.pageSize ?? 20;
+  const offset = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('notifications')
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .contains('channels', ['in_app']);
+
+  if (filters?.unreadOnly) {
+    query = query.is('read_at', null);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + pageSize - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  const { count: unreadCount, error: unreadError } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .contains('channels', ['in_app'])
+    .is('read_at', null);
+
+  if (unreadError) {
+    throw new Error(`Failed to count unread notifications: ${unreadError.message}`);
+  }
+
+  return {
+    notifications: (data ?? []).map(mapNotification),
+    totalCount: count ?? 0,
+    unreadCount: unreadCount ?? 0,
+  };
+}
+
+/**
+ * Mark notifications read: the given ids, or all unread ones when ids is omitted
+ * Returns how many were marked
+ */
+export async function markNotificationsRead(
+  supabase: SupabaseClientAny,
+  userId: string,
+  ids?: string[]
+): Promise<number> {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() }, { count: 'exact' })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error, count } = await query;
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Store a notification. Returns null when one with the same dedupe key already exists.
+ */
+export async function createNotification(
+  supabase: SupabaseClientAny,
+  notification: NotificationInsert
+): Promise<Notification | null> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .upsert(notification, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to create notification: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? mapNotification(data[0]) : null;
+}
+
+/**
+ * Record the channels a notification was delivered on
+ */
+export async function setNotificationChannels(
+  supabase: SupabaseClientAny,
+  id: string,
+  channels: NotificationChannel[]
+): Promise<void> {
+  const { error } = await supabase.from('notifications').update({ channels }).eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update notification: ${error.message}`);
+  }
+}
+
+/**
+ * Register a browser for Web Push (replaces the keys of a known endpoint)
+ */
+export async function savePushSubscription(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: CreatePushSubscriptionInput
+): Promise<PushSubscription> {
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        endpoint: input.endpoint,
+        p256dh: input.keys.p256dh,
+        auth: input.keys.auth,
+        user_agent: input.userAgent ?? null,
+      },
+      { onConflict: 'user_id,endpoint' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save push subscription: ${error.message}`);
+  }
+
+  return mapPushSubscription(data);
+}
+
+/**
+ * Remove a browser's subscription (validates user ownership)
+ */
+export async function deletePushSubscription(
+  supabase: SupabaseClientAny,
+  userId: string,
+  endpoint: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('push_subscriptions')
+    .delete({ count: 'exact' })
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint);
+
+  if (error) {
+    throw new Error(`Failed to delete push subscription: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * All of the user's push subscriptions, including the encryption keys
+ */
+export async function getPushSubscriptionTargets(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<PushSubscriptionRow[]> {
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch push subscriptions: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Drop a subscription the push service reported as gone
+ */
+export async function deletePushSubscriptionById(
+  supabase: SupabaseClientAny,
+  id: string
+): Promise<void> {
+  const { error } = await supabase.from('push_subscriptions').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete push subscription: ${error.message}`);
+  }
+}
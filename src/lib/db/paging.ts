@@ -0,0 +1,30 @@
+/**
+ * Reading past the PostgREST row cap
+ * Each response holds at most 1000 rows by default, so queries that can match more read them
+ * in pages. fetchPage must order by a unique key, or rows can repeat or go missing between pages.
+ */
+
+const ROWS_PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, read ROWS_PAGE_SIZE at a time; fetchPage applies .range(from, to)
+ */
+export async function fetchAllRows<T>(
+  label: string,
+  fetchPage: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += ROWS_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + ROWS_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    }
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < ROWS_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Profile database functions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Profile, UpdateProfileInput } from '@/types';
+import { mapProfileFromRow as mapProfile } from '@/types';
+import { resolveTimezone } from '@/lib/timezone';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * Get the user's profile
+ */
+export async function getProfile(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch profile: ${error.message}`);
+  }
+
+  return data ? mapProfile(data) : null;
+}
+
+/**
+ * Update the user's profile
+ */
+export async function updateProfile(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: UpdateProfileInput
+): Promise<Profile | null> {
+  const updateData: Record<string, unknown> = {};
+
+  if (input.fullName !== undefined) updateData.full_name = input.fullName;
+  if (input.avatarUrl !== undefined) updateData.avatar_url = input.avatarUrl;
+  if (input.timezone !== undefined) updateData.timezone = input.timezone;
+  if (input.emailDigest !== undefined) updateData.email_digest = input.emailDigest;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(updateData)
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    throw new Error(`Failed to update profile: ${error.message}`);
+  }
+
+  return data ? mapProfile(data) : null;
+}
+
+/**
+ * The user's timezone for date bucketing (UTC when missing or unknown)
+ */
+export async function getUserTimezone(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch timezone: ${error.message}`);
+  }
+
+  return resolveTimezone(data?.timezone);
+}
+
+/**
+ * Profiles in id order, starting after afterId (service-role client, for scheduled jobs)
+ */
+export async function getProfilesPage(
+  supabase: SupabaseClientAny,
+  afterId: string | null,
+  limit: number
+): Promise<Profile[]> {
+  let query = supabase.from('profiles').select('*').order('id', { ascending: true }).limit(limit);
+
+  if (afterId) {
+    query = query.gt('id', afterId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch profiles: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapProfile);
+}
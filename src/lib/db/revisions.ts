@@ -0,0 +1,87 @@
+/**
+ * Journal entry revision database functions
+ * updateJournalEntry records the entry as it was before each change, so edits can be compared
+ * and undone. Revisions are append-only and deleted with their entry.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JournalEntry, JournalEntryRevision } from '@/types';
+import { mapJournalEntryRevisionFromRow as mapRevision } from '@/types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+/**
+ * Append an entry's current state (before an update) to its history
+ */
+export async function recordJournalRevision(
+  supabase: SupabaseClientAny,
+  entry: JournalEntry,
+  goalIds: string[]
+): Promise<void> {
+  const insertData = {
+    journal_entry_id: entry.id,
+    user_id: entry.userId,
+    title: entry.title,
+    content: entry.content,
+    mood: entry.mood,
+    tags: entry.tags,
+    goal_ids: goalIds,
+    saved_at: new Date(entry.updatedAt).toISOString(),
+  };
+
+  const { error } = await supabase.from('journal_entry_revisions').insert(insertData);
+
+  if (error) {
+    throw new Error(`Failed to record journal revision: ${error.message}`);
+  }
+}
+
+/**
+ * Previous versions of an entry, most recent first (validates user ownership)
+ */
+export async function getJournalRevisions(
+  supabase: SupabaseClientAny,
+  journalId: string,
+  userId: string
+): Promise<JournalEntryRevision[]> {
+  const { data, error } = await supabase
+    .from('journal_entry_revisions')
+    .select('*')
+    .eq('journal_entry_id', journalId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch journal revisions: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapRevision);
+}
+
+/**
+ * Get a single revision of an entry (validates user ownership)
+ */
+export async function getJournalRevisionById(
+  supabase: SupabaseClientAny,
+  journalId: string,
+  revisionId: string,
+  userId: string
+): Promise<JournalEntryRevision | null> {
+  const { data, error } = await supabase
+    .from('journal_entry_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('journal_entry_id', journalId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to fetch journal revision: ${error.message}`);
+  }
+
+  return data ? mapRevision(data) : null;
+}
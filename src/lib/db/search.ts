@@ -0,0 +1,77 @@
+/**
+ * Search database functions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GoalStatus, GoalType, Mood, SearchFilters, SearchResult } from '@/types';
+import { highlightToHtml } from '@/lib/search';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface SearchQueryResult {
+  results: SearchResult[];
+  totalCount: number;
+}
+
+interface SearchRow {
+  kind: 'journal' | 'goal';
+  id: string;
+  title: string | null;
+  title_highlight: string;
+  snippet: string;
+  rank: number;
+  entry_date: string | null;
+  mood: string | null;
+  tags: string[] | null;
+  goal_type: string | null;
+  goal_status: string | null;
+  updated_at: string;
+  total_count: number;
+}
+
+/**
+ * Ranked full-text search across the user's journal entries and goals
+ * tsQuery must come from toTsQuery (see @/lib/search); RLS scopes rows to the caller
+ */
+export async function searchAll(
+  supabase: SupabaseClientAny,
+  tsQuery: string,
+  filters: SearchFilters = {},
+  pagination: { page: number; pageSize: number } = { page: 1, pageSize: 20 }
+): Promise<SearchQueryResult> {
+  const { data, error } = await supabase.rpc('search_all', {
+    p_query: tsQuery,
+    p_kinds: filters.kinds ?? ['journal', 'goal'],
+    p_mood: filters.mood ?? null,
+    p_tag: filters.tag ?? null,
+    p_date_from: filters.dateFrom ?? null,
+    p_date_to: filters.dateTo ?? null,
+    p_goal_id: filters.goalId ?? null,
+    p_limit: pagination.pageSize,
+    p_offset: (pagination.page - 1) * pagination.pageSize,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as SearchRow[];
+  return {
+    results: rows.map((row) => ({
+      kind: row.kind,
+      id: row.id,
+      title: row.title,
+      titleHighlight: highlightToHtml(row.title_highlight ?? ''),
+      snippet: highlightToHtml(row.snippet ?? ''),
+      rank: row.rank,
+      entryDate: row.entry_date,
+      mood: row.mood as Mood | null,
+      tags: row.tags ?? [],
+      goalType: row.goal_type as GoalType | null,
+      goalStatus: row.goal_status as GoalStatus | null,
+      updatedAt: new Date(row.updated_at),
+    })),
+    totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Sync database functions
+ * get_sync_changes and apply_sync_mutations (see the sync migration) read and write in a single
+ * statement or transaction; this module maps between them and the domain models, and runs the
+ * side effects of applied goal and entry changes (progress history, roll-ups, webhooks).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  GoalRow,
+  JournalEntryRow,
+  JournalGoalMentionRow,
+  SyncTombstoneEntity,
+} from '@/types/database.types';
+import type {
+  CreateGoalInput,
+  JournalEntry,
+  SyncChanges,
+  SyncConflict,
+  SyncConflictReason,
+  SyncEntity,
+  SyncJournalEntryFields,
+  SyncMutation,
+  SyncResult,
+  UpdateGoalInput,
+} from '@/types';
+import {
+  mapGoalFromRow as mapGoal,
+  mapJournalEntryFromRow as mapJournal,
+  mapJournalGoalMentionFromRow as mapMention,
+  SyncMutationError,
+} from '@/types';
+import { indexJournalEntries } from '@/lib/embeddings';
+import { getTodayInTimezone } from '@/lib/timezone';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { handleGoalSaved, recalculateDerivedProgress } from './goals';
+import { getJournalWithGoals } from './journals';
+import { getUserTimezone } from './profiles';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+type SyncRow = GoalRow | JournalEntryRow | JournalGoalMentionRow;
+
+interface SyncChangeRow {
+  entity: SyncTombstoneEntity;
+  id: string;
+  deleted: boolean;
+  data: SyncRow | null;
+  change_seq: number;
+}
+
+interface AppliedMutationRow {
+  index: number;
+  entity: SyncTombstoneEntity;
+  op: SyncMutation['op'];
+  id: string;
+  before: SyncRow | null;
+  after: SyncRow | null;
+}
+
+interface ConflictRow {
+  index: number;
+  entity: SyncTombstoneEntity;
+  op: SyncMutation['op'];
+  id: string;
+  reason: SyncConflictReason;
+  current: SyncRow | null;
+}
+
+const ENTITY_NAMES: Record<SyncTombstoneEntity, SyncEntity> = {
+  goal: 'goal',
+  journal_entry: 'journalEntry',
+  mention: 'mention',
+};
+
+const ENTITY_COLUMNS: Record<SyncEntity, SyncTombstoneEntity> = {
+  goal: 'goal',
+  journalEntry: 'journal_entry',
+  mention: 'mention',
+};
+
+function mapRow(entity: SyncTombstoneEntity, row: SyncRow) {
+  if (entity === 'goal') return mapGoal(row as GoalRow);
+  if (entity === 'journal_entry') return mapJournal(row as JournalEntryRow);
+  return mapMention(row as JournalGoalMentionRow);
+}
+
+/**
+ * Changes to the user's goals, journal entries and mentions after a cursor, oldest first
+ * since = 0 returns everything that exists (a full sync). RLS scopes rows to the caller
+ */
+export async function getSyncChanges(
+  supabase: SupabaseClientAny,
+  since: number,
+  limit: number
+): Promise<SyncChanges> {
+  const { data, error } = await supabase.rpc('get_sync_changes', {
+    p_since: since,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch sync changes: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as SyncChangeRow[];
+  const changes: SyncChanges = {
+    goals: { updated: [], deleted: [] },
+    journalEntries: { updated: [], deleted: [] },
+    mentions: { updated: [], deleted: [] },
+    cursor: String(rows.length > 0 ? rows[rows.length - 1].change_seq : since),
+    // A page can run over limit to keep rows with the same change_seq together
+    hasMore: rows.length >= limit,
+  };
+
+  for (const row of rows) {
+    if (row.entity === 'goal') {
+      if (row.deleted) changes.goals.deleted.push(row.id);
+      else changes.goals.updated.push(mapGoal(row.data as GoalRow));
+    } else if (row.entity === 'journal_entry') {
+      if (row.deleted) changes.journalEntries.deleted.push(row.id);
+      else changes.journalEntries.updated.push(mapJournal(row.data as JournalEntryRow));
+    } else if (row.deleted) {
+      changes.mentions.deleted.push(row.id);
+    } else {
+      changes.mentions.updated.push(mapMention(row.data as JournalGoalMentionRow));
+    }
+  }
+
+  return changes;
+}
+
+function toGoalColumns(input: Omit<UpdateGoalInput, 'expectedUpdatedAt'>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+
+  if (input.title !== undefined) columns.title = input.title;
+  if (input.description !== undefined) columns.description = input.description;
+  if (input.type !== undefined) columns.type = input.type;
+  if (input.category !== undefined) columns.category = input.category;
+  if (input.targetDate !== undefined) columns.target_date = input.targetDate;
+  if (input.status !== undefined) columns.status = input.status;
+  if (input.progressPercentage !== undefined) {
+    columns.progress_percentage = input.progressPercentage;
+  }
+  if (input.parentGoalId !== undefined) columns.parent_goal_id = input.parentGoalId;
+  if (input.progressMode !== undefined) columns.progress_mode = input.progressMode;
+  if (input.rollupWeighting !== undefined) columns.rollup_weighting = input.rollupWeighting;
+  if (input.autoComplete !== undefined) columns.auto_complete = input.autoComplete;
+  if (input.rollupWeight !== undefined) columns.rollup_weight = input.rollupWeight;
+  if (input.recurrence !== undefined) columns.recurrence = input.recurrence;
+
+  return columns;
+}
+
+function toJournalColumns(input: Partial<SyncJournalEntryFields>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+
+  if (input.title !== undefined) columns.title = input.title;
+  if (input.content !== undefined) columns.content = input.content;
+  if (input.entryDate !== undefined) columns.entry_date = input.entryDate;
+  if (input.mood !== undefined) columns.mood = input.mood;
+  if (input.tags !== undefined) columns.tags = input.tags;
+
+  return columns;
+}
+
+// New goals and entries get the same defaults as createGoal and createJournalEntry
+const GOAL_DEFAULTS: Omit<CreateGoalInput, 'title' | 'type'> = {
+  status: 'active',
+  progressPercentage: 0,
+  progressMode: 'manual',
+  rollupWeighting: 'equal',
+  autoComplete: false,
+  rollupWeight: 1,
+};
+
+// today is the date in the user's timezone, for new entries without an entryDate
+function toMutationPayload(mutation: SyncMutation, today: string) {
+  let data: Record<string, unknown> | null = null;
+
+  if (mutation.entity === 'goal' && mutation.op === 'create') {
+    data = toGoalColumns({ ...GOAL_DEFAULTS, ...mutation.data });
+  } else if (mutation.entity === 'goal' && mutation.op === 'update') {
+    data = toGoalColumns(mutation.data);
+  } else if (mutation.entity === 'journalEntry' && mutation.op === 'create') {
+    data = toJournalColumns({
+      entryDate: today,
+      tags: [],
+      ...mutation.data,
+    });
+  } else if (mutation.entity === 'journalEntry' && mutation.op === 'update') {
+    data = toJournalColumns(mutation.data);
+  } else if (mutation.entity === 'mention' && mutation.op === 'create') {
+    data = {
+      journal_entry_id: mutation.data.journalEntryId,
+      goal_id: mutation.data.goalId,
+      mentioned_explicitly: mutation.data.mentionedExplicitly ?? true,
+    };
+  }
+
+  const expectedUpdatedAt = 'expectedUpdatedAt' in mutation ? mutation.expectedUpdatedAt : undefined;
+
+  return {
+    entity: ENTITY_COLUMNS[mutation.entity],
+    op: mutation.op,
+    id: mutation.id,
+    data,
+    expected_updated_at: expectedUpdatedAt ? new Date(expectedUpdatedAt).toISOString() : null,
+  };
+}
+
+/**
+ * Side effects the database function leaves to the app: progress history, roll-ups and
+ * goal webhooks as in updateGoal, and journal.created for new entries. Returns the entry when a
+ * journal entry was created or its title or content changed, so it can be re-embedded
+ */
+async function handleAppliedMutation(
+  supabase: SupabaseClientAny,
+  userId: string,
+  applied: AppliedMutationRow
+): Promise<JournalEntry | null> {
+  if (applied.entity === 'goal' && applied.after) {
+    const before = applied.before as GoalRow | null;
+    const goal = mapGoal(applied.after as GoalRow);
+
+    if (applied.op === 'delete') {
+      // Only a goal that was not already in the trash leaves its parent's roll-up
+      if (before && before.deleted_at === null && goal.parentGoalId) {
+        await recalculateDerivedProgress(supabase, goal.parentGoalId, userId);
+      }
+      return null;
+    }
+
+    const previous = before ? mapGoal(before) : null;
+    await handleGoalSaved(supabase, userId, previous, goal);
+
+    const rollupSettingsChanged =
+      previous !== null &&
+      (previous.progressMode !== goal.progressMode ||
+        previous.rollupWeighting !== goal.rollupWeighting ||
+        previous.autoComplete !== goal.autoComplete);
+    if (rollupSettingsChanged && goal.progressMode === 'derived') {
+      await recalculateDerivedProgress(supabase, goal.id, userId);
+    }
+  }
+
+  if (applied.entity === 'journal_entry' && applied.op === 'create') {
+    const journal = await getJournalWithGoals(supabase, applied.id, userId);
+    if (journal) {
+      await emitWebhookEvent(supabase, userId, 'journal.created', { journal });
+    }
+    return journal;
+  }
+
+  if (applied.entity === 'journal_entry' && applied.op === 'update' && applied.after) {
+    const before = applied.before as JournalEntryRow | null;
+    const after = applied.after as JournalEntryRow;
+    if (before?.title !== after.title || before?.content !== after.content) {
+      return mapJournal(after);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a batch of client changes in one transaction, in order
+ * Conflicting items are skipped and reported with the server's version; any other failure
+ * rolls back the whole batch and raises SyncMutationError for the failing item
+ */
+export async function applySyncMutations(
+  supabase: SupabaseClientAny,
+  userId: string,
+  mutations: SyncMutation[]
+): Promise<SyncResult> {
+  const needsToday = mutations.some(
+    (mutation) =>
+      mutation.entity === 'journalEntry' && mutation.op === 'create' && !mutation.data.entryDate
+  );
+  const today = needsToday ? getTodayInTimezone(await getUserTimezone(supabase, userId)) : '';
+
+  const { data, error } = await supabase.rpc('apply_sync_mutations', {
+    p_mutations: mutations.map((mutation) => toMutationPayload(mutation, today)),
+  });
+
+  if (error) {
+    const failed = /^mutation (\d+)$/.exec(error.details ?? '');
+    if (failed) {
+      throw new SyncMutationError(Number(failed[1]), error.message);
+    }
+    throw new Error(`Failed to apply sync mutations: ${error.message}`);
+  }
+
+  const result = data as { applied: AppliedMutationRow[]; conflicts: ConflictRow[] };
+
+  // Sequential, so roll-ups of goals changed in the same batch see each other
+  const changedEntries = new Map<string, JournalEntry>();
+  for (const applied of result.applied) {
+    const entry = await handleAppliedMutation(supabase, userId, applied);
+    if (entry) changedEntries.set(entry.id, entry);
+  }
+
+  // The changes are saved either way; a missed embedding is backfilled on the next lookup
+  await indexJournalEntries(supabase, userId, Array.from(changedEntries.values())).catch((err) =>
+    console.error('Sync embedding error:', err)
+  );
+
+  return {
+    applied: result.applied.map((applied) => ({
+      index: applied.index,
+      entity: ENTITY_NAMES[applied.entity],
+      op: applied.op,
+      id: applied.id,
+    })),
+    conflicts: result.conflicts.map(
+      (conflict): SyncConflict => ({
+        index: conflict.index,
+        entity: ENTITY_NAMES[conflict.entity],
+        op: conflict.op,
+        id: conflict.id,
+        reason: conflict.reason,
+        current: conflict.current ? mapRow(conflict.entity, conflict.current) : null,
+      })
+    ),
+  };
+}
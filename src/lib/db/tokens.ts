@@ -0,0 +1,131 @@
+/**
+ * Personal access token database functions
+ * Tokens are created and revoked by a signed-in user; authenticatePersonalAccessToken runs
+ * before sign-in and goes through a SECURITY DEFINER function
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CreatePersonalAccessTokenInput,
+  CreatedPersonalAccessToken,
+  PersonalAccessToken,
+  TokenScope,
+} from '@/types';
+import { isTokenScope, mapPersonalAccessTokenFromRow as mapToken } from '@/types';
+import { generatePersonalAccessToken, hashPersonalAccessToken } from '@/lib/auth/tokens';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuthenticatedToken {
+  tokenId: string;
+  userId: string;
+  scopes: TokenScope[];
+}
+
+/**
+ * List the user's tokens that have not been revoked, newest first
+ */
+export async function getPersonalAccessTokens(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<PersonalAccessToken[]> {
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch access tokens: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapToken);
+}
+
+/**
+ * Create a token. The plaintext secret is only available in the return value.
+ */
+export async function createPersonalAccessToken(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: CreatePersonalAccessTokenInput
+): Promise<CreatedPersonalAccessToken> {
+  const { secret, hash, displayPrefix } = generatePersonalAccessToken();
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * DAY_MS).toISOString()
+    : null;
+
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .insert({
+      user_id: userId,
+      name: input.name,
+      token_hash: hash,
+      token_prefix: displayPrefix,
+      scopes: Array.from(new Set(input.scopes)),
+      expires_at: expiresAt,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create access token: ${error.message}`);
+  }
+
+  return { token: mapToken(data), secret };
+}
+
+/**
+ * Revoke a token. Returns false if it does not exist or was already revoked.
+ */
+export async function revokePersonalAccessToken(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke access token: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Resolve a plaintext token to its owner and scopes (null if unknown, revoked or expired).
+ * Works with an anonymous client; also records the token as used.
+ */
+export async function authenticatePersonalAccessToken(
+  supabase: SupabaseClientAny,
+  secret: string
+): Promise<AuthenticatedToken | null> {
+  const { data, error } = await supabase.rpc('authenticate_personal_access_token', {
+    p_token_hash: hashPersonalAccessToken(secret),
+  });
+
+  if (error) {
+    throw new Error(`Failed to verify access token: ${error.message}`);
+  }
+
+  const row = (data as { token_id: string; user_id: string; scopes: string[] }[] | null)?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    tokenId: row.token_id,
+    userId: row.user_id,
+    scopes: row.scopes.filter(isTokenScope),
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Trash database functions
+ * deleteGoal and deleteJournalEntry only set deleted_at. Trashed rows keep their goal links
+ * and child goals but are hidden from every other query; restoring clears deleted_at so the
+ * links come back. Rows are purged for good TRASH_RETENTION_DAYS after deletion, at which
+ * point the foreign keys cascade (mentions, revisions, attachments) or unlink (child goals),
+ * and the files of purged attachments are removed from storage.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GoalRow, JournalEntryRow } from '@/types/database.types';
+import type { Goal, JournalEntryWithGoals, Trash } from '@/types';
+import {
+  TRASH_RETENTION_DAYS,
+  mapGoalFromRow as mapGoal,
+  mapJournalEntryFromRow as mapJournal,
+} from '@/types';
+import { removeAttachmentFiles } from '@/lib/attachments';
+import { getAttachmentsOfJournalsTrashedBefore, getJournalAttachments } from './attachments';
+import { recalculateDerivedProgress } from './goals';
+import { getJournalWithGoals } from './journals';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface TrashPurgeReport {
+  goals: number;
+  journalEntries: number;
+}
+
+function getPurgeDate(deletedAt: string): Date {
+  const date = new Date(deletedAt);
+  date.setUTCDate(date.getUTCDate() + TRASH_RETENTION_DAYS);
+  return date;
+}
+
+/**
+ * Get a user's trashed goals and journal entries, most recently deleted first
+ */
+export async function getTrash(supabase: SupabaseClientAny, userId: string): Promise<Trash> {
+  const [goalsResult, journalsResult] = await Promise.all([
+    supabase
+      .from('goals')
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+    supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+  ]);
+
+  if (goalsResult.error) {
+    throw new Error(`Failed to fetch trashed goals: ${goalsResult.error.message}`);
+  }
+  if (journalsResult.error) {
+    throw new Error(`Failed to fetch trashed journals: ${journalsResult.error.message}`);
+  }
+
+  return {
+    goals: (goalsResult.data ?? []).map((row: GoalRow) => ({
+      ...mapGoal(row),
+      deletedAt: new Date(row.deleted_at as string),
+      purgeAt: getPurgeDate(row.deleted_at as string),
+    })),
+    journalEntries: (journalsResult.data ?? []).map((row: JournalEntryRow) => ({
+      ...mapJournal(row),
+      deletedAt: new Date(row.deleted_at as string),
+      purgeAt: getPurgeDate(row.deleted_at as string),
+    })),
+  };
+}
+
+/**
+ * Take a goal out of the trash (validates user ownership)
+ * Its child goals and journal links come back with it, and derived progress is recalculated
+ * for it and its parent. If the parent stopped being a long-term goal in the meantime, the
+ * goal is restored unlinked. Returns null when the goal is not in the trash
+ */
+export async function restoreGoal(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<Goal | null> {
+  const { data: trashed, error: fetchError } = await supabase
+    .from('goals')
+    .select('parent_goal_id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+    .single();
+
+  if (fetchError) {
+    if (fetchError.code === 'PGRST116') {
+      return null;
+    }
+    throw new Error(`Failed to fetch goal: ${fetchError.message}`);
+  }
+
+  const updateData: Record<string, unknown> = { deleted_at: null };
+  if (trashed.parent_goal_id) {
+    // The parent may itself be in the trash; it only has to still be long-term
+    const { data: parent, error: parentError } = await supabase
+      .from('goals')
+      .select('type')
+      .eq('id', trashed.parent_goal_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (parentError) {
+      throw new Error(`Failed to fetch parent goal: ${parentError.message}`);
+    }
+    if (parent?.type !== 'long-term') {
+      updateData.parent_goal_id = null;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('goals')
+    .update(updateData)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to restore goal: ${error.message}`);
+  }
+
+  const goal = mapGoal(data);
+  if (goal.parentGoalId) {
+    await recalculateDerivedProgress(supabase, goal.parentGoalId, userId);
+  }
+
+  return (await recalculateDerivedProgress(supabase, goal.id, userId)) ?? goal;
+}
+
+/**
+ * Take a journal entry out of the trash with its goal links (validates user ownership)
+ * Returns null when the entry is not in the trash
+ */
+export async function restoreJournalEntry(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<JournalEntryWithGoals | null> {
+  const { error, count } = await supabase
+    .from('journal_entries')
+    .update({ deleted_at: null }, { count: 'exact' })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to restore journal: ${error.message}`);
+  }
+
+  if ((count ?? 0) === 0) return null;
+
+  return getJournalWithGoals(supabase, id, userId);
+}
+
+/**
+ * Permanently delete a trashed goal (validates user ownership)
+ * Only goals already in the trash can be deleted for good
+ */
+export async function purgeGoal(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('goals')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to delete goal: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Permanently delete a trashed journal entry (validates user ownership)
+ * Only entries already in the trash can be deleted for good
+ */
+export async function purgeJournalEntry(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const attachments = await getJournalAttachments(supabase, id, userId);
+
+  const { error, count } = await supabase
+    .from('journal_entries')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to delete journal: ${error.message}`);
+  }
+
+  const deleted = (count ?? 0) > 0;
+  if (deleted) {
+    await removeAttachmentFiles(attachments);
+  }
+
+  return deleted;
+}
+
+/**
+ * Permanently delete everything that has been in the trash for TRASH_RETENTION_DAYS, for all
+ * users (expects the service-role client)
+ */
+export async function purgeExpiredTrash(
+  supabase: SupabaseClientAny,
+  now: Date = new Date()
+): Promise<TrashPurgeReport> {
+  const cutoff = new Date(now);
+  cutoff.setUTCDate(cutoff.getUTCDate() - TRASH_RETENTION_DAYS);
+
+  const attachments = await getAttachmentsOfJournalsTrashedBefore(supabase, cutoff);
+
+  const { error: journalsError, count: journalEntries } = await supabase
+    .from('journal_entries')
+    .delete({ count: 'exact' })
+    .lt('deleted_at', cutoff.toISOString());
+
+  if (journalsError) {
+    throw new Error(`Failed to purge trashed journals: ${journalsError.message}`);
+  }
+
+  await removeAttachmentFiles(attachments);
+
+  const { error: goalsError, count: goals } = await supabase
+    .from('goals')
+    .delete({ count: 'exact' })
+    .lt('deleted_at', cutoff.toISOString());
+
+  if (goalsError) {
+    throw new Error(`Failed to purge trashed goals: ${goalsError.message}`);
+  }
+
+  return { goals: goals ?? 0, journalEntries: journalEntries ?? 0 };
+}
@@ -0,0 +1,288 @@
+/**
+ * Webhook database functions
+ * Endpoints are managed by their owner. Deliveries are queued with the caller's client when
+ * an event is emitted and claimed and updated with the service-role client by the cron worker.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDeliveryRow, WebhookDeliveryUpdate } from '@/types/database.types';
+import type {
+  CreateWebhookEndpointInput,
+  CreatedWebhookEndpoint,
+  UpdateWebhookEndpointInput,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from '@/types';
+import {
+  mapWebhookEndpointFromRow as mapEndpoint,
+  mapWebhookDeliveryFromRow as mapDelivery,
+} from '@/types';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+// What a delivery needs to know about its endpoint, including the signing secret
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+}
+
+export interface DueWebhookDelivery {
+  delivery: WebhookDelivery;
+  target: WebhookTarget;
+}
+
+/**
+ * List the user's webhook endpoints, newest first
+ */
+export async function getWebhookEndpoints(
+  supabase: SupabaseClientAny,
+  userId: string
+): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapEndpoint);
+}
+
+/**
+ * Register an endpoint. The signing secret is only available in the return value.
+ */
+export async function createWebhookEndpoint(
+  supabase: SupabaseClientAny,
+  userId: string,
+  input: CreateWebhookEndpointInput
+): Promise<CreatedWebhookEndpoint> {
+  const secret = generateWebhookSecret();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: userId,
+      url: input.url,
+      description: input.description ?? null,
+      events: Array.from(new Set(input.events)),
+      secret,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+  }
+
+  return { endpoint: mapEndpoint(data), secret };
+}
+
+/**
+ * Update an endpoint (validates user ownership)
+ */
+export async function updateWebhookEndpoint(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string,
+  input: UpdateWebhookEndpointInput
+): Promise<WebhookEndpoint | null> {
+  const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+  if (input.url !== undefined) updateData.url = input.url;
+  if (input.description !== undefined) updateData.description = input.description;
+  if (input.events !== undefined) updateData.events = Array.from(new Set(input.events));
+  if (input.active !== undefined) updateData.active = input.active;
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update(updateData)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found or no permission
+    }
+    throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+  }
+
+  return data ? mapEndpoint(data) : null;
+}
+
+/**
+ * Delete an endpoint and its delivery log (validates user ownership)
+ */
+export async function deleteWebhookEndpoint(
+  supabase: SupabaseClientAny,
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const { error, count } = await supabase
+    .from('webhook_endpoints')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Recent deliveries to an endpoint, newest first (validates user ownership)
+ */
+export async function getWebhookDeliveries(
+  supabase: SupabaseClientAny,
+  endpointId: string,
+  userId: string,
+  limit: number = 50
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook deliveries: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapDelivery);
+}
+
+/**
+ * Active endpoints of the user subscribed to an event type
+ */
+export async function getSubscribedWebhookTargets(
+  supabase: SupabaseClientAny,
+  userId: string,
+  eventType: WebhookEventType
+): Promise<WebhookTarget[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret')
+    .eq('user_id', userId)
+    .eq('active', true)
+    .contains('events', [eventType]);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+  }
+
+  return (data ?? []) as WebhookTarget[];
+}
+
+/**
+ * Record one pending delivery of the event per endpoint, due immediately
+ */
+export async function createWebhookDeliveries(
+  supabase: SupabaseClientAny,
+  userId: string,
+  event: WebhookEvent,
+  endpointIds: string[]
+): Promise<WebhookDelivery[]> {
+  if (endpointIds.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(
+      endpointIds.map((endpointId) => ({
+        endpoint_id: endpointId,
+        user_id: userId,
+        event_id: event.id,
+        event_type: event.type,
+        payload: event,
+        next_attempt_at: now,
+      }))
+    )
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to record webhook deliveries: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapDelivery);
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first, with their endpoints.
+ * Deliveries to endpoints that were deactivated are left pending until re-enabled.
+ */
+export async function getDueWebhookDeliveries(
+  supabase: SupabaseClientAny,
+  limit: number
+): Promise<DueWebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, webhook_endpoints!inner(id, url, secret)')
+    .eq('status', 'pending')
+    .eq('webhook_endpoints.active', true)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due webhook deliveries: ${error.message}`);
+  }
+
+  return ((data ?? []) as (WebhookDeliveryRow & { webhook_endpoints: WebhookTarget })[]).map(
+    ({ webhook_endpoints: target, ...row }) => ({ delivery: mapDelivery(row), target })
+  );
+}
+
+/**
+ * Take a due delivery for one attempt by moving its next attempt to leaseUntil
+ * Only succeeds while the delivery is still due and unattempted since it was read, so
+ * overlapping cron runs never send it twice; if the attempt is never recorded, it becomes
+ * due again after the lease.
+ */
+export async function claimWebhookDelivery(
+  supabase: SupabaseClientAny,
+  delivery: WebhookDelivery,
+  leaseUntil: Date
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: leaseUntil.toISOString() })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempt_count', delivery.attemptCount)
+    .lte('next_attempt_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to claim webhook delivery: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Store the outcome of a delivery attempt
+ */
+export async function recordWebhookDeliveryAttempt(
+  supabase: SupabaseClientAny,
+  id: string,
+  update: WebhookDeliveryUpdate
+): Promise<void> {
+  const { error } = await supabase.from('webhook_deliveries').update(update).eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to record webhook delivery attempt: ${error.message}`);
+  }
+}
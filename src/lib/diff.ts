@@ -0,0 +1,125 @@
+/**
+ * Line diff for showing two versions of a text side by side
+ * A longest-common-subsequence diff over lines, after trimming the shared start and end so
+ * typical edits of long entries stay cheap. Removed lines are paired with the added lines that
+ * replace them, so a changed line appears on the same row in both columns.
+ */
+
+export type DiffLineType = 'unchanged' | 'removed' | 'added';
+
+export interface DiffLine {
+  text: string;
+  type: DiffLineType;
+  number: number; // 1-based line number in its version
+}
+
+// One row of a side-by-side view; a side is null where that version has no line
+export interface DiffRow {
+  before: DiffLine | null;
+  after: DiffLine | null;
+}
+
+// Beyond this many cells the LCS table is skipped and the middle is shown as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op =
+  | { type: 'unchanged'; before: number; after: number }
+  | { type: 'removed'; before: number }
+  | { type: 'added'; after: number };
+
+function diffMiddle(before: string[], after: string[], offset: number): Op[] {
+  const n = before.length;
+  const m = after.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...before.map((_, i) => ({ type: 'removed' as const, before: offset + i })),
+      ...after.map((_, j) => ({ type: 'added' as const, after: offset + j })),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      ops.push({ type: 'unchanged', before: offset + i++, after: offset + j++ });
+    } else if (j < m && (i === n || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      ops.push({ type: 'added', after: offset + j++ });
+    } else {
+      ops.push({ type: 'removed', before: offset + i++ });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Side-by-side rows comparing before with after, line by line
+ */
+export function diffLines(beforeText: string, afterText: string): DiffRow[] {
+  const before = beforeText.split('\n');
+  const after = afterText.split('\n');
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const ops: Op[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'unchanged', before: k, after: k });
+  ops.push(
+    ...diffMiddle(before.slice(start, before.length - end), after.slice(start, after.length - end), start)
+  );
+  for (let k = end; k > 0; k--) {
+    ops.push({ type: 'unchanged', before: before.length - k, after: after.length - k });
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ before: removed[k] ?? null, after: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'removed') {
+      removed.push({ text: before[op.before], type: 'removed', number: op.before + 1 });
+    } else if (op.type === 'added') {
+      added.push({ text: after[op.after], type: 'added', number: op.after + 1 });
+    } else {
+      flushChanges();
+      rows.push({
+        before: { text: before[op.before], type: 'unchanged', number: op.before + 1 },
+        after: { text: after[op.after], type: 'unchanged', number: op.after + 1 },
+      });
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getUnindexedJournalEntries, matchJournalEntries } from '@/lib/db/embeddings';
+import type { GoalRow } from '@/types/database.types';
+import { suggestGoalsForText } from './index';
+
+// Only the vector search is faked; goals are read through getGoalsForJournals
+vi.mock('@/lib/db/embeddings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/embeddings')>()),
+  getUnindexedJournalEntries: vi.fn(),
+  matchJournalEntries: vi.fn(),
+}));
+
+const userId = '9b2f7c1e-4d3a-4f6b-8c5e-1a2b3c4d5e6f';
+const similarEntryId = '1f2e3d4c-5b6a-4978-8695-a4b3c2d1e0f9';
+
+function goalRow(id: string, title: string, deletedAt: string | null = null): GoalRow {
+  return {
+    id,
+    user_id: userId,
+    title,
+    description: null,
+    type: 'short-term',
+    category: null,
+    target_date: null,
+    status: 'active',
+    progress_percentage: 0,
+    parent_goal_id: null,
+    progress_mode: 'manual',
+    rollup_weighting: 'equal',
+    recurrence: null,
+    auto_complete: false,
+    rollup_weight: 1,
+    created_at: '2026-03-01T09:00:00.000Z',
+    updated_at: '2026-03-01T09:00:00.000Z',
+    deleted_at: deletedAt,
+  };
+}
+
+/**
+ * journal_goal_mentions with their goals embedded, filtered as PostgREST does: a filter on an
+ * embedded goal drops the row for !inner embeds and only nulls the goal otherwise
+ */
+function mentionsClient(mentions: { journal_entry_id: string; goal: GoalRow }[]) {
+  return {
+    from() {
+      let select = '';
+      let journalIds: string[] = [];
+      let activeGoalsOnly = false;
+
+      const query = {
+        select(columns: string) {
+          select = columns;
+          return query;
+        },
+        in(_column: string, values: string[]) {
+          journalIds = values;
+          return query;
+        },
+        is(column: string, value: null) {
+          activeGoalsOnly = column === 'goals.deleted_at' && value === null;
+          return query;
+        },
+        then<T>(resolve: (result: { data: unknown[]; error: null }) => T) {
+          const inner = select.includes('goals!inner');
+          const data = mentions
+            .filter((m) => journalIds.includes(m.journal_entry_id))
+            .map((m) => ({
+              journal_entry_id: m.journal_entry_id,
+              goals: activeGoalsOnly && m.goal.deleted_at !== null ? null : m.goal,
+            }))
+            .filter((row) => !inner || row.goals !== null);
+          return Promise.resolve({ data, error: null }).then(resolve);
+        },
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+describe('suggestGoalsForText', () => {
+  beforeEach(() => {
+    vi.mocked(getUnindexedJournalEntries).mockResolvedValue([]);
+    vi.mocked(matchJournalEntries).mockResolvedValue([
+      { journalEntryId: similarEntryId, similarity: 0.9 },
+    ]);
+  });
+
+  it('suggests goals linked to similar entries', async () => {
+    const supabase = mentionsClient([
+      { journal_entry_id: similarEntryId, goal: goalRow('goal-run', 'Run a marathon') },
+    ]);
+
+    const suggestions = await suggestGoalsForText(supabase, userId, 'Ran 10k this morning');
+
+    expect(suggestions.map((s) => s.goal.id)).toEqual(['goal-run']);
+    expect(suggestions[0]).toMatchObject({ score: 1, basedOn: 1 });
+  });
+
+  it('does not suggest a trashed goal linked to a similar entry', async () => {
+    const supabase = mentionsClient([
+      { journal_entry_id: similarEntryId, goal: goalRow('goal-run', 'Run a marathon') },
+      {
+        journal_entry_id: similarEntryId,
+        goal: goalRow('goal-swim', 'Swim 1k', '2026-03-10T12:00:00.000Z'),
+      },
+    ]);
+
+    const suggestions = await suggestGoalsForText(supabase, userId, 'Ran 10k this morning');
+
+    expect(suggestions.map((s) => s.goal.id)).toEqual(['goal-run']);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Journal embeddings
+ * A pluggable provider turns entry text into vectors stored in journal_embeddings
+ * (pgvector). The index powers "related entries" and goal suggestions while writing.
+ *
+ * Provider selection (env):
+ *   EMBEDDING_PROVIDER=local (default) - offline feature hashing, no network
+ *   EMBEDDING_PROVIDER=openai - any OpenAI-compatible /embeddings endpoint, configured with
+ *     EMBEDDING_API_URL (default https://api.openai.com/v1), EMBEDDING_API_KEY, EMBEDDING_MODEL
+ */
+
+import { createHash } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GoalSuggestion, JournalEntry, RelatedJournalEntry } from '@/types';
+import {
+  getGoalsForJournals,
+  getJournalEmbedding,
+  getJournalEntriesByIds,
+  getUnindexedJournalEntries,
+  matchJournalEntries,
+  upsertJournalEmbeddings,
+} from '@/lib/db/embeddings';
+import { createLocalEmbeddingProvider } from './local';
+import { createOpenAIEmbeddingProvider } from './openai';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+// Fixed by the journal_embeddings.embedding column type
+export const EMBEDDING_DIMENSIONS = 384;
+
+// Long entries are embedded from their beginning
+const MAX_EMBEDDING_TEXT_LENGTH = 8000;
+
+export interface EmbeddingProvider {
+  model: string; // Stored with each vector; vectors of different models are never compared
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Singleton provider instance
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const kind = process.env.EMBEDDING_PROVIDER ?? 'local';
+    switch (kind) {
+      case 'local':
+        provider = createLocalEmbeddingProvider(EMBEDDING_DIMENSIONS);
+        break;
+      case 'openai':
+        provider = createOpenAIEmbeddingProvider({
+          baseUrl: process.env.EMBEDDING_API_URL ?? 'https://api.openai.com/v1',
+          apiKey: process.env.EMBEDDING_API_KEY,
+          model: process.env.EMBEDDING_MODEL ?? 'text-embedding-3-small',
+          dimensions: EMBEDDING_DIMENSIONS,
+        });
+        break;
+      default:
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${kind}" (expected local or openai)`);
+    }
+  }
+  return provider;
+}
+
+export function getJournalEmbeddingText(entry: Pick<JournalEntry, 'title' | 'content'>): string {
+  const text = entry.title ? `${entry.title}\n${entry.content}` : entry.content;
+  return text.slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+}
+
+/** Must match journal_content_hash() in the database */
+export function getJournalContentHash(entry: Pick<JournalEntry, 'title' | 'content'>): string {
+  return createHash('md5')
+    .update(`${entry.title ?? ''}\n${entry.content}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Compute and store embeddings for the given journal entries
+ */
+export async function indexJournalEntries(
+  supabase: SupabaseClientAny,
+  userId: string,
+  entries: JournalEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const embedder = getEmbeddingProvider();
+  const vectors = await embedder.embed(entries.map(getJournalEmbeddingText));
+
+  await upsertJournalEmbeddings(
+    supabase,
+    userId,
+    embedder.model,
+    entries
+      .map((entry, i) => ({
+        journalEntryId: entry.id,
+        contentHash: getJournalContentHash(entry),
+        embedding: vectors[i],
+      }))
+      // A zero vector (no usable words) has no direction to compare
+      .filter((item) => item.embedding.some((v) => v !== 0))
+  );
+}
+
+/**
+ * Backfill embeddings for entries that are missing or stale (e.g. imported, or
+ * written before the index existed). Returns how many entries were processed.
+ */
+export async function indexUnindexedJournalEntries(
+  supabase: SupabaseClientAny,
+  userId: string,
+  limit: number = 100
+): Promise<number> {
+  const entries = await getUnindexedJournalEntries(supabase, getEmbeddingProvider().model, limit);
+  await indexJournalEntries(supabase, userId, entries);
+  return entries.length;
+}
+
+/**
+ * Past entries most similar to the given one
+ */
+export async function getRelatedJournalEntries(
+  supabase: SupabaseClientAny,
+  userId: string,
+  journal: JournalEntry,
+  limit: number = 5
+): Promise<RelatedJournalEntry[]> {
+  const embedder = getEmbeddingProvider();
+  await indexUnindexedJournalEntries(supabase, userId);
+
+  let embedding: number[] | string | null = await getJournalEmbedding(
+    supabase,
+    journal.id,
+    embedder.model
+  );
+  if (!embedding) {
+    [embedding] = await embedder.embed([getJournalEmbeddingText(journal)]);
+    if (embedding.every((v) => v === 0)) return [];
+  }
+
+  const matches = await matchJournalEntries(supabase, embedding, embedder.model, {
+    excludeId: journal.id,
+    limit,
+  });
+  const entries = await getJournalEntriesByIds(
+    supabase,
+    userId,
+    matches.map((m) => m.journalEntryId)
+  );
+  const similarityById = new Map(matches.map((m) => [m.journalEntryId, m.similarity]));
+
+  return entries.map((entry) => ({ entry, similarity: similarityById.get(entry.id) ?? 0 }));
+}
+
+export interface SuggestGoalsOptions {
+  limit?: number;
+  neighbours?: number; // Similar entries to learn from
+  minScore?: number;
+}
+
+/**
+ * Suggest goals for a draft entry from the goals linked to similar past entries
+ * A goal's score is the similarity-weighted share of those entries that link to it.
+ */
+export async function suggestGoalsForText(
+  supabase: SupabaseClientAny,
+  userId: string,
+  text: string,
+  options: SuggestGoalsOptions = {}
+): Promise<GoalSuggestion[]> {
+  const { limit = 3, neighbours = 15, minScore = 0.15 } = options;
+  const embedder = getEmbeddingProvider();
+
+  const [embedding] = await embedder.embed([text.slice(0, MAX_EMBEDDING_TEXT_LENGTH)]);
+  if (embedding.every((v) => v === 0)) return [];
+
+  await indexUnindexedJournalEntries(supabase, userId);
+  const matches = await matchJournalEntries(supabase, embedding, embedder.model, {
+    limit: neighbours,
+  });
+  if (matches.length === 0) return [];
+
+  const goalsByJournal = await getGoalsForJournals(
+    supabase,
+    matches.map((m) => m.journalEntryId)
+  );
+
+  const totalSimilarity = matches.reduce((sum, m) => sum + m.similarity, 0);
+  const scores = new Map<string, GoalSuggestion>();
+  for (const match of matches) {
+    for (const goal of goalsByJournal.get(match.journalEntryId) ?? []) {
+      if (goal.status !== 'active') continue;
+      const suggestion = scores.get(goal.id) ?? { goal, score: 0, basedOn: 0 };
+      suggestion.score += match.similarity / totalSimilarity;
+      suggestion.basedOn += 1;
+      scores.set(goal.id, suggestion);
+    }
+  }
+
+  return Array.from(scores.values())
+    .filter((s) => s.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => ({ ...s, score: Math.round(s.score * 100) / 100 }));
+}
@@ -0,0 +1,89 @@
+/**
+ * Offline embedding provider
+ * Feature hashing over stemmed words and word pairs: no model download, no network,
+ * deterministic. It captures shared vocabulary rather than meaning, which is enough
+ * to surface entries about the same people, places and activities.
+ */
+
+import type { EmbeddingProvider } from './index';
+
+const MODEL = 'local-hash-v1';
+
+// Common English words carry no topic signal
+const STOPWORDS = new Set(
+  (
+    'a about above after again against all am an and any are as at be because been before being ' +
+    'below between both but by can could did do does doing down during each few for from further ' +
+    'had has have having he her here hers herself him himself his how i if in into is it its itself ' +
+    'just me more most my myself no nor not now of off on once only or other our ours ourselves out ' +
+    'over own same she should so some such than that the their theirs them themselves then there ' +
+    'these they this those through to too under until up very was we were what when where which ' +
+    'while who whom why will with would you your yours yourself yourselves also really today got ' +
+    'get go went going im ive dont didnt cant wont thats'
+  ).split(' ')
+);
+
+const WORD_SEPARATOR = /[\s!-\/:-@[-`{-~\u2000-\u206f]+/;
+
+/** Crude suffix stripping so "run", "runs" and "running" share a feature */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019]/g, '')
+    .split(WORD_SEPARATOR)
+    .filter((word) => word.length > 1 && !/^\d+$/.test(word) && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/** 32-bit FNV-1a */
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function createLocalEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const h = hash(feature);
+      // A second hash bit picks the sign so collisions cancel out on average
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % dimensions] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  };
+
+  return {
+    model: MODEL,
+    dimensions,
+    async embed(texts: string[]) {
+      return texts.map(embedOne);
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * OpenAI-compatible embedding provider
+ * Works with any server implementing POST /embeddings (OpenAI, Ollama, vLLM, LM Studio...)
+ */
+
+import type { EmbeddingProvider } from './index';
+
+export interface OpenAIEmbeddingConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+}
+
+interface EmbeddingsResponse {
+  data: { index: number; embedding: number[] }[];
+}
+
+const BATCH_SIZE = 64;
+
+export function createOpenAIEmbeddingProvider(config: OpenAIEmbeddingConfig): EmbeddingProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        input: texts,
+        dimensions: config.dimensions,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+
+    const body = (await response.json()) as EmbeddingsResponse;
+    const vectors = [...body.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+
+    if (vectors.length !== texts.length || vectors.some((v) => v.length !== config.dimensions)) {
+      throw new Error(
+        `Embedding model ${config.model} must return ${config.dimensions}-dimensional vectors`
+      );
+    }
+    return vectors;
+  };
+
+  return {
+    model: `openai:${config.model}`,
+    dimensions: config.dimensions,
+    async embed(texts: string[]) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        vectors.push(...(await embedBatch(texts.slice(i, i + BATCH_SIZE))));
+      }
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Data export builders
+ * Each format is produced as an async stream of bytes built from paged queries
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Goal, JournalEntry } from '@/types';
+import {
+  iterateAIAnalyses,
+  iterateGoals,
+  iterateJournalEntries,
+  iterateJournalGoalMentions,
+  getMentionsForJournals,
+} from '@/lib/db/export';
+import { generateZip, type ZipEntry } from './zip';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export type ExportFormat = 'json' | 'markdown' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'csv'];
+
+export interface ExportStream {
+  body: AsyncGenerator<Uint8Array>;
+  contentType: string;
+  fileName: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Build a streaming export of all of a user's data
+ */
+export function createExport(
+  supabase: SupabaseClientAny,
+  userId: string,
+  format: ExportFormat
+): ExportStream {
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  switch (format) {
+    case 'json':
+      return {
+        body: encode(generateJson(supabase, userId)),
+        contentType: 'application/json; charset=utf-8',
+        fileName: `momentum-journal-${stamp}.json`,
+      };
+    case 'csv':
+      return {
+        body: generateZip(generateCsvFiles(supabase, userId)),
+        contentType: 'application/zip',
+        fileName: `momentum-journal-${stamp}-csv.zip`,
+      };
+    case 'markdown':
+      return {
+        body: generateZip(generateMarkdownFiles(supabase, userId)),
+        contentType: 'application/zip',
+        fileName: `momentum-journal-${stamp}-markdown.zip`,
+      };
+  }
+}
+
+async function* encode(chunks: AsyncIterable<string>): AsyncGenerator<Uint8Array> {
+  for await (const chunk of chunks) {
+    yield encoder.encode(chunk);
+  }
+}
+
+// ============================================
+// JSON
+// ============================================
+
+/** Stream one JSON array property, one batch at a time */
+async function* jsonArray<T>(
+  key: string,
+  batches: AsyncIterable<T[]>,
+  last = false
+): AsyncGenerator<string> {
+  yield `  ${JSON.stringify(key)}: [`;
+  let first = true;
+  for await (const batch of batches) {
+    for (const item of batch) {
+      yield `${first ? '' : ','}\n    ${JSON.stringify(item)}`;
+      first = false;
+    }
+  }
+  yield `${first ? '' : '\n  '}]${last ? '' : ','}\n`;
+}
+
+async function* generateJson(supabase: SupabaseClientAny, userId: string): AsyncGenerator<string> {
+  yield `{\n  "exportedAt": ${JSON.stringify(new Date().toISOString())},\n`;
+  yield* jsonArray('goals', iterateGoals(supabase, userId));
+  yield* jsonArray('journalEntries', iterateJournalEntries(supabase, userId));
+  yield* jsonArray('journalGoalMentions', iterateJournalGoalMentions(supabase, userId));
+  yield* jsonArray('aiAnalyses', iterateAIAnalyses(supabase, userId), true);
+  yield '}\n';
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value) || typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Stream a CSV file with a header row; nested values are written as JSON */
+async function* csvRows<T extends object>(
+  columns: (keyof T & string)[],
+  batches: AsyncIterable<T[]>
+): AsyncGenerator<string> {
+  yield columns.join(',') + '\r\n';
+  for await (const batch of batches) {
+    yield batch.map((row) => columns.map((c) => csvValue(row[c])).join(',') + '\r\n').join('');
+  }
+}
+
+async function* generateCsvFiles(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<ZipEntry> {
+  yield {
+    name: 'goals.csv',
+    content: csvRows(
+      [
+        'id', 'title', 'description', 'type', 'category', 'targetDate', 'status',
+        'progressPercentage', 'parentGoalId', 'progressMode', 'rollupWeighting',
+        'autoComplete', 'rollupWeight', 'recurrence', 'createdAt', 'updatedAt',
+      ],
+      iterateGoals(supabase, userId)
+    ),
+  };
+  yield {
+    name: 'journal_entries.csv',
+    content: csvRows(
+      ['id', 'entryDate', 'title', 'content', 'mood', 'tags', 'createdAt', 'updatedAt'],
+      iterateJournalEntries(supabase, userId)
+    ),
+  };
+  yield {
+    name: 'journal_goal_mentions.csv',
+    content: csvRows(
+      ['id', 'journalEntryId', 'goalId', 'mentionedExplicitly', 'createdAt'],
+      iterateJournalGoalMentions(supabase, userId)
+    ),
+  };
+  yield {
+    name: 'ai_analyses.csv',
+    content: csvRows(
+      [
+        'id', 'analysisType', 'journalEntriesAnalyzed', 'goalsAnalyzed', 'insights',
+        'recommendations', 'progressSummary', 'tokensUsed', 'createdAt',
+      ],
+      iterateAIAnalyses(supabase, userId)
+    ),
+  };
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .slice(0, 60);
+}
+
+/** YAML front-matter; strings are double-quoted JSON, which is valid YAML */
+function journalEntryToMarkdown(entry: JournalEntry, linkedGoals: Goal[]): string {
+  const lines = [
+    '---',
+    `id: ${entry.id}`,
+    `title: ${JSON.stringify(entry.title ?? '')}`,
+    `date: ${entry.entryDate}`,
+    `mood: ${entry.mood ?? 'null'}`,
+    `tags: [${entry.tags.map((t) => JSON.stringify(t)).join(', ')}]`,
+    ...(linkedGoals.length > 0
+      ? ['goals:', ...linkedGoals.map((g) => `  - { id: ${g.id}, title: ${JSON.stringify(g.title)} }`)]
+      : ['goals: []']),
+    `created_at: ${entry.createdAt.toISOString()}`,
+    `updated_at: ${entry.updatedAt.toISOString()}`,
+    '---',
+    '',
+  ];
+  if (entry.title) {
+    lines.push(`# ${entry.title}`, '');
+  }
+  lines.push(entry.content, '');
+  return lines.join('\n');
+}
+
+async function* generateMarkdownFiles(
+  supabase: SupabaseClientAny,
+  userId: string
+): AsyncGenerator<ZipEntry> {
+  // Goal titles are needed for every entry's front-matter
+  const goalsById = new Map<string, Goal>();
+  for await (const batch of iterateGoals(supabase, userId)) {
+    for (const goal of batch) goalsById.set(goal.id, goal);
+  }
+
+  for await (const batch of iterateJournalEntries(supabase, userId)) {
+    const mentions = await getMentionsForJournals(
+      supabase,
+      batch.map((e) => e.id)
+    );
+    const goalIdsByJournal = new Map<string, string[]>();
+    for (const mention of mentions) {
+      const ids = goalIdsByJournal.get(mention.journalEntryId) ?? [];
+      ids.push(mention.goalId);
+      goalIdsByJournal.set(mention.journalEntryId, ids);
+    }
+
+    for (const entry of batch) {
+      const linkedGoals = (goalIdsByJournal.get(entry.id) ?? [])
+        .map((id) => goalsById.get(id))
+        .filter((g): g is Goal => g !== undefined);
+      const slug = slugify(entry.title ?? '') || 'entry';
+
+      yield {
+        name: `journal/${entry.entryDate}-${slug}-${entry.id.slice(0, 8)}.md`,
+        content: journalEntryToMarkdown(entry, linkedGoals),
+        modifiedAt: entry.updatedAt,
+      };
+    }
+  }
+}
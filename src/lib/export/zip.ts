@@ -0,0 +1,178 @@
+/**
+ * Minimal streaming ZIP writer
+ * Entries are deflated as they are produced and sizes/CRC go into a trailing data
+ * descriptor, so nothing larger than one chunk is held in memory.
+ * No ZIP64: archives are limited to 65,535 entries and 4 GB.
+ */
+
+import { Readable, pipeline } from 'node:stream';
+import { createDeflateRaw } from 'node:zlib';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, forward slashes
+  content: AsyncIterable<string | Uint8Array> | string;
+  modifiedAt?: Date;
+}
+
+interface CentralDirectoryRecord {
+  name: Uint8Array;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+const encoder = new TextEncoder();
+
+// UTF-8 names + sizes/CRC in data descriptor
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date/time fields (local time, 2-second resolution) */
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function toBytes(chunk: string | Uint8Array): Uint8Array {
+  return typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+}
+
+function localFileHeader(name: Uint8Array, dosTime: number, dosDate: number): Uint8Array {
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, GENERAL_PURPOSE_FLAGS, true);
+  view.setUint16(8, METHOD_DEFLATE, true);
+  view.setUint16(10, dosTime, true);
+  view.setUint16(12, dosDate, true);
+  // CRC and sizes (offsets 14-25) stay zero - they follow in the data descriptor
+  view.setUint16(26, name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(name, 30);
+  return header;
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number): Uint8Array {
+  const descriptor = new Uint8Array(16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, 0x08074b50, true);
+  view.setUint32(4, crc, true);
+  view.setUint32(8, compressedSize, true);
+  view.setUint32(12, size, true);
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralDirectoryRecord): Uint8Array {
+  const header = new Uint8Array(46 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, VERSION, true);
+  view.setUint16(8, GENERAL_PURPOSE_FLAGS, true);
+  view.setUint16(10, METHOD_DEFLATE, true);
+  view.setUint16(12, record.dosTime, true);
+  view.setUint16(14, record.dosDate, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, record.compressedSize, true);
+  view.setUint32(24, record.size, true);
+  view.setUint16(28, record.name.length, true);
+  // Extra field, comment, disk number, attributes (offsets 30-41) stay zero
+  view.setUint32(42, record.offset, true);
+  header.set(record.name, 46);
+  return header;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return record;
+}
+
+/**
+ * Produce the bytes of a ZIP archive for the given entries, in order
+ */
+export async function* generateZip(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (records.length === 0xffff) {
+      throw new Error('Archive has too many entries');
+    }
+
+    const name = encoder.encode(entry.name);
+    const { dosTime, dosDate } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const header = localFileHeader(name, dosTime, dosDate);
+    yield header;
+
+    let crc = 0;
+    let size = 0;
+    const source = typeof entry.content === 'string' ? [entry.content] : entry.content;
+    const uncompressed = async function* () {
+      for await (const chunk of source) {
+        const bytes = toBytes(chunk);
+        crc = updateCrc32(crc, bytes);
+        size += bytes.length;
+        yield bytes;
+      }
+    };
+
+    let compressedSize = 0;
+    const deflate = createDeflateRaw();
+    // Surface source errors through the deflate stream instead of stalling it
+    pipeline(Readable.from(uncompressed()), deflate, (err) => {
+      if (err) deflate.destroy(err);
+    });
+    for await (const chunk of deflate) {
+      compressedSize += chunk.length;
+      yield new Uint8Array(chunk);
+    }
+
+    yield dataDescriptor(crc, compressedSize, size);
+
+    records.push({ name, crc, compressedSize, size, offset, dosTime, dosDate });
+    offset += header.length + compressedSize + 16;
+  }
+
+  let directorySize = 0;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    directorySize += header.length;
+    yield header;
+  }
+
+  yield endOfCentralDirectory(records.length, directorySize, offset);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('date,content\n2026-03-01,Hello\n2026-03-02,World\n')).toEqual([
+      { line: 1, values: ['date', 'content'] },
+      { line: 2, values: ['2026-03-01', 'Hello'] },
+      { line: 3, values: ['2026-03-02', 'World'] },
+    ]);
+  });
+
+  it('accepts CRLF, LF and lone CR line endings', () => {
+    const values = (text: string) => parseCsv(text).map((record) => record.values);
+
+    expect(values('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(values('a,b\r1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCsv('﻿content\nHello')[0].values).toEqual(['content']);
+  });
+
+  it('keeps commas, doubled quotes and newlines inside quoted fields', () => {
+    const records = parseCsv(
+      'content,tags\r\n' +
+        '"Ran 5k, then ""stretched""","a,b"\r\n' +
+        '"Line one\r\nLine two\nLine three",x\r\n' +
+        'last,y'
+    );
+
+    expect(records).toEqual([
+      { line: 1, values: ['content', 'tags'] },
+      { line: 2, values: ['Ran 5k, then "stretched"', 'a,b'] },
+      { line: 3, values: ['Line one\r\nLine two\nLine three', 'x'] },
+      { line: 6, values: ['last', 'y'] },
+    ]);
+  });
+
+  it('skips blank lines but keeps rows of empty fields', () => {
+    expect(parseCsv('a,b\n\n\r\n,\n1,2\n\n')).toEqual([
+      { line: 1, values: ['a', 'b'] },
+      { line: 4, values: ['', ''] },
+      { line: 5, values: ['1', '2'] },
+    ]);
+  });
+
+  it('keeps a trailing empty field and an empty quoted field', () => {
+    expect(parseCsv('a,"",\n')[0].values).toEqual(['a', '', '']);
+  });
+
+  it('treats a quote inside an unquoted field as text', () => {
+    expect(parseCsv('5" screen,ok')[0].values).toEqual(['5" screen', 'ok']);
+  });
+
+  it('parses nothing from empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('﻿')).toEqual([]);
+    expect(parseCsv('\n\r\n')).toEqual([]);
+  });
+
+  it('rejects an unterminated quoted field with the line it starts on', () => {
+    expect(() => parseCsv('content\nok\n"never closed\nstill open')).toThrow(
+      'Unterminated quoted field starting on line 3'
+    );
+  });
+});
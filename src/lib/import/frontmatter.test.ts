@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter } from './frontmatter';
+
+describe('parseFrontMatter', () => {
+  it('splits scalars, flow collections and block lists from the body', () => {
+    const document = parseFrontMatter(
+      [
+        '---',
+        'title: "Morning run: 5k"',
+        'date: 2026-03-01',
+        'mood: 4',
+        'private: false',
+        'summary: ~',
+        "quote: 'It''s fine' # a comment",
+        'tags: [running, "early, cold", health]',
+        'goals:',
+        '  - Run a marathon',
+        '  - { id: 3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f, title: Read 20 books }',
+        '---',
+        '# Morning run',
+        '',
+        'Felt good.',
+      ].join('\n')
+    );
+
+    expect(document.data).toEqual({
+      title: 'Morning run: 5k',
+      date: '2026-03-01',
+      mood: 4,
+      private: false,
+      summary: null,
+      quote: "It's fine",
+      tags: ['running', 'early, cold', 'health'],
+      goals: [
+        'Run a marathon',
+        { id: '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f', title: 'Read 20 books' },
+      ],
+    });
+    expect(document.body).toBe('# Morning run\n\nFelt good.');
+  });
+
+  it('accepts CRLF line endings, a byte order mark and a ... terminator', () => {
+    const document = parseFrontMatter('﻿---\r\ntitle: Hello\r\n...\r\nBody\r\n');
+
+    expect(document.data).toEqual({ title: 'Hello' });
+    expect(document.body).toBe('Body\r\n');
+  });
+
+  it('returns the whole text as the body without front matter', () => {
+    expect(parseFrontMatter('﻿Just text\n---\nnot: front matter')).toEqual({
+      data: {},
+      body: 'Just text\n---\nnot: front matter',
+    });
+  });
+
+  it('leaves an unterminated block as body text', () => {
+    const text = '---\ntitle: Never closed\nBody';
+
+    expect(parseFrontMatter(text)).toEqual({ data: {}, body: text });
+  });
+
+  it('keeps malformed and nested values as plain strings', () => {
+    const { data } = parseFrontMatter(
+      [
+        '---',
+        'tags: [unclosed, list',
+        'title: "unterminated',
+        'place:',
+        '  city: Lisbon',
+        'note: keeps # only a spaced comment',
+        'url: https://example.com/#anchor',
+        '---',
+      ].join('\n')
+    );
+
+    expect(data).toEqual({
+      tags: '[unclosed, list',
+      title: '"unterminated',
+      place: null,
+      note: 'keeps',
+      url: 'https://example.com/#anchor',
+    });
+  });
+});
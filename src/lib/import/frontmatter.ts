@@ -0,0 +1,226 @@
+/**
+ * YAML front-matter reader for Markdown imports
+ * Covers the subset journaling tools emit: top-level `key: value` pairs with
+ * plain/quoted scalars, flow lists and maps (`[a, b]`, `{ id: x }`) and block
+ * lists (`- item`). Anything deeper is kept as a plain string.
+ */
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+export interface FrontMatterDocument {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+}
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a Markdown document into front-matter data and body
+ */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: text.replace(/^\uFEFF/, '') };
+  }
+
+  return {
+    data: parseYamlBlock(match[1]),
+    body: text.slice(match[0].length),
+  };
+}
+
+function parseYamlBlock(yaml: string): Record<string, FrontMatterValue> {
+  const data: Record<string, FrontMatterValue> = {};
+  const lines = yaml.split(/\r?\n/);
+  let listKey: string | null = null;
+
+  for (const rawLine of lines) {
+    const line = stripComment(rawLine).trimEnd();
+    if (line.trim() === '') continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/) ?? line.match(/^\s*-$/);
+    if (item && listKey !== null) {
+      const list = (data[listKey] ?? []) as FrontMatterValue[];
+      list.push(parseValue(item[1] ?? ''));
+      data[listKey] = list;
+      continue;
+    }
+
+    const pair = line.match(/^([^\s:#][^:]*?)\s*:(?:\s+(.*))?$/);
+    if (!pair || /^\s/.test(line)) {
+      // Nested structures beyond one level are not needed for imports
+      listKey = null;
+      continue;
+    }
+
+    const key = pair[1].trim().replace(/^["']|["']$/g, '');
+    const value = pair[2]?.trim() ?? '';
+    if (value === '') {
+      // Either null or the start of a block list
+      data[key] = null;
+      listKey = key;
+    } else {
+      data[key] = parseValue(value);
+      listKey = null;
+    }
+  }
+
+  return data;
+}
+
+/** Remove a trailing `# comment` that is outside quotes */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseValue(text: string): FrontMatterValue {
+  const reader = { text: text.trim(), pos: 0 };
+  try {
+    const value = readFlowValue(reader, false);
+    skipSpaces(reader);
+    if (reader.pos === reader.text.length) return value;
+  } catch {
+    // Fall through to the raw string
+  }
+  return reader.text;
+}
+
+interface Reader {
+  text: string;
+  pos: number;
+}
+
+function skipSpaces(reader: Reader) {
+  while (reader.pos < reader.text.length && /\s/.test(reader.text[reader.pos])) reader.pos++;
+}
+
+function readFlowValue(reader: Reader, inFlow: boolean): FrontMatterValue {
+  skipSpaces(reader);
+  const char = reader.text[reader.pos];
+
+  if (char === '[') return readFlowList(reader);
+  if (char === '{') return readFlowMap(reader);
+  if (char === '"') return readDoubleQuoted(reader);
+  if (char === "'") return readSingleQuoted(reader);
+
+  // Plain scalar: runs to the end, or to the next delimiter inside a flow collection
+  const start = reader.pos;
+  while (reader.pos < reader.text.length && !(inFlow && /[,\]}]/.test(reader.text[reader.pos]))) {
+    reader.pos++;
+  }
+  return toScalar(reader.text.slice(start, reader.pos).trim());
+}
+
+function readFlowList(reader: Reader): FrontMatterValue[] {
+  const items: FrontMatterValue[] = [];
+  reader.pos++; // [
+  skipSpaces(reader);
+  if (reader.text[reader.pos] === ']') {
+    reader.pos++;
+    return items;
+  }
+
+  for (;;) {
+    items.push(readFlowValue(reader, true));
+    skipSpaces(reader);
+    const char = reader.text[reader.pos++];
+    if (char === ']') return items;
+    if (char !== ',') throw new Error('Invalid flow list');
+  }
+}
+
+function readFlowMap(reader: Reader): { [key: string]: FrontMatterValue } {
+  const map: { [key: string]: FrontMatterValue } = {};
+  reader.pos++; // {
+  skipSpaces(reader);
+  if (reader.text[reader.pos] === '}') {
+    reader.pos++;
+    return map;
+  }
+
+  for (;;) {
+    skipSpaces(reader);
+    const keyStart = reader.pos;
+    const quote = reader.text[reader.pos];
+    let key: string;
+    if (quote === '"' || quote === "'") {
+      key = String(quote === '"' ? readDoubleQuoted(reader) : readSingleQuoted(reader));
+    } else {
+      while (reader.pos < reader.text.length && reader.text[reader.pos] !== ':') reader.pos++;
+      key = reader.text.slice(keyStart, reader.pos).trim();
+    }
+    skipSpaces(reader);
+    if (reader.text[reader.pos++] !== ':') throw new Error('Invalid flow map');
+
+    map[key] = readFlowValue(reader, true);
+    skipSpaces(reader);
+    const char = reader.text[reader.pos++];
+    if (char === '}') return map;
+    if (char !== ',') throw new Error('Invalid flow map');
+  }
+}
+
+function readDoubleQuoted(reader: Reader): string {
+  const start = reader.pos;
+  reader.pos++;
+  while (reader.pos < reader.text.length) {
+    const char = reader.text[reader.pos];
+    if (char === '\\') {
+      reader.pos += 2;
+    } else if (char === '"') {
+      reader.pos++;
+      // YAML double-quoted escapes are a superset of JSON's for everything we write
+      return JSON.parse(reader.text.slice(start, reader.pos).replace(/\\'/g, "'"));
+    } else {
+      reader.pos++;
+    }
+  }
+  throw new Error('Unterminated string');
+}
+
+function readSingleQuoted(reader: Reader): string {
+  let result = '';
+  reader.pos++;
+  while (reader.pos < reader.text.length) {
+    const char = reader.text[reader.pos++];
+    if (char === "'") {
+      if (reader.text[reader.pos] === "'") {
+        result += "'";
+        reader.pos++;
+      } else {
+        return result;
+      }
+    } else {
+      result += char;
+    }
+  }
+  throw new Error('Unterminated string');
+}
+
+function toScalar(text: string): FrontMatterValue {
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
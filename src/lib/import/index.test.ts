@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { iterateGoals } from '@/lib/db/export';
+import { importJournalEntries } from '@/lib/db/import';
+import { generateZip, type ZipEntry } from '@/lib/export/zip';
+import type { Goal } from '@/types';
+import { detectSource, ImportFileError, runImport } from './index';
+
+vi.mock('@/lib/db/export', () => ({ iterateGoals: vi.fn() }));
+vi.mock('@/lib/db/import', () => ({ importJournalEntries: vi.fn() }));
+
+const supabase = {} as SupabaseClient;
+const userId = '9b2f7c1e-4d3a-4f6b-8c5e-1a2b3c4d5e6f';
+
+const marathon = { id: '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f', title: 'Run a marathon' };
+const reading = { id: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d', title: 'Read 20 books' };
+
+async function* goalBatches(): AsyncGenerator<Goal[]> {
+  yield [marathon, reading] as Goal[];
+}
+
+async function zipOf(entries: ZipEntry[]): Promise<Buffer> {
+  async function* source() {
+    yield* entries;
+  }
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of generateZip(source())) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+function csv(text: string): Buffer {
+  return Buffer.from(text, 'utf8');
+}
+
+beforeEach(() => {
+  vi.mocked(iterateGoals).mockReset().mockImplementation(goalBatches);
+  vi.mocked(importJournalEntries).mockReset();
+});
+
+describe('detectSource', () => {
+  it('goes by the file extension first', () => {
+    expect(detectSource('entries.CSV', Buffer.alloc(0))).toBe('csv');
+    expect(detectSource('Journal.json', Buffer.alloc(0))).toBe('dayone');
+    expect(detectSource('2026-03-01.md', Buffer.alloc(0))).toBe('markdown');
+  });
+
+  it('looks inside zip archives', async () => {
+    expect(detectSource('export.zip', await zipOf([{ name: 'Journal.json', content: '{}' }]))).toBe(
+      'dayone'
+    );
+    expect(detectSource('notes.zip', await zipOf([{ name: 'a/b.md', content: 'x' }]))).toBe(
+      'markdown'
+    );
+  });
+
+  it('gives up on unknown files and corrupt archives', () => {
+    expect(() => detectSource('notes.docx', Buffer.from('hello'))).toThrow(ImportFileError);
+    expect(() => detectSource('export.zip', Buffer.from('PK\x03\x04garbage'))).toThrow(
+      ImportFileError
+    );
+  });
+});
+
+describe('runImport', () => {
+  it('validates CSV rows independently and matches goals by fuzzy title', async () => {
+    const data = csv(
+      [
+        '﻿Date,Title,Entry,Mood,Tags,Goals',
+        '2026/3/1,Long run,"Ran 18k,\r\nlegs tired",4,"#running; health",Run a marathn',
+        '2026-02-30,Bad date,Content,meh,,',
+        '2026-03-02,,,happy,,',
+        '2026-03-03,Reading,"Finished ""Dune""",sparkly,"[""books"",""Books""]",' +
+          'Read 20 books|Climb Everest',
+      ].join('\r\n')
+    );
+
+    const report = await runImport(supabase, userId, {
+      fileName: 'journal.csv',
+      data,
+      dryRun: true,
+    });
+
+    expect(report).toMatchObject({ source: 'csv', dryRun: true, total: 4, valid: 2, invalid: 2 });
+    expect(importJournalEntries).not.toHaveBeenCalled();
+
+    const [run, badDate, empty, books] = report.rows;
+    expect(run).toMatchObject({
+      row: 1,
+      source: 'line 2',
+      status: 'valid',
+      entry: {
+        title: 'Long run',
+        content: 'Ran 18k,\r\nlegs tired',
+        entryDate: '2026-03-01',
+        mood: 'good',
+        tags: ['running', 'health'],
+        goalIds: [marathon.id],
+      },
+    });
+    expect(badDate).toMatchObject({ status: 'invalid', errors: ['Invalid date "2026-02-30"'] });
+    expect(empty).toMatchObject({ status: 'invalid', errors: ['Content is required'] });
+    expect(books).toMatchObject({
+      status: 'valid',
+      entry: { mood: null, tags: ['books'], goalIds: [reading.id] },
+      unmatchedGoals: ['Climb Everest'],
+      warnings: ['Unrecognized mood "sparkly" was left empty'],
+    });
+  });
+
+  it('imports Markdown files with front matter from a zip, in name order', async () => {
+    const data = await zipOf([
+      {
+        name: 'journal/2026-03-02.md',
+        content:
+          `---\ntags: [books]\ngoals:\n  - { id: ${reading.id} }\n---\n` +
+          '# Chapter one\n\nRead.',
+      },
+      {
+        name: 'journal/2026-03-01 run.md',
+        content:
+          '---\ntitle: Long run\nmood: great\ngoals: Run a marathon\n---\n' +
+          '# Long run\n\nRan.',
+      },
+      { name: '__MACOSX/journal/._2026-03-01 run.md', content: 'resource fork' },
+      { name: 'journal/image.png', content: 'not markdown' },
+    ]);
+    vi.mocked(importJournalEntries).mockResolvedValue(['journal-1', 'journal-2']);
+
+    const report = await runImport(supabase, userId, { fileName: 'notes.zip', data });
+
+    expect(report).toMatchObject({ source: 'markdown', total: 2, imported: 2 });
+    expect(report.rows.map((row) => [row.source, row.status, row.journalId])).toEqual([
+      ['journal/2026-03-01 run.md', 'imported', 'journal-1'],
+      ['journal/2026-03-02.md', 'imported', 'journal-2'],
+    ]);
+    expect(vi.mocked(importJournalEntries).mock.calls[0][1]).toEqual([
+      {
+        title: 'Long run',
+        content: 'Ran.',
+        entryDate: '2026-03-01',
+        mood: 'great',
+        tags: [],
+        goalIds: [marathon.id],
+      },
+      {
+        title: 'Chapter one',
+        content: 'Read.',
+        entryDate: '2026-03-02',
+        mood: null,
+        tags: ['books'],
+        goalIds: [reading.id],
+      },
+    ]);
+  });
+
+  it('reads Day One exports and links goals named by tags', async () => {
+    const data = Buffer.from(
+      JSON.stringify({
+        entries: [
+          {
+            uuid: 'ABC',
+            creationDate: '2026-03-01T23:30:00Z',
+            timeZone: 'Asia/Tokyo',
+            text: '# Tokyo\\!\n\nNew day.',
+            tags: ['Run a marathon', 'travel'],
+          },
+        ],
+      })
+    );
+
+    const report = await runImport(supabase, userId, {
+      fileName: 'Journal.json',
+      data,
+      dryRun: true,
+    });
+
+    expect(report.rows[0]).toMatchObject({
+      source: 'Journal.json #1 (ABC)',
+      status: 'valid',
+      entry: {
+        title: 'Tokyo!',
+        content: 'New day.',
+        entryDate: '2026-03-02',
+        goalIds: [marathon.id],
+      },
+    });
+  });
+
+  it('reports files it cannot read as ImportFileError', async () => {
+    const run = (fileName: string, data: Buffer, source?: 'csv' | 'dayone' | 'markdown') =>
+      runImport(supabase, userId, { fileName, data, source, dryRun: true });
+
+    await expect(run('bad.csv', csv('content\n"never closed'))).rejects.toThrow(
+      new ImportFileError('Unterminated quoted field starting on line 2')
+    );
+    await expect(run('bad.csv', csv('date,title\n2026-03-01,x'))).rejects.toThrow(
+      'has no content column'
+    );
+    await expect(run('empty.csv', csv('content\n'))).rejects.toThrow(
+      'No journal entries found in the file'
+    );
+    await expect(run('Journal.json', Buffer.from('{"entries": 1}'))).rejects.toThrow(
+      'not a Day One export'
+    );
+    await expect(run('notes.zip', Buffer.from('PK\x03\x04garbage'), 'markdown')).rejects.toThrow(
+      ImportFileError
+    );
+  });
+});
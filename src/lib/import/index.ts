@@ -0,0 +1,294 @@
+/**
+ * Journal import pipeline
+ * Reads a Day One export, a zip of Markdown files or a CSV, maps every row onto
+ * CreateJournalEntryInput, links goals by (fuzzy) title and validates each row
+ * independently. Valid rows are then written in a single transaction.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type {
+  CreateJournalEntryInput,
+  ImportReport,
+  ImportRowResult,
+  ImportSource,
+  Mood,
+} from '@/types';
+import { MOODS, MOOD_EMOJIS } from '@/types';
+import { iterateGoals } from '@/lib/db/export';
+import { importJournalEntries } from '@/lib/db/import';
+import { createGoalMatcher, type GoalMatcher, type GoalReference } from './matching';
+import { readCsv, readDayOne, readMarkdown, type RawImportRow } from './sources';
+import { isZip, listZip } from './zip';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * The uploaded file itself could not be read (bad format, too large, empty)
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export interface ImportOptions {
+  fileName: string;
+  data: Buffer;
+  source?: ImportSource; // Detected from the file when omitted
+  dryRun?: boolean;
+}
+
+// Same limits as POST /api/journals
+const importEntrySchema = z.object({
+  title: z.string().max(200, 'Title must be 200 characters or less').nullable(),
+  content: z
+    .string()
+    .min(1, 'Content is required')
+    .max(50000, 'Content must be 50000 characters or less'),
+  entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date is required (YYYY-MM-DD)'),
+  mood: z.enum(['great', 'good', 'neutral', 'bad', 'terrible']).nullable(),
+  tags: z
+    .array(z.string().max(50, 'Tags must be 50 characters or less'))
+    .max(20, 'At most 20 tags are allowed'),
+  goalIds: z.array(z.string().uuid()),
+});
+
+/**
+ * Guess the source format from the file name and contents
+ */
+export function detectSource(fileName: string, data: Buffer): ImportSource {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.json')) return 'dayone';
+  if (/\.(md|markdown|txt)$/.test(name)) return 'markdown';
+
+  if (isZip(data)) {
+    try {
+      const names = listZip(data).map((entry) => entry.toLowerCase());
+      if (names.some((n) => n.endsWith('.json'))) return 'dayone';
+      if (names.some((n) => /\.(md|markdown|txt)$/.test(n))) return 'markdown';
+    } catch {
+      // Reported properly when the reader runs
+    }
+  }
+
+  throw new ImportFileError(
+    'Could not detect the file format; choose Day One, Markdown or CSV explicitly'
+  );
+}
+
+function readRows(source: ImportSource, fileName: string, data: Buffer): RawImportRow[] {
+  try {
+    switch (source) {
+      case 'dayone':
+        return readDayOne(fileName, data);
+      case 'markdown':
+        return readMarkdown(fileName, data);
+      case 'csv':
+        return readCsv(fileName, data);
+    }
+  } catch (error) {
+    throw new ImportFileError(error instanceof Error ? error.message : 'Could not read file');
+  }
+}
+
+// ============================================
+// Field normalization
+// ============================================
+
+const MOOD_ALIASES: Record<string, Mood> = {
+  amazing: 'great',
+  awesome: 'great',
+  excellent: 'great',
+  fantastic: 'great',
+  'very good': 'great',
+  happy: 'good',
+  fine: 'good',
+  positive: 'good',
+  ok: 'neutral',
+  okay: 'neutral',
+  meh: 'neutral',
+  average: 'neutral',
+  normal: 'neutral',
+  sad: 'bad',
+  down: 'bad',
+  poor: 'bad',
+  negative: 'bad',
+  awful: 'terrible',
+  horrible: 'terrible',
+  miserable: 'terrible',
+  'very bad': 'terrible',
+};
+
+// 1-5 rating scales, 5 being best
+const MOOD_BY_RATING: Mood[] = ['terrible', 'bad', 'neutral', 'good', 'great'];
+
+function normalizeMood(value: string | number | null): { mood: Mood | null; recognized: boolean } {
+  if (value === null) return { mood: null, recognized: true };
+
+  const text = String(value).trim().toLowerCase();
+  if (text === '') return { mood: null, recognized: true };
+
+  const rating = Number(text);
+  if (Number.isInteger(rating) && rating >= 1 && rating <= 5) {
+    return { mood: MOOD_BY_RATING[rating - 1], recognized: true };
+  }
+
+  const mood =
+    MOODS.find((m) => m === text) ??
+    MOOD_ALIASES[text] ??
+    MOODS.find((m) => MOOD_EMOJIS[m] === text) ??
+    null;
+  return { mood, recognized: mood !== null };
+}
+
+/** Accepts YYYY-MM-DD, YYYY/MM/DD or a full timestamp (its date part is used) */
+function normalizeDate(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/^#/, '');
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+function buildRow(raw: RawImportRow, index: number, matcher: GoalMatcher): ImportRowResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  const { mood, recognized } = normalizeMood(raw.mood);
+  if (!recognized) {
+    warnings.push(`Unrecognized mood "${raw.mood}" was left empty`);
+  }
+
+  const entryDate = normalizeDate(raw.date);
+  if (raw.date && !entryDate) {
+    errors.push(`Invalid date "${raw.date}"`);
+  }
+
+  const matched = new Map<string, GoalReference>();
+  const unmatchedGoals: string[] = [];
+  for (const reference of raw.goals) {
+    const goal = (reference.id ? matcher.match(reference.id) : null) ?? matcher.match(reference.title);
+    if (goal) {
+      matched.set(goal.id, goal);
+    } else {
+      unmatchedGoals.push(reference.title);
+    }
+  }
+  for (const hint of raw.goalHints) {
+    const goal = matcher.match(hint);
+    if (goal) matched.set(goal.id, goal);
+  }
+
+  const candidate = {
+    title: raw.title,
+    content: raw.content,
+    entryDate: entryDate ?? '',
+    mood,
+    tags: normalizeTags(raw.tags),
+    goalIds: Array.from(matched.keys()),
+  };
+
+  const parsed = importEntrySchema.safeParse(candidate);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      // The invalid-date error above already explains an empty entryDate
+      if (issue.path[0] === 'entryDate' && raw.date) continue;
+      errors.push(issue.message);
+    }
+  }
+
+  const entry: CreateJournalEntryInput = candidate;
+  return {
+    row: index + 1,
+    source: raw.source,
+    status: errors.length === 0 ? 'valid' : 'invalid',
+    entry: errors.length === 0 ? entry : null,
+    journalId: null,
+    matchedGoals: Array.from(matched.values()),
+    unmatchedGoals,
+    warnings,
+    errors,
+  };
+}
+
+/**
+ * Parse, validate and (unless dryRun) import a file of journal entries
+ * Invalid rows are reported and skipped; all valid rows are written together or
+ * not at all.
+ */
+export async function runImport(
+  supabase: SupabaseClientAny,
+  userId: string,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const { fileName, data, dryRun = false } = options;
+
+  if (data.length > MAX_IMPORT_FILE_SIZE) {
+    throw new ImportFileError(`File is too large (max ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB)`);
+  }
+
+  const source = options.source ?? detectSource(fileName, data);
+  const rawRows = readRows(source, fileName, data);
+
+  if (rawRows.length === 0) {
+    throw new ImportFileError('No journal entries found in the file');
+  }
+  if (rawRows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(
+      `File has ${rawRows.length} entries; at most ${MAX_IMPORT_ROWS} can be imported at once`
+    );
+  }
+
+  const goals: GoalReference[] = [];
+  for await (const batch of iterateGoals(supabase, userId)) {
+    goals.push(...batch.map((g) => ({ id: g.id, title: g.title })));
+  }
+  const matcher = createGoalMatcher(goals);
+
+  const rows = rawRows.map((raw, index) => buildRow(raw, index, matcher));
+  const validRows = rows.filter((row) => row.status === 'valid');
+
+  if (!dryRun && validRows.length > 0) {
+    const ids = await importJournalEntries(
+      supabase,
+      validRows.map((row) => row.entry as CreateJournalEntryInput)
+    );
+    validRows.forEach((row, i) => {
+      row.status = 'imported';
+      row.journalId = ids[i] ?? null;
+    });
+  }
+
+  return {
+    source,
+    dryRun,
+    total: rows.length,
+    valid: validRows.length,
+    imported: dryRun ? 0 : validRows.length,
+    invalid: rows.length - validRows.length,
+    rows,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createGoalMatcher, normalizeTitle, titleSimilarity } from './matching';
+
+const goals = [
+  { id: '3c1d2e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f', title: 'Run a Marathon' },
+  { id: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d', title: 'Read 20 books' },
+  { id: '0f1e2d3c-4b5a-4968-8776-65a4b3c2d1e0', title: 'Learn Portuguese' },
+];
+
+describe('normalizeTitle', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeTitle('  Café — "Crème"  brûlée!! ')).toBe('cafe creme brulee');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('is 1 for equal titles and 0 for unrelated ones', () => {
+    expect(titleSimilarity('run a marathon', 'run a marathon')).toBe(1);
+    expect(titleSimilarity('ab', 'cd')).toBe(0);
+    expect(titleSimilarity('', '')).toBe(1);
+    expect(titleSimilarity('a', 'b')).toBe(0);
+  });
+});
+
+describe('createGoalMatcher', () => {
+  const matcher = createGoalMatcher(goals);
+
+  it('matches ids and normalized titles', () => {
+    expect(matcher.match(` ${goals[1].id} `)).toBe(goals[1]);
+    expect(matcher.match('run a marathon!')).toBe(goals[0]);
+  });
+
+  it('matches titles with a typo or small wording change', () => {
+    expect(matcher.match('Run a marathn')).toBe(goals[0]);
+    expect(matcher.match('Learn portugese')).toBe(goals[2]);
+  });
+
+  it('does not match titles that are only loosely related', () => {
+    expect(matcher.match('Run')).toBeNull();
+    expect(matcher.match('Read books')).toBeNull();
+    expect(matcher.match('   ')).toBeNull();
+    expect(matcher.match('!!!')).toBeNull();
+  });
+
+  it('prefers the first of goals with the same title', () => {
+    const duplicate = { id: 'b1c2d3e4-f5a6-4b7c-8d9e-0f1a2b3c4d5e', title: 'Read 20 Books' };
+
+    expect(createGoalMatcher([...goals, duplicate]).match('read 20 books')).toBe(goals[1]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Fuzzy goal-title matching for imports
+ * Titles are compared after normalization (case, accents, punctuation); if there
+ * is no exact match, the closest title by bigram (Dice) similarity wins when it
+ * is close enough to be the same goal with a typo or small wording change.
+ */
+
+import type { Goal } from '@/types';
+
+export type GoalReference = Pick<Goal, 'id' | 'title'>;
+
+export const GOAL_MATCH_THRESHOLD = 0.8;
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s!-\/:-@[-`{-~\u2000-\u206f]+/g, ' ')
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Sorensen-Dice coefficient over character bigrams, 0..1 */
+export function titleSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let leftSize = 0;
+  let rightSize = 0;
+  let overlap = 0;
+  left.forEach((count) => {
+    leftSize += count;
+  });
+  right.forEach((count, pair) => {
+    rightSize += count;
+    overlap += Math.min(count, left.get(pair) ?? 0);
+  });
+  if (leftSize + rightSize === 0) return 0;
+  return (2 * overlap) / (leftSize + rightSize);
+}
+
+/**
+ * Build a matcher over a user's goals; `match` accepts a goal id or a title
+ */
+export function createGoalMatcher(goals: GoalReference[]) {
+  const byId = new Map(goals.map((g) => [g.id, g]));
+  const byTitle = new Map<string, GoalReference>();
+  const normalized = goals.map((goal) => ({ goal, title: normalizeTitle(goal.title) }));
+  for (const { goal, title } of normalized) {
+    if (!byTitle.has(title)) byTitle.set(title, goal);
+  }
+
+  return {
+    match(reference: string): GoalReference | null {
+      const trimmed = reference.trim();
+      const exactId = byId.get(trimmed);
+      if (exactId) return exactId;
+
+      const title = normalizeTitle(trimmed);
+      if (title === '') return null;
+      const exactTitle = byTitle.get(title);
+      if (exactTitle) return exactTitle;
+
+      let best: GoalReference | null = null;
+      let bestScore = GOAL_MATCH_THRESHOLD;
+      for (const candidate of normalized) {
+        const score = titleSimilarity(title, candidate.title);
+        if (score >= bestScore && (best === null || score > bestScore)) {
+          best = candidate.goal;
+          bestScore = score;
+        }
+      }
+      return best;
+    },
+  };
+}
+
+export type GoalMatcher = ReturnType<typeof createGoalMatcher>;
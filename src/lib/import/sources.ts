@@ -0,0 +1,288 @@
+/**
+ * Source readers for journal imports
+ * Each reader turns an uploaded file into loosely-typed rows; normalization and
+ * validation happen in one place afterwards (see ./index.ts)
+ */
+
+import { parseCsv } from './csv';
+import { parseFrontMatter, type FrontMatterValue } from './frontmatter';
+import { isZip, readZip, type ZipFile } from './zip';
+
+export interface ImportGoalReference {
+  id?: string;
+  title: string;
+}
+
+export interface RawImportRow {
+  source: string; // Where the row came from, for the report
+  title: string | null;
+  content: string;
+  date: string | null;
+  mood: string | number | null;
+  tags: string[];
+  goals: ImportGoalReference[]; // Explicit links; unmatched ones are reported
+  goalHints: string[]; // Linked when they match a goal, otherwise ignored
+}
+
+export const ZIP_LIMITS = {
+  maxEntries: 5000,
+  maxTotalSize: 50 * 1024 * 1024,
+};
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|txt)$/i;
+
+const utf8 = new TextDecoder('utf-8');
+
+function decode(data: Buffer): string {
+  return utf8.decode(data);
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+/** Skip folders and files added by archivers (macOS resource forks, dotfiles) */
+function isHiddenPath(path: string): boolean {
+  return path.startsWith('__MACOSX/') || path.split('/').some((part) => part.startsWith('.'));
+}
+
+function toText(value: FrontMatterValue | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function toList(value: FrontMatterValue | undefined): FrontMatterValue[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(/[,;]/);
+  return [value];
+}
+
+function toStringList(value: FrontMatterValue | undefined): string[] {
+  return toList(value)
+    .map(toText)
+    .filter((item): item is string => item !== null);
+}
+
+function toGoalReferences(value: FrontMatterValue | undefined): ImportGoalReference[] {
+  const references: ImportGoalReference[] = [];
+  for (const item of toList(value)) {
+    if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+      const title = toText(item.title) ?? toText(item.name);
+      const id = toText(item.id) ?? undefined;
+      if (title || id) references.push({ id, title: title ?? id ?? '' });
+    } else {
+      const title = toText(item);
+      if (title) references.push({ title });
+    }
+  }
+  return references;
+}
+
+// ============================================
+// Day One
+// ============================================
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  timeZone?: string;
+  text?: string;
+  tags?: string[];
+}
+
+/** Calendar date of an instant in the entry's own time zone */
+function dayOneEntryDate(creationDate: string | undefined, timeZone: string | undefined): string | null {
+  if (!creationDate) return null;
+  const instant = new Date(creationDate);
+  if (isNaN(instant.getTime())) return creationDate;
+
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(instant);
+  } catch {
+    return instant.toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Day One stores Markdown with punctuation backslash-escaped and photos as
+ * dayone-moment links; the first line doubles as the entry title when it is a heading
+ */
+function splitDayOneText(text: string): { title: string | null; content: string } {
+  const cleaned = text
+    .replace(/^!\[[^\]]*\]\(dayone-moment:[^)]*\)\s*$/gm, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const heading = cleaned.match(/^#{1,6}\s+(.+)\n?/);
+  if (heading) {
+    return { title: heading[1].trim(), content: cleaned.slice(heading[0].length).trim() };
+  }
+  return { title: null, content: cleaned };
+}
+
+function readDayOneJson(json: string, fileName: string): RawImportRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+
+  const entries = (parsed as { entries?: unknown })?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${fileName} is not a Day One export (no "entries" array)`);
+  }
+
+  return (entries as DayOneEntry[]).map((entry, index) => {
+    const { title, content } = splitDayOneText(typeof entry.text === 'string' ? entry.text : '');
+    const tags = Array.isArray(entry.tags) ? entry.tags.filter((t) => typeof t === 'string') : [];
+    return {
+      source: `${fileName} #${index + 1}${entry.uuid ? ` (${entry.uuid})` : ''}`,
+      title,
+      content,
+      date: dayOneEntryDate(entry.creationDate, entry.timeZone),
+      mood: null,
+      tags,
+      goals: [],
+      goalHints: tags,
+    };
+  });
+}
+
+/** A Day One export is a bare JSON file or a zip holding one JSON file per journal */
+export function readDayOne(fileName: string, data: Buffer): RawImportRow[] {
+  if (!isZip(data)) {
+    return readDayOneJson(decode(data), fileName);
+  }
+
+  const journals = readZip(data, ZIP_LIMITS).filter(
+    (file) => file.name.toLowerCase().endsWith('.json') && !isHiddenPath(file.name)
+  );
+  if (journals.length === 0) {
+    throw new Error('No Day One JSON file found in the zip');
+  }
+  return journals.flatMap((file) => readDayOneJson(decode(file.data), file.name));
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function readMarkdownFile(file: ZipFile): RawImportRow {
+  const { data, body } = parseFrontMatter(decode(file.data));
+  const fileDate = baseName(file.name).match(/^(\d{4}-\d{2}-\d{2})/)?.[1] ?? null;
+
+  let title = toText(data.title);
+  let content = body.trim();
+
+  // Drop a leading H1 that repeats the title (or use it as the title if there is none)
+  const heading = content.match(/^#\s+(.+)(\r?\n|$)/);
+  if (heading && (title === null || heading[1].trim() === title)) {
+    title = heading[1].trim();
+    content = content.slice(heading[0].length).trim();
+  }
+
+  return {
+    source: file.name,
+    title,
+    content,
+    date:
+      toText(data.date) ??
+      toText(data.entry_date) ??
+      toText(data.entryDate) ??
+      toText(data.created) ??
+      toText(data.created_at) ??
+      fileDate,
+    mood: toText(data.mood),
+    tags: toStringList(data.tags),
+    goals: toGoalReferences(data.goals),
+    goalHints: [],
+  };
+}
+
+/** A zip of Markdown files (one entry per file), or a single Markdown file */
+export function readMarkdown(fileName: string, data: Buffer): RawImportRow[] {
+  const files = isZip(data)
+    ? readZip(data, ZIP_LIMITS)
+        .filter((file) => MARKDOWN_EXTENSIONS.test(file.name) && !isHiddenPath(file.name))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [{ name: fileName, data }];
+
+  return files.map(readMarkdownFile);
+}
+
+// ============================================
+// CSV
+// ============================================
+
+// Accepted header names per field, compared case-insensitively without spaces/underscores
+const CSV_COLUMNS = {
+  date: ['date', 'entrydate', 'day', 'created', 'createdat'],
+  title: ['title', 'subject', 'heading'],
+  content: ['content', 'text', 'body', 'entry', 'note', 'notes'],
+  mood: ['mood', 'feeling'],
+  tags: ['tags', 'tag', 'labels'],
+  goals: ['goals', 'goal', 'goaltitles'],
+} as const;
+
+type CsvField = keyof typeof CSV_COLUMNS;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/** Cells may hold a JSON array (as in our own exports) or a delimited list */
+function splitCell(value: string, separators: RegExp): string[] {
+  const trimmed = value.trim();
+  if (trimmed === '') return [];
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String).map((s) => s.trim()).filter(Boolean);
+    } catch {
+      // Not JSON - fall back to splitting
+    }
+  }
+  return trimmed
+    .split(separators)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function readCsv(fileName: string, data: Buffer): RawImportRow[] {
+  const [header, ...records] = parseCsv(decode(data));
+  if (!header) return [];
+
+  const headers = header.values.map(normalizeHeader);
+  const columns = {} as Record<CsvField, number>;
+  for (const field of Object.keys(CSV_COLUMNS) as CsvField[]) {
+    columns[field] = headers.findIndex((h) => (CSV_COLUMNS[field] as readonly string[]).includes(h));
+  }
+  if (columns.content === -1) {
+    throw new Error(`${fileName} has no content column (expected one of: content, text, body)`);
+  }
+
+  const cell = (values: string[], field: CsvField): string =>
+    columns[field] === -1 ? '' : (values[columns[field]] ?? '').trim();
+
+  return records.map((record) => ({
+    source: `line ${record.line}`,
+    title: cell(record.values, 'title') || null,
+    content: cell(record.values, 'content'),
+    date: cell(record.values, 'date') || null,
+    mood: cell(record.values, 'mood') || null,
+    tags: splitCell(cell(record.values, 'tags'), /[,;]/),
+    // Goal titles may contain commas, so only ; and | separate them
+    goals: splitCell(cell(record.values, 'goals'), /[;|]/).map((title) => ({ title })),
+    goalHints: [],
+  }));
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { generateZip, type ZipEntry } from '@/lib/export/zip';
+import { isZip, listZip, readZip } from './zip';
+
+async function* toEntries(entries: ZipEntry[]): AsyncGenerator<ZipEntry> {
+  yield* entries;
+}
+
+/** A deflated archive with data descriptors, as written by our own exports */
+async function exportedZip(entries: ZipEntry[]): Promise<Buffer> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of generateZip(toEntries(entries))) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * A stored (uncompressed) archive with one central directory record per file
+ * Names are written as latin1 unless utf8 is set, as older archivers do
+ */
+function storedZip(files: { name: string; data: string }[], utf8 = false): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, utf8 ? 'utf8' : 'latin1');
+    const data = Buffer.from(file.data, 'utf8');
+    const flags = utf8 ? 0x0800 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/** Offset of the first central directory record */
+function centralDirectoryOffset(zip: Buffer): number {
+  return zip.readUInt32LE(zip.length - 22 + 16);
+}
+
+describe('readZip', () => {
+  it('reads deflated entries written with data descriptors', async () => {
+    const zip = await exportedZip([
+      { name: 'journal/2026-03-01.md', content: '# Monday\n\nFirst entry' },
+      { name: 'journal/2026-03-02.md', content: 'Ünïcödé ✓ '.repeat(500) },
+    ]);
+
+    const files = readZip(zip);
+
+    expect(isZip(zip)).toBe(true);
+    expect(files.map((f) => f.name)).toEqual(['journal/2026-03-01.md', 'journal/2026-03-02.md']);
+    expect(files[0].data.toString('utf8')).toBe('# Monday\n\nFirst entry');
+    expect(files[1].data.toString('utf8')).toBe('Ünïcödé ✓ '.repeat(500));
+  });
+
+  it('reads stored entries, skips directories and normalizes backslashes', () => {
+    const zip = storedZip([
+      { name: 'notes/', data: '' },
+      { name: 'notes\\café.txt', data: 'hello' },
+    ]);
+
+    expect(listZip(zip)).toEqual(['notes/café.txt']);
+    expect(readZip(zip).map((f) => [f.name, f.data.toString()])).toEqual([
+      ['notes/café.txt', 'hello'],
+    ]);
+  });
+
+  it('decodes names flagged as UTF-8', () => {
+    expect(listZip(storedZip([{ name: '日記.md', data: 'x' }], true))).toEqual(['日記.md']);
+  });
+
+  it('reads an empty archive', () => {
+    expect(readZip(storedZip([]))).toEqual([]);
+  });
+
+  it('rejects data without an end-of-central-directory record', () => {
+    expect(() => readZip(Buffer.from('PK\x03\x04 not really a zip'))).toThrow(
+      'Not a valid zip archive'
+    );
+    expect(() => readZip(Buffer.alloc(0))).toThrow('Not a valid zip archive');
+  });
+
+  it('rejects a truncated archive', async () => {
+    const zip = await exportedZip([{ name: 'a.md', content: 'Some text' }]);
+
+    expect(() => readZip(zip.subarray(0, zip.length - 10))).toThrow();
+  });
+
+  it('rejects a central directory that points outside the archive or at the wrong bytes', () => {
+    const zip = storedZip([{ name: 'a.txt', data: 'hello' }]);
+
+    const outside = Buffer.from(zip);
+    outside.writeUInt32LE(zip.length + 100, zip.length - 22 + 16);
+    expect(() => readZip(outside)).toThrow('Corrupt zip central directory');
+
+    const wrong = Buffer.from(zip);
+    wrong.writeUInt32LE(0, zip.length - 22 + 16);
+    expect(() => readZip(wrong)).toThrow('Corrupt zip central directory');
+  });
+
+  it('rejects an entry count larger than the central directory', () => {
+    const zip = storedZip([{ name: 'a.txt', data: 'hello' }]);
+    zip.writeUInt16LE(2, zip.length - 22 + 10);
+
+    expect(() => readZip(zip)).toThrow('Corrupt zip central directory');
+  });
+
+  it('rejects an entry whose local header is missing', () => {
+    const zip = storedZip([{ name: 'a.txt', data: 'hello' }]);
+    zip.writeUInt32LE(zip.length, centralDirectoryOffset(zip) + 42);
+
+    expect(() => readZip(zip)).toThrow('Corrupt zip entry (a.txt)');
+  });
+
+  it('rejects an entry whose content does not match its size', () => {
+    const zip = storedZip([{ name: 'a.txt', data: 'hello' }]);
+    zip.writeUInt32LE(3, centralDirectoryOffset(zip) + 20);
+
+    expect(() => readZip(zip)).toThrow('Corrupt zip entry (a.txt)');
+  });
+
+  it('does not inflate past the declared size', async () => {
+    const zip = await exportedZip([{ name: 'bomb.txt', content: '0'.repeat(100000) }]);
+    zip.writeUInt32LE(10, centralDirectoryOffset(zip) + 24);
+
+    expect(() => readZip(zip)).toThrow();
+  });
+
+  it('rejects encrypted entries and unsupported compression methods', () => {
+    const encrypted = storedZip([{ name: 'secret.txt', data: 'hello' }]);
+    encrypted.writeUInt16LE(0x0001, centralDirectoryOffset(encrypted) + 8);
+    expect(() => readZip(encrypted)).toThrow(
+      'Encrypted zip entries are not supported (secret.txt)'
+    );
+
+    const bzip2 = storedZip([{ name: 'a.txt', data: 'hello' }]);
+    bzip2.writeUInt16LE(12, centralDirectoryOffset(bzip2) + 10);
+    expect(() => readZip(bzip2)).toThrow('Unsupported zip compression method 12 (a.txt)');
+  });
+
+  it('enforces the entry and extracted size limits', () => {
+    const zip = storedZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'b.txt', data: 'world' },
+    ]);
+
+    expect(() => listZip(zip, { maxEntries: 1 })).toThrow('too many entries (max 1)');
+    expect(() => readZip(zip, { maxTotalSize: 8 })).toThrow('too large when extracted');
+    expect(readZip(zip, { maxEntries: 2, maxTotalSize: 10 })).toHaveLength(2);
+  });
+});
+
+describe('isZip', () => {
+  it('looks at the local header signature', () => {
+    expect(isZip(storedZip([{ name: 'a.txt', data: 'x' }]))).toBe(true);
+    expect(isZip(Buffer.from('date,content\n'))).toBe(false);
+    expect(isZip(Buffer.from('PK'))).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Minimal in-memory ZIP reader
+ * Reads the central directory so archives written with data descriptors (including
+ * our own exports) are handled. Supports stored and deflated entries; no ZIP64.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+
+export interface ZipFile {
+  name: string; // Path inside the archive, forward slashes
+  data: Buffer;
+}
+
+export interface ReadZipOptions {
+  maxEntries?: number;
+  maxTotalSize?: number; // Uncompressed bytes across all files
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+/** The end-of-central-directory record sits in the last 22 bytes plus an optional comment */
+function findEndOfCentralDirectory(data: Buffer): number {
+  const stop = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= stop; i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Not a valid zip archive');
+}
+
+interface CentralDirectoryEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+function readCentralDirectory(data: Buffer, maxEntries: number): CentralDirectoryEntry[] {
+  const eocd = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(eocd + 10);
+  let pointer = data.readUInt32LE(eocd + 16);
+
+  if (count > maxEntries) {
+    throw new Error(`Zip archive has too many entries (max ${maxEntries})`);
+  }
+
+  const entries: CentralDirectoryEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > data.length || data.readUInt32LE(pointer) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const flags = data.readUInt16LE(pointer + 8);
+    const nameLength = data.readUInt16LE(pointer + 28);
+    const extraLength = data.readUInt16LE(pointer + 30);
+    const commentLength = data.readUInt16LE(pointer + 32);
+    const nameBytes = data.subarray(pointer + 46, pointer + 46 + nameLength);
+
+    entries.push({
+      name: (flags & FLAG_UTF8 ? utf8 : latin1).decode(nameBytes).replace(/\\/g, '/'),
+      flags,
+      method: data.readUInt16LE(pointer + 10),
+      compressedSize: data.readUInt32LE(pointer + 20),
+      size: data.readUInt32LE(pointer + 24),
+      localOffset: data.readUInt32LE(pointer + 42),
+    });
+
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+
+  // Directories have no content
+  return entries.filter((entry) => !entry.name.endsWith('/'));
+}
+
+/**
+ * File names in a ZIP archive, without extracting anything
+ */
+export function listZip(data: Buffer, options: ReadZipOptions = {}): string[] {
+  return readCentralDirectory(data, options.maxEntries ?? 10000).map((entry) => entry.name);
+}
+
+/**
+ * Extract all files (directories are skipped) from a ZIP archive
+ */
+export function readZip(data: Buffer, options: ReadZipOptions = {}): ZipFile[] {
+  const maxTotalSize = options.maxTotalSize ?? 100 * 1024 * 1024;
+  const files: ZipFile[] = [];
+  let totalSize = 0;
+
+  for (const { name, flags, method, compressedSize, size, localOffset } of readCentralDirectory(
+    data,
+    options.maxEntries ?? 10000
+  )) {
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Encrypted zip entries are not supported (${name})`);
+    }
+
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new Error('Zip archive is too large when extracted');
+    }
+
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip entry (${name})`);
+    }
+    // The local header's name/extra lengths can differ from the central directory's
+    const dataStart =
+      localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD_STORE) {
+      content = Buffer.from(raw);
+    } else if (method === METHOD_DEFLATE) {
+      // maxOutputLength guards against entries that lie about their size
+      content = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} (${name})`);
+    }
+
+    if (content.length !== size) {
+      throw new Error(`Corrupt zip entry (${name})`);
+    }
+
+    files.push({ name, data: content });
+  }
+
+  return files;
+}
@@ -0,0 +1,132 @@
+/**
+ * Insight digest email
+ * Renders a stored weekly/monthly insight as the HTML and plain-text parts of one message
+ */
+
+import type { WeeklyInsight } from '@/types';
+import { escapeHtml } from '@/lib/mail';
+
+export interface InsightDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface InsightDigestOptions {
+  name: string | null;
+  appUrl: string;
+}
+
+// Period dates are calendar days, stored as UTC midnight
+function formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(date);
+}
+
+function getPeriodLabel(insight: WeeklyInsight): string {
+  if (insight.period === 'month') {
+    return formatDate(insight.weekStartDate, { month: 'long', year: 'numeric' });
+  }
+  const dayOptions: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  return `${formatDate(insight.weekStartDate, dayOptions)} – ${formatDate(insight.weekEndDate, dayOptions)}`;
+}
+
+interface DigestItem {
+  title: string;
+  detail?: string;
+}
+
+function getSections(insight: WeeklyInsight): { heading: string; items: DigestItem[] }[] {
+  const achievements = (insight.keyAchievements ?? []).map((a) => ({
+    title: a.title,
+    detail: a.description,
+  }));
+  const improvements = (insight.areasForImprovement ?? []).map((a) => ({
+    title: a.priority ? `${a.area} (${a.priority} priority)` : a.area,
+    detail: a.suggestion,
+  }));
+
+  return [
+    { heading: 'Key achievements', items: achievements },
+    { heading: 'Areas for improvement', items: improvements },
+  ].filter((section) => section.items.length > 0);
+}
+
+function renderText(
+  insight: WeeklyInsight,
+  options: InsightDigestOptions,
+  intro: string
+): string {
+  const lines = [`Hi ${options.name ?? 'there'},`, '', intro, '', insight.summary];
+
+  for (const section of getSections(insight)) {
+    lines.push('', section.heading);
+    for (const item of section.items) {
+      lines.push(`- ${item.title}${item.detail ? `: ${item.detail}` : ''}`);
+    }
+  }
+
+  lines.push(
+    '',
+    `See all your insights: ${options.appUrl}/insights`,
+    '',
+    `You receive this digest because it is turned on in your settings: ${options.appUrl}/settings`
+  );
+  return lines.join('\n');
+}
+
+function renderHtml(
+  insight: WeeklyInsight,
+  options: InsightDigestOptions,
+  intro: string
+): string {
+  const sections = getSections(insight)
+    .map(
+      (section) => `
+      <h2 style="font-size:16px;margin:24px 0 8px;color:#111827;">${escapeHtml(section.heading)}</h2>
+      <ul style="margin:0;padding-left:20px;">
+        ${section.items
+          .map(
+            (item) =>
+              `<li style="margin-bottom:8px;"><strong>${escapeHtml(item.title)}</strong>${
+                item.detail ? `<br><span style="color:#4b5563;">${escapeHtml(item.detail)}</span>` : ''
+              }</li>`
+          )
+          .join('\n        ')}
+      </ul>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:14px;line-height:1.5;color:#374151;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;padding:24px;">
+      <p style="margin:0 0 4px;">Hi ${escapeHtml(options.name ?? 'there')},</p>
+      <h1 style="font-size:20px;margin:0 0 16px;color:#111827;">${escapeHtml(intro)}</h1>
+      <p style="margin:0;">${escapeHtml(insight.summary)}</p>${sections}
+      <p style="margin:24px 0 0;">
+        <a href="${escapeHtml(`${options.appUrl}/insights`)}" style="display:inline-block;padding:8px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:8px;">See all your insights</a>
+      </p>
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center;">
+      You receive this digest because it is turned on in your
+      <a href="${escapeHtml(`${options.appUrl}/settings`)}" style="color:#6b7280;">settings</a>.
+    </p>
+  </body>
+</html>
+`;
+}
+
+export function renderInsightDigest(
+  insight: WeeklyInsight,
+  options: InsightDigestOptions
+): InsightDigest {
+  const kind = insight.period === 'month' ? 'monthly' : 'weekly';
+  const label = getPeriodLabel(insight);
+  const intro = `Your ${kind} insights for ${label}`;
+
+  return {
+    subject: `Your ${kind} insights: ${label}`,
+    html: renderHtml(insight, options, intro),
+    text: renderText(insight, options, intro),
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Weekly and monthly insights
+ * generateInsights turns a context from getContextForWeeklyInsights into a saved AI analysis;
+ * it backs both the on-demand Insights page and the scheduled run below.
+ *
+ * runScheduledInsights is called by /api/cron/insights. For every user it stores the
+ * weekly_insights row of the last finished week (Sunday to Saturday) and month in the user's
+ * timezone, then emails it as a digest unless the user turned digests off. Periods without
+ * journal entries are skipped and periods that already have a row are not generated again,
+ * so the job can run as often as convenient; each run generates at most maxGenerations
+ * insights and the next run picks up where it stopped. New insights and failed generations
+ * are also added to the user's notification inbox.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIAnalysis, InsightPeriod, Profile, WeeklyInsight } from '@/types';
+import {
+  getContextForWeeklyInsights,
+  getWeeklyInsight,
+  markWeeklyInsightEmailed,
+  saveAnalysis,
+  saveWeeklyInsight,
+  type InsightDateRange,
+  type WeeklyInsightsContext,
+} from '@/lib/db/ai';
+import { parseLocalDate, toLocalDateStr } from '@/lib/db/dashboard';
+import { getProfilesPage } from '@/lib/db/profiles';
+import {
+  ClaudeAPIError,
+  generateWeeklyInsights,
+  type WeeklyInsightsResult,
+} from '@/lib/claude/client';
+import { getAppUrl, sendMail } from '@/lib/mail';
+import { notifyUser } from '@/lib/notifications';
+import { getTodayInTimezone, resolveTimezone } from '@/lib/timezone';
+import { renderInsightDigest } from './digest';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+const PERIODS: InsightPeriod[] = ['week', 'month'];
+
+const PROFILE_PAGE_SIZE = 200;
+
+const DEFAULT_MAX_GENERATIONS = 20;
+
+export interface ScheduledInsightsOptions {
+  now?: Date;
+  maxGenerations?: number;
+}
+
+export interface ScheduledInsightsReport {
+  generated: number;
+  emailed: number;
+  skipped: number; // Periods without journal entries
+  failed: number;
+  complete: boolean; // False when the run stopped early; the next run continues
+}
+
+/**
+ * Generate insights from a context and save them as a weekly/monthly analysis
+ */
+export async function generateInsights(
+  supabase: SupabaseClientAny,
+  userId: string,
+  timeline: InsightPeriod,
+  context: WeeklyInsightsContext
+): Promise<{ analysis: AIAnalysis; result: WeeklyInsightsResult }> {
+  const result = await generateWeeklyInsights(
+    context.journals,
+    context.goals,
+    context.stats
+  );
+
+  const analysis = await saveAnalysis(supabase, userId, timeline === 'week' ? 'weekly' : 'monthly', {
+    journalEntriesAnalyzed: context.journals.map(j => j.id),
+    goalsAnalyzed: context.goals.map(g => g.id),
+    insights: {
+      ...result.insights,
+      summary: result.summary,
+      key_achievements: result.keyAchievements,
+      areas_for_improvement: result.areasForImprovement,
+      goal_progress_updates: result.goalProgressUpdates,
+    },
+    recommendations: result.recommendations,
+    progressSummary: {
+      overall_progress: Math.round(
+        context.goals.reduce((sum, g) => sum + g.progressPercentage, 0) /
+        Math.max(1, context.goals.length)
+      ),
+      goals_on_track: context.goals
+        .filter(g => g.status === 'active' && g.progressPercentage >= 50)
+        .map(g => g.id),
+      goals_behind: context.goals
+        .filter(g => g.status === 'active' && g.progressPercentage < 50)
+        .map(g => g.id),
+      momentum_score: Math.min(100, context.stats.currentStreak * 10 + context.stats.journalCount * 5),
+    },
+    tokensUsed: result.tokensUsed,
+  });
+
+  return { analysis, result };
+}
+
+/**
+ * The last week (Sunday to Saturday) or month that has fully ended in the timezone
+ */
+export function getLastFinishedPeriod(
+  period: InsightPeriod,
+  timezone: string,
+  now: Date = new Date()
+): InsightDateRange {
+  const start = parseLocalDate(getTodayInTimezone(timezone, now));
+  let end: Date;
+
+  if (period === 'week') {
+    start.setDate(start.getDate() - start.getDay() - 7);
+    end = new Date(start);
+    end.setDate(end.getDate() + 6);
+  } else {
+    start.setDate(1);
+    start.setMonth(start.getMonth() - 1);
+    end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+  }
+
+  return { startDate: toLocalDateStr(start), endDate: toLocalDateStr(end) };
+}
+
+async function sendInsightDigest(profile: Profile, insight: WeeklyInsight): Promise<void> {
+  const digest = renderInsightDigest(insight, {
+    name: profile.fullName,
+    appUrl: getAppUrl(),
+  });
+  await sendMail({ to: profile.email, ...digest });
+}
+
+/**
+ * Generate, store and email the insights of every user's last finished week and month
+ */
+export async function runScheduledInsights(
+  supabase: SupabaseClientAny,
+  options: ScheduledInsightsOptions = {}
+): Promise<ScheduledInsightsReport> {
+  const now = options.now ?? new Date();
+  const maxGenerations = options.maxGenerations ?? DEFAULT_MAX_GENERATIONS;
+  const report: ScheduledInsightsReport = {
+    generated: 0,
+    emailed: 0,
+    skipped: 0,
+    failed: 0,
+    complete: true,
+  };
+
+  let afterId: string | null = null;
+  for (;;) {
+    const profiles = await getProfilesPage(supabase, afterId, PROFILE_PAGE_SIZE);
+
+    for (const profile of profiles) {
+      const timezone = resolveTimezone(profile.timezone);
+
+      for (const period of PERIODS) {
+        const range = getLastFinishedPeriod(period, timezone, now);
+        const label = period === 'week' ? 'weekly' : 'monthly';
+        let generating = false;
+
+        try {
+          let insight = await getWeeklyInsight(supabase, profile.id, period, range.startDate);
+
+          if (!insight) {
+            if (report.generated >= maxGenerations) {
+              report.complete = false;
+              return report;
+            }
+
+            const context = await getContextForWeeklyInsights(
+              supabase,
+              profile.id,
+              period,
+              timezone,
+              range
+            );
+            if (context.journals.length === 0) {
+              report.skipped++;
+              continue;
+            }
+
+            generating = true;
+            const { analysis, result } = await generateInsights(supabase, profile.id, period, context);
+            insight = await saveWeeklyInsight(supabase, profile.id, {
+              period,
+              range,
+              summary: result.summary,
+              keyAchievements: result.keyAchievements,
+              areasForImprovement: result.areasForImprovement,
+              goalProgressUpdates: result.goalProgressUpdates,
+              aiAnalysisId: analysis.id,
+            });
+            generating = false;
+            report.generated++;
+
+            await notifyUser(supabase, profile.id, {
+              type: 'insights_ready',
+              title: `Your ${label} insights are ready`,
+              body: result.summary,
+              url: '/insights',
+              data: { period, startDate: range.startDate },
+              dedupeKey: `insights_ready:${period}:${range.startDate}`,
+            });
+          }
+
+          if (profile.emailDigest && !insight.emailedAt) {
+            await sendInsightDigest(profile, insight);
+            await markWeeklyInsightEmailed(supabase, insight.id);
+            report.emailed++;
+          }
+        } catch (error) {
+          console.error(`Scheduled ${period} insights error for user ${profile.id}:`, error);
+          report.failed++;
+
+          // Every following user would hit the same limit
+          if (error instanceof ClaudeAPIError && error.isRateLimited) {
+            report.complete = false;
+            return report;
+          }
+
+          if (generating) {
+            await notifyUser(supabase, profile.id, {
+              type: 'analysis_failed',
+              title: `Your ${label} insights could not be generated`,
+              body: 'They will be tried again on the next scheduled run.',
+              url: '/insights',
+              data: { period, startDate: range.startDate },
+              dedupeKey: `analysis_failed:${period}:${range.startDate}`,
+            });
+          }
+        }
+      }
+    }
+
+    if (profiles.length < PROFILE_PAGE_SIZE) break;
+    afterId = profiles[profiles.length - 1].id;
+  }
+
+  return report;
+}
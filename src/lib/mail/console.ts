@@ -0,0 +1,29 @@
+/**
+ * Console mail transport for local development
+ * Prints the plain-text version of each message instead of sending it.
+ */
+
+import type { MailTransport } from './index';
+
+export interface ConsoleTransportConfig {
+  from: string;
+}
+
+export function createConsoleTransport(config: ConsoleTransportConfig): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(
+        [
+          '--- mail ---',
+          `From: ${config.from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          '',
+          message.text,
+          '--- end mail ---',
+        ].join('\n')
+      );
+    },
+  };
+}
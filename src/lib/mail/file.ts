@@ -0,0 +1,34 @@
+/**
+ * File mail transport for local development
+ * Writes <time>-<recipient>.html and .txt per message; the text file starts with the headers.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MailTransport } from './index';
+
+export interface FileTransportConfig {
+  from: string;
+  dir: string;
+}
+
+export function createFileTransport(config: FileTransportConfig): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(config.dir, { recursive: true });
+
+      const time = new Date().toISOString().replace(/[:.]/g, '-');
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const base = path.join(config.dir, `${time}-${recipient}`);
+      const headers = [
+        `From: ${config.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+      ].join('\n');
+
+      await writeFile(`${base}.html`, message.html, 'utf8');
+      await writeFile(`${base}.txt`, `${headers}\n\n${message.text}`, 'utf8');
+    },
+  };
+}
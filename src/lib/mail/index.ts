@@ -0,0 +1,73 @@
+/**
+ * Outgoing email
+ * Messages are rendered by their feature (e.g. the insight digest) and handed to a pluggable
+ * transport.
+ *
+ * Transport selection (env):
+ *   MAIL_TRANSPORT=console (default) - print messages to the server log, nothing is sent
+ *   MAIL_TRANSPORT=file - write each message as .html and .txt files to MAIL_OUTPUT_DIR
+ *     (default .mail) to open them in a browser or editor
+ *   MAIL_TRANSPORT=resend - send through the Resend HTTP API, uses MAIL_API_KEY
+ * MAIL_FROM sets the sender address.
+ */
+
+import { createConsoleTransport } from './console';
+import { createFileTransport } from './file';
+import { createResendTransport } from './resend';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'The Momentum Journal <digest@localhost>';
+
+// Singleton transport instance
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const kind = process.env.MAIL_TRANSPORT ?? 'console';
+    const from = process.env.MAIL_FROM || DEFAULT_FROM;
+    switch (kind) {
+      case 'console':
+        transport = createConsoleTransport({ from });
+        break;
+      case 'file':
+        transport = createFileTransport({ from, dir: process.env.MAIL_OUTPUT_DIR || '.mail' });
+        break;
+      case 'resend':
+        transport = createResendTransport({ from, apiKey: process.env.MAIL_API_KEY });
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected console, file or resend)`);
+    }
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+/** Absolute base URL of the app, for links in messages */
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/** Escape text for use in HTML message bodies */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,44 @@
+/**
+ * Resend mail transport
+ * Sends messages through POST https://api.resend.com/emails
+ */
+
+import type { MailTransport } from './index';
+
+export interface ResendTransportConfig {
+  from: string;
+  apiKey?: string;
+}
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export function createResendTransport(config: ResendTransportConfig): MailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      if (!config.apiKey) {
+        throw new Error('MAIL_API_KEY is not set');
+      }
+
+      const response = await fetch(RESEND_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          from: config.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Mail request failed (${response.status}): ${detail.slice(0, 200)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Notification email
+ * One short message per notification, with a link to where it points in the app
+ */
+
+import type { Notification } from '@/types';
+import { escapeHtml } from '@/lib/mail';
+
+export interface NotificationEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function renderNotificationEmail(
+  notification: Pick<Notification, 'title' | 'body' | 'url'>,
+  appUrl: string
+): NotificationEmail {
+  const link = `${appUrl}${notification.url ?? '/dashboard'}`;
+  const settingsLink = `${appUrl}/settings`;
+
+  const text = [
+    notification.title,
+    ...(notification.body ? ['', notification.body] : []),
+    '',
+    `Open: ${link}`,
+    '',
+    `Change which reminders you get by email: ${settingsLink}`,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:14px;line-height:1.5;color:#374151;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;padding:24px;">
+      <h1 style="font-size:18px;margin:0 0 8px;color:#111827;">${escapeHtml(notification.title)}</h1>${
+        notification.body ? `\n      <p style="margin:0;">${escapeHtml(notification.body)}</p>` : ''
+      }
+      <p style="margin:20px 0 0;">
+        <a href="${escapeHtml(link)}" style="display:inline-block;padding:8px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:8px;">Open The Momentum Journal</a>
+      </p>
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center;">
+      Change which reminders you get by email in your
+      <a href="${escapeHtml(settingsLink)}" style="color:#6b7280;">settings</a>.
+    </p>
+  </body>
+</html>
+`;
+
+  return { subject: notification.title, html, text };
+}
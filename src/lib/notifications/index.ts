@@ -0,0 +1,150 @@
+/**
+ * Notifications
+ * Every notification is stored in the notifications table (the in-app inbox) and then
+ * delivered on the recipient's other channels: email through the mail transport and Web Push
+ * to each browser that subscribed. Subscriptions the push service reports as gone are removed.
+ *
+ * Reminder rules that create notifications on a schedule live in ./reminders. Events (goal
+ * completions, generated insights, failed AI analyses) only land in the inbox, via notifyUser.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationInsert } from '@/types/database.types';
+import type { Notification, NotificationChannel, NotificationType } from '@/types';
+import {
+  createNotification,
+  deletePushSubscriptionById,
+  getPushSubscriptionTargets,
+  setNotificationChannels,
+} from '@/lib/db/notifications';
+import { getAppUrl, sendMail } from '@/lib/mail';
+import { renderNotificationEmail } from './email';
+import { isWebPushConfigured, sendWebPush } from './push';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  url?: string | null; // App path, e.g. /goals
+  data?: Record<string, unknown>;
+  dedupeKey?: string | null; // Only one notification per user and key is ever delivered
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+}
+
+/**
+ * Push a notification to every browser the user subscribed
+ * Returns whether at least one push service accepted it
+ */
+async function sendPushToUser(
+  supabase: SupabaseClientAny,
+  userId: string,
+  notification: Notification
+): Promise<boolean> {
+  const subscriptions = await getPushSubscriptionTargets(supabase, userId);
+  const payload = {
+    id: notification.id,
+    title: notification.title,
+    body: notification.body,
+    url: notification.url,
+  };
+
+  const results = await Promise.all(
+    subscriptions.map(async (subscription) => {
+      const result = await sendWebPush(subscription, payload);
+      if (result === 'gone') {
+        await deletePushSubscriptionById(supabase, subscription.id);
+      }
+      return result;
+    })
+  );
+
+  return results.includes('delivered');
+}
+
+function toNotificationInsert(
+  userId: string,
+  message: NotificationMessage,
+  channels: NotificationChannel[]
+): NotificationInsert {
+  return {
+    user_id: userId,
+    type: message.type,
+    title: message.title,
+    body: message.body ?? null,
+    url: message.url ?? null,
+    data: message.data ?? {},
+    dedupe_key: message.dedupeKey ?? null,
+    channels,
+  };
+}
+
+/**
+ * Add a notification to the user's in-app inbox
+ * Never throws: a notification problem must not fail the work that triggered it
+ */
+export async function notifyUser(
+  supabase: SupabaseClientAny,
+  userId: string,
+  message: NotificationMessage
+): Promise<void> {
+  try {
+    await createNotification(supabase, toNotificationInsert(userId, message, ['in_app']));
+  } catch (error) {
+    console.error(`Notification ${message.type} error:`, error);
+  }
+}
+
+/**
+ * Store a notification and deliver it on the given channels
+ * Returns null, delivering nothing, when its dedupe key was used before. A channel that
+ * fails is logged and left out of the stored channels; the others still go out.
+ */
+export async function deliverNotification(
+  supabase: SupabaseClientAny,
+  recipient: NotificationRecipient,
+  message: NotificationMessage,
+  channels: NotificationChannel[]
+): Promise<Notification | null> {
+  const notification = await createNotification(
+    supabase,
+    toNotificationInsert(recipient.id, message, channels.includes('in_app') ? ['in_app'] : [])
+  );
+  if (!notification) return null;
+
+  const delivered: NotificationChannel[] = [...notification.channels];
+
+  if (channels.includes('email')) {
+    try {
+      await sendMail({
+        to: recipient.email,
+        ...renderNotificationEmail(notification, getAppUrl()),
+      });
+      delivered.push('email');
+    } catch (error) {
+      console.error(`Notification ${notification.type} email error:`, error);
+    }
+  }
+
+  if (channels.includes('push') && isWebPushConfigured()) {
+    try {
+      if (await sendPushToUser(supabase, recipient.id, notification)) {
+        delivered.push('push');
+      }
+    } catch (error) {
+      console.error(`Notification ${notification.type} push error:`, error);
+    }
+  }
+
+  if (delivered.length !== notification.channels.length) {
+    await setNotificationChannels(supabase, notification.id, delivered);
+  }
+
+  return { ...notification, channels: delivered };
+}
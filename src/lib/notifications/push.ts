@@ -0,0 +1,166 @@
+/**
+ * Web Push sender
+ * Implements VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291)
+ * with node:crypto, so any standards-compliant push service (FCM, Mozilla, Apple) accepts it.
+ *
+ * Keys (env): VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY, base64url as printed by
+ * scripts/generate-vapid-keys.js; VAPID_SUBJECT is a mailto: or https: contact for the push
+ * service. The browser needs the same public key as NEXT_PUBLIC_VAPID_PUBLIC_KEY.
+ */
+
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from 'node:crypto';
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string; // base64url
+  auth: string; // base64url
+}
+
+export type PushResult = 'delivered' | 'gone' | 'failed';
+
+const RECORD_SIZE = 4096;
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export function isWebPushConfigured(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+function getVapidKeys(): VapidKeys {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set to send push notifications');
+  }
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || 'mailto:admin@localhost' };
+}
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Signed VAPID token for the push service's origin
+ */
+function createVapidJwt(audience: string, keys: VapidKeys): string {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const payload = base64url(
+    JSON.stringify({
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+      sub: keys.subject,
+    })
+  );
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record
+ */
+export function encryptPushPayload(target: PushTarget, payload: string): Buffer {
+  const clientPublicKey = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    clientPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const salt = randomBytes(16);
+  const contentKey = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  // 0x02 marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Send one push message. 'gone' means the subscription expired and should be removed.
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: Record<string, unknown>,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): Promise<PushResult> {
+  const keys = getVapidKeys();
+  const body = encryptPushPayload(target, JSON.stringify(payload));
+
+  try {
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `vapid t=${createVapidJwt(new URL(target.endpoint).origin, keys)}, k=${keys.publicKey}`,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(ttlSeconds),
+        Urgency: 'normal',
+      },
+      body: new Uint8Array(body),
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.ok) return 'delivered';
+    if (response.status === 404 || response.status === 410) return 'gone';
+
+    const detail = await response.text().catch(() => '');
+    console.error(`Web push failed (${response.status}): ${detail.slice(0, 200)}`);
+    return 'failed';
+  } catch (error) {
+    console.error('Web push error:', error);
+    return 'failed';
+  }
+}
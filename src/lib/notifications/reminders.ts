@@ -0,0 +1,207 @@
+/**
+ * Reminder rules
+ * runReminders is called by /api/cron/reminders. Once a user's local time has passed their
+ * reminder time (and is outside their quiet hours), the enabled rules are evaluated:
+ *   journal_reminder - no journal entry yet today (mentions the streak at stake)
+ *   goal_deadline - an active goal is due within 3 days and is less than 50% done
+ *   goal_stale - an active goal has not been updated for 14 days
+ * Each nudge carries a dedupe key (rule, subject and day or deadline), so running the job
+ * often never repeats a nudge; the job should run at least hourly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationPreferences, Profile, ReminderRule } from '@/types';
+import { getJournalStreakStatus, parseLocalDate, toLocalDateStr } from '@/lib/db/dashboard';
+import { getGoalsByDeadline, getStaleGoals } from '@/lib/db/goals';
+import { getNotificationPreferencesForUsers } from '@/lib/db/notifications';
+import { getProfilesPage } from '@/lib/db/profiles';
+import { getTimeOfDayInTimezone, getTodayInTimezone, resolveTimezone } from '@/lib/timezone';
+import { deliverNotification, type NotificationMessage } from './index';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+const DEADLINE_WINDOW_DAYS = 3;
+
+const DEADLINE_PROGRESS_THRESHOLD = 50;
+
+const STALE_AFTER_DAYS = 14;
+
+const PROFILE_PAGE_SIZE = 200;
+
+export interface ReminderReport {
+  usersChecked: number; // Users whose reminder time had come
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Whether a HH:MM time falls in [start, end), wrapping past midnight when start > end
+ */
+export function isWithinQuietHours(
+  time: string,
+  start: string | null,
+  end: string | null
+): boolean {
+  if (!start || !end || start === end) return false;
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * Whether the user's nudges should be evaluated at this local time
+ */
+export function isReminderDue(preferences: NotificationPreferences, time: string): boolean {
+  return (
+    preferences.channels.length > 0 &&
+    preferences.rules.length > 0 &&
+    time >= preferences.reminderTime &&
+    !isWithinQuietHours(time, preferences.quietHoursStart, preferences.quietHoursEnd)
+  );
+}
+
+function addDays(dateStr: string, days: number): string {
+  const date = parseLocalDate(dateStr);
+  date.setDate(date.getDate() + days);
+  return toLocalDateStr(date);
+}
+
+function describeDueIn(days: number): string {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+async function evaluateRule(
+  supabase: SupabaseClientAny,
+  userId: string,
+  rule: ReminderRule,
+  timezone: string,
+  now: Date
+): Promise<NotificationMessage[]> {
+  const today = getTodayInTimezone(timezone, now);
+
+  switch (rule) {
+    case 'journal_reminder': {
+      const { currentStreak, wroteToday } = await getJournalStreakStatus(supabase, userId, timezone);
+      if (wroteToday) return [];
+
+      return [
+        {
+          type: 'journal_reminder',
+          title: currentStreak > 0 ? `Keep your ${currentStreak}-day streak going` : 'Time to journal',
+          body:
+            currentStreak > 0
+              ? 'You have not written a journal entry today yet.'
+              : 'Take a few minutes to write about your day.',
+          url: '/journal',
+          data: { date: today, currentStreak },
+          dedupeKey: `journal_reminder:${today}`,
+        },
+      ];
+    }
+
+    case 'goal_deadline': {
+      const goals = await getGoalsByDeadline(
+        supabase,
+        userId,
+        today,
+        addDays(today, DEADLINE_WINDOW_DAYS)
+      );
+
+      return goals
+        .filter((g) => g.status === 'active' && g.progressPercentage < DEADLINE_PROGRESS_THRESHOLD)
+        .map((goal) => {
+          // target_date is a calendar date, parsed as UTC midnight
+          const targetDate = goal.targetDate!.toISOString().slice(0, 10);
+          const daysLeft = Math.round(
+            (parseLocalDate(targetDate).getTime() - parseLocalDate(today).getTime()) / 86400000
+          );
+          return {
+            type: 'goal_deadline' as const,
+            title: `"${goal.title}" is due ${describeDueIn(daysLeft)}`,
+            body: `It is ${goal.progressPercentage}% done.`,
+            url: '/goals',
+            data: { goalId: goal.id, targetDate, progressPercentage: goal.progressPercentage },
+            dedupeKey: `goal_deadline:${goal.id}:${targetDate}`,
+          };
+        });
+    }
+
+    case 'goal_stale': {
+      const updatedBefore = new Date(now.getTime() - STALE_AFTER_DAYS * 86400000).toISOString();
+      const goals = await getStaleGoals(supabase, userId, updatedBefore);
+
+      return goals.map((goal) => ({
+        type: 'goal_stale' as const,
+        title: `"${goal.title}" has not moved in ${STALE_AFTER_DAYS} days`,
+        body: `It is ${goal.progressPercentage}% done. Update its progress or pause it.`,
+        url: '/goals',
+        data: { goalId: goal.id, updatedAt: goal.updatedAt.toISOString() },
+        // A new nudge only after the goal is touched and goes stale again
+        dedupeKey: `goal_stale:${goal.id}:${goal.updatedAt.toISOString()}`,
+      }));
+    }
+  }
+}
+
+async function remindUser(
+  supabase: SupabaseClientAny,
+  profile: Profile,
+  preferences: NotificationPreferences,
+  now: Date,
+  report: ReminderReport
+): Promise<void> {
+  const timezone = resolveTimezone(profile.timezone);
+
+  for (const rule of preferences.rules) {
+    try {
+      const messages = await evaluateRule(supabase, profile.id, rule, timezone, now);
+
+      for (const message of messages) {
+        const notification = await deliverNotification(
+          supabase,
+          { id: profile.id, email: profile.email },
+          message,
+          preferences.channels
+        );
+        if (notification) report.sent++;
+      }
+    } catch (error) {
+      console.error(`Reminder ${rule} error for user ${profile.id}:`, error);
+      report.failed++;
+    }
+  }
+}
+
+/**
+ * Evaluate the reminder rules of every user whose reminder time has come
+ */
+export async function runReminders(
+  supabase: SupabaseClientAny,
+  now: Date = new Date()
+): Promise<ReminderReport> {
+  const report: ReminderReport = { usersChecked: 0, sent: 0, failed: 0 };
+
+  let afterId: string | null = null;
+  for (;;) {
+    const profiles = await getProfilesPage(supabase, afterId, PROFILE_PAGE_SIZE);
+    const preferences = await getNotificationPreferencesForUsers(
+      supabase,
+      profiles.map((p) => p.id)
+    );
+
+    for (const profile of profiles) {
+      const userPreferences = preferences.get(profile.id)!;
+      const time = getTimeOfDayInTimezone(resolveTimezone(profile.timezone), now);
+      if (!isReminderDue(userPreferences, time)) continue;
+
+      report.usersChecked++;
+      await remindUser(supabase, profile, userPreferences, now, report);
+    }
+
+    if (profiles.length < PROFILE_PAGE_SIZE) break;
+    afterId = profiles[profiles.length - 1].id;
+  }
+
+  return report;
+}
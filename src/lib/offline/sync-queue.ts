@@ -0,0 +1,112 @@
+/**
+ * Offline sync queue (browser only)
+ * public/sw.js queues journal and goal create/update requests made without a connection in
+ * IndexedDB and replays them with Background Sync. This module reads that queue so pages can
+ * show what is still waiting, and talks to the service worker. The database name, store and
+ * message types must match public/sw.js.
+ */
+
+const QUEUE_DB = 'momentum-offline';
+const QUEUE_STORE = 'requests';
+
+export interface QueuedRequest {
+  id: number;
+  method: 'POST' | 'PATCH';
+  url: string; // Path and query, e.g. /api/journals
+  body: string; // JSON request body as sent
+  createdAt: string; // ISO timestamp
+}
+
+export type SyncMessage =
+  | { type: 'sync-queue-changed' }
+  | { type: 'sync-complete'; synced: number; failed: number }
+  | { type: 'sync-failed'; method: string; url: string; message: string };
+
+// Answer of a write the service worker queued instead of sending (HTTP 202)
+export interface QueuedWriteResponse {
+  success: true;
+  data: null;
+  queued: true;
+  error: null;
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'indexedDB' in window;
+}
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Requests still waiting to be sent, oldest first
+ */
+export async function getQueuedRequests(): Promise<QueuedRequest[]> {
+  if (!isOfflineSupported()) return [];
+
+  const db = await openQueue();
+  try {
+    return await new Promise<QueuedRequest[]>((resolve, reject) => {
+      const request = db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as QueuedRequest[]);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Parse a queued request's JSON body
+ */
+export function getQueuedBody<T = Record<string, unknown>>(request: QueuedRequest): T {
+  try {
+    return JSON.parse(request.body) as T;
+  } catch {
+    return {} as T;
+  }
+}
+
+function postToServiceWorker(message: { type: 'replay' | 'clear' }): void {
+  if (!isOfflineSupported()) return;
+  navigator.serviceWorker.controller?.postMessage(message);
+}
+
+/**
+ * Ask the service worker to send queued requests now (browsers without Background Sync)
+ */
+export function requestReplay(): void {
+  postToServiceWorker({ type: 'replay' });
+}
+
+/**
+ * Drop cached pages, cached reads and unsent changes, e.g. on sign out
+ */
+export function clearOfflineData(): void {
+  postToServiceWorker({ type: 'clear' });
+}
+
+/**
+ * Listen for queue changes and replay results from the service worker
+ * Returns an unsubscribe function
+ */
+export function subscribeToSyncMessages(listener: (message: SyncMessage) => void): () => void {
+  if (!isOfflineSupported()) return () => {};
+
+  const handler = (event: MessageEvent) => {
+    const message = event.data as SyncMessage | undefined;
+    if (message && typeof message.type === 'string' && message.type.startsWith('sync-')) {
+      listener(message);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handler);
+  return () => navigator.serviceWorker.removeEventListener('message', handler);
+}
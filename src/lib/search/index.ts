@@ -0,0 +1,93 @@
+/**
+ * Full-text search helpers
+ * User input is never passed to Postgres as query syntax: it is tokenized here
+ * and rebuilt as a to_tsquery expression from quoted lexemes only.
+ */
+
+export interface TsQueryOptions {
+  prefixAll?: boolean; // Treat every term as a prefix (search-as-you-type)
+}
+
+// Highlight delimiters used by search_all's ts_headline calls (Unicode private use area)
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+// Whitespace, ASCII punctuation and general punctuation separate words
+const WORD_SEPARATOR = /[\s!-\/:-@[-`{-~\u2000-\u206f]+/;
+
+function words(text: string): string[] {
+  return text.split(WORD_SEPARATOR).filter(Boolean);
+}
+
+function lexeme(word: string, prefix: boolean): string {
+  return `'${word.toLowerCase()}'${prefix ? ':*' : ''}`;
+}
+
+/**
+ * Build a to_tsquery expression from a search box query
+ * Supports "exact phrases", prefix* terms, -excluded terms and OR; other terms
+ * must all match. Returns null when the input has no searchable words.
+ */
+export function toTsQuery(input: string, options: TsQueryOptions = {}): string | null {
+  const clauses: string[] = [];
+  let nextOperator = '&';
+
+  const tokenPattern = /(-?)"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(input)) !== null) {
+    const [, negation, phrase, bare] = match;
+    let clause: string | null = null;
+
+    if (phrase !== undefined) {
+      const phraseWords = words(phrase);
+      if (phraseWords.length > 0) {
+        clause = phraseWords.map((w) => lexeme(w, false)).join(' <-> ');
+        if (phraseWords.length > 1) clause = `(${clause})`;
+        if (negation) clause = `!${clause}`;
+      }
+    } else if (bare.toUpperCase() === 'OR') {
+      if (clauses.length > 0) nextOperator = '|';
+      continue;
+    } else {
+      const negated = bare.startsWith('-') && bare.length > 1;
+      const prefix = options.prefixAll || bare.endsWith('*');
+      const termWords = words(negated ? bare.slice(1) : bare);
+      if (termWords.length > 0) {
+        // Hyphenated or dotted terms (e-mail, v2.0) must appear together, like Postgres parses them
+        clause = termWords
+          .map((w, i) => lexeme(w, prefix && i === termWords.length - 1))
+          .join(' <-> ');
+        if (termWords.length > 1) clause = `(${clause})`;
+        if (negated) clause = `!${clause}`;
+      }
+    }
+
+    if (clause) {
+      if (clauses.length > 0) clauses.push(nextOperator);
+      clauses.push(clause);
+      nextOperator = '&';
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(' ') : null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Turn a delimited ts_headline result into HTML with only <mark> tags unescaped
+ */
+export function highlightToHtml(headline: string): string {
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START)
+    .join('<mark>')
+    .split(HIGHLIGHT_END)
+    .join('</mark>');
+}
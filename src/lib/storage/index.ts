@@ -0,0 +1,43 @@
+/**
+ * File storage for journal attachments
+ * Objects are written once under a key chosen by the caller and read back whole; access
+ * control happens before the backend is reached (see lib/attachments).
+ *
+ * Backend selection (env):
+ *   STORAGE_BACKEND=local (default outside production) - files under STORAGE_LOCAL_DIR
+ *     (default .storage), for development and tests
+ *   STORAGE_BACKEND=supabase (default in production) - the private STORAGE_BUCKET bucket
+ *     (default attachments) in Supabase Storage, uses SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createLocalStorage } from './local';
+import { createSupabaseStorage } from './supabase';
+
+export interface StorageBackend {
+  name: string;
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>; // null when there is no such object
+  delete(keys: string[]): Promise<void>; // Missing keys are ignored
+}
+
+// Singleton backend instance
+let backend: StorageBackend | null = null;
+
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    const kind =
+      process.env.STORAGE_BACKEND ??
+      (process.env.NODE_ENV === 'production' ? 'supabase' : 'local');
+    switch (kind) {
+      case 'local':
+        backend = createLocalStorage({ dir: process.env.STORAGE_LOCAL_DIR || '.storage' });
+        break;
+      case 'supabase':
+        backend = createSupabaseStorage({ bucket: process.env.STORAGE_BUCKET || 'attachments' });
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND "${kind}" (expected local or supabase)`);
+    }
+  }
+  return backend;
+}
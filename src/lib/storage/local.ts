@@ -0,0 +1,44 @@
+/**
+ * Local filesystem storage for development and tests
+ * Each key is a relative path under the storage directory.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { StorageBackend } from './index';
+
+export interface LocalStorageConfig {
+  dir: string;
+}
+
+export function createLocalStorage(config: LocalStorageConfig): StorageBackend {
+  const root = path.resolve(config.dir);
+
+  const resolveKey = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const file = resolveKey(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(keys) {
+      await Promise.all(keys.map((key) => rm(resolveKey(key), { force: true })));
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Supabase Storage backend
+ * Uses the service-role client, so the bucket stays private and needs no storage policies.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { StorageBackend } from './index';
+
+export interface SupabaseStorageConfig {
+  bucket: string;
+}
+
+export function createSupabaseStorage(config: SupabaseStorageConfig): StorageBackend {
+  const bucket = () => createAdminClient().storage.from(config.bucket);
+
+  return {
+    name: 'supabase',
+    async put(key, data, contentType) {
+      const { error } = await bucket().upload(key, data, { contentType, upsert: false });
+      if (error) {
+        throw new Error(`Failed to store ${key}: ${error.message}`);
+      }
+    },
+    async get(key) {
+      const { data, error } = await bucket().download(key);
+      if (error) {
+        // The storage API answers 400/404 with a "not found" error for missing objects
+        if (/not found/i.test(error.message)) return null;
+        throw new Error(`Failed to read ${key}: ${error.message}`);
+      }
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    async delete(keys) {
+      if (keys.length === 0) return;
+      const { error } = await bucket().remove(keys);
+      if (error) {
+        throw new Error(`Failed to delete stored files: ${error.message}`);
+      }
+    },
+  };
+}
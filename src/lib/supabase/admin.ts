@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for scheduled jobs that work across users
+ *
+ * IMPORTANT: Bypasses Row Level Security
+ * - Server-only; never import from client components
+ * - Only for routes that do not act on behalf of a signed-in user (see authenticateCronRequest)
+ * - Every query must filter by user_id itself
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getTimezoneOffset,
+  getTodayInTimezone,
+  resolveTimezone,
+  startOfDayInTimezone,
+  toDateStrInTimezone,
+} from './timezone';
+
+describe('toDateStrInTimezone', () => {
+  it('puts the same instant on different dates either side of the date line', () => {
+    const instant = new Date('2024-06-01T10:30:00Z');
+
+    expect(toDateStrInTimezone(instant, 'UTC')).toBe('2024-06-01');
+    expect(toDateStrInTimezone(instant, 'Pacific/Kiritimati')).toBe('2024-06-02'); // UTC+14
+    expect(toDateStrInTimezone(instant, 'Pacific/Pago_Pago')).toBe('2024-05-31'); // UTC-11
+  });
+
+  it('changes date at local midnight across a DST change', () => {
+    // New York springs forward on 2024-03-10 (EST, UTC-5 until then)
+    expect(toDateStrInTimezone(new Date('2024-03-10T04:59:59Z'), 'America/New_York')).toBe(
+      '2024-03-09'
+    );
+    expect(toDateStrInTimezone(new Date('2024-03-10T05:00:00Z'), 'America/New_York')).toBe(
+      '2024-03-10'
+    );
+    // ...and falls back on 2024-11-03 (EDT, UTC-4 until then)
+    expect(toDateStrInTimezone(new Date('2024-11-03T03:59:59Z'), 'America/New_York')).toBe(
+      '2024-11-02'
+    );
+    expect(toDateStrInTimezone(new Date('2024-11-03T04:00:00Z'), 'America/New_York')).toBe(
+      '2024-11-03'
+    );
+  });
+});
+
+describe('getTodayInTimezone', () => {
+  it('is today in the user timezone, not the server one', () => {
+    const now = new Date('2024-12-31T23:30:00Z');
+
+    expect(getTodayInTimezone('UTC', now)).toBe('2024-12-31');
+    expect(getTodayInTimezone('Pacific/Kiritimati', now)).toBe('2025-01-01');
+    expect(getTodayInTimezone('Pacific/Pago_Pago', now)).toBe('2024-12-31');
+    expect(getTodayInTimezone('Pacific/Pago_Pago', new Date('2025-01-01T10:59:00Z'))).toBe(
+      '2024-12-31'
+    );
+    expect(getTodayInTimezone('Pacific/Pago_Pago', new Date('2025-01-01T11:00:00Z'))).toBe(
+      '2025-01-01'
+    );
+  });
+});
+
+describe('getTimezoneOffset', () => {
+  it('follows DST', () => {
+    expect(getTimezoneOffset(new Date('2024-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimezoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+  });
+
+  it('handles offsets a day apart across the date line', () => {
+    const instant = new Date('2024-06-01T10:30:00Z');
+
+    expect(getTimezoneOffset(instant, 'Pacific/Kiritimati')).toBe(14 * 60);
+    expect(getTimezoneOffset(instant, 'Pacific/Pago_Pago')).toBe(-11 * 60);
+  });
+});
+
+describe('startOfDayInTimezone', () => {
+  it('starts days at local midnight on both sides of a DST change', () => {
+    expect(startOfDayInTimezone('2024-03-10', 'America/New_York').toISOString()).toBe(
+      '2024-03-10T05:00:00.000Z'
+    );
+    expect(startOfDayInTimezone('2024-03-11', 'America/New_York').toISOString()).toBe(
+      '2024-03-11T04:00:00.000Z'
+    );
+    expect(startOfDayInTimezone('2024-11-03', 'America/New_York').toISOString()).toBe(
+      '2024-11-03T04:00:00.000Z'
+    );
+    expect(startOfDayInTimezone('2024-11-04', 'America/New_York').toISOString()).toBe(
+      '2024-11-04T05:00:00.000Z'
+    );
+  });
+
+  it('gives DST change days 23 and 25 hours', () => {
+    const hours = (from: string, to: string) =>
+      (startOfDayInTimezone(to, 'America/New_York').getTime() -
+        startOfDayInTimezone(from, 'America/New_York').getTime()) /
+      3600000;
+
+    expect(hours('2024-03-10', '2024-03-11')).toBe(23);
+    expect(hours('2024-11-03', '2024-11-04')).toBe(25);
+  });
+
+  it('starts at the first valid local time where DST skips midnight', () => {
+    // Santiago moves from 00:00 (UTC-4) to 01:00 (UTC-3) on 2024-09-08
+    const start = startOfDayInTimezone('2024-09-08', 'America/Santiago');
+
+    expect(start.toISOString()).toBe('2024-09-08T04:00:00.000Z');
+    expect(toDateStrInTimezone(start, 'America/Santiago')).toBe('2024-09-08');
+    expect(toDateStrInTimezone(new Date(start.getTime() - 1), 'America/Santiago')).toBe(
+      '2024-09-07'
+    );
+  });
+
+  it('handles date-line timezones', () => {
+    expect(startOfDayInTimezone('2024-06-02', 'Pacific/Kiritimati').toISOString()).toBe(
+      '2024-06-01T10:00:00.000Z'
+    );
+    expect(startOfDayInTimezone('2024-05-31', 'Pacific/Pago_Pago').toISOString()).toBe(
+      '2024-05-31T11:00:00.000Z'
+    );
+  });
+
+  it('falls back to the next day for a date the timezone skipped', () => {
+    // Kiritimati jumped from UTC-10 to UTC+14, skipping 1994-12-31
+    expect(startOfDayInTimezone('1994-12-31', 'Pacific/Kiritimati').toISOString()).toBe(
+      startOfDayInTimezone('1995-01-01', 'Pacific/Kiritimati').toISOString()
+    );
+  });
+});
+
+describe('resolveTimezone', () => {
+  it('falls back to UTC for missing or unknown timezones', () => {
+    expect(resolveTimezone('Pacific/Kiritimati')).toBe('Pacific/Kiritimati');
+    expect(resolveTimezone(null)).toBe('UTC');
+    expect(resolveTimezone('Mars/Olympus_Mons')).toBe('UTC');
+  });
+});
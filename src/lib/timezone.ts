@@ -0,0 +1,117 @@
+/**
+ * Per-user timezone helpers
+ * "Today", streaks and date ranges are bucketed in the user's IANA timezone
+ * (profiles.timezone), never in the server process's timezone. Calendar arithmetic on
+ * YYYY-MM-DD strings is timezone-free and lives with the dashboard helpers.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Formatters are expensive to create; one per zone is enough
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timezone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A stored timezone, or the default when it is missing or unknown to this runtime */
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in the given timezone */
+export function toDateStrInTimezone(instant: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(instant, timezone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/** Today's date (YYYY-MM-DD) in the given timezone */
+export function getTodayInTimezone(timezone: string, now: Date = new Date()): string {
+  return toDateStrInTimezone(now, timezone);
+}
+
+/** Wall-clock time (HH:MM, 24-hour) of an instant in the given timezone */
+export function getTimeOfDayInTimezone(timezone: string, now: Date = new Date()): string {
+  const { hour, minute } = getZonedParts(now, timezone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+/** Offset of the timezone from UTC at an instant, in minutes (east of UTC is positive) */
+export function getTimezoneOffset(instant: Date, timezone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timezone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - wholeSeconds) / 60000);
+}
+
+/**
+ * First instant of a calendar day in the given timezone
+ * Where a DST change skips midnight, the day starts at the first valid local time.
+ */
+export function startOfDayInTimezone(dateStr: string, timezone: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+
+  // The offset at UTC midnight may differ from the one at local midnight; try both
+  const offsetBefore = getTimezoneOffset(new Date(utcMidnight), timezone);
+  const firstGuess = utcMidnight - offsetBefore * 60000;
+  const offsetAfter = getTimezoneOffset(new Date(firstGuess), timezone);
+  const secondGuess = utcMidnight - offsetAfter * 60000;
+
+  const candidates = [firstGuess, secondGuess]
+    .filter((t) => toDateStrInTimezone(new Date(t), timezone) === dateStr)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates.length > 0 ? candidates[0] : Math.max(firstGuess, secondGuess));
+}
@@ -0,0 +1,11 @@
+// Error class for failed transcription requests, raised by every provider
+export class TranscriptionError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public isRateLimited?: boolean
+  ) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Speech-to-text for voice journaling
+ * A pluggable provider turns a recording into text, which the editor puts into the entry's
+ * content; the recording itself is kept as an attachment of the saved entry.
+ *
+ * Provider selection (env):
+ *   TRANSCRIPTION_PROVIDER=openai (default) - any OpenAI-compatible /audio/transcriptions
+ *     endpoint (OpenAI, whisper.cpp server, faster-whisper...), configured with
+ *     TRANSCRIPTION_API_URL (default https://api.openai.com/v1), TRANSCRIPTION_API_KEY and
+ *     TRANSCRIPTION_MODEL (default whisper-1)
+ *   TRANSCRIPTION_PROVIDER=mock - a fixed transcript (TRANSCRIPTION_MOCK_TEXT), no network
+ */
+
+import type { Transcription } from '@/types';
+import { AttachmentFileError } from '@/lib/attachments';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  ATTACHMENT_MAX_BYTES,
+  detectContentType,
+} from '@/lib/attachments/formats';
+import { TranscriptionError } from './errors';
+import { createMockTranscriptionProvider } from './mock';
+import { createOpenAITranscriptionProvider } from './openai';
+
+export { TranscriptionError };
+
+export interface TranscriptionAudio {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface TranscriptionOptions {
+  language?: string; // ISO 639-1 hint, e.g. en
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: TranscriptionAudio, options: TranscriptionOptions): Promise<Transcription>;
+}
+
+// Singleton provider instance
+let provider: TranscriptionProvider | null = null;
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!provider) {
+    const kind = process.env.TRANSCRIPTION_PROVIDER ?? 'openai';
+    switch (kind) {
+      case 'openai':
+        provider = createOpenAITranscriptionProvider({
+          baseUrl: process.env.TRANSCRIPTION_API_URL ?? 'https://api.openai.com/v1',
+          apiKey: process.env.TRANSCRIPTION_API_KEY,
+          model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+        });
+        break;
+      case 'mock':
+        provider = createMockTranscriptionProvider({ text: process.env.TRANSCRIPTION_MOCK_TEXT });
+        break;
+      default:
+        throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${kind}" (expected openai or mock)`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Transcribe a voice recording
+ * Accepts the same audio formats and size as audio attachments (AttachmentFileError otherwise)
+ */
+export async function transcribeAudio(
+  upload: { fileName: string; data: Buffer },
+  options: TranscriptionOptions = {}
+): Promise<Transcription> {
+  const contentType = detectContentType(upload.data, upload.fileName);
+  if (!contentType || ATTACHMENT_CONTENT_TYPES[contentType] !== 'audio') {
+    throw new AttachmentFileError(
+      'Expected an audio recording (MP3, M4A, WAV, Ogg or WebM)',
+      415
+    );
+  }
+  if (upload.data.length > ATTACHMENT_MAX_BYTES.audio) {
+    throw new AttachmentFileError(
+      `Recordings can be at most ${ATTACHMENT_MAX_BYTES.audio / 1024 / 1024} MB`,
+      413
+    );
+  }
+
+  const transcription = await getTranscriptionProvider().transcribe(
+    { fileName: upload.fileName, contentType, data: upload.data },
+    options
+  );
+
+  return { ...transcription, text: transcription.text.trim() };
+}
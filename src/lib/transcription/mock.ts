@@ -0,0 +1,24 @@
+/**
+ * Mock transcription provider for tests and local development
+ * Every recording gets the same transcript, and nothing leaves the machine.
+ */
+
+import type { TranscriptionProvider } from './index';
+
+export interface MockTranscriptionConfig {
+  text?: string; // Replaces the built-in transcript
+}
+
+const DEFAULT_TRANSCRIPT =
+  'Walked to the station this morning and planned the day. I want to finish the report before lunch and go for a run in the evening.';
+
+export function createMockTranscriptionProvider(
+  config: MockTranscriptionConfig
+): TranscriptionProvider {
+  return {
+    name: 'mock',
+    async transcribe(_audio, options) {
+      return { text: config.text || DEFAULT_TRANSCRIPT, language: options.language ?? null };
+    },
+  };
+}
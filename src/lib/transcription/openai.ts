@@ -0,0 +1,62 @@
+/**
+ * OpenAI-compatible transcription provider
+ * Works with any server implementing POST /audio/transcriptions (OpenAI, whisper.cpp server,
+ * faster-whisper-server...)
+ */
+
+import { TranscriptionError } from './errors';
+import type { TranscriptionProvider } from './index';
+
+export interface OpenAITranscriptionConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface TranscriptionResponse {
+  text?: string;
+  language?: string; // Only in verbose_json responses, which not every server offers
+}
+
+export function createOpenAITranscriptionProvider(
+  config: OpenAITranscriptionConfig
+): TranscriptionProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+
+  return {
+    name: 'openai',
+    async transcribe(audio, options) {
+      const form = new FormData();
+      form.append(
+        'file',
+        new Blob([new Uint8Array(audio.data)], { type: audio.contentType }),
+        audio.fileName
+      );
+      form.append('model', config.model);
+      form.append('response_format', 'json');
+      if (options.language) form.append('language', options.language);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        body: form,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new TranscriptionError(
+          `Transcription request failed (${response.status}): ${detail.slice(0, 200)}`,
+          response.status,
+          response.status === 429
+        );
+      }
+
+      const body = (await response.json()) as TranscriptionResponse;
+      if (typeof body.text !== 'string') {
+        throw new TranscriptionError(`No transcript in the response from ${config.model}`);
+      }
+
+      return { text: body.text, language: body.language ?? options.language ?? null };
+    },
+  };
+}
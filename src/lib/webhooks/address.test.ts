@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWebhookEndpointSchema } from '@/lib/api/schemas';
+import { isAllowedWebhookUrl, isReservedAddress, isReservedHostname } from './address';
+
+describe('isReservedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '255.255.255.255',
+    '::',
+    '::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    '64:ff9b::10.0.0.1',
+    '2002:c0a8:0101::1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1%eth0',
+    'ff02::1',
+    '2001:db8::1',
+  ])('rejects %s', (address) => {
+    expect(isReservedAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '192.169.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    'accepts %s',
+    (address) => {
+      expect(isReservedAddress(address)).toBe(false);
+    }
+  );
+
+  it('is false for names', () => {
+    expect(isReservedAddress('example.com')).toBe(false);
+  });
+});
+
+describe('isReservedHostname', () => {
+  it.each([
+    'localhost',
+    'api.localhost',
+    'printer.local',
+    'metadata.google.internal',
+    'intranet',
+    '[::1]',
+    '127.0.0.1',
+    'LOCALHOST.',
+  ])('rejects %s', (hostname) => {
+    expect(isReservedHostname(hostname)).toBe(true);
+  });
+
+  it.each(['example.com', 'hooks.example.com.', '93.184.216.34', '[2606:4700::1111]'])(
+    'accepts %s',
+    (hostname) => {
+      expect(isReservedHostname(hostname)).toBe(false);
+    }
+  );
+});
+
+describe('webhook URLs in production', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects private hosts, including numeric forms URL parsing normalizes', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(isAllowedWebhookUrl('https://hooks.example.com/momentum')).toBe(true);
+    expect(isAllowedWebhookUrl('https://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isAllowedWebhookUrl('https://2130706433/')).toBe(false); // 127.0.0.1
+    expect(isAllowedWebhookUrl('https://0x7f.1/')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[::ffff:10.0.0.1]/')).toBe(false);
+    expect(isAllowedWebhookUrl('not a url')).toBe(false);
+  });
+
+  it('is enforced by the endpoint schema', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const endpoint = (url: string) =>
+      createWebhookEndpointSchema.safeParse({ url, events: ['goal.completed'] }).success;
+
+    expect(endpoint('https://hooks.example.com/momentum')).toBe(true);
+    expect(endpoint('https://localhost:4000/')).toBe(false);
+    expect(endpoint('https://10.0.0.5/hook')).toBe(false);
+  });
+
+  it('allows local receivers outside production', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+
+    expect(isAllowedWebhookUrl('http://localhost:4000/')).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Webhook destination checks
+ * Webhooks are POSTed from the server, so a URL pointing at loopback, private networks, link-local
+ * addresses (cloud metadata at 169.254.169.254) or other reserved ranges would let a user reach
+ * internal services. Hostnames are checked when an endpoint is saved and every resolved address
+ * again when a delivery connects (see ./index). Outside production both checks are off, so the
+ * local receiver (scripts/webhook-receiver.js) can be used.
+ */
+
+// Reserved IPv4 ranges as [network, prefix length] (RFC 6890 and friends)
+const RESERVED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], // "This network"
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+];
+
+// Reserved IPv6 ranges as [first hextet value, prefix length within it]
+const RESERVED_IPV6_PREFIXES: [number, number][] = [
+  [0xfc00, 7], // Unique local
+  [0xfe80, 10], // Link-local
+  [0xfec0, 10], // Site-local (deprecated)
+  [0xff00, 8], // Multicast
+];
+
+// Names that never resolve to a public address
+const RESERVED_NAME_SUFFIXES = ['localhost', 'local', 'internal', 'home.arpa'];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it is not one */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const zone = text.indexOf('%');
+  if (zone !== -1) text = text.slice(0, zone);
+
+  // A trailing dotted IPv4 address stands for the last two groups
+  const lastColon = text.lastIndexOf(':');
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4(tail);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string) => (half === '' ? [] : half.split(':'));
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...rest];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isReservedIPv4(value: number): boolean {
+  return RESERVED_IPV4.some(([network, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(parseIPv4(network)! / size);
+  });
+}
+
+function isReservedIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = groups[6] * 65536 + groups[7];
+  const leadingZeros = (count: number) => groups.slice(0, count).every((group) => group === 0);
+
+  // Unspecified (::) and loopback (::1)
+  if (leadingZeros(7) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible (::/96) addresses reach the IPv4 address
+  if (leadingZeros(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isReservedIPv4(embeddedIPv4);
+  }
+  // NAT64 (64:ff9b::/96) also reaches the embedded IPv4 address
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isReservedIPv4(embeddedIPv4);
+  }
+  // 6to4 (2002::/16) carries an IPv4 address in its second and third groups
+  if (groups[0] === 0x2002) {
+    return isReservedIPv4(groups[1] * 65536 + groups[2]);
+  }
+  // Documentation (2001:db8::/32) and discard-only (100::/64)
+  if (groups[0] === 0x2001 && groups[1] === 0xdb8) return true;
+  if (groups[0] === 0x100 && groups.slice(1, 4).every((group) => group === 0)) return true;
+
+  return RESERVED_IPV6_PREFIXES.some(([prefix, length]) => {
+    const shift = 16 - length;
+    return groups[0] >> shift === prefix >> shift;
+  });
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise not publicly routable */
+export function isReservedAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return isReservedIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  return ipv6 !== null && isReservedIPv6(ipv6);
+}
+
+/**
+ * Whether a URL hostname is a reserved IP address or a name that only resolves locally
+ * Public-looking names still need their resolved addresses checked when connecting
+ */
+export function isReservedHostname(hostname: string): boolean {
+  const name = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  // Single-label names (intranet, metadata) resolve through local search domains
+  if (!name.includes('.') && !name.includes(':')) return true;
+  if (RESERVED_NAME_SUFFIXES.some((suffix) => name === suffix || name.endsWith(`.${suffix}`))) {
+    return true;
+  }
+  return isReservedAddress(name);
+}
+
+/** Whether webhooks may be sent to reserved addresses (only outside production) */
+export function allowsReservedWebhookAddresses(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+/** Whether a webhook URL's host may receive deliveries (any host outside production) */
+export function isAllowedWebhookUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return allowsReservedWebhookAddresses() || !isReservedHostname(parsed.hostname);
+}
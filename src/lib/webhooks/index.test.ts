@@ -0,0 +1,245 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  getDueWebhookDeliveries,
+  getSubscribedWebhookTargets,
+  recordWebhookDeliveryAttempt,
+  type WebhookTarget,
+} from '@/lib/db/webhooks';
+import type { WebhookDelivery } from '@/types';
+import { deliverDueWebhookDeliveries, emitWebhookEvent, WEBHOOK_MAX_ATTEMPTS } from './index';
+import { verifyWebhookSignature } from './signature';
+
+vi.mock('@/lib/db/webhooks', () => ({
+  claimWebhookDelivery: vi.fn(),
+  createWebhookDeliveries: vi.fn(),
+  getDueWebhookDeliveries: vi.fn(),
+  getSubscribedWebhookTargets: vi.fn(),
+  recordWebhookDeliveryAttempt: vi.fn(),
+}));
+
+const supabase = {} as SupabaseClient;
+const userId = '9b2f7c1e-4d3a-4f6b-8c5e-1a2b3c4d5e6f';
+const now = new Date('2026-03-09T12:00:00Z');
+
+// Local receiver; reserved addresses are allowed outside production
+let server: Server;
+let target: WebhookTarget;
+let responseStatus = 200;
+let received: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responseStatus;
+      res.end(responseStatus === 200 ? 'ok' : 'Service unavailable');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  target = { id: 'endpoint-1', url: `http://127.0.0.1:${port}/hooks`, secret: 'whsec_test' };
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now, toFake: ['Date'] });
+  responseStatus = 200;
+  received = [];
+  vi.mocked(claimWebhookDelivery).mockReset().mockResolvedValue(true);
+  vi.mocked(recordWebhookDeliveryAttempt).mockReset().mockResolvedValue();
+  vi.mocked(getDueWebhookDeliveries).mockReset();
+  vi.mocked(getSubscribedWebhookTargets).mockReset();
+  vi.mocked(createWebhookDeliveries).mockReset().mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function delivery(id: string, attemptCount = 0): WebhookDelivery {
+  return {
+    id,
+    endpointId: target.id,
+    eventId: `event-${id}`,
+    eventType: 'goal.completed',
+    payload: {
+      id: `event-${id}`,
+      type: 'goal.completed',
+      createdAt: now.toISOString(),
+      data: { goalId: 'goal-1' },
+    },
+    status: 'pending',
+    attemptCount,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    createdAt: now,
+  };
+}
+
+function due(...deliveries: WebhookDelivery[]) {
+  vi.mocked(getDueWebhookDeliveries).mockResolvedValue(
+    deliveries.map((d) => ({ delivery: d, target }))
+  );
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+describe('deliverDueWebhookDeliveries', () => {
+  it('posts the signed payload and records a success', async () => {
+    due(delivery('delivery-1'));
+
+    const report = await deliverDueWebhookDeliveries(supabase);
+
+    expect(report).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(JSON.parse(body)).toEqual(delivery('delivery-1').payload);
+    expect(headers).toMatchObject({
+      'content-type': 'application/json',
+      'user-agent': 'MomentumJournal-Webhooks/1.0',
+      'x-momentum-event': 'goal.completed',
+      'x-momentum-delivery': 'delivery-1',
+    });
+    expect(headers['x-momentum-signature']).toMatch(/^t=1773057600,v1=[0-9a-f]{64}$/);
+    expect(
+      verifyWebhookSignature(target.secret, body, headers['x-momentum-signature'] as string)
+    ).toBe(true);
+
+    expect(recordWebhookDeliveryAttempt).toHaveBeenCalledWith(supabase, 'delivery-1', {
+      status: 'succeeded',
+      attempt_count: 1,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: null,
+      response_status: 200,
+      error: null,
+    });
+  });
+
+  it('backs off 1, 5, 30, 120 and 720 minutes, then gives up', async () => {
+    responseStatus = 503;
+    const deliveries = Array.from({ length: WEBHOOK_MAX_ATTEMPTS }, (_, attempts) =>
+      delivery(`delivery-${attempts}`, attempts)
+    );
+    due(...deliveries);
+
+    const report = await deliverDueWebhookDeliveries(supabase);
+
+    expect(WEBHOOK_MAX_ATTEMPTS).toBe(6);
+    expect(report).toEqual({ attempted: 6, succeeded: 0, failed: 1 });
+
+    const updates = new Map(
+      vi.mocked(recordWebhookDeliveryAttempt).mock.calls.map(([, id, update]) => [id, update])
+    );
+    const scheduled = deliveries.map((d) => {
+      const update = updates.get(d.id);
+      return [update?.status, update?.attempt_count, update?.next_attempt_at];
+    });
+    expect(scheduled).toEqual([
+      ['pending', 1, minutesFromNow(1)],
+      ['pending', 2, minutesFromNow(5)],
+      ['pending', 3, minutesFromNow(30)],
+      ['pending', 4, minutesFromNow(120)],
+      ['pending', 5, minutesFromNow(720)],
+      ['failed', 6, null],
+    ]);
+    expect(updates.get('delivery-0')).toMatchObject({
+      last_attempt_at: now.toISOString(),
+      response_status: 503,
+      error: 'HTTP 503: Service unavailable',
+    });
+  });
+
+  it('records connection errors without a response status', async () => {
+    const closed = { ...target, url: 'http://127.0.0.1:1/hooks' };
+    vi.mocked(getDueWebhookDeliveries).mockResolvedValue([
+      { delivery: delivery('delivery-1'), target: closed },
+    ]);
+
+    await deliverDueWebhookDeliveries(supabase);
+
+    expect(vi.mocked(recordWebhookDeliveryAttempt).mock.calls[0][2]).toMatchObject({
+      status: 'pending',
+      next_attempt_at: minutesFromNow(1),
+      response_status: null,
+      error: expect.stringContaining('ECONNREFUSED'),
+    });
+  });
+
+  it('claims each delivery and skips the ones another run took', async () => {
+    due(delivery('delivery-1'), delivery('delivery-2', 3), delivery('delivery-3'));
+    vi.mocked(claimWebhookDelivery).mockImplementation(async (_, d) => d.id !== 'delivery-2');
+
+    const report = await deliverDueWebhookDeliveries(supabase, 25);
+
+    expect(getDueWebhookDeliveries).toHaveBeenCalledWith(supabase, 25);
+    expect(report).toEqual({ attempted: 2, succeeded: 2, failed: 0 });
+    expect(received.map(({ headers }) => headers['x-momentum-delivery']).sort()).toEqual([
+      'delivery-1',
+      'delivery-3',
+    ]);
+    expect(vi.mocked(recordWebhookDeliveryAttempt).mock.calls.map(([, id]) => id).sort()).toEqual(
+      ['delivery-1', 'delivery-3']
+    );
+
+    // The lease outlasts the delivery timeout
+    const [, claimed, leaseUntil] = vi.mocked(claimWebhookDelivery).mock.calls[1];
+    expect(claimed).toEqual(delivery('delivery-2', 3));
+    expect(leaseUntil).toEqual(new Date(minutesFromNow(2)));
+  });
+});
+
+describe('emitWebhookEvent', () => {
+  it('queues one delivery per subscribed endpoint without sending it', async () => {
+    vi.mocked(getSubscribedWebhookTargets).mockResolvedValue([
+      target,
+      { ...target, id: 'endpoint-2' },
+    ]);
+
+    await emitWebhookEvent(supabase, userId, 'goal.completed', { completedAt: now });
+
+    expect(getSubscribedWebhookTargets).toHaveBeenCalledWith(supabase, userId, 'goal.completed');
+    expect(createWebhookDeliveries).toHaveBeenCalledWith(
+      supabase,
+      userId,
+      {
+        id: expect.any(String),
+        type: 'goal.completed',
+        createdAt: now.toISOString(),
+        data: { completedAt: now.toISOString() },
+      },
+      ['endpoint-1', 'endpoint-2']
+    );
+    expect(received).toEqual([]);
+  });
+
+  it('queues nothing without subscribers and never throws', async () => {
+    vi.mocked(getSubscribedWebhookTargets).mockResolvedValueOnce([]);
+    await emitWebhookEvent(supabase, userId, 'journal.created', {});
+    expect(createWebhookDeliveries).not.toHaveBeenCalled();
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getSubscribedWebhookTargets).mockRejectedValueOnce(new Error('db down'));
+    await expect(emitWebhookEvent(supabase, userId, 'journal.created', {})).resolves.toBe(
+      undefined
+    );
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
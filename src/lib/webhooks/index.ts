@@ -0,0 +1,252 @@
+/**
+ * Outgoing webhooks
+ * The db layer emits lifecycle events (goal.completed, goal.progress_changed, journal.created,
+ * analysis.created) with emitWebhookEvent. Each event is queued as one delivery per subscribed
+ * endpoint; the write that emitted it never waits on an endpoint. /api/cron/webhooks sends due
+ * deliveries and retries failed ones with backoff, up to WEBHOOK_MAX_ATTEMPTS attempts in total.
+ *
+ * Every POST carries the event as JSON with an HMAC signature (see ./signature), plus
+ * X-Momentum-Event and X-Momentum-Delivery headers. Any 2xx response counts as delivered;
+ * redirects are not followed. In production, hosts that are or resolve to private or reserved
+ * addresses are refused (see ./address).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { lookup as dnsLookup } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDelivery, WebhookEvent, WebhookEventType } from '@/types';
+import {
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  getDueWebhookDeliveries,
+  getSubscribedWebhookTargets,
+  recordWebhookDeliveryAttempt,
+  type WebhookTarget,
+} from '@/lib/db/webhooks';
+import { allowsReservedWebhookAddresses, isReservedAddress, isReservedHostname } from './address';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from './signature';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseClientAny = SupabaseClient<any, any, any>;
+
+// Wait before each retry; the first attempt is made by the next cron run after the event
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+export const WEBHOOK_MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+// Deliveries sent at the same time by one cron run
+const DELIVERY_CONCURRENCY = 10;
+
+// How long a claimed delivery is held before another run may take it (well over the timeout)
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 500;
+
+export interface WebhookDeliveryReport {
+  attempted: number;
+  succeeded: number;
+  failed: number; // Gave up after the last attempt
+}
+
+interface AttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * DNS lookup for delivery connections that refuses reserved addresses
+ * The connection uses the addresses checked here, so a name cannot be re-pointed at an
+ * internal address between the check and the request
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const reserved = addresses.find(({ address }) => isReservedAddress(address));
+    if (reserved || addresses.length === 0) {
+      const message = reserved
+        ? `${hostname} resolves to a private or reserved address (${reserved.address})`
+        : `${hostname} has no addresses`;
+      callback(Object.assign(new Error(message), { code: 'ENOTFOUND' }), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a body and read the status and start of the response (redirects are not followed)
+ */
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; text: string }> {
+  const checked = !allowsReservedWebhookAddresses();
+  if (checked && isReservedHostname(url.hostname)) {
+    return Promise.reject(new Error(`${url.hostname} is a private or reserved address`));
+  }
+
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: checked ? lookupPublicAddress : undefined,
+        agent: false, // A fresh connection per delivery, so every one goes through the lookup
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          if (text.length < MAX_ERROR_LENGTH) text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, text }));
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function send(
+  target: WebhookTarget,
+  delivery: WebhookDelivery
+): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const response = await post(
+      new URL(target.url),
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MomentumJournal-Webhooks/1.0',
+        'X-Momentum-Event': delivery.eventType,
+        'X-Momentum-Delivery': delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(target.secret, body),
+      },
+      body
+    );
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, responseStatus: response.status, error: null };
+    }
+
+    const text = response.text.slice(0, MAX_ERROR_LENGTH);
+    return {
+      ok: false,
+      responseStatus: response.status,
+      error: `HTTP ${response.status}${text ? `: ${text}` : ''}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, responseStatus: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+/**
+ * Attempt one delivery and record the outcome, scheduling the next retry on failure
+ */
+async function attemptDelivery(
+  supabase: SupabaseClientAny,
+  delivery: WebhookDelivery,
+  target: WebhookTarget
+): Promise<WebhookDelivery['status']> {
+  const result = await send(target, delivery);
+  const attemptCount = delivery.attemptCount + 1;
+  const retryDelay = RETRY_DELAYS_MINUTES[attemptCount - 1];
+
+  const status = result.ok ? 'succeeded' : retryDelay !== undefined ? 'pending' : 'failed';
+  await recordWebhookDeliveryAttempt(supabase, delivery.id, {
+    status,
+    attempt_count: attemptCount,
+    last_attempt_at: new Date().toISOString(),
+    next_attempt_at:
+      status === 'pending' ? new Date(Date.now() + retryDelay * 60 * 1000).toISOString() : null,
+    response_status: result.responseStatus,
+    error: result.error,
+  });
+
+  return status;
+}
+
+/**
+ * Queue an event for the user's subscribed endpoints
+ * Never throws: a webhook problem must not fail the write that triggered it
+ */
+export async function emitWebhookEvent(
+  supabase: SupabaseClientAny,
+  userId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const targets = await getSubscribedWebhookTargets(supabase, userId, type);
+    if (targets.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    // JSON round-trip so Dates in data are stored exactly as they are sent
+    const payload = JSON.parse(JSON.stringify(event)) as WebhookEvent;
+
+    await createWebhookDeliveries(
+      supabase,
+      userId,
+      payload,
+      targets.map((target) => target.id)
+    );
+  } catch (error) {
+    console.error(`Webhook ${type} emit error:`, error);
+  }
+}
+
+/**
+ * Send pending deliveries that are due, new and retried, across all users (service-role client)
+ * Deliveries another run has claimed in the meantime are skipped and not counted
+ */
+export async function deliverDueWebhookDeliveries(
+  supabase: SupabaseClientAny,
+  limit: number = 100
+): Promise<WebhookDeliveryReport> {
+  const due = await getDueWebhookDeliveries(supabase, limit);
+  const report: WebhookDeliveryReport = { attempted: 0, succeeded: 0, failed: 0 };
+
+  for (let i = 0; i < due.length; i += DELIVERY_CONCURRENCY) {
+    await Promise.all(
+      due.slice(i, i + DELIVERY_CONCURRENCY).map(async ({ delivery, target }) => {
+        const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MS);
+        if (!(await claimWebhookDelivery(supabase, delivery, leaseUntil))) return;
+
+        report.attempted++;
+        const status = await attemptDelivery(supabase, delivery, target);
+        if (status === 'succeeded') report.succeeded++;
+        if (status === 'failed') report.failed++;
+      })
+    );
+  }
+
+  return report;
+}
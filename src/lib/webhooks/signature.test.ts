@@ -0,0 +1,87 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './signature';
+
+const secret = 'whsec_test-secret';
+const body = JSON.stringify({ id: 'evt_1', type: 'goal.completed', data: { title: 'Café ✓' } });
+
+describe('signWebhookPayload', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('formats the header as t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">', () => {
+    const expected = createHmac('sha256', secret).update(`1773000000.${body}`).digest('hex');
+
+    expect(WEBHOOK_SIGNATURE_HEADER).toBe('X-Momentum-Signature');
+    expect(signWebhookPayload(secret, body, 1773000000)).toBe(`t=1773000000,v1=${expected}`);
+    expect(expected).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('defaults the timestamp to now', () => {
+    vi.useFakeTimers({ now: new Date('2026-03-09T12:00:00.500Z') });
+
+    expect(signWebhookPayload(secret, body)).toMatch(/^t=1773057600,v1=[0-9a-f]{64}$/);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the signature of the same body and secret', () => {
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body))).toBe(true);
+  });
+
+  it('rejects another body or secret', () => {
+    const header = signWebhookPayload(secret, body);
+
+    expect(verifyWebhookSignature(secret, `${body} `, header)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header)).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance', () => {
+    vi.useFakeTimers({ now: new Date('2026-03-09T12:00:00Z') });
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, now - 299))).toBe(
+      true
+    );
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, now - 301))).toBe(
+      false
+    );
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, now + 301))).toBe(
+      false
+    );
+    expect(
+      verifyWebhookSignature(secret, body, signWebhookPayload(secret, body, now - 3600), 7200)
+    ).toBe(true);
+  });
+
+  it('rejects malformed headers', () => {
+    const v1 = signWebhookPayload(secret, body).split('v1=')[1];
+
+    expect(verifyWebhookSignature(secret, body, '')).toBe(false);
+    expect(verifyWebhookSignature(secret, body, `v1=${v1}`)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, `t=abc,v1=${v1}`)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, `t=${Math.floor(Date.now() / 1000)}`)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, `t=${Math.floor(Date.now() / 1000)},v1=zz`)).toBe(
+      false
+    );
+  });
+});
+
+describe('generateWebhookSecret', () => {
+  it('returns distinct prefixed secrets', () => {
+    const first = generateWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+    expect(generateWebhookSecret()).not.toBe(first);
+  });
+});
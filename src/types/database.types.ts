@@ -7,12 +7,25 @@
 // Enums
 // ============================================
 
-export type GoalType = 'long-term' | 'short-term';
+export type GoalType = 'long-term' | 'short-term' | 'habit';
 
 export type GoalStatus = 'active' | 'completed' | 'paused' | 'abandoned';
 
+export type GoalProgressMode = 'manual' | 'derived';
+
+export type RollupWeighting = 'equal' | 'custom';
+
+export type HabitRecurrence =
+  | { frequency: 'daily' }
+  | { frequency: 'weekly'; timesPerWeek: number }
+  | { frequency: 'weekdays'; weekdays: number[] }; // 0 = Sunday
+
 export type AnalysisType = 'on-demand' | 'weekly' | 'monthly';
 
+export type InsightPeriod = 'week' | 'month';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
 export type Mood =
   | 'great'
   | 'good'
@@ -42,11 +55,31 @@ export interface Database {
         Insert: JournalEntryInsert;
         Update: JournalEntryUpdate;
       };
+      journal_drafts: {
+        Row: JournalDraftRow;
+        Insert: JournalDraftInsert;
+        Update: JournalDraftUpdate;
+      };
+      journal_entry_revisions: {
+        Row: JournalEntryRevisionRow;
+        Insert: JournalEntryRevisionInsert;
+        Update: never;
+      };
+      journal_attachments: {
+        Row: JournalAttachmentRow;
+        Insert: JournalAttachmentInsert;
+        Update: never;
+      };
       journal_goal_mentions: {
         Row: JournalGoalMentionRow;
         Insert: JournalGoalMentionInsert;
         Update: JournalGoalMentionUpdate;
       };
+      sync_tombstones: {
+        Row: SyncTombstoneRow;
+        Insert: never; // Written by triggers
+        Update: never;
+      };
       ai_analyses: {
         Row: AIAnalysisRow;
         Insert: AIAnalysisInsert;
@@ -57,6 +90,56 @@ export interface Database {
         Insert: WeeklyInsightInsert;
         Update: WeeklyInsightUpdate;
       };
+      goal_progress_events: {
+        Row: GoalProgressEventRow;
+        Insert: GoalProgressEventInsert;
+        Update: never;
+      };
+      goal_milestones: {
+        Row: GoalMilestoneRow;
+        Insert: GoalMilestoneInsert;
+        Update: GoalMilestoneUpdate;
+      };
+      goal_checkins: {
+        Row: GoalCheckinRow;
+        Insert: GoalCheckinInsert;
+        Update: GoalCheckinUpdate;
+      };
+      journal_embeddings: {
+        Row: JournalEmbeddingRow;
+        Insert: JournalEmbeddingInsert;
+        Update: JournalEmbeddingUpdate;
+      };
+      personal_access_tokens: {
+        Row: PersonalAccessTokenRow;
+        Insert: PersonalAccessTokenInsert;
+        Update: PersonalAccessTokenUpdate;
+      };
+      webhook_endpoints: {
+        Row: WebhookEndpointRow;
+        Insert: WebhookEndpointInsert;
+        Update: WebhookEndpointUpdate;
+      };
+      webhook_deliveries: {
+        Row: WebhookDeliveryRow;
+        Insert: WebhookDeliveryInsert;
+        Update: WebhookDeliveryUpdate;
+      };
+      notification_preferences: {
+        Row: NotificationPreferencesRow;
+        Insert: NotificationPreferencesInsert;
+        Update: NotificationPreferencesUpdate;
+      };
+      notifications: {
+        Row: NotificationRow;
+        Insert: NotificationInsert;
+        Update: NotificationUpdate;
+      };
+      push_subscriptions: {
+        Row: PushSubscriptionRow;
+        Insert: PushSubscriptionInsert;
+        Update: PushSubscriptionUpdate;
+      };
     };
   };
 }
@@ -70,6 +153,8 @@ export interface ProfileRow {
   email: string;
   full_name: string | null;
   avatar_url: string | null;
+  timezone: string; // IANA zone, e.g. Europe/Berlin
+  email_digest: boolean; // Weekly/monthly insight digests by email
   created_at: string;
   updated_at: string;
 }
@@ -79,6 +164,8 @@ export interface ProfileInsert {
   email: string;
   full_name?: string | null;
   avatar_url?: string | null;
+  timezone?: string;
+  email_digest?: boolean;
   created_at?: string;
   updated_at?: string;
 }
@@ -88,6 +175,8 @@ export interface ProfileUpdate {
   email?: string;
   full_name?: string | null;
   avatar_url?: string | null;
+  timezone?: string;
+  email_digest?: boolean;
   updated_at?: string;
 }
 
@@ -106,8 +195,14 @@ export interface GoalRow {
   status: GoalStatus;
   progress_percentage: number;
   parent_goal_id: string | null;
+  progress_mode: GoalProgressMode;
+  rollup_weighting: RollupWeighting;
+  recurrence: HabitRecurrence | null;
+  auto_complete: boolean;
+  rollup_weight: number;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the goal is in the trash
 }
 
 export interface GoalInsert {
@@ -121,8 +216,14 @@ export interface GoalInsert {
   status?: GoalStatus;
   progress_percentage?: number;
   parent_goal_id?: string | null;
+  progress_mode?: GoalProgressMode;
+  rollup_weighting?: RollupWeighting;
+  recurrence?: HabitRecurrence | null;
+  auto_complete?: boolean;
+  rollup_weight?: number;
   created_at?: string;
   updated_at?: string;
+  deleted_at?: string | null;
 }
 
 export interface GoalUpdate {
@@ -136,7 +237,101 @@ export interface GoalUpdate {
   status?: GoalStatus;
   progress_percentage?: number;
   parent_goal_id?: string | null;
+  progress_mode?: GoalProgressMode;
+  rollup_weighting?: RollupWeighting;
+  recurrence?: HabitRecurrence | null;
+  auto_complete?: boolean;
+  rollup_weight?: number;
   updated_at?: string;
+  deleted_at?: string | null;
+}
+
+// ============================================
+// Goal Progress Events (append-only history)
+// ============================================
+
+export interface GoalProgressEventRow {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  progress_percentage: number;
+  status: GoalStatus;
+  recorded_at: string;
+}
+
+export interface GoalProgressEventInsert {
+  id?: string;
+  goal_id: string;
+  user_id: string;
+  progress_percentage: number;
+  status: GoalStatus;
+  recorded_at?: string;
+}
+
+// ============================================
+// Goal Milestones
+// ============================================
+
+export interface GoalMilestoneRow {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  title: string;
+  position: number;
+  weight: number;
+  due_date: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalMilestoneInsert {
+  id?: string;
+  goal_id: string;
+  user_id: string;
+  title: string;
+  position?: number;
+  weight?: number;
+  due_date?: string | null;
+  completed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GoalMilestoneUpdate {
+  id?: string;
+  title?: string;
+  position?: number;
+  weight?: number;
+  due_date?: string | null;
+  completed_at?: string | null;
+  updated_at?: string;
+}
+
+// ============================================
+// Goal Check-ins (habit goals)
+// ============================================
+
+export interface GoalCheckinRow {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  checkin_date: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface GoalCheckinInsert {
+  id?: string;
+  goal_id: string;
+  user_id: string;
+  checkin_date: string;
+  note?: string | null;
+  created_at?: string;
+}
+
+export interface GoalCheckinUpdate {
+  note?: string | null;
 }
 
 // ============================================
@@ -153,6 +348,7 @@ export interface JournalEntryRow {
   tags: string[] | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // Set while the entry is in the trash
 }
 
 export interface JournalEntryInsert {
@@ -165,6 +361,7 @@ export interface JournalEntryInsert {
   tags?: string[] | null;
   created_at?: string;
   updated_at?: string;
+  deleted_at?: string | null;
 }
 
 export interface JournalEntryUpdate {
@@ -176,6 +373,351 @@ export interface JournalEntryUpdate {
   mood?: string | null;
   tags?: string[] | null;
   updated_at?: string;
+  deleted_at?: string | null;
+}
+
+// ============================================
+// Journal Drafts
+// ============================================
+
+export interface JournalDraftRow {
+  id: string;
+  user_id: string;
+  journal_entry_id: string | null; // NULL for a draft of a new entry
+  title: string | null;
+  content: string;
+  entry_date: string | null;
+  mood: string | null;
+  tags: string[];
+  goal_ids: string[];
+  version: number;
+  device: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JournalDraftInsert {
+  id?: string;
+  user_id: string;
+  journal_entry_id?: string | null;
+  title?: string | null;
+  content?: string;
+  entry_date?: string | null;
+  mood?: string | null;
+  tags?: string[];
+  goal_ids?: string[];
+  version?: number;
+  device?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface JournalDraftUpdate {
+  title?: string | null;
+  content?: string;
+  entry_date?: string | null;
+  mood?: string | null;
+  tags?: string[];
+  goal_ids?: string[];
+  version?: number;
+  device?: string | null;
+  updated_at?: string;
+}
+
+// ============================================
+// Journal Entry Revisions (append-only history)
+// ============================================
+
+export interface JournalEntryRevisionRow {
+  id: string;
+  journal_entry_id: string;
+  user_id: string;
+  title: string | null;
+  content: string;
+  mood: string | null;
+  tags: string[];
+  goal_ids: string[];
+  saved_at: string; // When this version was saved
+  created_at: string; // When it was replaced
+}
+
+export interface JournalEntryRevisionInsert {
+  id?: string;
+  journal_entry_id: string;
+  user_id: string;
+  title?: string | null;
+  content: string;
+  mood?: string | null;
+  tags?: string[];
+  goal_ids?: string[];
+  saved_at: string;
+  created_at?: string;
+}
+
+// ============================================
+// Journal Attachments
+// ============================================
+
+export type AttachmentKind = 'image' | 'audio' | 'file';
+
+export interface JournalAttachmentRow {
+  id: string;
+  journal_entry_id: string;
+  user_id: string;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+export interface JournalAttachmentInsert {
+  id?: string;
+  journal_entry_id: string;
+  user_id: string;
+  kind: AttachmentKind;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key?: string | null;
+  width?: number | null;
+  height?: number | null;
+  created_at?: string;
+}
+
+// ============================================
+// Journal Embeddings
+// ============================================
+
+// pgvector columns are sent and returned as '[0.1,0.2,...]' strings
+export interface JournalEmbeddingRow {
+  journal_entry_id: string;
+  user_id: string;
+  model: string;
+  content_hash: string;
+  embedding: string;
+  updated_at: string;
+}
+
+export interface JournalEmbeddingInsert {
+  journal_entry_id: string;
+  user_id: string;
+  model: string;
+  content_hash: string;
+  embedding: string;
+  updated_at?: string;
+}
+
+export interface JournalEmbeddingUpdate {
+  model?: string;
+  content_hash?: string;
+  embedding?: string;
+  updated_at?: string;
+}
+
+// ============================================
+// Personal Access Tokens
+// ============================================
+
+export interface PersonalAccessTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string; // SHA-256 of the token, hex
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface PersonalAccessTokenInsert {
+  id?: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at?: string | null;
+  created_at?: string;
+}
+
+export interface PersonalAccessTokenUpdate {
+  name?: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+export interface WebhookEndpointRow {
+  id: string;
+  user_id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  secret: string; // HMAC signing key
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEndpointInsert {
+  id?: string;
+  user_id: string;
+  url: string;
+  description?: string | null;
+  events: string[];
+  secret: string;
+  active?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WebhookEndpointUpdate {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  active?: boolean;
+  updated_at?: string;
+}
+
+export interface WebhookDeliveryRow {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, unknown>; // JSONB, the body POSTed to the endpoint
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryInsert {
+  id?: string;
+  endpoint_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  status?: WebhookDeliveryStatus;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  created_at?: string;
+}
+
+export interface WebhookDeliveryUpdate {
+  status?: WebhookDeliveryStatus;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  last_attempt_at?: string | null;
+  response_status?: number | null;
+  error?: string | null;
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+export interface NotificationPreferencesRow {
+  user_id: string;
+  channels: string[];
+  rules: string[];
+  reminder_time: string; // HH:MM:SS in the user's timezone
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  updated_at: string;
+}
+
+export interface NotificationPreferencesInsert {
+  user_id: string;
+  channels?: string[];
+  rules?: string[];
+  reminder_time?: string;
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  updated_at?: string;
+}
+
+export interface NotificationPreferencesUpdate {
+  channels?: string[];
+  rules?: string[];
+  reminder_time?: string;
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  updated_at?: string;
+}
+
+export interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  url: string | null;
+  data: Record<string, unknown>; // JSONB
+  channels: string[]; // Channels it was delivered on
+  dedupe_key: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationInsert {
+  id?: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body?: string | null;
+  url?: string | null;
+  data?: Record<string, unknown>;
+  channels?: string[];
+  dedupe_key?: string | null;
+  read_at?: string | null;
+  created_at?: string;
+}
+
+export interface NotificationUpdate {
+  channels?: string[];
+  read_at?: string | null;
+}
+
+export interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface PushSubscriptionInsert {
+  id?: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string | null;
+  created_at?: string;
+}
+
+export interface PushSubscriptionUpdate {
+  p256dh?: string;
+  auth?: string;
+  user_agent?: string | null;
 }
 
 // ============================================
@@ -205,6 +747,21 @@ export interface JournalGoalMentionUpdate {
   mentioned_explicitly?: boolean;
 }
 
+// ============================================
+// Sync Tombstones
+// ============================================
+
+export type SyncTombstoneEntity = 'goal' | 'journal_entry' | 'mention';
+
+export interface SyncTombstoneRow {
+  id: string;
+  user_id: string;
+  entity: SyncTombstoneEntity;
+  entity_id: string;
+  change_seq: number;
+  deleted_at: string;
+}
+
 // ============================================
 // AI Analyses
 // ============================================
@@ -299,6 +856,7 @@ export interface GoalProgressUpdate {
 export interface WeeklyInsightRow {
   id: string;
   user_id: string;
+  period: InsightPeriod; // week_start_date/week_end_date span a week or a month
   week_start_date: string;
   week_end_date: string;
   summary: string;
@@ -306,12 +864,14 @@ export interface WeeklyInsightRow {
   areas_for_improvement: AreaForImprovement[] | null;
   goal_progress_updates: GoalProgressUpdate[] | null;
   ai_analysis_id: string | null;
+  emailed_at: string | null;
   created_at: string;
 }
 
 export interface WeeklyInsightInsert {
   id?: string;
   user_id: string;
+  period?: InsightPeriod;
   week_start_date: string;
   week_end_date: string;
   summary: string;
@@ -319,12 +879,14 @@ export interface WeeklyInsightInsert {
   areas_for_improvement?: AreaForImprovement[] | null;
   goal_progress_updates?: GoalProgressUpdate[] | null;
   ai_analysis_id?: string | null;
+  emailed_at?: string | null;
   created_at?: string;
 }
 
 export interface WeeklyInsightUpdate {
   id?: string;
   user_id?: string;
+  period?: InsightPeriod;
   week_start_date?: string;
   week_end_date?: string;
   summary?: string;
@@ -332,6 +894,7 @@ export interface WeeklyInsightUpdate {
   areas_for_improvement?: AreaForImprovement[] | null;
   goal_progress_updates?: GoalProgressUpdate[] | null;
   ai_analysis_id?: string | null;
+  emailed_at?: string | null;
 }
 
 // ============================================
@@ -6,10 +6,18 @@
 import type {
   GoalType,
   GoalStatus,
+  GoalProgressMode,
+  RollupWeighting,
+  HabitRecurrence,
   AnalysisType,
+  InsightPeriod,
   Mood,
   GoalRow,
   JournalEntryRow,
+  JournalDraftRow,
+  JournalEntryRevisionRow,
+  JournalAttachmentRow,
+  AttachmentKind,
   ProfileRow,
   AIAnalysisRow,
   WeeklyInsightRow,
@@ -20,10 +28,31 @@ import type {
   KeyAchievement,
   AreaForImprovement,
   GoalProgressUpdate,
+  GoalProgressEventRow,
+  GoalMilestoneRow,
+  GoalCheckinRow,
+  PersonalAccessTokenRow,
+  WebhookDeliveryStatus,
+  WebhookEndpointRow,
+  WebhookDeliveryRow,
+  NotificationPreferencesRow,
+  NotificationRow,
+  PushSubscriptionRow,
 } from './database.types';
 
 // Re-export enums
-export type { GoalType, GoalStatus, AnalysisType, Mood };
+export type {
+  GoalType,
+  GoalStatus,
+  GoalProgressMode,
+  RollupWeighting,
+  HabitRecurrence,
+  AnalysisType,
+  InsightPeriod,
+  Mood,
+  WebhookDeliveryStatus,
+  AttachmentKind,
+};
 
 // Re-export JSONB types
 export type {
@@ -44,6 +73,8 @@ export interface Profile {
   email: string;
   fullName: string | null;
   avatarUrl: string | null;
+  timezone: string; // IANA zone used for "today", streaks and date ranges
+  emailDigest: boolean; // Weekly/monthly insight digests by email
   createdAt: Date;
   updatedAt: Date;
 }
@@ -59,6 +90,11 @@ export interface Goal {
   status: GoalStatus;
   progressPercentage: number;
   parentGoalId: string | null;
+  progressMode: GoalProgressMode;
+  rollupWeighting: RollupWeighting;
+  autoComplete: boolean;
+  rollupWeight: number;
+  recurrence: HabitRecurrence | null; // Habit goals only
   createdAt: Date;
   updatedAt: Date;
 }
@@ -75,6 +111,55 @@ export interface JournalEntry {
   updatedAt: Date;
 }
 
+// Autosaved editor content of a new entry (journalEntryId null) or of edits to an entry
+export interface JournalDraft {
+  id: string;
+  journalEntryId: string | null;
+  title: string | null;
+  content: string;
+  entryDate: string | null; // YYYY-MM-DD
+  mood: Mood | null;
+  tags: string[];
+  goalIds: string[];
+  version: number; // Bumped on every save, for conflict detection
+  device: string | null; // Client that saved last, e.g. web or ios
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A previous version of a journal entry, recorded before an update replaced it
+export interface JournalEntryRevision {
+  id: string;
+  journalEntryId: string;
+  title: string | null;
+  content: string;
+  mood: Mood | null;
+  tags: string[];
+  goalIds: string[];
+  savedAt: Date; // When this version was saved
+  replacedAt: Date;
+}
+
+// A photo, audio memo or file attached to a journal entry
+export interface JournalAttachment {
+  id: string;
+  journalEntryId: string;
+  kind: AttachmentKind;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  hasThumbnail: boolean;
+  width: number | null; // Images only
+  height: number | null;
+  createdAt: Date;
+}
+
+// Text of a voice recording, for the content of a new journal entry
+export interface Transcription {
+  text: string;
+  language: string | null; // ISO 639-1, when known
+}
+
 export interface JournalGoalMention {
   id: string;
   journalEntryId: string;
@@ -99,6 +184,7 @@ export interface AIAnalysis {
 export interface WeeklyInsight {
   id: string;
   userId: string;
+  period: InsightPeriod; // weekStartDate/weekEndDate span a week or a month
   weekStartDate: Date;
   weekEndDate: Date;
   summary: string;
@@ -106,6 +192,146 @@ export interface WeeklyInsight {
   areasForImprovement: AreaForImprovement[] | null;
   goalProgressUpdates: GoalProgressUpdate[] | null;
   aiAnalysisId: string | null;
+  emailedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface GoalProgressEvent {
+  id: string;
+  goalId: string;
+  userId: string;
+  progressPercentage: number;
+  status: GoalStatus;
+  recordedAt: Date;
+}
+
+export interface GoalMilestone {
+  id: string;
+  goalId: string;
+  userId: string;
+  title: string;
+  position: number;
+  weight: number;
+  dueDate: string | null; // YYYY-MM-DD date-only string
+  completed: boolean;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GoalCheckin {
+  id: string;
+  goalId: string;
+  userId: string;
+  checkinDate: string; // YYYY-MM-DD date-only string
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface HabitStats {
+  currentStreak: number;
+  longestStreak: number;
+  streakUnit: 'day' | 'week'; // Weekly habits count streaks in weeks
+  completionRate: number; // Percentage of recent periods met
+}
+
+export type TokenScope =
+  | 'goals:read'
+  | 'goals:write'
+  | 'journals:read'
+  | 'journals:write'
+  | 'ai:read'
+  | 'ai:write'
+  | 'profile:read'
+  | 'profile:write'
+  | 'notifications:read'
+  | 'notifications:write';
+
+// The secret itself is never returned after creation, only its prefix
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export type WebhookEventType =
+  | 'goal.completed'
+  | 'goal.progress_changed'
+  | 'journal.created'
+  | 'analysis.created';
+
+// Body POSTed to webhook endpoints; id is shared by every delivery of the event
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+// The signing secret is only returned when the endpoint is created
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+export type ReminderRule = 'journal_reminder' | 'goal_deadline' | 'goal_stale';
+
+// Reminder nudges plus events from goals and AI analyses
+export type NotificationType = ReminderRule | 'goal_completed' | 'insights_ready' | 'analysis_failed';
+
+// Times are HH:MM in the user's timezone; quiet hours may wrap past midnight
+export interface NotificationPreferences {
+  channels: NotificationChannel[];
+  rules: ReminderRule[];
+  reminderTime: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  url: string | null; // App path to open
+  data: Record<string, unknown>;
+  channels: NotificationChannel[];
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Only the endpoint is returned; the encryption keys stay on the server
+export interface PushSubscription {
+  id: string;
+  endpoint: string;
+  userAgent: string | null;
   createdAt: Date;
 }
 
@@ -130,10 +356,94 @@ export interface GoalWithParent extends Goal {
   parentGoal: Goal | null;
 }
 
+export interface GoalWithMilestones extends Goal {
+  milestones: GoalMilestone[];
+}
+
+// Deleted goals and entries stay in the trash until purgeAt, and can be restored until then
+export interface TrashedGoal extends Goal {
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface TrashedJournalEntry extends JournalEntry {
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface Trash {
+  goals: TrashedGoal[];
+  journalEntries: TrashedJournalEntry[];
+}
+
+// What deleting a goal unlinks, shown before it is moved to the trash
+export interface GoalDependents {
+  childGoals: Pick<Goal, 'id' | 'title'>[];
+  journalEntryCount: number;
+}
+
+// Changes since a sync cursor. Deleted ids include goals and entries moved to the trash; the
+// mentions of a deleted goal or entry are not listed and should be dropped with it
+export interface SyncChangeSet<T> {
+  updated: T[];
+  deleted: string[];
+}
+
+export interface SyncChanges {
+  goals: SyncChangeSet<Goal>;
+  journalEntries: SyncChangeSet<JournalEntry>;
+  mentions: SyncChangeSet<JournalGoalMention>;
+  cursor: string; // Opaque; pass as since on the next sync
+  hasMore: boolean; // More changes are waiting; sync again with cursor right away
+}
+
+export type SyncEntity = SyncMutation['entity'];
+
+// exists: the id (or the mention's entry and goal) is already taken
+// deleted: the goal or entry is gone or in the trash
+// stale: the goal or entry has been updated since expectedUpdatedAt
+export type SyncConflictReason = 'exists' | 'deleted' | 'stale';
+
+export interface SyncConflict {
+  index: number; // Position of the mutation in the batch
+  entity: SyncEntity;
+  op: SyncMutation['op'];
+  id: string;
+  reason: SyncConflictReason;
+  current: Goal | JournalEntry | JournalGoalMention | null; // The server's version, if any
+}
+
+export interface SyncResult {
+  applied: Pick<SyncConflict, 'index' | 'entity' | 'op' | 'id'>[];
+  conflicts: SyncConflict[];
+}
+
 export interface WeeklyInsightWithAnalysis extends WeeklyInsight {
   aiAnalysis: AIAnalysis | null;
 }
 
+export interface RelatedJournalEntry {
+  entry: JournalEntry;
+  similarity: number; // Cosine similarity, 0..1
+}
+
+export interface GoalSuggestion {
+  goal: Goal;
+  score: number; // 0..1, share of similar past entries linked to this goal (weighted)
+  basedOn: number; // Number of similar past entries linked to this goal
+}
+
+export interface SuggestedGoalLink {
+  goal: Goal;
+  alignment: number; // 0..1, goal_alignment score from AI analysis
+}
+
+export interface JournalLinkSuggestions {
+  goals: SuggestedGoalLink[];
+  tags: string[];
+  tokensUsed: number;
+}
+
 // ============================================
 // Form Input Types (Create operations)
 // ============================================
@@ -147,6 +457,11 @@ export interface CreateGoalInput {
   status?: GoalStatus;
   progressPercentage?: number;
   parentGoalId?: string | null; // Link short-term goal to long-term goal
+  progressMode?: GoalProgressMode;
+  rollupWeighting?: RollupWeighting;
+  autoComplete?: boolean;
+  rollupWeight?: number;
+  recurrence?: HabitRecurrence | null; // Required for habit goals
 }
 
 export interface UpdateGoalInput {
@@ -158,6 +473,32 @@ export interface UpdateGoalInput {
   status?: GoalStatus;
   progressPercentage?: number;
   parentGoalId?: string | null; // Link/unlink short-term goal to/from long-term goal
+  progressMode?: GoalProgressMode; // 'derived' rolls progress up from linked goals
+  rollupWeighting?: RollupWeighting;
+  autoComplete?: boolean;
+  rollupWeight?: number; // Weight within the parent's custom roll-up
+  recurrence?: HabitRecurrence | null;
+  expectedUpdatedAt?: string; // ISO updatedAt the edit was based on; raises GoalConflictError if stale
+}
+
+export interface CreateMilestoneInput {
+  title: string;
+  dueDate?: string | null; // ISO date string
+  weight?: number;
+  position?: number; // Defaults to end of list
+}
+
+export interface UpdateMilestoneInput {
+  title?: string;
+  dueDate?: string | null;
+  weight?: number;
+  position?: number;
+  completed?: boolean;
+}
+
+export interface CreateCheckinInput {
+  date: string; // YYYY-MM-DD
+  note?: string | null;
 }
 
 export interface CreateJournalEntryInput {
@@ -167,6 +508,8 @@ export interface CreateJournalEntryInput {
   mood?: Mood | null;
   tags?: string[];
   goalIds?: string[]; // Goals to link
+  suggestedGoalIds?: string[]; // Accepted AI suggestions, linked with mentioned_explicitly = false
+  draftId?: string; // Draft deleted once the entry is saved
 }
 
 export interface UpdateJournalEntryInput {
@@ -175,12 +518,111 @@ export interface UpdateJournalEntryInput {
   entryDate?: string;
   mood?: Mood | null;
   tags?: string[];
+  goalIds?: string[]; // Replaces explicit links; links not listed here or in suggestedGoalIds are removed
+  suggestedGoalIds?: string[]; // Accepted AI suggestions, added with mentioned_explicitly = false
+  draftId?: string; // Draft deleted once the changes are saved
+  expectedUpdatedAt?: string; // ISO updatedAt the edit was based on; raises JournalEntryConflictError if stale
+}
+
+export interface SaveJournalDraftInput {
+  title?: string | null;
+  content?: string;
+  entryDate?: string | null;
+  mood?: Mood | null;
+  tags?: string[];
   goalIds?: string[];
+  device?: string | null;
 }
 
+export interface CreateJournalDraftInput extends SaveJournalDraftInput {
+  journalEntryId?: string | null; // Set for unsaved edits of an existing entry
+}
+
+export interface UpdateJournalDraftInput extends SaveJournalDraftInput {
+  baseVersion: number; // Version the client last loaded or saved
+}
+
+export interface CreateJournalGoalMentionInput {
+  journalEntryId: string;
+  goalId: string;
+  mentionedExplicitly?: boolean; // Defaults to true
+}
+
+// Goal links are synced as mentions, so synced journal entries carry no goalIds
+export type SyncJournalEntryFields = Pick<
+  CreateJournalEntryInput,
+  'title' | 'content' | 'entryDate' | 'mood' | 'tags'
+>;
+
+// One client change in a POST /api/sync batch; ids of new records are chosen by the client.
+// expectedUpdatedAt makes an update or delete conditional, as on the PATCH routes
+export type SyncMutation =
+  | { entity: 'goal'; op: 'create'; id: string; data: CreateGoalInput }
+  | {
+      entity: 'goal';
+      op: 'update';
+      id: string;
+      data: Omit<UpdateGoalInput, 'expectedUpdatedAt'>;
+      expectedUpdatedAt?: string;
+    }
+  | { entity: 'journalEntry'; op: 'create'; id: string; data: SyncJournalEntryFields }
+  | {
+      entity: 'journalEntry';
+      op: 'update';
+      id: string;
+      data: Partial<SyncJournalEntryFields>;
+      expectedUpdatedAt?: string;
+    }
+  | { entity: 'goal' | 'journalEntry'; op: 'delete'; id: string; expectedUpdatedAt?: string }
+  | { entity: 'mention'; op: 'create'; id: string; data: CreateJournalGoalMentionInput }
+  | { entity: 'mention'; op: 'delete'; id: string };
+
 export interface UpdateProfileInput {
   fullName?: string | null;
   avatarUrl?: string | null;
+  timezone?: string;
+  emailDigest?: boolean;
+}
+
+export interface CreatePersonalAccessTokenInput {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number | null; // null/omitted = never expires
+}
+
+export interface CreatedPersonalAccessToken {
+  token: PersonalAccessToken;
+  secret: string; // Plaintext token, shown once
+}
+
+export interface CreateWebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  active?: boolean;
+}
+
+export interface CreatedWebhookEndpoint {
+  endpoint: WebhookEndpoint;
+  secret: string; // Signing secret, shown once
+}
+
+export type UpdateNotificationPreferencesInput = Partial<NotificationPreferences>;
+
+// Shape of PushSubscription.toJSON() in the browser
+export interface CreatePushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  userAgent?: string | null;
 }
 
 export interface RequestAnalysisInput {
@@ -224,6 +666,51 @@ export interface PaginatedResponse<T> {
   success: boolean;
 }
 
+// Bulk import
+export type ImportSource = 'dayone' | 'markdown' | 'csv';
+
+export type ImportRowStatus = 'valid' | 'imported' | 'invalid';
+
+export interface ImportRowResult {
+  row: number; // 1-based position in the source
+  source: string; // File name (zip imports) or line number (CSV)
+  status: ImportRowStatus;
+  entry: CreateJournalEntryInput | null;
+  journalId: string | null; // Set once imported
+  matchedGoals: Pick<Goal, 'id' | 'title'>[];
+  unmatchedGoals: string[];
+  warnings: string[];
+  errors: string[];
+}
+
+export interface ImportReport {
+  source: ImportSource;
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  invalid: number;
+  rows: ImportRowResult[];
+}
+
+// Full-text search
+export type SearchResultKind = 'journal' | 'goal';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  title: string | null;
+  titleHighlight: string; // HTML-escaped; matches wrapped in <mark>
+  snippet: string; // HTML-escaped; matches wrapped in <mark>
+  rank: number;
+  entryDate: string | null; // Journals only
+  mood: Mood | null;
+  tags: string[];
+  goalType: GoalType | null; // Goals only
+  goalStatus: GoalStatus | null;
+  updatedAt: Date;
+}
+
 // Specific API responses
 export type GoalResponse = ApiResponse<Goal>;
 export type GoalsResponse = ApiResponse<Goal[]>;
@@ -232,8 +719,36 @@ export type GoalsPaginatedResponse = PaginatedResponse<Goal>;
 export type JournalEntryResponse = ApiResponse<JournalEntry>;
 export type JournalEntriesResponse = ApiResponse<JournalEntry[]>;
 export type JournalEntriesPaginatedResponse = PaginatedResponse<JournalEntry>;
+export type JournalDraftResponse = ApiResponse<JournalDraft>;
+export type JournalDraftsResponse = ApiResponse<JournalDraft[]>;
+export type JournalEntryRevisionsResponse = ApiResponse<JournalEntryRevision[]>;
+export type JournalAttachmentResponse = ApiResponse<JournalAttachment>;
+export type JournalAttachmentsResponse = ApiResponse<JournalAttachment[]>;
+export type TranscriptionResponse = ApiResponse<Transcription>;
+export type TrashResponse = ApiResponse<Trash>;
+export type GoalDependentsResponse = ApiResponse<GoalDependents>;
+export type SyncChangesResponse = ApiResponse<SyncChanges>;
+export type SyncResultResponse = ApiResponse<SyncResult>;
+
+export type GoalProgressHistoryResponse = ApiResponse<GoalProgressEvent[]>;
+export type GoalMilestonesResponse = ApiResponse<GoalMilestone[]>;
+export type GoalCheckinsResponse = ApiResponse<{ checkins: GoalCheckin[]; stats: HabitStats }>;
+export type ImportResponse = ApiResponse<ImportReport>;
+export type SearchResponse = PaginatedResponse<SearchResult>;
+export type RelatedJournalEntriesResponse = ApiResponse<RelatedJournalEntry[]>;
+export type GoalSuggestionsResponse = ApiResponse<GoalSuggestion[]>;
+export type JournalLinkSuggestionsResponse = ApiResponse<JournalLinkSuggestions>;
 
 export type ProfileResponse = ApiResponse<Profile>;
+export type PersonalAccessTokensResponse = ApiResponse<PersonalAccessToken[]>;
+export type CreatedPersonalAccessTokenResponse = ApiResponse<CreatedPersonalAccessToken>;
+export type WebhookEndpointsResponse = ApiResponse<WebhookEndpoint[]>;
+export type WebhookEndpointResponse = ApiResponse<WebhookEndpoint>;
+export type CreatedWebhookEndpointResponse = ApiResponse<CreatedWebhookEndpoint>;
+export type WebhookDeliveriesResponse = ApiResponse<WebhookDelivery[]>;
+export type NotificationsResponse = PaginatedResponse<Notification> & { unreadCount: number };
+export type NotificationPreferencesResponse = ApiResponse<NotificationPreferences>;
+export type PushSubscriptionResponse = ApiResponse<PushSubscription>;
 
 export type AIAnalysisResponse = ApiResponse<AIAnalysis>;
 export type WeeklyInsightResponse = ApiResponse<WeeklyInsight>;
@@ -266,6 +781,15 @@ export interface JournalFilters {
   goalId?: string;
 }
 
+export interface SearchFilters {
+  kinds?: SearchResultKind[];
+  mood?: Mood;
+  tag?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  goalId?: string;
+}
+
 export interface JournalSortOptions {
   field: 'entry_date' | 'created_at' | 'updated_at' | 'title';
   direction: 'asc' | 'desc';
@@ -286,6 +810,8 @@ export function mapProfileFromRow(row: ProfileRow): Profile {
     email: row.email,
     fullName: row.full_name,
     avatarUrl: row.avatar_url,
+    timezone: row.timezone,
+    emailDigest: row.email_digest,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -303,11 +829,54 @@ export function mapGoalFromRow(row: GoalRow): Goal {
     status: row.status,
     progressPercentage: row.progress_percentage,
     parentGoalId: row.parent_goal_id,
+    progressMode: row.progress_mode,
+    rollupWeighting: row.rollup_weighting,
+    autoComplete: row.auto_complete,
+    rollupWeight: row.rollup_weight,
+    recurrence: row.recurrence,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function mapGoalProgressEventFromRow(row: GoalProgressEventRow): GoalProgressEvent {
+  return {
+    id: row.id,
+    goalId: row.goal_id,
+    userId: row.user_id,
+    progressPercentage: row.progress_percentage,
+    status: row.status,
+    recordedAt: new Date(row.recorded_at),
+  };
+}
+
+export function mapGoalMilestoneFromRow(row: GoalMilestoneRow): GoalMilestone {
+  return {
+    id: row.id,
+    goalId: row.goal_id,
+    userId: row.user_id,
+    title: row.title,
+    position: row.position,
+    weight: row.weight,
+    dueDate: row.due_date,
+    completed: row.completed_at !== null,
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
 }
 
+export function mapGoalCheckinFromRow(row: GoalCheckinRow): GoalCheckin {
+  return {
+    id: row.id,
+    goalId: row.goal_id,
+    userId: row.user_id,
+    checkinDate: row.checkin_date,
+    note: row.note,
+    createdAt: new Date(row.created_at),
+  };
+}
+
 export function mapJournalEntryFromRow(row: JournalEntryRow): JournalEntry {
   return {
     id: row.id,
@@ -322,6 +891,52 @@ export function mapJournalEntryFromRow(row: JournalEntryRow): JournalEntry {
   };
 }
 
+export function mapJournalDraftFromRow(row: JournalDraftRow): JournalDraft {
+  return {
+    id: row.id,
+    journalEntryId: row.journal_entry_id,
+    title: row.title,
+    content: row.content,
+    entryDate: row.entry_date,
+    mood: row.mood as Mood | null,
+    tags: row.tags ?? [],
+    goalIds: row.goal_ids ?? [],
+    version: row.version,
+    device: row.device,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function mapJournalEntryRevisionFromRow(row: JournalEntryRevisionRow): JournalEntryRevision {
+  return {
+    id: row.id,
+    journalEntryId: row.journal_entry_id,
+    title: row.title,
+    content: row.content,
+    mood: row.mood as Mood | null,
+    tags: row.tags ?? [],
+    goalIds: row.goal_ids ?? [],
+    savedAt: new Date(row.saved_at),
+    replacedAt: new Date(row.created_at),
+  };
+}
+
+export function mapJournalAttachmentFromRow(row: JournalAttachmentRow): JournalAttachment {
+  return {
+    id: row.id,
+    journalEntryId: row.journal_entry_id,
+    kind: row.kind,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    hasThumbnail: row.thumbnail_key !== null,
+    width: row.width,
+    height: row.height,
+    createdAt: new Date(row.created_at),
+  };
+}
+
 export function mapJournalGoalMentionFromRow(row: JournalGoalMentionRow): JournalGoalMention {
   return {
     id: row.id,
@@ -351,6 +966,7 @@ export function mapWeeklyInsightFromRow(row: WeeklyInsightRow): WeeklyInsight {
   return {
     id: row.id,
     userId: row.user_id,
+    period: row.period,
     weekStartDate: new Date(row.week_start_date),
     weekEndDate: new Date(row.week_end_date),
     summary: row.summary,
@@ -358,6 +974,89 @@ export function mapWeeklyInsightFromRow(row: WeeklyInsightRow): WeeklyInsight {
     areasForImprovement: row.areas_for_improvement,
     goalProgressUpdates: row.goal_progress_updates,
     aiAnalysisId: row.ai_analysis_id,
+    emailedAt: row.emailed_at ? new Date(row.emailed_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function mapPersonalAccessTokenFromRow(row: PersonalAccessTokenRow): PersonalAccessToken {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: row.scopes.filter(isTokenScope),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function mapWebhookEndpointFromRow(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events.filter(isWebhookEventType),
+    active: row.active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function mapWebhookDeliveryFromRow(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    eventId: row.event_id,
+    eventType: row.event_type as WebhookEventType,
+    payload: row.payload as unknown as WebhookEvent,
+    status: row.status,
+    attemptCount: row.attempt_count,
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : null,
+    lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : null,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// HH:MM:SS from Postgres TIME columns, shown as HH:MM
+function toTimeOfDay(value: string): string {
+  return value.slice(0, 5);
+}
+
+export function mapNotificationPreferencesFromRow(
+  row: NotificationPreferencesRow
+): NotificationPreferences {
+  return {
+    channels: row.channels.filter(isNotificationChannel),
+    rules: row.rules.filter(isReminderRule),
+    reminderTime: toTimeOfDay(row.reminder_time),
+    quietHoursStart: row.quiet_hours_start ? toTimeOfDay(row.quiet_hours_start) : null,
+    quietHoursEnd: row.quiet_hours_end ? toTimeOfDay(row.quiet_hours_end) : null,
+  };
+}
+
+export function mapNotificationFromRow(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    title: row.title,
+    body: row.body,
+    url: row.url,
+    data: row.data,
+    channels: row.channels.filter(isNotificationChannel),
+    readAt: row.read_at ? new Date(row.read_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function mapPushSubscriptionFromRow(row: PushSubscriptionRow): PushSubscription {
+  return {
+    id: row.id,
+    endpoint: row.endpoint,
+    userAgent: row.user_agent,
     createdAt: new Date(row.created_at),
   };
 }
@@ -367,7 +1066,7 @@ export function mapWeeklyInsightFromRow(row: WeeklyInsightRow): WeeklyInsight {
 // ============================================
 
 export function isGoalType(value: unknown): value is GoalType {
-  return value === 'long-term' || value === 'short-term';
+  return value === 'long-term' || value === 'short-term' || value === 'habit';
 }
 
 export function isGoalStatus(value: unknown): value is GoalStatus {
@@ -382,20 +1081,115 @@ export function isAnalysisType(value: unknown): value is AnalysisType {
   return ['on-demand', 'weekly', 'monthly'].includes(value as string);
 }
 
+export function isTokenScope(value: unknown): value is TokenScope {
+  return TOKEN_SCOPES.includes(value as TokenScope);
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}
+
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return NOTIFICATION_CHANNELS.includes(value as NotificationChannel);
+}
+
+export function isReminderRule(value: unknown): value is ReminderRule {
+  return REMINDER_RULES.includes(value as ReminderRule);
+}
+
 // ============================================
 // Constants
 // ============================================
 
-export const GOAL_TYPES: GoalType[] = ['long-term', 'short-term'];
+export const GOAL_TYPES: GoalType[] = ['long-term', 'short-term', 'habit'];
 
 export const GOAL_STATUSES: GoalStatus[] = ['active', 'completed', 'paused', 'abandoned'];
 
+export const GOAL_PROGRESS_MODES: GoalProgressMode[] = ['manual', 'derived'];
+
+export const ROLLUP_WEIGHTINGS: RollupWeighting[] = ['equal', 'custom'];
+
 export const MOODS: Mood[] = ['great', 'good', 'neutral', 'bad', 'terrible'];
 
 export const ANALYSIS_TYPES: AnalysisType[] = ['on-demand', 'weekly', 'monthly'];
 
+export const IMPORT_SOURCES: ImportSource[] = ['dayone', 'markdown', 'csv'];
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  dayone: 'Day One (JSON or zip)',
+  markdown: 'Markdown (zip of .md files)',
+  csv: 'CSV',
+};
+
 export const DEFAULT_PAGE_SIZE = 10;
 
+// Days a deleted goal or journal entry stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TOKEN_SCOPES: TokenScope[] = [
+  'goals:read',
+  'goals:write',
+  'journals:read',
+  'journals:write',
+  'ai:read',
+  'ai:write',
+  'profile:read',
+  'profile:write',
+  'notifications:read',
+  'notifications:write',
+];
+
+export const TOKEN_SCOPE_LABELS: Record<TokenScope, string> = {
+  'goals:read': 'Read goals, milestones and check-ins',
+  'goals:write': 'Create, update and delete goals, milestones and check-ins',
+  'journals:read': 'Read journal entries',
+  'journals:write': 'Create, update, delete and import journal entries',
+  'ai:read': 'Read AI analyses and insights',
+  'ai:write': 'Run AI analyses (uses AI credits)',
+  'profile:read': 'Read profile and timezone',
+  'profile:write': 'Update profile and timezone',
+  'notifications:read': 'Read notifications and notification preferences',
+  'notifications:write': 'Mark notifications read and change notification preferences',
+};
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'goal.completed',
+  'goal.progress_changed',
+  'journal.created',
+  'analysis.created',
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'goal.completed': 'A goal is marked completed (manually or by roll-up)',
+  'goal.progress_changed': "A goal's progress percentage changes",
+  'journal.created': 'A journal entry is created',
+  'analysis.created': 'An AI analysis or insight is generated',
+};
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In the app',
+  email: 'Email',
+  push: 'Push notifications on devices where you enabled them',
+};
+
+export const REMINDER_RULES: ReminderRule[] = ['journal_reminder', 'goal_deadline', 'goal_stale'];
+
+export const REMINDER_RULE_LABELS: Record<ReminderRule, string> = {
+  journal_reminder: 'No journal entry yet by your reminder time',
+  goal_deadline: 'A goal is due within 3 days and is less than 50% done',
+  goal_stale: 'A goal has not been updated for 14 days',
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: ['in_app', 'push'],
+  rules: ['journal_reminder', 'goal_deadline', 'goal_stale'],
+  reminderTime: '21:00',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
 export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
   active: 'Active',
   completed: 'Completed',
@@ -406,8 +1200,30 @@ export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
 export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
   'long-term': 'Long Term',
   'short-term': 'Short Term',
+  habit: 'Habit',
+};
+
+export const HABIT_FREQUENCY_LABELS: Record<HabitRecurrence['frequency'], string> = {
+  daily: 'Every day',
+  weekly: 'Times per week',
+  weekdays: 'Specific weekdays',
 };
 
+// Indexed by Date.getDay() (0 = Sunday)
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Short human-readable description of a habit's recurrence rule */
+export function describeRecurrence(recurrence: HabitRecurrence): string {
+  switch (recurrence.frequency) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly':
+      return `${recurrence.timesPerWeek}x per week`;
+    case 'weekdays':
+      return [...recurrence.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(', ');
+  }
+}
+
 export const MOOD_LABELS: Record<Mood, string> = {
   great: 'Great',
   good: 'Good',
@@ -455,3 +1271,47 @@ export class GoalLinkValidationError extends Error {
     this.name = 'GoalLinkValidationError';
   }
 }
+
+// A draft save based on a version that is no longer current (edited on another device)
+export class JournalDraftConflictError extends Error {
+  current: JournalDraft;
+
+  constructor(current: JournalDraft) {
+    super('This draft was changed on another device');
+    this.current = current;
+    this.name = 'JournalDraftConflictError';
+  }
+}
+
+// An update based on a goal that has been changed since (on another device or by a roll-up)
+export class GoalConflictError extends Error {
+  current: Goal;
+
+  constructor(current: Goal) {
+    super('This goal was changed on another device');
+    this.current = current;
+    this.name = 'GoalConflictError';
+  }
+}
+
+// An update based on a journal entry that has been changed since
+export class JournalEntryConflictError extends Error {
+  current: JournalEntryWithGoals;
+
+  constructor(current: JournalEntryWithGoals) {
+    super('This journal entry was changed on another device');
+    this.current = current;
+    this.name = 'JournalEntryConflictError';
+  }
+}
+
+// A sync batch item that could not be applied; the whole batch was rolled back
+export class SyncMutationError extends Error {
+  index: number;
+
+  constructor(index: number, message: string) {
+    super(`Mutation ${index}: ${message}`);
+    this.index = index;
+    this.name = 'SyncMutationError';
+  }
+}
@@ -0,0 +1,32 @@
+-- Migration: Add goal_progress_events for historical progress tracking
+-- goals.progress_percentage only holds the current value, so every change to
+-- progress or status is appended here to let charts reconstruct past states
+
+CREATE TABLE goal_progress_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  progress_percentage INT NOT NULL CHECK (progress_percentage >= 0 AND progress_percentage <= 100),
+  status TEXT NOT NULL CHECK (status IN ('active', 'completed', 'paused', 'abandoned')),
+  recorded_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Per-goal history lookups and per-user chart queries
+CREATE INDEX idx_goal_progress_events_goal_id ON goal_progress_events(goal_id, recorded_at);
+CREATE INDEX idx_goal_progress_events_user_id ON goal_progress_events(user_id, recorded_at);
+
+-- Enable Row Level Security
+ALTER TABLE goal_progress_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for goal_progress_events (append-only from the client)
+CREATE POLICY "Users can view own goal progress events" ON goal_progress_events
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own goal progress events" ON goal_progress_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Backfill: seed one event per existing goal with its current state
+INSERT INTO goal_progress_events (goal_id, user_id, progress_percentage, status, recorded_at)
+SELECT id, user_id, COALESCE(progress_percentage, 0), COALESCE(status, 'active'), COALESCE(updated_at, created_at, NOW())
+FROM goals;
+
+COMMENT ON TABLE goal_progress_events IS 'Append-only log of goal progress/status changes, written by updateGoal.';
@@ -0,0 +1,42 @@
+-- Migration: Add goal_milestones for ordered checklists inside goals
+-- When a goal has milestones, its progress_percentage is derived from the
+-- weighted share of completed milestones (see src/lib/db/milestones.ts)
+
+CREATE TABLE goal_milestones (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  position INT NOT NULL DEFAULT 0,
+  weight INT NOT NULL DEFAULT 1 CHECK (weight >= 1 AND weight <= 100),
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Ordered lookups per goal
+CREATE INDEX idx_goal_milestones_goal_id ON goal_milestones(goal_id, position);
+CREATE INDEX idx_goal_milestones_user_id ON goal_milestones(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE goal_milestones ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for goal_milestones
+CREATE POLICY "Users can view own milestones" ON goal_milestones
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own milestones" ON goal_milestones
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM goals WHERE id = goal_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can update own milestones" ON goal_milestones
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own milestones" ON goal_milestones
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_goal_milestones_updated_at BEFORE UPDATE ON goal_milestones
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN goal_milestones.weight IS 'Relative weight of this milestone when deriving goal progress.';
@@ -0,0 +1,20 @@
+-- Migration: Opt-in roll-up of long-term goal progress from linked short-term goals
+-- progress_mode = 'derived' makes a long-term goal's progress_percentage follow its
+-- children (see recalculateDerivedProgress in src/lib/db/goals.ts)
+
+-- Parent-side settings
+ALTER TABLE goals ADD COLUMN progress_mode TEXT NOT NULL DEFAULT 'manual'
+  CHECK (progress_mode IN ('manual', 'derived'));
+ALTER TABLE goals ADD COLUMN rollup_weighting TEXT NOT NULL DEFAULT 'equal'
+  CHECK (rollup_weighting IN ('equal', 'custom'));
+ALTER TABLE goals ADD COLUMN auto_complete BOOLEAN NOT NULL DEFAULT false;
+
+-- Child-side weight, used when the parent's rollup_weighting is 'custom'
+ALTER TABLE goals ADD COLUMN rollup_weight INT NOT NULL DEFAULT 1
+  CHECK (rollup_weight >= 1 AND rollup_weight <= 100);
+
+-- Comments for documentation
+COMMENT ON COLUMN goals.progress_mode IS 'manual: progress set by the user. derived: progress rolled up from linked short-term goals.';
+COMMENT ON COLUMN goals.rollup_weighting IS 'How children are weighted in a derived roll-up: equal or by each child''s rollup_weight.';
+COMMENT ON COLUMN goals.auto_complete IS 'Mark the goal completed when derived progress reaches 100%.';
+COMMENT ON COLUMN goals.rollup_weight IS 'Relative weight of this goal in its parent''s roll-up when the parent uses custom weighting.';
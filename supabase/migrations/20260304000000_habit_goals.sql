@@ -0,0 +1,51 @@
+-- Migration: Add recurring habit goals with per-day check-ins
+-- A habit goal carries a recurrence rule; its progress_percentage tracks the
+-- recent completion rate (see src/lib/db/checkins.ts)
+
+-- Allow the new goal type
+ALTER TABLE goals DROP CONSTRAINT goals_type_check;
+ALTER TABLE goals ADD CONSTRAINT goals_type_check
+  CHECK (type IN ('long-term', 'short-term', 'habit'));
+
+-- Only short-term goals can have a parent goal
+ALTER TABLE goals DROP CONSTRAINT chk_parent_goal_type;
+ALTER TABLE goals ADD CONSTRAINT chk_parent_goal_type
+  CHECK (type = 'short-term' OR parent_goal_id IS NULL);
+
+-- Recurrence rule, e.g. {"frequency":"daily"}, {"frequency":"weekly","timesPerWeek":5}
+-- or {"frequency":"weekdays","weekdays":[1,3,5]} (0 = Sunday)
+ALTER TABLE goals ADD COLUMN recurrence JSONB;
+ALTER TABLE goals ADD CONSTRAINT chk_habit_recurrence
+  CHECK (type <> 'habit' OR recurrence IS NOT NULL);
+
+CREATE TABLE goal_checkins (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  checkin_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(goal_id, checkin_date)
+);
+
+-- Date-ordered lookups per habit
+CREATE INDEX idx_goal_checkins_goal_date ON goal_checkins(goal_id, checkin_date DESC);
+CREATE INDEX idx_goal_checkins_user_id ON goal_checkins(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE goal_checkins ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for goal_checkins
+CREATE POLICY "Users can view own checkins" ON goal_checkins
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own checkins" ON goal_checkins
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM goals WHERE id = goal_id AND user_id = auth.uid() AND type = 'habit')
+  );
+CREATE POLICY "Users can update own checkins" ON goal_checkins
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own checkins" ON goal_checkins
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN goals.recurrence IS 'Recurrence rule for habit goals. NULL for long-term and short-term goals.';
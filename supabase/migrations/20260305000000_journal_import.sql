@@ -0,0 +1,60 @@
+-- Migration: Bulk journal import
+-- PostgREST runs each RPC call in a single transaction, so importing through this
+-- function writes every entry and goal mention or nothing at all
+
+CREATE OR REPLACE FUNCTION import_journal_entries(p_entries JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_entry JSONB;
+  v_journal_id UUID;
+  v_ids UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_entries) <> 'array' THEN
+    RAISE EXCEPTION 'p_entries must be a JSON array';
+  END IF;
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_entries)
+  LOOP
+    INSERT INTO journal_entries (user_id, title, content, entry_date, mood, tags)
+    VALUES (
+      v_user_id,
+      v_entry->>'title',
+      v_entry->>'content',
+      (v_entry->>'entry_date')::DATE,
+      v_entry->>'mood',
+      COALESCE(
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_entry->'tags', '[]'::JSONB))),
+        '{}'
+      )
+    )
+    RETURNING id INTO v_journal_id;
+
+    -- Only link goals the user owns; unknown ids are dropped silently
+    INSERT INTO journal_goal_mentions (journal_entry_id, goal_id, mentioned_explicitly)
+    SELECT v_journal_id, g.id, TRUE
+    FROM goals g
+    WHERE g.user_id = v_user_id
+      AND g.id::TEXT IN (
+        SELECT jsonb_array_elements_text(COALESCE(v_entry->'goal_ids', '[]'::JSONB))
+      )
+    ON CONFLICT (journal_entry_id, goal_id) DO NOTHING;
+
+    v_ids := array_append(v_ids, v_journal_id);
+  END LOOP;
+
+  RETURN v_ids;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_journal_entries(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION import_journal_entries(JSONB) IS
+  'Atomically inserts journal entries ({entry_date, title, content, mood, tags, goal_ids}) for auth.uid(), returning their ids in order.';
@@ -0,0 +1,144 @@
+-- Migration: Full-text search for journals and goals
+-- Replaces ILIKE '%term%' scans with weighted tsvector columns (title ranks above
+-- body) backed by GIN indexes, plus one ranked search over both tables
+
+ALTER TABLE journal_entries
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+  ) STORED;
+
+ALTER TABLE goals
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(category, '')), 'C')
+  ) STORED;
+
+CREATE INDEX idx_journal_entries_search ON journal_entries USING GIN (search_vector);
+CREATE INDEX idx_goals_search ON goals USING GIN (search_vector);
+
+-- Ranked search across journal entries and goals for the current user
+-- p_query is a to_tsquery expression built by the app (phrases, prefixes, negation).
+-- Journal-only filters (mood, tag, dates) exclude goals from the results; the goal
+-- filter matches journals that mention the goal, and the goal itself plus its children.
+-- Highlights are delimited with U+E000/U+E001 so the app can escape the text safely.
+CREATE OR REPLACE FUNCTION search_all(
+  p_query TEXT,
+  p_kinds TEXT[] DEFAULT ARRAY['journal', 'goal'],
+  p_mood TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_goal_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL,
+  entry_date DATE,
+  mood TEXT,
+  tags TEXT[],
+  goal_type TEXT,
+  goal_status TEXT,
+  updated_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH search AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ),
+  matches AS (
+    SELECT
+      'journal'::TEXT AS kind,
+      j.id,
+      j.title,
+      j.content AS body,
+      ts_rank_cd(j.search_vector, s.query) AS rank,
+      j.entry_date,
+      j.mood,
+      j.tags,
+      NULL::TEXT AS goal_type,
+      NULL::TEXT AS goal_status,
+      j.updated_at
+    FROM journal_entries j, search s
+    WHERE 'journal' = ANY(p_kinds)
+      AND j.user_id = auth.uid()
+      AND j.search_vector @@ s.query
+      AND (p_mood IS NULL OR j.mood = p_mood)
+      AND (p_tag IS NULL OR p_tag = ANY(j.tags))
+      AND (p_date_from IS NULL OR j.entry_date >= p_date_from)
+      AND (p_date_to IS NULL OR j.entry_date <= p_date_to)
+      AND (
+        p_goal_id IS NULL OR EXISTS (
+          SELECT 1 FROM journal_goal_mentions m
+          WHERE m.journal_entry_id = j.id AND m.goal_id = p_goal_id
+        )
+      )
+
+    UNION ALL
+
+    SELECT
+      'goal'::TEXT,
+      g.id,
+      g.title,
+      COALESCE(g.description, ''),
+      ts_rank_cd(g.search_vector, s.query),
+      NULL::DATE,
+      NULL::TEXT,
+      NULL::TEXT[],
+      g.type,
+      g.status,
+      g.updated_at
+    FROM goals g, search s
+    WHERE 'goal' = ANY(p_kinds)
+      AND g.user_id = auth.uid()
+      AND g.search_vector @@ s.query
+      AND p_mood IS NULL
+      AND p_tag IS NULL
+      AND p_date_from IS NULL
+      AND p_date_to IS NULL
+      AND (p_goal_id IS NULL OR g.id = p_goal_id OR g.parent_goal_id = p_goal_id)
+  ),
+  page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.updated_at DESC, m.id
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are only generated for the returned page (ts_headline re-parses the text)
+  SELECT
+    p.kind,
+    p.id,
+    p.title,
+    ts_headline(
+      'english', COALESCE(p.title, ''), s.query,
+      'HighlightAll=true, StartSel=' || chr(57344) || ', StopSel=' || chr(57345)
+    ),
+    ts_headline(
+      'english', p.body, s.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+      ', MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    p.rank,
+    p.entry_date,
+    p.mood,
+    p.tags,
+    p.goal_type,
+    p.goal_status,
+    p.updated_at,
+    p.total_count
+  FROM page p, search s
+  ORDER BY p.rank DESC, p.updated_at DESC, p.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_all(TEXT, TEXT[], TEXT, TEXT, DATE, DATE, UUID, INT, INT) TO authenticated;
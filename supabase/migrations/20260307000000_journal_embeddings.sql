@@ -0,0 +1,90 @@
+-- Migration: Journal entry embeddings for semantic "related entries" and goal suggestions
+-- Vectors are computed by the app (pluggable provider, local by default) and stored
+-- per model, so switching providers never compares vectors from different spaces
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE journal_embeddings (
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE CASCADE PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL, -- md5 of title + content, to detect stale vectors
+  embedding VECTOR(384) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_journal_embeddings_user_model ON journal_embeddings(user_id, model);
+CREATE INDEX idx_journal_embeddings_vector ON journal_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Enable Row Level Security
+ALTER TABLE journal_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own journal embeddings" ON journal_embeddings
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own journal embeddings" ON journal_embeddings
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM journal_entries WHERE id = journal_entry_id AND user_id = auth.uid())
+  );
+CREATE POLICY "Users can update own journal embeddings" ON journal_embeddings
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own journal embeddings" ON journal_embeddings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Must match the app's content hash (see getJournalContentHash)
+CREATE OR REPLACE FUNCTION journal_content_hash(p_title TEXT, p_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(COALESCE(p_title, '') || E'\n' || p_content);
+$$;
+
+-- Entries of the current user with no up-to-date embedding for the given model
+CREATE OR REPLACE FUNCTION get_unindexed_journal_entries(p_model TEXT, p_limit INT DEFAULT 100)
+RETURNS SETOF journal_entries
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT j.*
+  FROM journal_entries j
+  WHERE j.user_id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM journal_embeddings e
+      WHERE e.journal_entry_id = j.id
+        AND e.model = p_model
+        AND e.content_hash = journal_content_hash(j.title, j.content)
+    )
+  ORDER BY j.entry_date DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$$;
+
+-- Nearest journal entries of the current user by cosine similarity
+CREATE OR REPLACE FUNCTION match_journal_entries(
+  p_embedding VECTOR(384),
+  p_model TEXT,
+  p_exclude_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 5,
+  p_min_similarity FLOAT DEFAULT 0.2
+)
+RETURNS TABLE (journal_entry_id UUID, similarity FLOAT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT e.journal_entry_id, 1 - (e.embedding <=> p_embedding) AS similarity
+  FROM journal_embeddings e
+  WHERE e.user_id = auth.uid()
+    AND e.model = p_model
+    AND (p_exclude_id IS NULL OR e.journal_entry_id <> p_exclude_id)
+    AND 1 - (e.embedding <=> p_embedding) >= p_min_similarity
+  ORDER BY e.embedding <=> p_embedding
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_unindexed_journal_entries(TEXT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION match_journal_entries(VECTOR(384), TEXT, UUID, INT, FLOAT) TO authenticated;
+
+COMMENT ON TABLE journal_embeddings IS 'One embedding per journal entry, written by the app on save and backfilled lazily.';
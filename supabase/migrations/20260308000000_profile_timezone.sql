@@ -0,0 +1,25 @@
+-- Migration: Add a per-user timezone
+-- "Today", streaks and dashboard date ranges are computed in this IANA zone
+-- (see src/lib/timezone.ts), not in the server's timezone
+
+ALTER TABLE profiles ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Store the timezone detected at signup (raw_user_meta_data.timezone) when the
+-- database knows it; anything else falls back to UTC and can be changed in settings
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, avatar_url, timezone)
+  VALUES (
+    new.id,
+    new.email,
+    new.raw_user_meta_data->>'full_name',
+    new.raw_user_meta_data->>'avatar_url',
+    COALESCE(
+      (SELECT name FROM pg_timezone_names WHERE name = new.raw_user_meta_data->>'timezone' LIMIT 1),
+      'UTC'
+    )
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,52 @@
+-- Migration: Personal access tokens for scripts and integrations
+-- Only a SHA-256 hash of each token is stored; the plaintext is shown once at creation.
+-- API routes exchange a valid token for a short-lived JWT (see src/lib/auth), so
+-- requests made with a token still run under the user's RLS policies
+
+CREATE TABLE personal_access_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL, -- first characters of the token, to tell tokens apart in the UI
+  scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_personal_access_tokens_user_id ON personal_access_tokens(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tokens" ON personal_access_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own tokens" ON personal_access_tokens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own tokens" ON personal_access_tokens
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Resolve a token hash to its owner and scopes, recording when it was last used.
+-- Runs as definer because the caller is not signed in yet; unknown, revoked and
+-- expired tokens return no row
+CREATE OR REPLACE FUNCTION authenticate_personal_access_token(p_token_hash TEXT)
+RETURNS TABLE (token_id UUID, user_id UUID, scopes TEXT[])
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE personal_access_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = p_token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.id, t.user_id, t.scopes;
+$$;
+
+REVOKE ALL ON FUNCTION authenticate_personal_access_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_personal_access_token(TEXT) TO anon, authenticated;
+
+COMMENT ON COLUMN personal_access_tokens.scopes IS 'Granted scopes, e.g. {goals:read,journals:write}. See TOKEN_SCOPES in src/lib/auth.';
@@ -0,0 +1,60 @@
+-- Migration: Outgoing webhooks
+-- Users register HTTPS endpoints for lifecycle events. Each event is recorded as one delivery
+-- per subscribed endpoint; deliveries that fail are retried with backoff by the cron route
+-- (see src/lib/webhooks), which reads across users with the service role
+
+CREATE TABLE webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT CHECK (char_length(description) <= 200),
+  events TEXT[] NOT NULL CHECK (cardinality(events) > 0),
+  secret TEXT NOT NULL, -- HMAC signing key; needed in plaintext to sign payloads
+  active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_webhook_endpoints_user_id ON webhook_endpoints(user_id, created_at DESC);
+
+CREATE TABLE webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID NOT NULL, -- shared by all deliveries of one event; receivers dedupe on it
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INTEGER DEFAULT 0 NOT NULL,
+  next_attempt_at TIMESTAMPTZ, -- set while pending
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own webhook deliveries" ON webhook_deliveries
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own webhook deliveries" ON webhook_deliveries
+  FOR UPDATE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN webhook_endpoints.events IS 'Subscribed event types, e.g. {goal.completed,journal.created}. See WEBHOOK_EVENT_TYPES in src/types.';
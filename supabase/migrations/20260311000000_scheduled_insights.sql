@@ -0,0 +1,15 @@
+-- Migration: Scheduled weekly and monthly insights
+-- /api/cron/insights stores one weekly_insights row per user and finished period (week or
+-- month) and emails it as a digest to users who have not turned digests off
+
+ALTER TABLE weekly_insights
+  ADD COLUMN period TEXT NOT NULL DEFAULT 'week' CHECK (period IN ('week', 'month')),
+  ADD COLUMN emailed_at TIMESTAMPTZ;
+
+-- A month can start on the same day as a week
+ALTER TABLE weekly_insights DROP CONSTRAINT weekly_insights_user_id_week_start_date_key;
+ALTER TABLE weekly_insights
+  ADD CONSTRAINT weekly_insights_user_id_period_week_start_date_key
+  UNIQUE (user_id, period, week_start_date);
+
+ALTER TABLE profiles ADD COLUMN email_digest BOOLEAN NOT NULL DEFAULT TRUE;
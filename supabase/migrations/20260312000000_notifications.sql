@@ -0,0 +1,78 @@
+-- Migration: Reminders and notifications
+-- The reminder job (/api/cron/reminders, see src/lib/notifications) evaluates nudge rules for
+-- each user at their reminder time and delivers what fires in-app, by email and by Web Push,
+-- according to the user's preferences. Each notification is stored once per dedupe key, so
+-- a rule never nags twice about the same thing
+
+CREATE TABLE notification_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  channels TEXT[] DEFAULT '{in_app,push}' NOT NULL,
+  rules TEXT[] DEFAULT '{journal_reminder,goal_deadline,goal_stale}' NOT NULL,
+  reminder_time TIME DEFAULT '21:00' NOT NULL, -- in the user's timezone
+  quiet_hours_start TIME, -- no reminders from start to end (may wrap past midnight)
+  quiet_hours_end TIME,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE TABLE notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  url TEXT, -- app path to open, e.g. /goals/<id>
+  data JSONB DEFAULT '{}' NOT NULL,
+  channels TEXT[] DEFAULT '{in_app}' NOT NULL, -- where it was delivered; the inbox shows in_app
+  dedupe_key TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+CREATE TABLE push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT NOT NULL CHECK (endpoint ~ '^https://'),
+  p256dh TEXT NOT NULL, -- browser public key (base64url), used to encrypt payloads
+  auth TEXT NOT NULL, -- browser auth secret (base64url)
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, endpoint)
+);
+
+-- Enable Row Level Security
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own notifications" ON notifications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own notifications" ON notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own notifications" ON notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own push subscriptions" ON push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own push subscriptions" ON push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own push subscriptions" ON push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own push subscriptions" ON push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN notification_preferences.channels IS 'Delivery channels: in_app, email, push. See NOTIFICATION_CHANNELS in src/types.';
+COMMENT ON COLUMN notification_preferences.rules IS 'Enabled reminder rules. See REMINDER_RULES in src/types.';
@@ -0,0 +1,41 @@
+-- Migration: Journal drafts
+-- The journal editors autosave to a draft every few seconds, so closing a modal by accident
+-- loses nothing. A draft either starts a new entry or holds unsaved edits of an existing one
+-- (at most one per entry), and is deleted when the entry is saved.
+-- version is bumped on every save; a save must name the version it was based on, so edits of
+-- the same draft from two devices (web and iOS) are detected instead of overwriting each other
+
+CREATE TABLE journal_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE CASCADE, -- NULL for a new entry
+  title TEXT,
+  content TEXT DEFAULT '' NOT NULL,
+  entry_date DATE,
+  mood TEXT,
+  tags TEXT[] DEFAULT '{}' NOT NULL,
+  goal_ids UUID[] DEFAULT '{}' NOT NULL,
+  version INTEGER DEFAULT 1 NOT NULL,
+  device TEXT, -- client that saved last, e.g. web or ios
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_journal_drafts_user_id ON journal_drafts(user_id, updated_at DESC);
+CREATE UNIQUE INDEX idx_journal_drafts_entry ON journal_drafts(journal_entry_id)
+  WHERE journal_entry_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE journal_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own journal drafts" ON journal_drafts
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own journal drafts" ON journal_drafts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own journal drafts" ON journal_drafts
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own journal drafts" ON journal_drafts
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE journal_drafts IS 'Autosaved journal editor content, deleted when the entry is saved';
+COMMENT ON COLUMN journal_drafts.version IS 'Incremented on every save; saves based on an older version are rejected as conflicts';
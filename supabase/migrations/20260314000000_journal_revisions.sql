@@ -0,0 +1,31 @@
+-- Migration: Journal entry revisions
+-- Updating a journal entry overwrites it in place, so before each change the entry as it was
+-- (title, content, mood, tags and linked goals) is appended here. Any revision can be
+-- restored, which is itself an update and so records the version it replaces.
+
+CREATE TABLE journal_entry_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  mood TEXT,
+  tags TEXT[] DEFAULT '{}' NOT NULL,
+  goal_ids UUID[] DEFAULT '{}' NOT NULL,
+  saved_at TIMESTAMPTZ NOT NULL, -- when this version was saved (the entry's updated_at then)
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL -- when it was replaced
+);
+
+CREATE INDEX idx_journal_entry_revisions_entry ON journal_entry_revisions(journal_entry_id, created_at DESC);
+CREATE INDEX idx_journal_entry_revisions_user_id ON journal_entry_revisions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE journal_entry_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for journal_entry_revisions (append-only from the client; deleted with the entry)
+CREATE POLICY "Users can view own journal revisions" ON journal_entry_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own journal revisions" ON journal_entry_revisions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE journal_entry_revisions IS 'Previous versions of journal entries, written by updateJournalEntry.';
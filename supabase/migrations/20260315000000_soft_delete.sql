@@ -0,0 +1,250 @@
+-- Migration: Trash for goals and journal entries
+-- Deleting a goal or journal entry now sets deleted_at instead of removing the row. Trashed
+-- rows keep their goal mentions and child goals' parent_goal_id, so restoring one (clearing
+-- deleted_at) brings its links back. The app hides trashed rows from every query and purges
+-- them for good 30 days after deletion, when the existing cascades apply.
+
+ALTER TABLE goals ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE journal_entries ADD COLUMN deleted_at TIMESTAMPTZ;
+
+-- Trash listings and the purge job only ever look at trashed rows
+CREATE INDEX idx_goals_deleted_at ON goals(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_journal_entries_deleted_at ON journal_entries(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Moving a row to or from the trash is not an edit, so it leaves updated_at alone
+DROP TRIGGER update_goals_updated_at ON goals;
+CREATE TRIGGER update_goals_updated_at BEFORE UPDATE ON goals
+  FOR EACH ROW WHEN (OLD.deleted_at IS NOT DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER update_journal_entries_updated_at ON journal_entries;
+CREATE TRIGGER update_journal_entries_updated_at BEFORE UPDATE ON journal_entries
+  FOR EACH ROW WHEN (OLD.deleted_at IS NOT DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The functions below are unchanged apart from skipping trashed rows
+
+CREATE OR REPLACE FUNCTION search_all(
+  p_query TEXT,
+  p_kinds TEXT[] DEFAULT ARRAY['journal', 'goal'],
+  p_mood TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_goal_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL,
+  entry_date DATE,
+  mood TEXT,
+  tags TEXT[],
+  goal_type TEXT,
+  goal_status TEXT,
+  updated_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH search AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ),
+  matches AS (
+    SELECT
+      'journal'::TEXT AS kind,
+      j.id,
+      j.title,
+      j.content AS body,
+      ts_rank_cd(j.search_vector, s.query) AS rank,
+      j.entry_date,
+      j.mood,
+      j.tags,
+      NULL::TEXT AS goal_type,
+      NULL::TEXT AS goal_status,
+      j.updated_at
+    FROM journal_entries j, search s
+    WHERE 'journal' = ANY(p_kinds)
+      AND j.user_id = auth.uid()
+      AND j.deleted_at IS NULL
+      AND j.search_vector @@ s.query
+      AND (p_mood IS NULL OR j.mood = p_mood)
+      AND (p_tag IS NULL OR p_tag = ANY(j.tags))
+      AND (p_date_from IS NULL OR j.entry_date >= p_date_from)
+      AND (p_date_to IS NULL OR j.entry_date <= p_date_to)
+      AND (
+        p_goal_id IS NULL OR EXISTS (
+          SELECT 1 FROM journal_goal_mentions m
+          WHERE m.journal_entry_id = j.id AND m.goal_id = p_goal_id
+        )
+      )
+
+    UNION ALL
+
+    SELECT
+      'goal'::TEXT,
+      g.id,
+      g.title,
+      COALESCE(g.description, ''),
+      ts_rank_cd(g.search_vector, s.query),
+      NULL::DATE,
+      NULL::TEXT,
+      NULL::TEXT[],
+      g.type,
+      g.status,
+      g.updated_at
+    FROM goals g, search s
+    WHERE 'goal' = ANY(p_kinds)
+      AND g.user_id = auth.uid()
+      AND g.deleted_at IS NULL
+      AND g.search_vector @@ s.query
+      AND p_mood IS NULL
+      AND p_tag IS NULL
+      AND p_date_from IS NULL
+      AND p_date_to IS NULL
+      AND (p_goal_id IS NULL OR g.id = p_goal_id OR g.parent_goal_id = p_goal_id)
+  ),
+  page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.updated_at DESC, m.id
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are only generated for the returned page (ts_headline re-parses the text)
+  SELECT
+    p.kind,
+    p.id,
+    p.title,
+    ts_headline(
+      'english', COALESCE(p.title, ''), s.query,
+      'HighlightAll=true, StartSel=' || chr(57344) || ', StopSel=' || chr(57345)
+    ),
+    ts_headline(
+      'english', p.body, s.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+      ', MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    p.rank,
+    p.entry_date,
+    p.mood,
+    p.tags,
+    p.goal_type,
+    p.goal_status,
+    p.updated_at,
+    p.total_count
+  FROM page p, search s
+  ORDER BY p.rank DESC, p.updated_at DESC, p.id;
+$$;
+
+
+CREATE OR REPLACE FUNCTION get_unindexed_journal_entries(p_model TEXT, p_limit INT DEFAULT 100)
+RETURNS SETOF journal_entries
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT j.*
+  FROM journal_entries j
+  WHERE j.user_id = auth.uid()
+    AND j.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM journal_embeddings e
+      WHERE e.journal_entry_id = j.id
+        AND e.model = p_model
+        AND e.content_hash = journal_content_hash(j.title, j.content)
+    )
+  ORDER BY j.entry_date DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$$;
+
+
+-- Nearest journal entries of the current user by cosine similarity
+CREATE OR REPLACE FUNCTION match_journal_entries(
+  p_embedding VECTOR(384),
+  p_model TEXT,
+  p_exclude_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 5,
+  p_min_similarity FLOAT DEFAULT 0.2
+)
+RETURNS TABLE (journal_entry_id UUID, similarity FLOAT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT e.journal_entry_id, 1 - (e.embedding <=> p_embedding) AS similarity
+  FROM journal_embeddings e
+  JOIN journal_entries j ON j.id = e.journal_entry_id
+  WHERE e.user_id = auth.uid()
+    AND j.deleted_at IS NULL
+    AND e.model = p_model
+    AND (p_exclude_id IS NULL OR e.journal_entry_id <> p_exclude_id)
+    AND 1 - (e.embedding <=> p_embedding) >= p_min_similarity
+  ORDER BY e.embedding <=> p_embedding
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+
+CREATE OR REPLACE FUNCTION import_journal_entries(p_entries JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_entry JSONB;
+  v_journal_id UUID;
+  v_ids UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_entries) <> 'array' THEN
+    RAISE EXCEPTION 'p_entries must be a JSON array';
+  END IF;
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_entries)
+  LOOP
+    INSERT INTO journal_entries (user_id, title, content, entry_date, mood, tags)
+    VALUES (
+      v_user_id,
+      v_entry->>'title',
+      v_entry->>'content',
+      (v_entry->>'entry_date')::DATE,
+      v_entry->>'mood',
+      COALESCE(
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_entry->'tags', '[]'::JSONB))),
+        '{}'
+      )
+    )
+    RETURNING id INTO v_journal_id;
+
+    -- Only link goals the user owns and hasn't trashed; other ids are dropped silently
+    INSERT INTO journal_goal_mentions (journal_entry_id, goal_id, mentioned_explicitly)
+    SELECT v_journal_id, g.id, TRUE
+    FROM goals g
+    WHERE g.user_id = v_user_id
+      AND g.deleted_at IS NULL
+      AND g.id::TEXT IN (
+        SELECT jsonb_array_elements_text(COALESCE(v_entry->'goal_ids', '[]'::JSONB))
+      )
+    ON CONFLICT (journal_entry_id, goal_id) DO NOTHING;
+
+    v_ids := array_append(v_ids, v_journal_id);
+  END LOOP;
+
+  RETURN v_ids;
+END;
+$$;
+
+
+COMMENT ON COLUMN goals.deleted_at IS 'When the goal was moved to the trash; purged 30 days later.';
+COMMENT ON COLUMN journal_entries.deleted_at IS 'When the entry was moved to the trash; purged 30 days later.';
@@ -0,0 +1,413 @@
+-- Migration: Incremental sync for mobile clients
+-- Every insert and update of a goal, journal entry or goal mention stamps the row with the next
+-- value of sync_change_seq, and deleting one leaves a tombstone stamped the same way. A client
+-- asks for everything stamped after the last value it saw (its cursor). Moving a row to the
+-- trash is an update, so trashed rows are reported as deleted and restored ones as changed.
+
+CREATE SEQUENCE sync_change_seq;
+
+ALTER TABLE goals ADD COLUMN change_seq BIGINT DEFAULT nextval('sync_change_seq') NOT NULL;
+ALTER TABLE journal_entries ADD COLUMN change_seq BIGINT DEFAULT nextval('sync_change_seq') NOT NULL;
+ALTER TABLE journal_goal_mentions ADD COLUMN change_seq BIGINT DEFAULT nextval('sync_change_seq') NOT NULL;
+
+CREATE INDEX idx_goals_change_seq ON goals(user_id, change_seq);
+CREATE INDEX idx_journal_entries_change_seq ON journal_entries(user_id, change_seq);
+CREATE INDEX idx_journal_goal_mentions_change_seq ON journal_goal_mentions(change_seq);
+
+CREATE OR REPLACE FUNCTION bump_change_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.change_seq = nextval('sync_change_seq');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_goals_change_seq BEFORE UPDATE ON goals
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+CREATE TRIGGER bump_journal_entries_change_seq BEFORE UPDATE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+CREATE TRIGGER bump_journal_goal_mentions_change_seq BEFORE UPDATE ON journal_goal_mentions
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+
+-- Rows that no longer exist: goals and entries purged from the trash, and removed mentions
+CREATE TABLE sync_tombstones (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entity TEXT NOT NULL CHECK (entity IN ('goal', 'journal_entry', 'mention')),
+  entity_id UUID NOT NULL,
+  change_seq BIGINT DEFAULT nextval('sync_change_seq') NOT NULL,
+  deleted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_sync_tombstones_change_seq ON sync_tombstones(user_id, change_seq);
+
+ALTER TABLE sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Users can view own tombstones" ON sync_tombstones
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION record_sync_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'journal_goal_mentions' THEN
+    -- Mentions deleted along with their entry are covered by the entry's tombstone
+    SELECT user_id INTO v_user_id FROM journal_entries WHERE id = OLD.journal_entry_id;
+  ELSE
+    v_user_id := OLD.user_id;
+  END IF;
+
+  -- Nothing to record when the account itself is being deleted
+  IF v_user_id IS NOT NULL AND EXISTS (SELECT 1 FROM auth.users WHERE id = v_user_id) THEN
+    INSERT INTO sync_tombstones (user_id, entity, entity_id)
+    VALUES (v_user_id, TG_ARGV[0], OLD.id);
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER record_goals_tombstone AFTER DELETE ON goals
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone('goal');
+CREATE TRIGGER record_journal_entries_tombstone AFTER DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone('journal_entry');
+CREATE TRIGGER record_journal_goal_mentions_tombstone AFTER DELETE ON journal_goal_mentions
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone('mention');
+
+GRANT USAGE ON SEQUENCE sync_change_seq TO authenticated, service_role;
+
+
+-- Changes of the current user stamped after p_since, oldest first. Rows come back as stored
+-- (snake_case, without search_vector); deleted ones only by id. p_since = 0 is a full sync, which
+-- leaves deletions out. A page holds about p_limit rows but never splits rows with the same
+-- change_seq, so the last row's change_seq is always a safe cursor.
+CREATE OR REPLACE FUNCTION get_sync_changes(p_since BIGINT DEFAULT 0, p_limit INT DEFAULT 500)
+RETURNS TABLE (entity TEXT, id UUID, deleted BOOLEAN, data JSONB, change_seq BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH changes AS (
+    SELECT
+      'goal'::TEXT AS entity,
+      g.id,
+      g.deleted_at IS NOT NULL AS deleted,
+      CASE WHEN g.deleted_at IS NULL THEN to_jsonb(g) - 'search_vector' - 'change_seq' END AS data,
+      g.change_seq
+    FROM goals g
+    WHERE g.user_id = auth.uid()
+      AND g.change_seq > p_since
+      AND (p_since > 0 OR g.deleted_at IS NULL)
+
+    UNION ALL
+
+    SELECT
+      'journal_entry',
+      j.id,
+      j.deleted_at IS NOT NULL,
+      CASE WHEN j.deleted_at IS NULL THEN to_jsonb(j) - 'search_vector' - 'change_seq' END,
+      j.change_seq
+    FROM journal_entries j
+    WHERE j.user_id = auth.uid()
+      AND j.change_seq > p_since
+      AND (p_since > 0 OR j.deleted_at IS NULL)
+
+    UNION ALL
+
+    -- A mention is resent whenever its entry or goal changes, so mentions come back with an
+    -- entry or goal restored from the trash. Those of trashed entries and goals are left out;
+    -- clients drop them together with the entry or goal.
+    SELECT
+      'mention',
+      m.id,
+      FALSE,
+      to_jsonb(m) - 'change_seq',
+      GREATEST(m.change_seq, j.change_seq, g.change_seq)
+    FROM journal_goal_mentions m
+    JOIN journal_entries j ON j.id = m.journal_entry_id
+    JOIN goals g ON g.id = m.goal_id
+    WHERE j.user_id = auth.uid()
+      AND j.deleted_at IS NULL
+      AND g.deleted_at IS NULL
+      AND GREATEST(m.change_seq, j.change_seq, g.change_seq) > p_since
+
+    UNION ALL
+
+    SELECT t.entity, t.entity_id, TRUE, NULL, t.change_seq
+    FROM sync_tombstones t
+    WHERE t.user_id = auth.uid()
+      AND t.change_seq > p_since
+      AND p_since > 0
+  ),
+  page_end AS (
+    SELECT c.change_seq
+    FROM changes c
+    ORDER BY c.change_seq
+    OFFSET LEAST(GREATEST(p_limit, 1), 1000) - 1
+    LIMIT 1
+  )
+  SELECT c.entity, c.id, c.deleted, c.data, c.change_seq
+  FROM changes c
+  WHERE NOT EXISTS (SELECT 1 FROM page_end)
+    OR c.change_seq <= (SELECT change_seq FROM page_end)
+  ORDER BY c.change_seq, c.entity, c.id;
+$$;
+
+
+-- Applies a batch of client changes in one transaction, in order. Each item is
+-- { entity: 'goal' | 'journal_entry' | 'mention', op: 'create' | 'update' | 'delete', id,
+--   data (columns to set, snake_case), expected_updated_at }.
+-- Items that conflict are skipped and reported instead of applied:
+--   exists  - created with an id (or, for a mention, an entry and goal) that is already taken
+--   deleted - updates a goal or entry that is gone or in the trash, or links one
+--   stale   - expected_updated_at is set and the goal or entry has been updated since
+-- Deleting moves goals and entries to the trash; deleting something already gone is a no-op.
+-- Any other failure rolls the whole batch back, with the item's index in the error detail.
+CREATE OR REPLACE FUNCTION apply_sync_mutations(p_mutations JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_mutation JSONB;
+  v_index INT := -1;
+  v_entity TEXT;
+  v_op TEXT;
+  v_id UUID;
+  v_expected TIMESTAMPTZ;
+  v_data JSONB;
+  v_goal goals;
+  v_entry journal_entries;
+  v_mention journal_goal_mentions;
+  v_before JSONB;
+  v_after JSONB;
+  v_reason TEXT;
+  v_applied JSONB := '[]';
+  v_conflicts JSONB := '[]';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_mutations) <> 'array' THEN
+    RAISE EXCEPTION 'p_mutations must be a JSON array';
+  END IF;
+
+  FOR v_mutation IN SELECT value FROM jsonb_array_elements(p_mutations)
+  LOOP
+    v_index := v_index + 1;
+    v_entity := v_mutation->>'entity';
+    v_op := v_mutation->>'op';
+    v_id := (v_mutation->>'id')::UUID;
+    v_expected := (v_mutation->>'expected_updated_at')::TIMESTAMPTZ;
+    v_data := COALESCE(v_mutation->'data', '{}'::JSONB);
+    v_before := NULL;
+    v_after := NULL;
+    v_reason := NULL;
+
+    BEGIN
+      IF v_entity = 'goal' THEN
+        SELECT * INTO v_goal FROM goals WHERE goals.id = v_id AND user_id = v_user_id FOR UPDATE;
+        IF v_goal.id IS NOT NULL THEN
+          v_before := to_jsonb(v_goal) - 'search_vector' - 'change_seq';
+        END IF;
+
+        IF v_op = 'create' THEN
+          IF v_goal.id IS NOT NULL THEN
+            v_reason := 'exists';
+          ELSE
+            v_goal := jsonb_populate_record(NULL::goals, v_data);
+            INSERT INTO goals (
+              id, user_id, title, description, type, category, target_date, status,
+              progress_percentage, parent_goal_id, progress_mode, rollup_weighting,
+              auto_complete, rollup_weight, recurrence
+            )
+            VALUES (
+              v_id, v_user_id, v_goal.title, v_goal.description, v_goal.type, v_goal.category,
+              v_goal.target_date, v_goal.status, v_goal.progress_percentage,
+              v_goal.parent_goal_id, v_goal.progress_mode, v_goal.rollup_weighting,
+              v_goal.auto_complete, v_goal.rollup_weight, v_goal.recurrence
+            )
+            RETURNING * INTO v_goal;
+          END IF;
+        ELSIF v_goal.id IS NULL OR v_goal.deleted_at IS NOT NULL THEN
+          IF v_op = 'update' THEN
+            v_reason := 'deleted';
+            v_before := NULL;
+          END IF;
+        ELSIF v_expected IS NOT NULL AND date_trunc('milliseconds', v_goal.updated_at) <> v_expected THEN
+          v_reason := 'stale';
+        ELSIF v_op = 'update' THEN
+          v_goal := jsonb_populate_record(v_goal, v_data);
+          UPDATE goals SET
+            title = v_goal.title,
+            description = v_goal.description,
+            type = v_goal.type,
+            category = v_goal.category,
+            target_date = v_goal.target_date,
+            status = v_goal.status,
+            progress_percentage = v_goal.progress_percentage,
+            parent_goal_id = v_goal.parent_goal_id,
+            progress_mode = v_goal.progress_mode,
+            rollup_weighting = v_goal.rollup_weighting,
+            auto_complete = v_goal.auto_complete,
+            rollup_weight = v_goal.rollup_weight,
+            recurrence = v_goal.recurrence
+          WHERE goals.id = v_id
+          RETURNING * INTO v_goal;
+        ELSIF v_op = 'delete' THEN
+          UPDATE goals SET deleted_at = NOW() WHERE goals.id = v_id RETURNING * INTO v_goal;
+        ELSE
+          RAISE EXCEPTION 'Unknown goal operation: %', v_op;
+        END IF;
+
+        IF v_reason IS NULL AND v_goal.id IS NOT NULL THEN
+          v_after := to_jsonb(v_goal) - 'search_vector' - 'change_seq';
+        END IF;
+
+      ELSIF v_entity = 'journal_entry' THEN
+        SELECT * INTO v_entry FROM journal_entries
+        WHERE journal_entries.id = v_id AND user_id = v_user_id
+        FOR UPDATE;
+        IF v_entry.id IS NOT NULL THEN
+          v_before := to_jsonb(v_entry) - 'search_vector' - 'change_seq';
+        END IF;
+
+        IF v_op = 'create' THEN
+          IF v_entry.id IS NOT NULL THEN
+            v_reason := 'exists';
+          ELSE
+            v_entry := jsonb_populate_record(NULL::journal_entries, v_data);
+            INSERT INTO journal_entries (id, user_id, title, content, entry_date, mood, tags)
+            VALUES (
+              v_id, v_user_id, v_entry.title, v_entry.content, v_entry.entry_date,
+              v_entry.mood, COALESCE(v_entry.tags, '{}')
+            )
+            RETURNING * INTO v_entry;
+          END IF;
+        ELSIF v_entry.id IS NULL OR v_entry.deleted_at IS NOT NULL THEN
+          IF v_op = 'update' THEN
+            v_reason := 'deleted';
+            v_before := NULL;
+          END IF;
+        ELSIF v_expected IS NOT NULL AND date_trunc('milliseconds', v_entry.updated_at) <> v_expected THEN
+          v_reason := 'stale';
+        ELSIF v_op = 'update' THEN
+          -- Keep the entry as it was in its history, as updateJournalEntry does
+          IF (v_data ? 'title' AND v_data->>'title' IS DISTINCT FROM v_entry.title)
+            OR (v_data ? 'content' AND v_data->>'content' IS DISTINCT FROM v_entry.content)
+            OR (v_data ? 'mood' AND v_data->>'mood' IS DISTINCT FROM v_entry.mood)
+            OR (v_data ? 'tags' AND v_data->'tags' IS DISTINCT FROM to_jsonb(COALESCE(v_entry.tags, '{}')))
+          THEN
+            INSERT INTO journal_entry_revisions (
+              journal_entry_id, user_id, title, content, mood, tags, goal_ids, saved_at
+            )
+            VALUES (
+              v_entry.id, v_user_id, v_entry.title, v_entry.content, v_entry.mood,
+              COALESCE(v_entry.tags, '{}'),
+              ARRAY(SELECT goal_id FROM journal_goal_mentions WHERE journal_entry_id = v_entry.id),
+              v_entry.updated_at
+            );
+          END IF;
+
+          v_entry := jsonb_populate_record(v_entry, v_data);
+          UPDATE journal_entries SET
+            title = v_entry.title,
+            content = v_entry.content,
+            entry_date = v_entry.entry_date,
+            mood = v_entry.mood,
+            tags = COALESCE(v_entry.tags, '{}')
+          WHERE journal_entries.id = v_id
+          RETURNING * INTO v_entry;
+        ELSIF v_op = 'delete' THEN
+          UPDATE journal_entries SET deleted_at = NOW()
+          WHERE journal_entries.id = v_id
+          RETURNING * INTO v_entry;
+        ELSE
+          RAISE EXCEPTION 'Unknown journal entry operation: %', v_op;
+        END IF;
+
+        IF v_reason IS NULL AND v_entry.id IS NOT NULL THEN
+          v_after := to_jsonb(v_entry) - 'search_vector' - 'change_seq';
+        END IF;
+
+      ELSIF v_entity = 'mention' THEN
+        IF v_op = 'create' THEN
+          SELECT * INTO v_mention FROM journal_goal_mentions
+          WHERE journal_goal_mentions.id = v_id
+            OR (
+              journal_entry_id = (v_data->>'journal_entry_id')::UUID
+              AND goal_id = (v_data->>'goal_id')::UUID
+            );
+
+          IF v_mention.id IS NOT NULL THEN
+            v_reason := 'exists';
+            v_before := to_jsonb(v_mention) - 'change_seq';
+          ELSIF NOT EXISTS (
+            SELECT 1 FROM journal_entries
+            WHERE journal_entries.id = (v_data->>'journal_entry_id')::UUID
+              AND user_id = v_user_id
+              AND deleted_at IS NULL
+          ) OR NOT EXISTS (
+            SELECT 1 FROM goals
+            WHERE goals.id = (v_data->>'goal_id')::UUID
+              AND user_id = v_user_id
+              AND deleted_at IS NULL
+          ) THEN
+            v_reason := 'deleted';
+          ELSE
+            INSERT INTO journal_goal_mentions (id, journal_entry_id, goal_id, mentioned_explicitly)
+            VALUES (
+              v_id,
+              (v_data->>'journal_entry_id')::UUID,
+              (v_data->>'goal_id')::UUID,
+              COALESCE((v_data->>'mentioned_explicitly')::BOOLEAN, TRUE)
+            )
+            RETURNING * INTO v_mention;
+            v_after := to_jsonb(v_mention) - 'change_seq';
+          END IF;
+        ELSIF v_op = 'delete' THEN
+          -- RLS limits this to mentions of the user's own entries
+          DELETE FROM journal_goal_mentions WHERE journal_goal_mentions.id = v_id;
+        ELSE
+          RAISE EXCEPTION 'Unknown mention operation: %', v_op;
+        END IF;
+
+      ELSE
+        RAISE EXCEPTION 'Unknown entity: %', v_entity;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION '%', SQLERRM USING ERRCODE = SQLSTATE, DETAIL = format('mutation %s', v_index);
+    END;
+
+    IF v_reason IS NULL THEN
+      v_applied := v_applied || jsonb_build_object(
+        'index', v_index, 'entity', v_entity, 'op', v_op, 'id', v_id,
+        'before', v_before, 'after', v_after
+      );
+    ELSE
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'index', v_index, 'entity', v_entity, 'op', v_op, 'id', v_id,
+        'reason', v_reason, 'current', v_before
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('applied', v_applied, 'conflicts', v_conflicts);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sync_changes(BIGINT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_sync_mutations(JSONB) TO authenticated;
+
+COMMENT ON COLUMN goals.change_seq IS 'Position of the last insert or update in sync_change_seq; drives /api/sync.';
+COMMENT ON COLUMN journal_entries.change_seq IS 'Position of the last insert or update in sync_change_seq; drives /api/sync.';
+COMMENT ON COLUMN journal_goal_mentions.change_seq IS 'Position of the last insert or update in sync_change_seq; drives /api/sync.';
+COMMENT ON TABLE sync_tombstones IS 'Deleted goals, journal entries and mentions, so clients can sync deletions.';
@@ -0,0 +1,49 @@
+-- Migration: Journal entry attachments
+-- Photos, audio memos and files attached to journal entries. The bytes live in a storage
+-- backend (the private "attachments" Supabase Storage bucket in production, a local directory
+-- in development) under storage_key; this table holds their metadata. Entries reference
+-- attachments from their Markdown content as attachment:<id> links.
+
+CREATE TABLE journal_attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'audio', 'file')),
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  storage_key TEXT NOT NULL UNIQUE,
+  thumbnail_key TEXT UNIQUE, -- Images only, when a thumbnail could be generated
+  width INTEGER, -- Images only, in pixels
+  height INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_journal_attachments_entry ON journal_attachments(journal_entry_id, created_at);
+CREATE INDEX idx_journal_attachments_user_id ON journal_attachments(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE journal_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for journal_attachments (attachments are never edited, only added and removed)
+CREATE POLICY "Users can view own journal attachments" ON journal_attachments
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert attachments on own journal entries" ON journal_attachments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM journal_entries
+      WHERE journal_entries.id = journal_entry_id
+        AND journal_entries.user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can delete own journal attachments" ON journal_attachments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Private bucket for STORAGE_BACKEND=supabase. The app reads and writes it with the service
+-- role after checking journal_attachments, so it needs no storage policies of its own.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE journal_attachments IS 'Files attached to journal entries; the contents are in the storage backend under storage_key.';
@@ -0,0 +1,18 @@
+-- Migration: Starting states for progress charts
+-- Charts only read the goal_progress_events inside their range; each goal's state when the
+-- range begins is its latest event before it, one row per goal instead of the whole history
+
+CREATE OR REPLACE FUNCTION get_goal_progress_before(p_before TIMESTAMPTZ)
+RETURNS TABLE (goal_id UUID, progress_percentage INT, status TEXT, recorded_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT DISTINCT ON (e.goal_id) e.goal_id, e.progress_percentage, e.status, e.recorded_at
+  FROM goal_progress_events e
+  WHERE e.user_id = auth.uid()
+    AND e.recorded_at < p_before
+  ORDER BY e.goal_id, e.recorded_at DESC, e.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_goal_progress_before(TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,94 @@
+-- Migration: Sync cursors in commit order
+-- nextval() hands out change_seq values when rows are written, not when their transactions
+-- commit, so a sync could see a later change_seq before an earlier one committed and move its
+-- cursor past a change it never saw. Each user's change_seq values now come from a counter row
+-- that stays locked until the writing transaction ends: the user's next write waits for it, so
+-- once a change_seq is visible every lower one of that user is too. Writes of one user are
+-- serialized for the length of their transactions; writes of different users are not.
+
+CREATE TABLE sync_counters (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  last_seq BIGINT NOT NULL
+);
+
+-- Only used through next_change_seq
+ALTER TABLE sync_counters ENABLE ROW LEVEL SECURITY;
+
+-- A user's first counter starts from the global sequence, above every change_seq stamped before
+-- this migration, so existing cursors stay valid
+CREATE OR REPLACE FUNCTION next_change_seq(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO sync_counters (user_id, last_seq)
+  VALUES (p_user_id, nextval('sync_change_seq'))
+  ON CONFLICT (user_id) DO UPDATE SET last_seq = sync_counters.last_seq + 1
+  RETURNING last_seq;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_change_seq(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION bump_change_seq()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'journal_goal_mentions' THEN
+    SELECT user_id INTO v_user_id FROM journal_entries WHERE id = NEW.journal_entry_id;
+  ELSE
+    v_user_id := NEW.user_id;
+  END IF;
+
+  NEW.change_seq = next_change_seq(v_user_id);
+  RETURN NEW;
+END;
+$$;
+
+-- Inserts are stamped by the trigger too, instead of the nextval() column defaults
+DROP TRIGGER bump_goals_change_seq ON goals;
+DROP TRIGGER bump_journal_entries_change_seq ON journal_entries;
+DROP TRIGGER bump_journal_goal_mentions_change_seq ON journal_goal_mentions;
+
+CREATE TRIGGER bump_goals_change_seq BEFORE INSERT OR UPDATE ON goals
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+CREATE TRIGGER bump_journal_entries_change_seq BEFORE INSERT OR UPDATE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+CREATE TRIGGER bump_journal_goal_mentions_change_seq BEFORE INSERT OR UPDATE ON journal_goal_mentions
+  FOR EACH ROW EXECUTE FUNCTION bump_change_seq();
+
+CREATE OR REPLACE FUNCTION record_sync_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'journal_goal_mentions' THEN
+    -- Mentions deleted along with their entry are covered by the entry's tombstone
+    SELECT user_id INTO v_user_id FROM journal_entries WHERE id = OLD.journal_entry_id;
+  ELSE
+    v_user_id := OLD.user_id;
+  END IF;
+
+  -- Nothing to record when the account itself is being deleted
+  IF v_user_id IS NOT NULL AND EXISTS (SELECT 1 FROM auth.users WHERE id = v_user_id) THEN
+    INSERT INTO sync_tombstones (user_id, entity, entity_id, change_seq)
+    VALUES (v_user_id, TG_ARGV[0], OLD.id, next_change_seq(v_user_id));
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+COMMENT ON TABLE sync_counters IS 'Last change_seq of each user; its row lock keeps change_seq in commit order.';
+COMMENT ON COLUMN goals.change_seq IS 'Position of the last insert or update in the user''s change order; drives /api/sync.';
+COMMENT ON COLUMN journal_entries.change_seq IS 'Position of the last insert or update in the user''s change order; drives /api/sync.';
+COMMENT ON COLUMN journal_goal_mentions.change_seq IS 'Position of the last insert or update in the user''s change order; drives /api/sync.';